@@ -10,11 +10,15 @@ import Login from "./pages/Login";
 import Register from "./pages/Register";
 import Dashboard from "./pages/Dashboard";
 import Hires from "./pages/Hires";
+import HiresBoard from "./pages/HiresBoard";
 import HireDetail from "./pages/HireDetail";
 import Import from "./pages/Import";
+import Calendar from "./pages/Calendar";
 import Settings from "./pages/Settings";
 import HrisSync from "./pages/HrisSync";
 import OnboardEmail from "./pages/OnboardEmail";
+import Jobs from "./pages/Jobs";
+import Trash from "./pages/Trash";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -55,9 +59,13 @@ const App = () => (
           <Route path="/register" element={<Register />} />
           <Route path="/dashboard" element={<Dashboard />} />
           <Route path="/hires" element={<Hires />} />
+          <Route path="/hires/board" element={<HiresBoard />} />
           <Route path="/hires/:id" element={<HireDetail />} />
           <Route path="/import" element={<Import />} />
+          <Route path="/calendar" element={<Calendar />} />
           <Route path="/onboard-email" element={<OnboardEmail />} />
+          <Route path="/jobs" element={<Jobs />} />
+          <Route path="/trash" element={<Trash />} />
           <Route path="/hris-sync" element={
             <AdminOrSupportRoute>
               <HrisSync />
@@ -0,0 +1,119 @@
+import { useState } from "react";
+import axios from "axios";
+import { format } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Copy, Link2, Loader2, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { calendarService } from "@/services/calendar-service";
+
+// Subscription link to the ICS feed of hire arrivals, for Outlook and other calendar apps
+export function CalendarFeedCard() {
+  const [token, setToken] = useState<string | null>(null);
+  const [mineOnly, setMineOnly] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ['calendar-feed'],
+    queryFn: calendarService.getFeedStatus,
+  });
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: axios.isAxiosError(error) ? error.response?.data?.error || error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: calendarService.createFeed,
+    onSuccess: (result) => {
+      setToken(result.token);
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed'] });
+    },
+    onError: showError("Could Not Create Link"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: calendarService.revokeFeed,
+    onSuccess: () => {
+      setToken(null);
+      queryClient.invalidateQueries({ queryKey: ['calendar-feed'] });
+      toast({ title: "Link Revoked", description: "Calendars subscribed to the old link will stop updating" });
+    },
+    onError: showError("Could Not Revoke Link"),
+  });
+
+  const feedUrl = token ? calendarService.getFeedUrl(token, mineOnly) : "";
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(feedUrl);
+    toast({ title: "Link Copied", description: "In Outlook, use Add calendar → Subscribe from web" });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Subscribe in Outlook</CardTitle>
+        <CardDescription>
+          A private link to arrivals from the last 30 days to six months ahead, with each hire's ICT Support PIC
+          and onboarding progress. Anyone with the link can read the feed, so keep it to yourself.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : token ? (
+          <>
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" onClick={copyLink}>
+                <Copy className="h-4 w-4 mr-1" />
+                Copy
+              </Button>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="calendar-feed-mine" checked={mineOnly} onCheckedChange={(checked) => setMineOnly(checked === true)} />
+              <Label htmlFor="calendar-feed-mine" className="font-normal">Only hires I'm the ICT Support PIC for</Label>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Copy the link now. It isn't stored and can't be shown again, only replaced.
+            </p>
+          </>
+        ) : status?.exists ? (
+          <p className="text-sm text-muted-foreground">
+            You have a feed link created {status.createdAt ? format(new Date(status.createdAt), "d MMM yyyy") : ""}
+            {status.lastUsedAt ? `, last refreshed ${format(new Date(status.lastUsedAt), "d MMM yyyy HH:mm")}` : ", not used yet"}.
+            Create a new link to subscribe again; the old one will stop working.
+          </p>
+        ) : (
+          <p className="text-sm text-muted-foreground">You don't have a feed link yet.</p>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        <Button onClick={() => createMutation.mutate()} disabled={createMutation.isPending}>
+          {createMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+          ) : status?.exists ? (
+            <RefreshCw className="h-4 w-4 mr-2" />
+          ) : (
+            <Link2 className="h-4 w-4 mr-2" />
+          )}
+          {status?.exists ? "Create New Link" : "Create Link"}
+        </Button>
+        {status?.exists && (
+          <Button variant="outline" onClick={() => revokeMutation.mutate()} disabled={revokeMutation.isPending}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Revoke
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
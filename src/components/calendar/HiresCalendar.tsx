@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { hiresApi } from "@/services/api";
+import { NewHire } from "@/types/types";
+import { getProgressColor } from "@/utils/progressCalculator";
+import { HireDetailModal } from "@/components/hires/HireDetailModal";
+
+type CalendarMode = "month" | "week";
+
+// Hires shown per day in the month grid before collapsing into "+N more"
+const MONTH_CELL_LIMIT = 3;
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+const READINESS_LEGEND = [
+  { label: "At risk (<50%)", percentage: 0 },
+  { label: "In progress (50-74%)", percentage: 50 },
+  { label: "On track (≥75%)", percentage: 75 },
+];
+
+export function HiresCalendar() {
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [cursor, setCursor] = useState(() => new Date());
+  const [expandedDay, setExpandedDay] = useState<string | null>(null);
+  const [selectedHireId, setSelectedHireId] = useState<string | null>(null);
+
+  // The month grid is padded out to whole weeks
+  const rangeStart = startOfWeek(mode === "month" ? startOfMonth(cursor) : cursor, WEEK_OPTIONS);
+  const rangeEnd = endOfWeek(mode === "month" ? endOfMonth(cursor) : cursor, WEEK_OPTIONS);
+  const days = eachDayOfInterval({ start: rangeStart, end: rangeEnd });
+  const onSiteFrom = format(rangeStart, "yyyy-MM-dd");
+  const onSiteTo = format(rangeEnd, "yyyy-MM-dd");
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['calendar-hires', onSiteFrom, onSiteTo],
+    queryFn: () => hiresApi.getAll({ onSiteFrom, onSiteTo, pageSize: 1000, sort: "on_site_date:asc" }),
+  });
+
+  // on_site_date comes back as an ISO date or timestamp; the day is its first ten characters
+  const hiresByDay = new Map<string, NewHire[]>();
+  for (const hire of data?.data || []) {
+    const day = String(hire.on_site_date).slice(0, 10);
+    hiresByDay.set(day, [...(hiresByDay.get(day) || []), hire]);
+  }
+
+  const move = (offset: number) => {
+    setCursor(current => mode === "month" ? addMonths(current, offset) : addWeeks(current, offset));
+  };
+
+  const title = mode === "month"
+    ? format(cursor, "MMMM yyyy")
+    : `${format(rangeStart, "d MMM")} – ${format(rangeEnd, "d MMM yyyy")}`;
+
+  const renderHire = (hire: NewHire, detailed: boolean) => (
+    <Tooltip key={hire.id}>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          onClick={() => setSelectedHireId(hire.id)}
+          className="w-full text-left rounded px-1.5 py-1 text-xs hover:bg-muted flex items-start gap-1.5"
+        >
+          <span className={cn("mt-1 h-2 w-2 rounded-full flex-shrink-0", getProgressColor(hire.progress_percentage ?? 0))} />
+          <span className="min-w-0">
+            <span className="block truncate font-medium">{hire.name}</span>
+            {detailed && (
+              <span className="block truncate text-muted-foreground">
+                {hire.department || "No department"} • {hire.ict_support_pic || "Unassigned"}
+              </span>
+            )}
+          </span>
+        </button>
+      </TooltipTrigger>
+      <TooltipContent>
+        <div className="text-xs space-y-0.5">
+          <div className="font-medium">{hire.name}</div>
+          {hire.title && <div>{hire.title}</div>}
+          <div>ICT Support PIC: {hire.ict_support_pic || "Unassigned"}</div>
+          <div>Progress: {hire.progress_percentage ?? 0}%</div>
+        </div>
+      </TooltipContent>
+    </Tooltip>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => move(-1)} aria-label="Previous">
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" onClick={() => move(1)} aria-label="Next">
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => setCursor(new Date())}>Today</Button>
+          <CardTitle className="ml-2 text-xl">{title}</CardTitle>
+          {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+        <div className="flex items-center gap-4">
+          <div className="hidden md:flex items-center gap-3 text-xs text-muted-foreground">
+            {READINESS_LEGEND.map(item => (
+              <span key={item.label} className="flex items-center gap-1">
+                <span className={cn("h-2 w-2 rounded-full", getProgressColor(item.percentage))} />
+                {item.label}
+              </span>
+            ))}
+          </div>
+          <ToggleGroup type="single" value={mode} onValueChange={(value) => value && setMode(value as CalendarMode)}>
+            <ToggleGroupItem value="month">Month</ToggleGroupItem>
+            <ToggleGroupItem value="week">Week</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-7 border-l border-t rounded-sm">
+          {days.slice(0, 7).map(day => (
+            <div key={day.toISOString()} className="border-r border-b bg-muted/40 px-2 py-1 text-xs font-medium text-muted-foreground">
+              {format(day, "EEE")}
+            </div>
+          ))}
+          {days.map(day => {
+            const key = format(day, "yyyy-MM-dd");
+            const hires = hiresByDay.get(key) || [];
+            const isExpanded = mode === "week" || expandedDay === key;
+            const shown = isExpanded ? hires : hires.slice(0, MONTH_CELL_LIMIT);
+
+            return (
+              <div
+                key={key}
+                className={cn(
+                  "border-r border-b p-1 space-y-0.5",
+                  mode === "month" ? "min-h-[110px]" : "min-h-[320px]",
+                  mode === "month" && !isSameMonth(day, cursor) && "bg-muted/20 text-muted-foreground"
+                )}
+              >
+                <div className={cn(
+                  "text-xs px-1 w-6 h-6 flex items-center justify-center rounded-full",
+                  isToday(day) && "bg-primary text-primary-foreground"
+                )}>
+                  {format(day, "d")}
+                </div>
+                {shown.map(hire => renderHire(hire, mode === "week"))}
+                {!isExpanded && hires.length > MONTH_CELL_LIMIT && (
+                  <button
+                    type="button"
+                    className="text-xs text-muted-foreground hover:underline px-1.5"
+                    onClick={() => setExpandedDay(key)}
+                  >
+                    +{hires.length - MONTH_CELL_LIMIT} more
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+
+      <HireDetailModal
+        isOpen={selectedHireId !== null}
+        onClose={() => setSelectedHireId(null)}
+        hireId={selectedHireId}
+      />
+    </Card>
+  );
+}
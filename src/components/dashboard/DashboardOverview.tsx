@@ -3,9 +3,10 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { hiresApi } from "@/services/api";
-import { NewHire } from "@/types/types";
+import { HireSummary, NewHire, OverdueSummary } from "@/types/types";
+import { format, parseISO } from "date-fns";
 import { BarChart } from "recharts";
-import { BarChart as BarChartIcon, Users, CheckCircle, Clock, CalendarDays } from "lucide-react";
+import { BarChart as BarChartIcon, Users, CheckCircle, Clock, CalendarDays, AlarmClock } from "lucide-react";
 import { Link } from "react-router-dom";
 
 interface StatsCardProps {
@@ -40,15 +41,24 @@ const StatsCard = ({ title, value, description, icon, trend }: StatsCardProps) =
 );
 
 export function DashboardOverview() {
-  const [hires, setHires] = useState<NewHire[]>([]);
+  const [recentHires, setRecentHires] = useState<NewHire[]>([]);
+  const [summary, setSummary] = useState<HireSummary | null>(null);
+  const [overdue, setOverdue] = useState<OverdueSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
     const fetchData = async () => {
       setIsLoading(true);
       try {
-        const data = await hiresApi.getAll();
-        setHires(data);
+        // Counts are aggregated on the server; only the latest five hires are fetched
+        const [summaryData, recent, overdueData] = await Promise.all([
+          hiresApi.getSummary(),
+          hiresApi.getAll({ page: 1, pageSize: 5, sort: "created_at:desc" }),
+          hiresApi.getOverdue(5),
+        ]);
+        setSummary(summaryData);
+        setOverdue(overdueData);
+        setRecentHires(recent.data);
       } catch (error) {
         console.error("Error fetching dashboard data:", error);
       } finally {
@@ -60,34 +70,18 @@ export function DashboardOverview() {
   }, []);
 
   // Calculate metrics
-  const totalHires = hires.length;
-  const completedSetups = hires.filter(hire => 
-    hire.account_creation_status === "Done" && 
-    hire.laptop_ready === "Ready" || hire.laptop_ready === "Done"
-  ).length;
+  const totalHires = summary?.total || 0;
+  const completedSetups = summary?.completed || 0;
   const pendingSetups = totalHires - completedSetups;
   const percentComplete = totalHires > 0 ? Math.round((completedSetups / totalHires) * 100) : 0;
+  const upcomingOnboarding = summary?.upcoming || 0;
+  const accountsCreated = summary?.accountsCreated || 0;
+  const laptopsReady = summary?.laptopsReady || 0;
+  const licensesAssigned = summary?.licensesAssigned || 0;
+  const m365Licenses = summary?.m365Licenses || 0;
 
-  // Calculate upcoming onboarding in next 7 days
-  const now = new Date();
-  const next7Days = new Date(now);
-  next7Days.setDate(now.getDate() + 7);
-  
-  const upcomingOnboarding = hires.filter(hire => {
-    const onSiteDate = new Date(hire.on_site_date);
-    return onSiteDate >= now && onSiteDate <= next7Days;
-  }).length;
-
-  // Department distribution
-  const departments: Record<string, number> = {};
-  hires.forEach(hire => {
-    departments[hire.department] = (departments[hire.department] || 0) + 1;
-  });
-  
-  // Sort by number of hires
-  const topDepartments = Object.entries(departments)
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 5);
+  // Top departments by number of hires
+  const topDepartments = (summary?.topDepartments || []).map(d => [d.department, d.count] as [string, number]);
 
   if (isLoading) {
     return <div className="text-center py-8">Loading dashboard data...</div>;
@@ -147,13 +141,11 @@ export function DashboardOverview() {
                   <div className="flex items-center justify-between text-sm">
                     <span>Accounts Created</span>
                     <span className="font-medium">
-                      {hires.filter(h => h.account_creation_status === "Active").length}/{totalHires}
+                      {accountsCreated}/{totalHires}
                     </span>
                   </div>
                   <Progress 
-                    value={totalHires > 0 ? 
-                      (hires.filter(h => h.account_creation_status === "Active").length / totalHires) * 100 : 0
-                    } 
+                    value={totalHires > 0 ? (accountsCreated / totalHires) * 100 : 0} 
                     className="h-1"
                   />
                 </div>
@@ -161,13 +153,11 @@ export function DashboardOverview() {
                   <div className="flex items-center justify-between text-sm">
                     <span>Laptops Ready</span>
                     <span className="font-medium">
-                      {hires.filter(h => h.laptop_ready === "Ready" || h.laptop_ready === "Done").length}/{totalHires}
+                      {laptopsReady}/{totalHires}
                     </span>
                   </div>
                   <Progress 
-                    value={totalHires > 0 ? 
-                      (hires.filter(h => h.laptop_ready === "Ready" || h.laptop_ready === "Done").length / totalHires) * 100 : 0
-                    } 
+                    value={totalHires > 0 ? (laptopsReady / totalHires) * 100 : 0} 
                     className="h-1"
                   />
                 </div>
@@ -175,11 +165,11 @@ export function DashboardOverview() {
                   <div className="flex items-center justify-between text-sm">
                     <span>Licenses Assigned</span>
                     <span className="font-medium">
-                      {hires.filter(h => h.license_assigned).length}/{totalHires}
+                      {licensesAssigned}/{totalHires}
                     </span>
                   </div>
                   <Progress 
-                    value={totalHires > 0 ? (hires.filter(h => h.license_assigned).length / totalHires) * 100 : 0} 
+                    value={totalHires > 0 ? (licensesAssigned / totalHires) * 100 : 0} 
                     className="h-1"
                   />
                 </div>
@@ -187,11 +177,11 @@ export function DashboardOverview() {
                   <div className="flex items-center justify-between text-sm">
                     <span>M365 Licenses</span>
                     <span className="font-medium">
-                      {hires.filter(h => h.microsoft_365_license && h.microsoft_365_license !== "None").length}/{totalHires}
+                      {m365Licenses}/{totalHires}
                     </span>
                   </div>
                   <Progress 
-                    value={totalHires > 0 ? (hires.filter(h => h.microsoft_365_license && h.microsoft_365_license !== "None").length / totalHires) * 100 : 0} 
+                    value={totalHires > 0 ? (m365Licenses / totalHires) * 100 : 0} 
                     className="h-1"
                   />
                 </div>
@@ -232,6 +222,64 @@ export function DashboardOverview() {
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Overdue Onboarding Steps</CardTitle>
+              <CardDescription>Checklist items past their deadline before the on-site date</CardDescription>
+            </div>
+            <Link to="/hires?sla=overdue">
+              <Button variant="outline" className="h-8">View All</Button>
+            </Link>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {overdue && overdue.total > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div className="space-y-2">
+                <div>
+                  <span className="text-2xl font-bold text-red-600">{overdue.total}</span>
+                  <span className="ml-2 text-sm text-muted-foreground">
+                    {overdue.total === 1 ? "hire" : "hires"} with {overdue.overdueItems} overdue {overdue.overdueItems === 1 ? "item" : "items"}
+                  </span>
+                </div>
+                {overdue.byItem.map(item => (
+                  <div key={item.id} className="flex items-center justify-between text-sm">
+                    <span>{item.label}</span>
+                    <span className="font-medium">{item.count}</span>
+                  </div>
+                ))}
+              </div>
+              <div className="md:col-span-2 space-y-2">
+                {overdue.hires.map(hire => (
+                  <Link key={hire.id} to={`/hires/${hire.id}`} className="block rounded-md border p-2 hover:bg-muted/50">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="font-medium">{hire.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        On site {format(parseISO(hire.on_site_date), "d MMM yyyy")}
+                      </span>
+                    </div>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {hire.deadlines.map(deadline => (
+                        <span key={deadline.id} className="rounded bg-red-100 px-2 py-0.5 text-xs text-red-800">
+                          {deadline.label} · due {format(parseISO(deadline.due_date), "d MMM")}
+                        </span>
+                      ))}
+                    </div>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <div className="py-8 text-center text-muted-foreground">
+              <AlarmClock className="mx-auto h-8 w-8 mb-2 opacity-50" />
+              <p>No overdue onboarding steps</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
@@ -245,7 +293,7 @@ export function DashboardOverview() {
           </div>
         </CardHeader>
         <CardContent>
-          {hires.length > 0 ? (
+          {recentHires.length > 0 ? (
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
                 <thead>
@@ -257,7 +305,7 @@ export function DashboardOverview() {
                   </tr>
                 </thead>
                 <tbody>
-                  {hires.slice(0, 5).map((hire) => (
+                  {recentHires.map((hire) => (
                     <tr key={hire.id} className="border-b">
                       <td className="py-3 px-2 font-medium">{hire.name}</td>
                       <td className="py-3 px-2">{hire.department}</td>
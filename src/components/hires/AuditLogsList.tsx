@@ -1,6 +1,6 @@
 
 import React from "react";
-import { AuditLog } from "@/types/types";
+import { AuditStatus } from "@/types/types";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { AlertTriangle, CheckCircle, Info, MessageSquare, RefreshCw } from "lucide-react";
@@ -30,29 +30,29 @@ export function AuditLogsList({ hireId }: AuditLogsListProps) {
     });
   };
 
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: AuditStatus) => {
     switch (status) {
       case "SUCCESS":
         return <CheckCircle className="h-4 w-4 text-green-500" />;
-      case "ERROR":
+      case "FAILED":
         return <AlertTriangle className="h-4 w-4 text-red-500" />;
-      case "WARNING":
+      case "PARTIAL":
         return <AlertTriangle className="h-4 w-4 text-amber-500" />;
-      case "INFO":
+      case "SKIPPED":
       default:
         return <Info className="h-4 w-4 text-blue-500" />;
     }
   };
 
-  const getStatusClass = (status: string) => {
+  const getStatusClass = (status: AuditStatus) => {
     switch (status) {
       case "SUCCESS":
         return "bg-green-100 text-green-800";
-      case "ERROR":
+      case "FAILED":
         return "bg-red-100 text-red-800";
-      case "WARNING":
+      case "PARTIAL":
         return "bg-amber-100 text-amber-800";
-      case "INFO":
+      case "SKIPPED":
       default:
         return "bg-blue-100 text-blue-800";
     }
@@ -98,18 +98,18 @@ export function AuditLogsList({ hireId }: AuditLogsListProps) {
               <TableBody>
                 {logs.map((log) => (
                   <TableRow key={log.id}>
-                    <TableCell>{new Date(log.timestamp).toLocaleString()}</TableCell>
-                    <TableCell>{log.action_type || log.action}</TableCell>
+                    <TableCell>{new Date(log.occurred_at).toLocaleString()}</TableCell>
+                    <TableCell>{log.action}</TableCell>
                     <TableCell>
                       <div className="flex items-center">
-                        {log.status && getStatusIcon(log.status)}
-                        <span className={`ml-2 px-2 py-1 rounded-full text-xs font-medium ${log.status ? getStatusClass(log.status) : ""}`}>
-                          {log.status || "INFO"}
+                        {getStatusIcon(log.status)}
+                        <span className={`ml-2 px-2 py-1 rounded-full text-xs font-medium ${getStatusClass(log.status)}`}>
+                          {log.status}
                         </span>
                       </div>
                     </TableCell>
                     <TableCell>{log.message || "-"}</TableCell>
-                    <TableCell>{log.performed_by || "System"}</TableCell>
+                    <TableCell>{log.actor}</TableCell>
                   </TableRow>
                 ))}
               </TableBody>
@@ -0,0 +1,278 @@
+import { useRef, useState } from "react";
+import axios from "axios";
+import { Link } from "react-router-dom";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CheckCircle2, Circle, Loader2, Rocket, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { activeDirectoryService } from "@/services/active-directory-service";
+import { distributionListService } from "@/services/distribution-list-service";
+import { whatsappService } from "@/services/whatsapp-service";
+import { microsoftGraphService } from "@/services/microsoft-graph-service";
+import { buildADUserData } from "@/utils/adUserData";
+import { NewHire } from "@/types/types";
+
+export type BulkProvisionAction = "ad_account" | "distribution_lists" | "whatsapp" | "welcome_email";
+
+type HireRunStatus = "pending" | "running" | "succeeded" | "failed";
+
+interface HireRunState {
+  status: HireRunStatus;
+  message?: string;
+}
+
+interface BulkActionConfig {
+  title: string;
+  description: string;
+  // Resolves with a short outcome for the report, or throws with the reason it failed
+  run: (hire: NewHire) => Promise<string>;
+}
+
+const parseMailingLists = (hire: NewHire): string[] =>
+  Array.isArray(hire.mailing_list)
+    ? hire.mailing_list
+    : typeof hire.mailing_list === "string" && hire.mailing_list
+      ? hire.mailing_list.split(",").map(item => item.trim()).filter(Boolean)
+      : [];
+
+const BULK_PROVISION_ACTIONS: Record<BulkProvisionAction, BulkActionConfig> = {
+  ad_account: {
+    title: "Create AD Accounts",
+    description: "Creates each hire's Active Directory account with the initial password held in the credential vault.",
+    run: async (hire) => {
+      if (!hire.has_password) {
+        throw new Error("No initial password is stored - set one on the hire first");
+      }
+      const result = await activeDirectoryService.createUser(hire.id, buildADUserData(hire));
+      if (!result.success) {
+        throw new Error(result.message || result.error || "AD account creation failed");
+      }
+      return result.warning || result.message || "Account created";
+    },
+  },
+  distribution_lists: {
+    title: "Sync Distribution Lists",
+    description: "Adds each hire to the distribution lists on their record.",
+    run: async (hire) => {
+      const mailingLists = parseMailingLists(hire);
+      if (mailingLists.length === 0) {
+        throw new Error("No distribution lists selected on the hire");
+      }
+      const result = await distributionListService.syncUserToDistributionLists(hire.id, mailingLists);
+      return result.message || `Synced ${mailingLists.length} list(s)`;
+    },
+  },
+  whatsapp: {
+    title: "Send WhatsApp Credentials",
+    description: "Sends the WhatsApp account message template to each hire's own phone number.",
+    run: async (hire) => {
+      const phoneNumber = hire.phone_number?.replace(/\D/g, "");
+      if (!phoneNumber) {
+        throw new Error("No phone number on the hire");
+      }
+      const message = await whatsappService.generateMessage(hire);
+      await whatsappService.sendMessage(phoneNumber, message, hire.id);
+      return `Sent to ${phoneNumber}`;
+    },
+  },
+  welcome_email: {
+    title: "Send Welcome Email",
+    description: "Sends the welcome email template from the Microsoft Graph settings to each hire's mailbox.",
+    run: async (hire) => {
+      if (!hire.email) {
+        throw new Error("No email address on the hire");
+      }
+      const result = await microsoftGraphService.sendWelcomeEmail(hire.id);
+      return result.message || `Sent to ${hire.email}`;
+    },
+  },
+};
+
+const getErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    const data = error.response?.data;
+    return data?.details || data?.error || data?.message || error.message;
+  }
+  return error instanceof Error ? error.message : "Unknown error";
+};
+
+const STATUS_ICONS: Record<HireRunStatus, JSX.Element> = {
+  pending: <Circle className="h-4 w-4 text-muted-foreground" />,
+  running: <Loader2 className="h-4 w-4 animate-spin text-blue-600" />,
+  succeeded: <CheckCircle2 className="h-4 w-4 text-green-600" />,
+  failed: <XCircle className="h-4 w-4 text-red-600" />,
+};
+
+interface BulkProvisionMenuProps {
+  selectedCount: number;
+  onSelect: (action: BulkProvisionAction) => void;
+  compact?: boolean;
+}
+
+// Toolbar menu for the selected hires, one entry per action
+export function BulkProvisionMenu({ selectedCount, onSelect, compact }: BulkProvisionMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="secondary" size={compact ? "sm" : "default"}>
+          <Rocket className="h-4 w-4 mr-1" />
+          {compact ? "Provision" : `Provision (${selectedCount})`}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {(Object.keys(BULK_PROVISION_ACTIONS) as BulkProvisionAction[]).map(key => (
+          <DropdownMenuItem key={key} onSelect={() => onSelect(key)}>
+            {BULK_PROVISION_ACTIONS[key].title}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+interface BulkProvisionDialogProps {
+  action: BulkProvisionAction;
+  hires: NewHire[];
+  onClose: () => void;
+  // Called once the run ends, so the caller can reload the hires it changed
+  onFinished?: () => void;
+}
+
+/**
+ * Runs one provisioning action for the selected hires, one hire at a time, showing each hire's
+ * outcome as it comes in. Every hire's work is a background job, so failures that the server will
+ * retry are reported as failed here and carry on from the Jobs page. Mount it only while open -
+ * the hires are fixed when it mounts, so a later selection change doesn't reshuffle the report.
+ */
+export function BulkProvisionDialog({ action, hires, onClose, onFinished }: BulkProvisionDialogProps) {
+  const [states, setStates] = useState<Record<string, HireRunState>>({});
+  const [isRunning, setIsRunning] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+  const stopRequested = useRef(false);
+  const [runHires] = useState(hires);
+  const config = BULK_PROVISION_ACTIONS[action];
+
+  const setHireState = (id: string, state: HireRunState) => {
+    setStates(previous => ({ ...previous, [id]: state }));
+  };
+
+  const handleStart = async () => {
+    setIsRunning(true);
+    stopRequested.current = false;
+
+    for (const hire of runHires) {
+      if (stopRequested.current) break;
+      setHireState(hire.id, { status: "running" });
+      try {
+        const message = await config.run(hire);
+        setHireState(hire.id, { status: "succeeded", message });
+      } catch (error) {
+        setHireState(hire.id, { status: "failed", message: getErrorMessage(error) });
+      }
+    }
+
+    setIsRunning(false);
+    setIsFinished(true);
+    onFinished?.();
+  };
+
+  const handleClose = () => {
+    if (isRunning) return;
+    onClose();
+  };
+
+  const results = Object.values(states);
+  const doneCount = results.filter(state => state.status === "succeeded" || state.status === "failed").length;
+  const succeededCount = results.filter(state => state.status === "succeeded").length;
+  const failedCount = results.filter(state => state.status === "failed").length;
+  const skippedCount = runHires.length - doneCount;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{config.title}</DialogTitle>
+          <DialogDescription>
+            {config.description} {runHires.length} hire(s) selected.
+          </DialogDescription>
+        </DialogHeader>
+
+        {(isRunning || isFinished) && (
+          <div className="space-y-1">
+            <Progress value={runHires.length > 0 ? (doneCount / runHires.length) * 100 : 0} />
+            <p className="text-xs text-muted-foreground">{doneCount} of {runHires.length} done</p>
+          </div>
+        )}
+
+        <ScrollArea className="max-h-[50vh] border rounded-md">
+          <div className="divide-y">
+            {runHires.map(hire => {
+              const state = states[hire.id] || { status: "pending" };
+              return (
+                <div key={hire.id} className="flex items-start gap-3 p-3">
+                  <div className="pt-0.5">{STATUS_ICONS[state.status]}</div>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-sm">{hire.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">{hire.email || hire.department}</div>
+                    {state.message && (
+                      <div className={cn("text-xs mt-1 break-words", state.status === "failed" ? "text-red-600" : "text-green-700")}>
+                        {state.message}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+
+        {isFinished && (
+          <div className="rounded-md bg-muted p-3 text-sm">
+            <span className="font-medium">{succeededCount} succeeded</span>
+            {", "}
+            <span className={cn("font-medium", failedCount > 0 && "text-red-600")}>{failedCount} failed</span>
+            {skippedCount > 0 && `, ${skippedCount} not run`}.
+            {failedCount > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Failures the server can retry carry on in the background - follow them on the{" "}
+                <Link to="/jobs" className="underline">Jobs page</Link>.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {isRunning ? (
+            <Button variant="outline" onClick={() => { stopRequested.current = true; }}>
+              Stop after current hire
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={handleClose}>
+              {isFinished ? "Close" : "Cancel"}
+            </Button>
+          )}
+          {!isFinished && (
+            <Button onClick={handleStart} disabled={isRunning || runHires.length === 0}>
+              {isRunning ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Running...
+                </>
+              ) : (
+                `Start for ${runHires.length} hire(s)`
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
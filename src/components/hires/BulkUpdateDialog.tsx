@@ -11,11 +11,9 @@ import { Loader2, Mail, Eye } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
 import { settingsService } from "@/services/settings-service";
 import { licenseService } from "@/services/license-service";
-import { activeDirectoryService } from "@/services/active-directory-service";
 import { microsoftGraphService } from "@/services/microsoft-graph-service";
 import { NewHire } from "@/types/types";
 import { useToast } from "@/components/ui/use-toast";
-import { getACLForDepartment } from "@/utils/aclMapping";
 import { MultiEmailInput } from "@/components/ui/multi-email-input";
 
 interface BulkUpdateDialogProps {
@@ -127,9 +125,7 @@ export function BulkUpdateDialog({
         department: hire.department,
         email: hire.email,
         title: hire.title,
-        microsoft_365_license: hire.microsoft_365_license || 'Standard',
-        srf_document_path: hire.srf_document_path,
-        srf_document_name: hire.srf_document_name
+        microsoft_365_license: hire.microsoft_365_license || 'Standard'
       }));
       
       const result = await microsoftGraphService.sendLicenseRequestEmail({
@@ -166,77 +162,6 @@ export function BulkUpdateDialog({
     }
   };
   
-  const handleBulkADCreation = async () => {
-    if (!selectedHires || selectedHires.length === 0) return;
-    
-    setIsSubmitting(true);
-    
-    try {
-      let successCount = 0;
-      let errorCount = 0;
-      const errors: string[] = [];
-      
-      // Process each selected hire for AD account creation
-      for (const hire of selectedHires) {
-        try {
-          // Use the shared ACL determination logic
-          const aclGroup = getACLForDepartment(hire.department);
-          
-          console.log(`Creating AD account for ${hire.name} with department: ${hire.department}, ACL: ${aclGroup}`);
-          
-          // Use the correct createUser method with proper parameters
-          await activeDirectoryService.createUser(hire.id, {
-            username: hire.username || hire.email.split('@')[0],
-            displayName: hire.name,
-            firstName: hire.name.split(' ')[0] || hire.name,
-            lastName: hire.name.split(' ').slice(1).join(' ') || hire.name,
-            password: 'TempPass123!', // You may want to generate or get this from settings
-            email: hire.email,
-            title: hire.title || '',
-            department: hire.department || '',
-            ou: 'CN=Users,DC=mbma,DC=com', // Default OU - you may want to make this configurable
-            acl: aclGroup, // Use the correct ACL mapping
-            company: 'MBMA',
-            office: '' // Default empty office value
-          });
-          successCount++;
-        } catch (error) {
-          errorCount++;
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          errors.push(`${hire.name}: ${errorMessage}`);
-          console.error(`Error creating AD account for ${hire.name}:`, error);
-        }
-      }
-      
-      // Show results
-      if (successCount > 0) {
-        toast({
-          title: "Bulk AD Account Creation",
-          description: `Successfully created ${successCount} AD accounts${errorCount > 0 ? `, ${errorCount} failed` : ''}`,
-        });
-      }
-      
-      if (errorCount > 0) {
-        toast({
-          title: "AD Account Creation Errors",
-          description: `${errorCount} accounts failed to create. Check console for details.`,
-          variant: "destructive",
-        });
-      }
-      
-      onClose();
-    } catch (error) {
-      console.error("Error in bulk AD creation:", error);
-      toast({
-        title: "Error",
-        description: "Failed to process bulk AD account creation",
-        variant: "destructive",
-      });
-    } finally {
-      setIsSubmitting(false);
-    }
-  };
-  
   const handleSubmit = async () => {
     if (!updateFields.field) return;
     
@@ -247,12 +172,6 @@ export function BulkUpdateDialog({
       return;
     }
     
-    // If AD Account Creation is selected, handle it separately
-    if (updateFields.field === "ad_account_creation") {
-      await handleBulkADCreation();
-      return;
-    }
-    
     // If License Request Email is selected, handle it separately
     if (updateFields.field === "license_request_email") {
       await handleLicenseRequestEmail();
@@ -275,9 +194,6 @@ export function BulkUpdateDialog({
         case "license_assigned":
           updateData = { license_assigned: updateFields.value === "true" };
           break;
-        case "status_srf":
-          updateData = { status_srf: updateFields.value === "true" };
-          break;
         case "microsoft_365_license":
           updateData = { microsoft_365_license: updateFields.value };
           break;
@@ -305,16 +221,6 @@ export function BulkUpdateDialog({
       );
     }
     
-    // If AD Account Creation is selected, show info about the operation
-    if (updateFields.field === "ad_account_creation") {
-      return (
-        <div className="text-sm text-muted-foreground space-y-2">
-          <p>This will create Active Directory accounts for all selected hires.</p>
-          <p className="text-xs">Note: This operation may take some time depending on the number of selected hires.</p>
-        </div>
-      );
-    }
-    
     // If License Request Email is selected, show email configuration
     if (updateFields.field === "license_request_email") {
       return (
@@ -513,7 +419,6 @@ export function BulkUpdateDialog({
         );
       
       case "license_assigned":
-      case "status_srf":
         return (
           <div className="flex items-center space-x-2">
             <Switch 
@@ -565,10 +470,8 @@ export function BulkUpdateDialog({
                 <SelectItem value="account_creation_status">Account Creation Status</SelectItem>
                 <SelectItem value="laptop_ready">Laptop Status</SelectItem>
                 <SelectItem value="license_assigned">License Assigned</SelectItem>
-                <SelectItem value="status_srf">SRF Status</SelectItem>
                 <SelectItem value="microsoft_365_license">Microsoft 365 License</SelectItem>
                 <SelectItem value="position_grade">Position Grade</SelectItem>
-                <SelectItem value="ad_account_creation">Create AD Accounts</SelectItem>
                 <SelectItem value="license_request_email">
                   <div className="flex items-center gap-2">
                     <Mail className="h-4 w-4" />
@@ -583,8 +486,7 @@ export function BulkUpdateDialog({
           {updateFields.field && (
             <div className="grid gap-2">
               <Label htmlFor="value">
-                {updateFields.field === "ad_account_creation" ? "Operation Details" : 
-                 updateFields.field === "license_request_email" ? "Email Configuration" : "New Value"}
+                {updateFields.field === "license_request_email" ? "Email Configuration" : "New Value"}
               </Label>
               {renderValueInput()}
             </div>
@@ -598,20 +500,17 @@ export function BulkUpdateDialog({
             disabled={
               (!updateFields.field) || 
               (updateFields.field === "license_request_email" && emailRecipients.length === 0) ||
-              (updateFields.field !== "excel_report" && updateFields.field !== "ad_account_creation" && updateFields.field !== "license_request_email" && !updateFields.value) || 
+              (updateFields.field !== "excel_report" && updateFields.field !== "license_request_email" && !updateFields.value) || 
               isSubmitting
             }
           >
             {isSubmitting ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                {updateFields.field === "ad_account_creation" ? "Creating AD Accounts..." : 
-                 updateFields.field === "license_request_email" ? "Sending Email..." : "Updating..."}
+                {updateFields.field === "license_request_email" ? "Sending Email..." : "Updating..."}
               </>
             ) : updateFields.field === "excel_report" ? (
               'Generate Report'
-            ) : updateFields.field === "ad_account_creation" ? (
-              'Create AD Accounts'
             ) : updateFields.field === "license_request_email" ? (
               'Send License Request'
             ) : (
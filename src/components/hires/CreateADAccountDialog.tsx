@@ -9,8 +9,11 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { useQueryClient } from "@tanstack/react-query";
-import { getACLForDepartment } from "@/utils/aclMapping";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { buildADUserData } from "@/utils/adUserData";
+import { settingsService } from "@/services/settings-service";
+import { DEFAULT_PASSWORD_POLICY, validatePassword } from "@/utils/passwordPolicy";
+import { PasswordStrengthMeter } from "./PasswordStrengthMeter";
 
 interface CreateADAccountDialogProps {
   hire: NewHire;
@@ -32,44 +35,14 @@ export function CreateADAccountDialog({ hire, onClose, onSuccess }: CreateADAcco
     error?: string;
   } | null>(null);
 
-  // Generate AD user data from hire details
-  const generateADUserData = () => {
-    const nameParts = hire.name?.split(' ') || [];
-    const firstName = nameParts[0] || '';
-    const lastName = nameParts.slice(1).join(' ') || '';
-    const username = hire.username || hire.email?.split('@')[0] || '';
-    
-    // Get password from hire record or manual input
-    const password = manualPassword || hire.password || '';
-    
-    let department = hire.department || '';
-    let ou = department 
-      ? `OU=${department},OU=Merdeka Tsingshan Indonesia,DC=mbma,DC=com`
-      : 'OU=Merdeka Tsingshan Indonesia,DC=mbma,DC=com';
-    
-    // Special handling for Copper Cathode Plant
-    if (department === "Copper Cathode Plant") {
-      ou = `OU=CCP,OU=Merdeka Tsingshan Indonesia,DC=mbma,DC=com`;
-    }
-    
-    // Use the shared ACL determination logic
-    const acl = getACLForDepartment(department);
-    
-    return {
-      username: username.substring(0, 20), // Ensure username is 20 chars max
-      displayName: `${hire.name || 'New User'} [MTI]`,
-      firstName,
-      lastName,
-      password,
-      email: hire.email || '',
-      title: hire.title || hire.job_title || '',
-      department,
-      ou,
-      acl,
-      company: "PT. Merdeka Tsingshan Indonesia",
-      office: "Morowali"
-    };
-  };
+  const { data: settingsData } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings,
+  });
+  const passwordPolicy = settingsData?.passwordPolicy || DEFAULT_PASSWORD_POLICY;
+
+  // Manual input only - otherwise the server uses the password held in the credential vault
+  const generateADUserData = () => buildADUserData(hire, manualPassword);
 
   const handleCreateADAccount = async () => {
     if (!hire.id) {
@@ -90,7 +63,7 @@ export function CreateADAccountDialog({ hire, onClose, onSuccess }: CreateADAcco
       console.log("Current hire status before AD creation:", hire.account_creation_status);
 
       // Check if password is provided or needs to be manually entered
-      if (!userData.password) {
+      if (!userData.password && !hire.has_password) {
         setResult({
           success: false,
           error: "Missing password for user account"
@@ -180,8 +153,11 @@ export function CreateADAccountDialog({ hire, onClose, onSuccess }: CreateADAcco
   // Generate user data once for rendering
   const adUserData = generateADUserData();
   
-  // Check for missing password (null, undefined, or empty string)
-  const isMissingPassword = !adUserData.password;
+  // No password stored in the vault, so one has to be entered here
+  const isMissingPassword = !hire.has_password;
+  const isManualPasswordInvalid = isMissingPassword && adUserData
+    ? validatePassword(manualPassword, passwordPolicy, { name: hire.name, username: adUserData.username }).length > 0
+    : false;
 
   return (
     <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -288,20 +264,10 @@ export function CreateADAccountDialog({ hire, onClose, onSuccess }: CreateADAcco
                     <div className="font-medium">Office:</div>
                     <div>{adUserData.office}</div>
 
-                    {hire.password && (
+                    {hire.has_password && (
                       <>
                         <div className="font-medium">Initial Password:</div>
-                        <div className="flex items-center">
-                          <span>{showPassword ? hire.password : '•'.repeat(hire.password?.length || 8)}</span>
-                          <Button 
-                            variant="ghost" 
-                            size="sm" 
-                            onClick={() => setShowPassword(!showPassword)}
-                            className="ml-2 p-0 h-6 w-6"
-                          >
-                            {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
-                          </Button>
-                        </div>
+                        <div className="text-muted-foreground">Stored in the credential vault</div>
                       </>
                     )}
                   </div>
@@ -354,6 +320,11 @@ export function CreateADAccountDialog({ hire, onClose, onSuccess }: CreateADAcco
                           {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                         </Button>
                       </div>
+                      <PasswordStrengthMeter
+                        password={manualPassword}
+                        policy={passwordPolicy}
+                        context={{ name: hire.name, username: adUserData.username }}
+                      />
                     </div>
                   </div>
                 )}
@@ -394,7 +365,7 @@ export function CreateADAccountDialog({ hire, onClose, onSuccess }: CreateADAcco
         ) : (
           <Button 
             onClick={handleCreateADAccount}
-            disabled={isCreating || !adUserData || (isMissingPassword && !manualPassword)}
+            disabled={isCreating || !adUserData || isManualPasswordInvalid}
           >
             {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             {isCreating ? "Creating..." : "Create AD Account"}
@@ -0,0 +1,70 @@
+import { DuplicateMatch, DuplicateReason } from "@/types/types";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, GitMerge } from "lucide-react";
+
+interface DuplicateHireDialogProps {
+  duplicates: DuplicateMatch[];
+  isSaving: boolean;
+  onCancel: () => void;
+  onCreateAnyway: () => void;
+  onMerge: (hireId: string) => void;
+}
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  employee_id: "Same employee ID",
+  email: "Same email",
+  phone: "Same phone",
+  name: "Similar name",
+};
+
+export function DuplicateHireDialog({ duplicates, isSaving, onCancel, onCreateAnyway, onMerge }: DuplicateHireDialogProps) {
+  return (
+    <Dialog open={duplicates.length > 0} onOpenChange={(open) => !open && !isSaving && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Possible Duplicate Hire</DialogTitle>
+          <DialogDescription>
+            This hire looks like {duplicates.length === 1 ? "an existing record" : `${duplicates.length} existing records`}.
+            Merge the details you entered into an existing hire, or create a new hire if this is a different person.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 max-h-[50vh] overflow-y-auto">
+          {duplicates.map(({ hire, reasons }) => (
+            <div key={hire.id} className="flex items-start justify-between gap-4 rounded-md border p-3">
+              <div className="space-y-1 text-sm">
+                <div className="font-medium">{hire.name}</div>
+                <div className="text-muted-foreground">
+                  {[hire.email, hire.phone_number, hire.employee_id].filter(Boolean).join(" · ")}
+                </div>
+                <div className="text-muted-foreground">
+                  {[hire.title, hire.department].filter(Boolean).join(", ")}
+                  {hire.on_site_date && ` — on site ${new Date(hire.on_site_date).toLocaleDateString()}`}
+                </div>
+                <div className="flex flex-wrap gap-1 pt-1">
+                  {reasons.map(reason => (
+                    <Badge key={reason} variant="outline">{REASON_LABELS[reason]}</Badge>
+                  ))}
+                </div>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => hire.id && onMerge(hire.id)} disabled={isSaving}>
+                <GitMerge className="h-4 w-4 mr-1" />
+                Merge
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+          <Button onClick={onCreateAnyway} disabled={isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create Anyway
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,21 @@
-
 import { useState, useEffect } from "react";
+import axios from "axios";
+import { useQuery } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { NewHire } from "@/types/types";
-import { FileSpreadsheet, Download } from "lucide-react";
+import { NewHire, ReportRequest } from "@/types/types";
+import { FileSpreadsheet, Download, Loader2 } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/components/ui/use-toast";
 import { format } from "date-fns";
+import { settingsService } from "@/services/settings-service";
+import { reportService } from "@/services/report-service";
 
 interface ExcelReportDialogProps {
   isOpen: boolean;
@@ -14,69 +23,65 @@ interface ExcelReportDialogProps {
   selectedHires: NewHire[];
 }
 
+type ReportScope = "selected" | "month";
+
 export function ExcelReportDialog({ isOpen, onClose, selectedHires }: ExcelReportDialogProps) {
   const [isGenerating, setIsGenerating] = useState(false);
+  const [templateId, setTemplateId] = useState("");
+  const [scope, setScope] = useState<ReportScope>("month");
+  const [month, setMonth] = useState(format(new Date(), "yyyy-MM"));
+  const { toast } = useToast();
+
+  const { data: settingsData } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings,
+    enabled: isOpen,
+  });
+  const templates = settingsData?.reportTemplates || [];
 
-  // Reset state when dialog opens
+  // Reset state when dialog opens - picked hires win over the month when there are any
   useEffect(() => {
     if (isOpen) {
       setIsGenerating(false);
+      setScope(selectedHires.length > 0 ? "selected" : "month");
+    }
+  }, [isOpen, selectedHires.length]);
+
+  // Start on the first template, and move off one that has since been deleted
+  useEffect(() => {
+    const available = settingsData?.reportTemplates || [];
+    if (available.length > 0 && !available.some(template => template.id === templateId)) {
+      setTemplateId(available[0].id);
     }
-  }, [isOpen]);
+  }, [settingsData, templateId]);
 
-  // Generate Excel file and trigger download
-  const generateExcelReport = () => {
+  const request: ReportRequest | null = !templateId
+    ? null
+    : scope === "selected"
+      ? { templateId, hireIds: selectedHires.map(hire => hire.id).filter((id): id is string => Boolean(id)) }
+      : month ? { templateId, month } : null;
+
+  const { data: preview, isFetching: isPreviewLoading } = useQuery({
+    queryKey: ['report-preview', request],
+    queryFn: () => reportService.previewReport(request as ReportRequest),
+    enabled: isOpen && request !== null,
+  });
+
+  // Build the workbook on the server and trigger the download
+  const generateExcelReport = async () => {
+    if (!request) return;
     setIsGenerating(true);
-    
+
     try {
-      // Create CSV content with headers
-      let csvContent = "SRF No.,Name,Title,Department,License Type,Email,Join Date\n";
-      
-      // Add data rows
-      selectedHires.forEach(hire => {
-        const joinDate = hire.on_site_date ? 
-          format(new Date(hire.on_site_date), 'dd/MM/yyyy') : 'N/A';
-        const licenseType = hire.microsoft_365_license || "Not specified";
-        const email = hire.email || "";
-        // Format: SRF No. (empty), Name, Title, Department, License Type, Email, Join Date
-        const row = [
-          "", // SRF No. (empty as requested)
-          hire.name,
-          hire.title,
-          hire.department,
-          licenseType,
-          email,
-          joinDate
-        ];
-        // Properly escape fields for CSV format
-        const escapedRow = row.map(field => {
-          // If field contains commas or quotes, wrap in quotes and escape any quotes
-          if (field && (field.includes(',') || field.includes('"'))) {
-            return `"${field.replace(/"/g, '""')}"`;
-          }
-          return field;
-        });
-        csvContent += escapedRow.join(',') + "\n";
-      });
-      
-      // Create a blob and generate download
-      const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-      const url = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      
-      // Set download attributes
-      link.setAttribute('href', url);
-      link.setAttribute('download', `license_request_report_${format(new Date(), 'yyyyMMdd')}.csv`);
-      
-      // Append to body, click and remove
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      
-      // Success!
-      setIsGenerating(false);
-    } catch (error) {
+      await reportService.exportReport(request);
+    } catch (error: unknown) {
       console.error("Error generating Excel report:", error);
+      toast({
+        title: "Report Failed",
+        description: axios.isAxiosError(error) ? error.message : "Failed to generate the report",
+        variant: "destructive",
+      });
+    } finally {
       setIsGenerating(false);
     }
   };
@@ -85,56 +90,105 @@ export function ExcelReportDialog({ isOpen, onClose, selectedHires }: ExcelRepor
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="pt-6 max-w-6xl w-full max-h-[80vh] flex flex-col">
         <DialogHeader>
-          <DialogTitle>Generate License Report</DialogTitle>
+          <DialogTitle>Generate Excel Report</DialogTitle>
         </DialogHeader>
-        
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label>Report</Label>
+            <Select value={templateId} onValueChange={setTemplateId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a report" />
+              </SelectTrigger>
+              <SelectContent>
+                {templates.map(template => (
+                  <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Hires</Label>
+            <RadioGroup value={scope} onValueChange={(value) => setScope(value as ReportScope)} className="flex flex-wrap gap-4 pt-2">
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="selected" id="report-scope-selected" disabled={selectedHires.length === 0} />
+                <Label htmlFor="report-scope-selected" className="font-normal">Selected ({selectedHires.length})</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="month" id="report-scope-month" />
+                <Label htmlFor="report-scope-month" className="font-normal">On site in</Label>
+                <Input
+                  type="month"
+                  value={month}
+                  onChange={(e) => setMonth(e.target.value)}
+                  disabled={scope !== "month"}
+                  className="h-8 w-40"
+                />
+              </div>
+            </RadioGroup>
+          </div>
+        </div>
+
         <ScrollArea className="flex-grow py-4">
           <div className="space-y-6">
             <p className="text-sm text-muted-foreground">
-              Preview of the report that will be generated as a CSV file. This file can be opened in Excel or any spreadsheet application.
+              Preview of the first rows of each sheet. The download is an Excel workbook with every row.
             </p>
-            
-            <div className="border rounded-md">
-              <Table className="mb-2 min-w-full">
-                <TableHeader>
-                  <TableRow>
-                    <TableHead>SRF No.</TableHead>
-                    <TableHead>Name</TableHead>
-                    <TableHead>Title</TableHead>
-                    <TableHead>Department</TableHead>
-                    <TableHead>License Type</TableHead>
-                    <TableHead>Email</TableHead>
-                    <TableHead>Join Date</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {selectedHires.map((hire) => (
-                    <TableRow key={hire.id}>
-                      <TableCell>-</TableCell>
-                      <TableCell>{hire.name}</TableCell>
-                      <TableCell>{hire.title}</TableCell>
-                      <TableCell>{hire.department}</TableCell>
-                      <TableCell>{hire.microsoft_365_license || "Not specified"}</TableCell>
-                      <TableCell>{hire.email || ""}</TableCell>
-                      <TableCell>
-                        {hire.on_site_date 
-                          ? format(new Date(hire.on_site_date), 'dd/MM/yyyy')
-                          : 'N/A'}
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
+
+            {isPreviewLoading && (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+
+            {!isPreviewLoading && preview && preview.totalRows === 0 && (
+              <div className="py-6 text-center text-muted-foreground">No hires match this report</div>
+            )}
+
+            {!isPreviewLoading && preview?.sheets.map(sheet => (
+              <div key={sheet.name} className="space-y-2">
+                {preview.sheets.length > 1 && (
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-sm font-medium">{sheet.name}</h3>
+                    <Badge variant="outline">{sheet.totalRows}</Badge>
+                  </div>
+                )}
+                <div className="border rounded-md">
+                  <Table className="mb-2 min-w-full">
+                    <TableHeader>
+                      <TableRow>
+                        {sheet.headers.map((header, index) => (
+                          <TableHead key={index}>{header}</TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {sheet.rows.map((row, rowIndex) => (
+                        <TableRow key={rowIndex}>
+                          {row.map((value, index) => (
+                            <TableCell key={index}>{value || "—"}</TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {sheet.totalRows > sheet.rows.length && (
+                  <p className="text-xs text-muted-foreground">
+                    and {sheet.totalRows - sheet.rows.length} more row(s)
+                  </p>
+                )}
+              </div>
+            ))}
           </div>
         </ScrollArea>
-        
+
         <DialogFooter className="pt-4">
           <p className="text-xs text-muted-foreground mr-auto">
-            CSV file will be downloaded that can be opened in Excel
+            {preview ? `${preview.totalRows} hire(s) in ${preview.sheets.length || 1} sheet(s)` : "Templates are managed in Settings → Reports"}
           </p>
           <Button onClick={onClose} variant="outline">Close</Button>
-          <Button onClick={generateExcelReport} disabled={isGenerating} className="gap-2">
+          <Button onClick={generateExcelReport} disabled={isGenerating || !request} className="gap-2">
             {isGenerating ? (
               <>
                 <FileSpreadsheet className="h-4 w-4 animate-spin" />
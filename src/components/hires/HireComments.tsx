@@ -0,0 +1,383 @@
+import { useEffect, useRef, useState } from "react";
+import axios from "axios";
+import { useLocation } from "react-router-dom";
+import { format, formatDistanceToNow } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Loader2, MessageSquare, Paperclip, Pencil, Send, Trash2, UserCircle, X } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { cn } from "@/lib/utils";
+import { commentsService } from "@/services/comments-service";
+import { CommentAttachment, HireComment } from "@/types/types";
+
+interface HireCommentsProps {
+  hireId: string;
+  currentUser: { username: string; role: string } | null;
+}
+
+const MAX_ATTACHMENTS = 5;
+
+// The partial @name being typed just before the caret
+const MENTION_QUERY = /(?:^|\s)@([A-Za-z0-9._-]*)$/;
+// @names in a saved comment, highlighted when shown
+const MENTION_TOKEN = /(@[A-Za-z0-9._-]*[A-Za-z0-9_])/g;
+
+interface MentionTextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  usernames: string[];
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+// Textarea that suggests accounts after "@"; Tab or a click picks the first or chosen one
+function MentionTextarea({ value, onChange, usernames, placeholder, disabled }: MentionTextareaProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [query, setQuery] = useState<string | null>(null);
+
+  const suggestions = query === null
+    ? []
+    : usernames.filter(username => username.toLowerCase().startsWith(query.toLowerCase())).slice(0, 5);
+
+  const updateQuery = (text: string, caret: number) => {
+    const match = text.slice(0, caret).match(MENTION_QUERY);
+    setQuery(match ? match[1] : null);
+  };
+
+  const pick = (username: string) => {
+    const textarea = textareaRef.current;
+    if (!textarea || query === null) return;
+    const caret = textarea.selectionStart;
+    const start = caret - query.length;
+    const next = `${value.slice(0, start)}${username} ${value.slice(caret)}`;
+    onChange(next);
+    setQuery(null);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(start + username.length + 1, start + username.length + 1);
+    });
+  };
+
+  return (
+    <div className="relative">
+      <Textarea
+        ref={textareaRef}
+        value={value}
+        placeholder={placeholder}
+        disabled={disabled}
+        rows={3}
+        onChange={(e) => {
+          onChange(e.target.value);
+          updateQuery(e.target.value, e.target.selectionStart);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Tab" && suggestions.length > 0) {
+            e.preventDefault();
+            pick(suggestions[0]);
+          } else if (e.key === "Escape") {
+            setQuery(null);
+          }
+        }}
+        onBlur={() => setTimeout(() => setQuery(null), 150)}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute z-10 mt-1 w-56 rounded-md border bg-popover shadow-md py-1">
+          {suggestions.map(username => (
+            <button
+              key={username}
+              type="button"
+              className="w-full text-left px-3 py-1.5 text-sm hover:bg-muted"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => pick(username)}
+            >
+              @{username}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const renderBody = (body: string) =>
+  body.split(MENTION_TOKEN).map((part, index) =>
+    index % 2 === 1
+      ? <span key={index} className="font-medium text-blue-600">{part}</span>
+      : <span key={index}>{part}</span>
+  );
+
+const formatSize = (size: number | null) => {
+  if (!size) return "";
+  return size < 1024 * 1024 ? `${Math.ceil(size / 1024)} KB` : `${(size / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export function HireComments({ hireId, currentUser }: HireCommentsProps) {
+  const [body, setBody] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState("");
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const location = useLocation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ['hire-comments', hireId];
+
+  const { data: comments = [], isLoading } = useQuery({
+    queryKey,
+    queryFn: () => commentsService.getComments(hireId),
+  });
+
+  const { data: mentionable = [] } = useQuery({
+    queryKey: ['mentionable-users'],
+    queryFn: commentsService.getMentionableUsers,
+    staleTime: 300000,
+  });
+  const usernames = mentionable.map(user => user.username);
+
+  // Notifications link to #comment-<id>; bring that comment into view once the thread has loaded
+  const linkedCommentId = location.hash.startsWith("#comment-") ? location.hash.slice("#comment-".length) : null;
+  useEffect(() => {
+    if (linkedCommentId && comments.some(comment => comment.id === linkedCommentId)) {
+      document.getElementById(`comment-${linkedCommentId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    }
+  }, [linkedCommentId, comments]);
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: axios.isAxiosError(error) ? error.response?.data?.error || error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => commentsService.addComment(hireId, body, files),
+    onSuccess: () => {
+      setBody("");
+      setFiles([]);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: showError("Could Not Post Comment"),
+  });
+
+  const editMutation = useMutation({
+    mutationFn: ({ id, text }: { id: string; text: string }) => commentsService.editComment(hireId, id, text),
+    onSuccess: () => {
+      setEditingId(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: showError("Could Not Save Comment"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => commentsService.deleteComment(hireId, id),
+    onSuccess: () => {
+      setDeletingId(null);
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: showError("Could Not Delete Comment"),
+  });
+
+  const addFiles = (selected: FileList | null) => {
+    const next = [...files, ...Array.from(selected || [])];
+    if (next.length > MAX_ATTACHMENTS) {
+      toast({ title: "Too Many Files", description: `A comment can have up to ${MAX_ATTACHMENTS} attachments`, variant: "destructive" });
+    }
+    setFiles(next.slice(0, MAX_ATTACHMENTS));
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const download = async (comment: HireComment, attachment: CommentAttachment) => {
+    try {
+      const blob = await commentsService.downloadAttachment(hireId, comment.id, attachment.id);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.file_name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      showError("Download Failed")(error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquare className="h-5 w-5" />
+          Comments
+          {comments.length > 0 && <span className="text-sm font-normal text-muted-foreground">({comments.length})</span>}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : comments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No comments yet. Mention someone with @ to let them know.</p>
+        ) : (
+          <div className="space-y-3">
+            {comments.map(comment => {
+              const isAuthor = comment.author === currentUser?.username;
+              const canDelete = isAuthor || currentUser?.role === "admin";
+
+              return (
+                <div
+                  key={comment.id}
+                  id={`comment-${comment.id}`}
+                  className={cn("rounded-md border p-3", comment.id === linkedCommentId && "border-blue-400 bg-blue-50/50")}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex items-center gap-2 text-sm">
+                      <UserCircle className="h-5 w-5 text-muted-foreground" />
+                      <span className="font-medium">{comment.author}</span>
+                      <span className="text-muted-foreground" title={format(new Date(comment.created_at), "d MMM yyyy HH:mm")}>
+                        {formatDistanceToNow(new Date(comment.created_at), { addSuffix: true })}
+                      </span>
+                      {comment.edited_at && (
+                        <span className="text-xs text-muted-foreground" title={format(new Date(comment.edited_at), "d MMM yyyy HH:mm")}>
+                          (edited)
+                        </span>
+                      )}
+                    </div>
+                    {editingId !== comment.id && (
+                      <div className="flex">
+                        {isAuthor && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            title="Edit comment"
+                            onClick={() => {
+                              setEditingId(comment.id);
+                              setEditBody(comment.body);
+                            }}
+                          >
+                            <Pencil className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                        {canDelete && (
+                          <Button variant="ghost" size="icon" className="h-7 w-7" title="Delete comment" onClick={() => setDeletingId(comment.id)}>
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  {editingId === comment.id ? (
+                    <div className="mt-2 space-y-2">
+                      <MentionTextarea value={editBody} onChange={setEditBody} usernames={usernames} disabled={editMutation.isPending} />
+                      <div className="flex justify-end gap-2">
+                        <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>Cancel</Button>
+                        <Button
+                          size="sm"
+                          onClick={() => editMutation.mutate({ id: comment.id, text: editBody })}
+                          disabled={editMutation.isPending}
+                        >
+                          {editMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                          Save
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    comment.body && <p className="mt-2 text-sm whitespace-pre-wrap break-words">{renderBody(comment.body)}</p>
+                  )}
+
+                  {comment.attachments.length > 0 && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {comment.attachments.map(attachment => (
+                        <Button
+                          key={attachment.id}
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          onClick={() => download(comment, attachment)}
+                        >
+                          <Paperclip className="h-3 w-3 mr-1" />
+                          {attachment.file_name}
+                          {attachment.size ? <span className="ml-1 text-muted-foreground">{formatSize(attachment.size)}</span> : null}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <MentionTextarea
+            value={body}
+            onChange={setBody}
+            usernames={usernames}
+            placeholder="Add a comment... type @ to mention someone"
+            disabled={addMutation.isPending}
+          />
+          {files.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {files.map((file, index) => (
+                <span key={`${file.name}-${index}`} className="flex items-center gap-1 rounded border px-2 py-0.5 text-xs">
+                  <Paperclip className="h-3 w-3" />
+                  {file.name}
+                  <button type="button" onClick={() => setFiles(files.filter((_, i) => i !== index))} aria-label={`Remove ${file.name}`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+          <div className="flex justify-between">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              accept=".pdf,.doc,.docx,.xls,.xlsx,.txt,.csv,.png,.jpg,.jpeg,.gif"
+              onChange={(e) => addFiles(e.target.files)}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={files.length >= MAX_ATTACHMENTS || addMutation.isPending}
+            >
+              <Paperclip className="h-4 w-4 mr-1" />
+              Attach
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => addMutation.mutate()}
+              disabled={(!body.trim() && files.length === 0) || addMutation.isPending}
+            >
+              {addMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Send className="h-4 w-4 mr-1" />}
+              Comment
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+
+      <AlertDialog open={deletingId !== null} onOpenChange={(open) => !open && setDeletingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Comment</AlertDialogTitle>
+            <AlertDialogDescription>
+              The comment and its attachments will be removed for everyone. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deletingId && deleteMutation.mutate(deletingId)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
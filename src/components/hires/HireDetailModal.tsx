@@ -5,7 +5,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { X, Send, UserPlus, RefreshCw, Mail, User, Activity, FileText, History } from "lucide-react";
+import { X, Send, UserPlus, UserMinus, RefreshCw, Mail, User, Activity, FileText, History } from "lucide-react";
 import { useState } from "react";
 import { NewHire } from "@/types/types";
 import { useQuery } from "@tanstack/react-query";
@@ -16,10 +16,12 @@ import { useToast } from "@/components/ui/use-toast";
 import { SendWhatsAppDialog } from "./SendWhatsAppDialog";
 import { CreateADAccountDialog } from "./CreateADAccountDialog";
 import { SyncDistributionListDialog } from "./SyncDistributionListDialog";
+import { OffboardHireDialog } from "./OffboardHireDialog";
 import { AuditLogsList } from "./AuditLogsList";
 import { SrfDocumentUpload } from "./SrfDocumentUpload";
-import { calculateProgressPercentage } from "@/utils/progressCalculator";
+import { HireDocuments } from "./HireDocuments";
 import { ProgressBar } from "@/components/ui/progress-bar";
+import { formatCustomValue, visibleCustomFields } from "@/utils/customFields";
 
 interface HireDetailModalProps {
   isOpen: boolean;
@@ -31,6 +33,7 @@ export function HireDetailModal({ isOpen, onClose, hireId }: HireDetailModalProp
   const [isWhatsAppDialogOpen, setIsWhatsAppDialogOpen] = useState(false);
   const [isADDialogOpen, setIsADDialogOpen] = useState(false);
   const [isSyncDLDialogOpen, setIsSyncDLDialogOpen] = useState(false);
+  const [isOffboardDialogOpen, setIsOffboardDialogOpen] = useState(false);
   const { toast } = useToast();
   const { getCurrentUser } = useAuth();
   const currentUser = getCurrentUser();
@@ -62,6 +65,7 @@ export function HireDetailModal({ isOpen, onClose, hireId }: HireDetailModalProp
 
   const isADEnabled = settings?.activeDirectorySettings?.enabled || false;
   const isExchangeEnabled = settings?.exchangeOnlineSettings?.enabled || false;
+  const customFields = visibleCustomFields(settings?.customFields, currentUser?.role);
   
   const distributionListSyncStatus = hire?.distribution_list_sync_status ?? null;
   const showSyncButton = isExchangeEnabled && hire?.email && 
@@ -77,7 +81,8 @@ export function HireDetailModal({ isOpen, onClose, hireId }: HireDetailModalProp
     });
   };
 
-  const progressPercentage = hire ? calculateProgressPercentage(hire) : 0;
+  const progressPercentage = hire?.progress?.percentage ?? hire?.progress_percentage ?? 0;
+  const progressItems = hire?.progress?.items ?? [];
 
   return (
     <>
@@ -175,6 +180,12 @@ export function HireDetailModal({ isOpen, onClose, hireId }: HireDetailModalProp
                             <label className="text-sm font-medium text-muted-foreground">On-site Date</label>
                             <p>{hire.on_site_date ? new Date(hire.on_site_date).toLocaleDateString() : "N/A"}</p>
                           </div>
+                          {hire.last_working_day && (
+                            <div>
+                              <label className="text-sm font-medium text-muted-foreground">Last Working Day</label>
+                              <p>{new Date(hire.last_working_day).toLocaleDateString()}</p>
+                            </div>
+                          )}
                         </CardContent>
                       </Card>
 
@@ -227,6 +238,19 @@ export function HireDetailModal({ isOpen, onClose, hireId }: HireDetailModalProp
                             <label className="text-sm font-medium text-muted-foreground">ICT Support PIC</label>
                             <p>{hire.ict_support_pic || "Unassigned"}</p>
                           </div>
+                          {hire.offboarding_status && (
+                            <div>
+                              <label className="text-sm font-medium text-muted-foreground">Offboarding</label>
+                              <div className="flex items-center gap-2">
+                                <Badge variant={hire.offboarding_status === "Completed" ? "default" : "destructive"}>
+                                  {hire.offboarding_status}
+                                </Badge>
+                                {hire.license_reclaim_status && (
+                                  <Badge variant="outline">{hire.license_reclaim_status}</Badge>
+                                )}
+                              </div>
+                            </div>
+                          )}
                         </CardContent>
                       </Card>
 
@@ -242,9 +266,13 @@ export function HireDetailModal({ isOpen, onClose, hireId }: HireDetailModalProp
                           <div>
                             <label className="text-sm font-medium text-muted-foreground">SRF Status</label>
                             <Badge variant={hire.status_srf ? "default" : "secondary"}>
-                              {hire.status_srf ? "Complete" : "Pending"}
+                              {hire.status_srf ? "Approved" : "Pending approval"}
                             </Badge>
                           </div>
+                          <div>
+                            <label className="text-sm font-medium text-muted-foreground">SRF No.</label>
+                            <p>{hire.srf_number || "Not generated"}</p>
+                          </div>
                           <div>
                             <label className="text-sm font-medium text-muted-foreground">Remarks</label>
                             <p className="text-sm">{hire.remarks || "No remarks"}</p>
@@ -255,6 +283,22 @@ export function HireDetailModal({ isOpen, onClose, hireId }: HireDetailModalProp
                           </div>
                         </CardContent>
                       </Card>
+
+                      {customFields.length > 0 && (
+                        <Card>
+                          <CardHeader>
+                            <CardTitle className="text-lg">Custom Fields</CardTitle>
+                          </CardHeader>
+                          <CardContent className="space-y-3">
+                            {customFields.map(field => (
+                              <div key={field.key}>
+                                <label className="text-sm font-medium text-muted-foreground">{field.label}</label>
+                                <p>{formatCustomValue(field, hire.custom_fields) || "Not set"}</p>
+                              </div>
+                            ))}
+                          </CardContent>
+                        </Card>
+                      )}
                     </div>
                   </TabsContent>
 
@@ -276,42 +320,27 @@ export function HireDetailModal({ isOpen, onClose, hireId }: HireDetailModalProp
                           <Separator />
                           
                           <div className="grid grid-cols-2 gap-4">
-                            <div className="space-y-2">
-                              <h4 className="font-medium">Account Setup</h4>
-                              <div className="flex items-center gap-2">
-                                <Badge variant={hire.account_creation_status === "Active" ? "default" : "secondary"}>
-                                  {hire.account_creation_status}
-                                </Badge>
-                              </div>
-                            </div>
-                            
-                            <div className="space-y-2">
-                              <h4 className="font-medium">License Assignment</h4>
-                              <div className="flex items-center gap-2">
-                                <Badge variant={hire.license_assigned ? "default" : "secondary"}>
-                                  {hire.license_assigned ? "Assigned" : "Pending"}
-                                </Badge>
-                              </div>
-                            </div>
-                            
-                            <div className="space-y-2">
-                              <h4 className="font-medium">SRF Document</h4>
-                              <div className="flex items-center gap-2">
-                                <Badge variant={hire.status_srf ? "default" : "secondary"}>
-                                  {hire.status_srf ? "Complete" : "Pending"}
-                                </Badge>
+                            {progressItems.map(item => (
+                              <div key={item.id} className="space-y-2">
+                                <div className="flex justify-between items-center">
+                                  <h4 className="font-medium">{item.label}</h4>
+                                  <span className="text-xs text-muted-foreground">
+                                    {item.earned} / {item.weight}
+                                  </span>
+                                </div>
+                                <div className="flex items-center gap-2">
+                                  <Badge variant={item.complete ? "default" : "secondary"}>
+                                    {item.complete ? "Complete" : item.stage || (item.credit > 0 ? `${item.credit}%` : "Pending")}
+                                  </Badge>
+                                </div>
                               </div>
-                            </div>
-                            
-                            <div className="space-y-2">
-                              <h4 className="font-medium">Distribution Lists</h4>
-                              <div className="flex items-center gap-2">
-                                <Badge variant={isFullySynced ? "default" : "secondary"}>
-                                  {distributionListSyncStatus || "Not Synced"}
-                                </Badge>
-                              </div>
-                            </div>
+                            ))}
                           </div>
+                          {hire.progress && hire.progress.checklist !== "default" && (
+                            <p className="text-xs text-muted-foreground">
+                              Using the {hire.progress.checklist} checklist
+                            </p>
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -326,6 +355,9 @@ export function HireDetailModal({ isOpen, onClose, hireId }: HireDetailModalProp
                         <SrfDocumentUpload hire={hire} />
                       </CardContent>
                     </Card>
+                    <div className="mt-4">
+                      <HireDocuments hireId={hire.id!} />
+                    </div>
                   </TabsContent>
 
                   <TabsContent value="audit" className="mt-0">
@@ -368,6 +400,16 @@ export function HireDetailModal({ isOpen, onClose, hireId }: HireDetailModalProp
                         Synced ✓
                       </Button>
                     )}
+                    {hire.offboarding_status !== "Completed" && (
+                      <Button 
+                        onClick={() => setIsOffboardDialogOpen(true)} 
+                        className="flex items-center gap-2 text-red-600"
+                        variant="outline"
+                      >
+                        <UserMinus className="h-4 w-4" />
+                        {hire.offboarding_status ? "Resume Offboarding" : "Offboard"}
+                      </Button>
+                    )}
                   </div>
                   
                   <Button 
@@ -424,6 +466,14 @@ export function HireDetailModal({ isOpen, onClose, hireId }: HireDetailModalProp
               }}
             />
           </Dialog>
+
+          <Dialog open={isOffboardDialogOpen} onOpenChange={setIsOffboardDialogOpen}>
+            <OffboardHireDialog 
+              hire={hire} 
+              onClose={() => setIsOffboardDialogOpen(false)}
+              onSuccess={() => refetch()}
+            />
+          </Dialog>
         </>
       )}
     </>
@@ -0,0 +1,282 @@
+import { useState } from "react";
+import axios from "axios";
+import { format } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { AlertCircle, CheckCircle2, Download, Eye, FileText, Loader2, Trash2 } from "lucide-react";
+import { documentsService } from "@/services/documents-service";
+import { DocumentType, HireDocument } from "@/types/types";
+import { SrfDocumentPreview } from "./SrfDocumentPreview";
+
+interface HireDocumentsProps {
+  hireId: string;
+}
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+const ALLOWED_TYPES = [
+  "application/pdf",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "image/png",
+  "image/jpeg",
+];
+
+const canPreview = (hireDocument: HireDocument) =>
+  hireDocument.mime_type === "application/pdf" || Boolean(hireDocument.mime_type?.startsWith("image/"));
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+/**
+ * The hire's documents grouped by the types set up in Settings. Required types with nothing
+ * uploaded are flagged; a type can hold several files, such as both sides of an ID card.
+ */
+export function HireDocuments({ hireId }: HireDocumentsProps) {
+  const [uploadingType, setUploadingType] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<HireDocument | null>(null);
+  const [preview, setPreview] = useState<{ url: string; name: string } | null>(null);
+  const [previewingId, setPreviewingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['hire-documents', hireId],
+    queryFn: () => documentsService.getDocuments(hireId),
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['hire-documents', hireId] });
+    queryClient.invalidateQueries({ queryKey: ['hire', hireId] });
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: (documentId: string) => documentsService.deleteDocument(hireId, documentId),
+    onSuccess: () => {
+      toast({ title: "Document deleted" });
+      setDeleteTarget(null);
+      refresh();
+    },
+    onError: (error: unknown) => {
+      toast({ title: "Delete failed", description: errorMessage(error, "Failed to delete document"), variant: "destructive" });
+    },
+  });
+
+  const handleUpload = async (type: DocumentType, event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!ALLOWED_TYPES.includes(file.type)) {
+      toast({ title: "Invalid file type", description: "Please upload a PDF, Word document or a PNG/JPEG scan", variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      toast({ title: "File too large", description: "Please upload a file smaller than 10MB", variant: "destructive" });
+      return;
+    }
+
+    setUploadingType(type.key);
+    try {
+      await documentsService.uploadDocument(hireId, type.key, file);
+      toast({ title: "Success", description: `${type.label} uploaded successfully` });
+      refresh();
+    } catch (error) {
+      console.error("Error uploading hire document:", error);
+      toast({ title: "Upload failed", description: errorMessage(error, `Failed to upload ${type.label}`), variant: "destructive" });
+    } finally {
+      setUploadingType(null);
+    }
+  };
+
+  const handleDownload = async (hireDocument: HireDocument) => {
+    try {
+      const blob = await documentsService.downloadDocument(hireId, hireDocument.id);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = hireDocument.file_name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error downloading hire document:", error);
+      toast({ title: "Download failed", description: "Failed to download document", variant: "destructive" });
+    }
+  };
+
+  const handlePreview = async (hireDocument: HireDocument) => {
+    setPreviewingId(hireDocument.id);
+    try {
+      const url = await documentsService.previewDocument(hireId, hireDocument);
+      setPreview({ url, name: hireDocument.file_name });
+    } catch (error) {
+      console.error("Error previewing hire document:", error);
+      toast({ title: "Preview failed", description: "Failed to load document for preview", variant: "destructive" });
+    } finally {
+      setPreviewingId(null);
+    }
+  };
+
+  const handleClosePreview = () => {
+    if (preview) URL.revokeObjectURL(preview.url);
+    setPreview(null);
+  };
+
+  const documents = data?.documents || [];
+  const missingKeys = new Set((data?.missing || []).map(type => type.key));
+  // Files of a type that has since been removed from Settings are still listed so they can be cleaned up
+  const otherDocuments = documents.filter(hireDocument => !data?.types.some(type => type.key === hireDocument.document_type));
+
+  const renderDocument = (hireDocument: HireDocument) => (
+    <div key={hireDocument.id} className="flex items-center justify-between gap-2 p-2 bg-gray-50 rounded-md">
+      <div className="flex items-center gap-2 min-w-0">
+        <FileText className="h-4 w-4 text-blue-600 shrink-0" />
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{hireDocument.file_name}</p>
+          <p className="text-xs text-gray-500">
+            {format(new Date(hireDocument.uploaded_at), "d MMM yyyy")}
+            {hireDocument.uploaded_by && ` by ${hireDocument.uploaded_by}`}
+          </p>
+        </div>
+      </div>
+      <div className="flex gap-1 shrink-0">
+        {canPreview(hireDocument) && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => handlePreview(hireDocument)}
+            disabled={previewingId === hireDocument.id}
+          >
+            <Eye className="h-3 w-3 mr-1" />
+            {previewingId === hireDocument.id ? "Loading..." : "View"}
+          </Button>
+        )}
+        <Button type="button" size="sm" variant="outline" onClick={() => handleDownload(hireDocument)}>
+          <Download className="h-3 w-3 mr-1" />
+          Download
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          className="text-red-600 hover:text-red-700"
+          onClick={() => setDeleteTarget(hireDocument)}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          Documents
+        </CardTitle>
+        <CardDescription>
+          {data && (missingKeys.size > 0
+            ? `${missingKeys.size} required document(s) missing`
+            : "All required documents are uploaded")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading documents...
+          </div>
+        ) : error ? (
+          <div className="text-sm text-red-500">Error loading documents. Please try again later.</div>
+        ) : (
+          <>
+            {data?.types.map(type => {
+              const typeDocuments = documents.filter(hireDocument => hireDocument.document_type === type.key);
+              return (
+                <div key={type.key} className="space-y-2 border rounded-lg p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      {missingKeys.has(type.key) ? (
+                        <AlertCircle className="h-4 w-4 text-amber-600" />
+                      ) : (
+                        <CheckCircle2 className={typeDocuments.length > 0 ? "h-4 w-4 text-green-600" : "h-4 w-4 text-muted-foreground"} />
+                      )}
+                      <span className="text-sm font-medium">{type.label}</span>
+                      <Badge variant="outline" className="text-xs">{type.required ? "Required" : "Optional"}</Badge>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {uploadingType === type.key && <Loader2 className="h-4 w-4 animate-spin" />}
+                      <Input
+                        type="file"
+                        accept=".pdf,.doc,.docx,.png,.jpg,.jpeg"
+                        onChange={(event) => handleUpload(type, event)}
+                        disabled={uploadingType !== null}
+                        className="max-w-[220px] text-xs"
+                      />
+                    </div>
+                  </div>
+                  {typeDocuments.map(renderDocument)}
+                </div>
+              );
+            })}
+
+            {otherDocuments.length > 0 && (
+              <div className="space-y-2 border rounded-lg p-3">
+                <span className="text-sm font-medium">Other documents</span>
+                {otherDocuments.map(renderDocument)}
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">
+              Supported formats: PDF, DOC, DOCX, PNG, JPEG (max 10MB)
+            </p>
+          </>
+        )}
+
+        <AlertDialog open={Boolean(deleteTarget)} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete Document</AlertDialogTitle>
+              <AlertDialogDescription>
+                Are you sure you want to delete {deleteTarget?.file_name}? This action cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+                disabled={deleteMutation.isPending}
+              >
+                {deleteMutation.isPending ? "Deleting..." : "Delete"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <SrfDocumentPreview
+          isOpen={Boolean(preview)}
+          onClose={handleClosePreview}
+          pdfUrl={preview?.url || null}
+          documentName={preview?.name || ""}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,15 +1,17 @@
 import { useState, useEffect, useCallback } from "react";
+import axios from "axios";
 import { useParams, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { hiresApi } from "@/services/api";
-import { NewHire } from "@/types/types";
+import { CustomFieldDefinition, DuplicateMatch, NewHire } from "@/types/types";
 import { useToast } from "@/components/ui/use-toast";
-import { ArrowLeft, Eye, EyeOff, Copy, ChevronDown, ChevronUp } from "lucide-react";
+import { ArrowLeft, Eye, EyeOff, Copy, ChevronDown, ChevronUp, RefreshCw } from "lucide-react";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { settingsService } from "@/services/settings-service";
 import logger from "@/utils/logger";
@@ -20,6 +22,12 @@ import { MultiSelectMailingList } from "./MultiSelectMailingList";
 import { ADUserLookup } from "./ADUserLookup";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { SrfDocumentUpload } from "./SrfDocumentUpload";
+import { HireDocuments } from "./HireDocuments";
+import { PasswordStrengthMeter } from "./PasswordStrengthMeter";
+import { IdentityAvailability } from "./IdentityAvailability";
+import { DuplicateHireDialog } from "./DuplicateHireDialog";
+import { DEFAULT_PASSWORD_POLICY, generatePassword, validatePassword } from "@/utils/passwordPolicy";
+import { missingRequiredFields, visibleCustomFields } from "@/utils/customFields";
 
 // Type definition for Active Directory account details
 interface ADAccountDetails {
@@ -72,8 +80,12 @@ export function HireForm({ currentUser }: HireFormProps) {
   const [isUsernameManuallyEdited, setIsUsernameManuallyEdited] = useState(false);
   const [isPasswordManuallyEdited, setIsPasswordManuallyEdited] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  // Stored password fetched on demand from the credential vault (admin/support only)
+  const [revealedPassword, setRevealedPassword] = useState<string | null>(null);
   const [showADDetails, setShowADDetails] = useState(false);
   const [showEmptyMailingListDialog, setShowEmptyMailingListDialog] = useState(false);
+  // Existing hires the server thinks match the one being created
+  const [duplicates, setDuplicates] = useState<DuplicateMatch[]>([]);
   const [adAccountDetails, setADAccountDetails] = useState<ADAccountDetails>({
     displayName: "",
     firstName: "",
@@ -113,6 +125,10 @@ export function HireForm({ currentUser }: HireFormProps) {
     queryFn: settingsService.getSettings,
   });
 
+  const passwordPolicy = settingsData?.passwordPolicy || DEFAULT_PASSWORD_POLICY;
+  const customFields = visibleCustomFields(settingsData?.customFields, currentUser?.role);
+  const passwordContext = { name: hire.name, username: hire.username };
+
   // Move the license types query inside the component
   const { data: licenseTypes } = useQuery({
     queryKey: ['licenseTypes'],
@@ -127,6 +143,9 @@ export function HireForm({ currentUser }: HireFormProps) {
       // Filter out id, created_at, and updated_at
       const { id, created_at, updated_at, ...hireFormData } = hireData;
       
+      // The stored password never comes back from the server - leave the field blank to keep it
+      hireFormData.password = "";
+      
       // Format on_site_date if it exists
       if (hireFormData.on_site_date) {
         // Convert the date to YYYY-MM-DD format
@@ -252,7 +271,7 @@ export function HireForm({ currentUser }: HireFormProps) {
       
       if (!firstName) return "";
       
-      return `${emailPart}@merdekabattery.com`;
+      return `${emailPart}@${settingsData?.identitySettings?.emailDomain || "merdekabattery.com"}`;
     } catch (error) {
       logger.ui.error("HireForm", "Error generating email:", error);
       return "";
@@ -270,34 +289,6 @@ export function HireForm({ currentUser }: HireFormProps) {
     return email.substring(0, Math.min(atIndex, 20));
   };
   
-  // Helper function to generate password from first name
-  const generatePasswordFromName = (fullName: string) => {
-    try {
-      if (!fullName) return "";
-      
-      // Get the first name
-      const firstName = fullName.trim().split(/\s+/)[0];
-      if (!firstName) return "";
-      
-      // Apply the password generation rules
-      const modifiedKey = firstName
-        .replace(/a/gi, '4')
-        .replace(/i/gi, '1')
-        .replace(/e/gi, '3')
-        .replace(/o/gi, '0')
-        .replace(/u/gi, '00');
-      
-      // Remove any spaces
-      const processedKey = modifiedKey.replace(/\s/g, '');
-      
-      // Add the suffix
-      return `${processedKey}#Mb23`;
-    } catch (error) {
-      logger.ui.error("HireForm", "Error generating password:", error);
-      return "";
-    }
-  };
-
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     logger.ui.debug("HireForm", `Input changed: ${name} = ${value}`);
@@ -325,11 +316,9 @@ export function HireForm({ currentUser }: HireFormProps) {
           }
         }
         
-        // Generate password if not manually edited
-        if (!isPasswordManuallyEdited) {
-          const generatedPassword = generatePasswordFromName(value);
-          logger.ui.debug("HireForm", `Generated password: ${generatedPassword}`);
-          setHire((prev) => ({ ...prev, password: generatedPassword }));
+        // Generate a password for new hires once a name is entered - existing hires keep their stored one
+        if (isNewHire && !isPasswordManuallyEdited) {
+          setHire((prev) => prev.password ? prev : { ...prev, password: generatePassword(passwordPolicy, { name: value }) });
         }
       } else {
         // If name is cleared, clear other fields if they're not manually edited
@@ -341,7 +330,7 @@ export function HireForm({ currentUser }: HireFormProps) {
           setHire((prev) => ({ ...prev, username: "" }));
         }
         
-        if (!isPasswordManuallyEdited) {
+        if (isNewHire && !isPasswordManuallyEdited) {
           setHire((prev) => ({ ...prev, password: "" }));
         }
       }
@@ -366,6 +355,10 @@ export function HireForm({ currentUser }: HireFormProps) {
     logger.ui.debug("HireForm", `Select changed: ${name} = ${value}`);
     setHire((prev) => ({ ...prev, [name]: value }));
   };
+
+  const handleCustomFieldChange = (key: string, value: string | boolean) => {
+    setHire((prev) => ({ ...prev, custom_fields: { ...prev.custom_fields, [key]: value } }));
+  };
   
   const copyToClipboard = (text: string, itemName: string) => {
     if (!text) return;
@@ -399,8 +392,59 @@ export function HireForm({ currentUser }: HireFormProps) {
     }
   };
   
-  const copyPasswordToClipboard = () => {
-    copyToClipboard(hire.password, "Password");
+  // Fetch the stored password from the vault; the server audits every reveal
+  const revealStoredPassword = async (): Promise<string | null> => {
+    if (revealedPassword) return revealedPassword;
+    if (!id || isNewHire || !hire.has_password) return null;
+    
+    if (!["admin", "support"].includes(currentUser?.role || "")) {
+      toast({
+        title: "Not allowed",
+        description: "Only admin or support users can reveal stored passwords",
+        variant: "destructive",
+      });
+      return null;
+    }
+    
+    try {
+      const password = await hiresApi.revealPassword(id);
+      setRevealedPassword(password);
+      return password;
+    } catch (error) {
+      logger.ui.error("HireForm", "Error revealing password:", error);
+      toast({
+        title: "Error",
+        description: "Could not reveal the stored password",
+        variant: "destructive",
+      });
+      return null;
+    }
+  };
+  
+  // Take a suggested username/email pair from the availability check
+  const applyIdentitySuggestion = (suggestion: { username: string; email: string }) => {
+    setHire((prev) => ({ ...prev, username: suggestion.username, email: suggestion.email }));
+    setIsEmailManuallyEdited(true);
+    setIsUsernameManuallyEdited(true);
+  };
+
+  const regeneratePassword = () => {
+    setHire((prev) => ({ ...prev, password: generatePassword(passwordPolicy, passwordContext) }));
+    setIsPasswordManuallyEdited(true);
+    setShowPassword(true);
+  };
+
+  const togglePasswordVisibility = async () => {
+    if (!showPassword && !hire.password && !(await revealStoredPassword())) {
+      if (!hire.has_password) setShowPassword(true);
+      return;
+    }
+    setShowPassword(!showPassword);
+  };
+  
+  const copyPasswordToClipboard = async () => {
+    const password = hire.password || (await revealStoredPassword());
+    if (password) copyToClipboard(password, "Password");
   };
 
   // Fallback method for copying text using document.execCommand
@@ -452,6 +496,27 @@ export function HireForm({ currentUser }: HireFormProps) {
       return;
     }
     
+    const missingCustomFields = missingRequiredFields(customFields, hire.custom_fields);
+    if (missingCustomFields.length > 0) {
+      toast({
+        title: "Validation Error",
+        description: `${missingCustomFields.join(", ")} ${missingCustomFields.length === 1 ? "is" : "are"} required`,
+        variant: "destructive",
+      });
+      return;
+    }
+    
+    // A new or replaced password must meet the policy before it is stored
+    const passwordErrors = hire.password ? validatePassword(hire.password, passwordPolicy, passwordContext) : [];
+    if (passwordErrors.length > 0) {
+      toast({
+        title: "Validation Error",
+        description: `Password does not meet the password policy: ${passwordErrors.join("; ")}`,
+        variant: "destructive",
+      });
+      return;
+    }
+    
     // Check if mailing list is empty and show warning dialog
     if (!hire.mailing_list || hire.mailing_list.length === 0) {
       setShowEmptyMailingListDialog(true);
@@ -461,12 +526,8 @@ export function HireForm({ currentUser }: HireFormProps) {
     await proceedWithSubmit();
   };
   
-  const proceedWithSubmit = async () => {
-    setIsLoading(true);
-    
-    logger.ui.info("HireForm", "Form submitted");
-    
-    // Create a copy of hire data for submission
+  // Copy of the form data as sent to the server
+  const buildHireToSubmit = () => {
     const hireToSubmit = { ...hire };
     
     // Ensure the ICT Support PIC is set
@@ -479,6 +540,15 @@ export function HireForm({ currentUser }: HireFormProps) {
     
     // Remove audit logs to prevent payload size issues
     delete hireToSubmit.audit_logs;
+    return hireToSubmit;
+  };
+  
+  const proceedWithSubmit = async (allowDuplicate = false) => {
+    setIsLoading(true);
+    
+    logger.ui.info("HireForm", "Form submitted");
+    
+    const hireToSubmit = buildHireToSubmit();
     
     logger.ui.debug("HireForm", "About to save hire data:", JSON.stringify(hireToSubmit));
     logger.ui.debug("HireForm", "Is new hire?", isNewHire);
@@ -487,7 +557,7 @@ export function HireForm({ currentUser }: HireFormProps) {
       if (isNewHire) {
         logger.ui.info("HireForm", "Creating new hire");
         logger.ui.debug("HireForm", "Create data:", JSON.stringify(hireToSubmit));
-        const result = await hiresApi.create(hireToSubmit);
+        const result = await hiresApi.create(hireToSubmit, allowDuplicate);
         logger.ui.info("HireForm", "Create hire API call completed!");
         logger.ui.debug("HireForm", "Create hire result:", result);
         toast({
@@ -508,8 +578,15 @@ export function HireForm({ currentUser }: HireFormProps) {
           description: "Hire details updated successfully",
         });
       }
+      setDuplicates([]);
       navigate("/hires");
     } catch (error) {
+      // Likely duplicates - let the user merge, create anyway or cancel
+      if (axios.isAxiosError(error) && error.response?.status === 409 && error.response.data?.duplicates) {
+        setDuplicates(error.response.data.duplicates);
+        return;
+      }
+      
       logger.ui.error("HireForm", "Error saving hire:", error);
       if (error instanceof Error) {
         logger.ui.error("HireForm", "Error details:", error.message);
@@ -521,7 +598,7 @@ export function HireForm({ currentUser }: HireFormProps) {
       
       toast({
         title: "Error",
-        description: `Failed to save hire: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        description: `Failed to save hire: ${axios.isAxiosError(error) ? error.response?.data?.error || error.message : error instanceof Error ? error.message : 'Unknown error'}`,
         variant: "destructive",
       });
     } finally {
@@ -529,6 +606,44 @@ export function HireForm({ currentUser }: HireFormProps) {
     }
   };
   
+  // Copy what was entered on this form onto an existing hire instead of creating a new one
+  const mergeIntoHire = async (existingId: string) => {
+    setIsLoading(true);
+    try {
+      const existing = await hiresApi.getOne(existingId);
+      
+      // Only fields filled in here - blanks and untouched defaults would wipe what the existing hire has
+      const updates: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(buildHireToSubmit())) {
+        const isBlank = value === "" || value === null || value === undefined || (Array.isArray(value) && value.length === 0);
+        if (!isBlank && value !== emptyHire[key as keyof typeof emptyHire]) {
+          updates[key] = value;
+        }
+      }
+      if (existing.has_password) {
+        delete updates.password;
+      }
+      
+      await hiresApi.update(existingId, updates as Partial<NewHire>);
+      queryClient.invalidateQueries({ queryKey: ['hire', existingId] });
+      
+      toast({
+        title: "Hires Merged",
+        description: `The details were merged into ${existing.name}`,
+      });
+      setDuplicates([]);
+      navigate(`/hires/${existingId}`);
+    } catch (error) {
+      logger.ui.error("HireForm", "Error merging hire:", error);
+      toast({
+        title: "Error",
+        description: `Failed to merge hire: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
   if (isFetching) {
     return <div className="text-center py-8">Loading...</div>;
@@ -554,6 +669,44 @@ export function HireForm({ currentUser }: HireFormProps) {
   // Check if AD is enabled to decide whether to show the AD user lookup
   const isADEnabled = settingsData?.activeDirectorySettings?.enabled || false;
 
+  const renderCustomFieldInput = (field: CustomFieldDefinition) => {
+    const value = hire.custom_fields?.[field.key];
+    const id = `custom_${field.key}`;
+    switch (field.type) {
+      case "boolean":
+        return (
+          <Switch
+            id={id}
+            checked={value === true}
+            onCheckedChange={(checked) => handleCustomFieldChange(field.key, checked)}
+          />
+        );
+      case "select":
+        return (
+          <Select value={typeof value === "string" && value ? value : undefined} onValueChange={(option) => handleCustomFieldChange(field.key, option)}>
+            <SelectTrigger id={id}>
+              <SelectValue placeholder={`Select ${field.label.toLowerCase()}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {(field.options || []).map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      default:
+        return (
+          <Input
+            id={id}
+            type={field.type === "date" ? "date" : "text"}
+            value={typeof value === "string" ? value : ""}
+            onChange={(e) => handleCustomFieldChange(field.key, e.target.value)}
+            required={field.required}
+          />
+        );
+    }
+  };
+
   // Add the missing handleMailingListChange function
   const handleMailingListChange = (value: string[]) => {
     setHire(prev => ({
@@ -733,6 +886,13 @@ export function HireForm({ currentUser }: HireFormProps) {
                     {hire.username.length}/20 characters
                   </p>
                 )}
+                <IdentityAvailability
+                  name={hire.name}
+                  username={hire.username}
+                  email={hire.email}
+                  hireId={isNewHire ? undefined : id}
+                  onApply={applyIdentitySuggestion}
+                />
               </div>
               <div className="space-y-2">
                 <label htmlFor="password" className="text-sm font-medium">
@@ -743,10 +903,16 @@ export function HireForm({ currentUser }: HireFormProps) {
                     id="password"
                     name="password"
                     type={showPassword ? "text" : "password"}
-                    value={hire.password}
+                    value={hire.password || (showPassword && revealedPassword) || ""}
                     onChange={handleInputChange}
-                    placeholder="Auto-generated from first name"
-                    className="pr-20" /* Make space for the buttons */
+                    placeholder={
+                      isNewHire
+                        ? "Generated once a name is entered"
+                        : hire.has_password
+                          ? "Stored encrypted - type to replace"
+                          : "No password stored"
+                    }
+                    className="pr-28" /* Make space for the buttons */
                   />
                   <div className="absolute right-2 top-1/2 transform -translate-y-1/2 flex space-x-1">
                     <TooltipProvider>
@@ -757,7 +923,7 @@ export function HireForm({ currentUser }: HireFormProps) {
                             variant="ghost" 
                             size="icon" 
                             className="h-8 w-8" 
-                            onClick={() => setShowPassword(!showPassword)}
+                            onClick={togglePasswordVisibility}
                           >
                             {showPassword ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
                           </Button>
@@ -768,6 +934,25 @@ export function HireForm({ currentUser }: HireFormProps) {
                       </Tooltip>
                     </TooltipProvider>
                     
+                    <TooltipProvider>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button 
+                            type="button" 
+                            variant="ghost" 
+                            size="icon" 
+                            className="h-8 w-8" 
+                            onClick={regeneratePassword}
+                          >
+                            <RefreshCw className="h-4 w-4" />
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Generate new password</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    </TooltipProvider>
+                    
                     <TooltipProvider>
                       <Tooltip>
                         <TooltipTrigger asChild>
@@ -788,6 +973,7 @@ export function HireForm({ currentUser }: HireFormProps) {
                     </TooltipProvider>
                   </div>
                 </div>
+                <PasswordStrengthMeter password={hire.password || ""} policy={passwordPolicy} context={passwordContext} />
               </div>
             </div>
 
@@ -1077,14 +1263,13 @@ export function HireForm({ currentUser }: HireFormProps) {
                 />
               </div>
               <div className="space-y-2">
-                <label htmlFor="status_srf" className="text-sm font-medium">
+                <label className="text-sm font-medium block">
                   SRF Status
                 </label>
-                <Switch
-                  id="status_srf"
-                  checked={hire.status_srf}
-                  onCheckedChange={(checked) => handleSwitchChange("status_srf", checked)}
-                />
+                {/* Set by approving the uploaded SRF below, not edited here */}
+                <Badge variant={hireData?.status_srf ? "default" : "secondary"}>
+                  {hireData?.status_srf ? "Approved" : "Pending approval"}
+                </Badge>
               </div>
               <div className="space-y-2">
                 <label htmlFor="microsoft_365_license" className="text-sm font-medium">
@@ -1158,9 +1343,32 @@ export function HireForm({ currentUser }: HireFormProps) {
           </CardContent>
         </Card>
 
+        {customFields.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Additional Information</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {customFields.map(field => (
+                  <div key={field.key} className="space-y-2">
+                    <label htmlFor={`custom_${field.key}`} className="text-sm font-medium block">
+                      {field.label}{field.required && " *"}
+                    </label>
+                    {renderCustomFieldInput(field)}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Documents Section - Only show for existing hires */}
         {!isNewHire && hireData && (
-          <SrfDocumentUpload hire={hireData} />
+          <>
+            <SrfDocumentUpload hire={hireData} />
+            <HireDocuments hireId={hireData.id} />
+          </>
         )}
 
         <div className="flex justify-end space-x-4">
@@ -1189,12 +1397,20 @@ export function HireForm({ currentUser }: HireFormProps) {
             </AlertDialogHeader>
             <AlertDialogFooter>
               <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={proceedWithSubmit}>
+              <AlertDialogAction onClick={() => proceedWithSubmit()}>
                 Proceed Anyway
               </AlertDialogAction>
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
+
+        <DuplicateHireDialog
+          duplicates={duplicates}
+          isSaving={isLoading}
+          onCancel={() => setDuplicates([])}
+          onCreateAnyway={() => proceedWithSubmit(true)}
+          onMerge={mergeIntoHire}
+        />
     </div>
   );
 }
@@ -0,0 +1,175 @@
+import { useState } from "react";
+import axios from "axios";
+import { AuditAction, AuditLog } from "@/types/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { History, RotateCcw, Loader2 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuditLogs } from "@/hooks/useAuditLogs";
+import { hiresApi } from "@/services/api";
+
+interface HireHistoryTimelineProps {
+  hireId: string;
+  canRevert?: boolean;
+}
+
+type FieldValues = Record<string, unknown>;
+
+interface HistoryEntry {
+  log: AuditLog;
+  oldValues: FieldValues;
+  newValues: FieldValues;
+  fields: string[];
+}
+
+// Audit actions that carry a field-level diff
+const HISTORY_ACTIONS: AuditAction[] = ["UPDATE", "BULK_UPDATE", "REVERT", "IMPORT_UPDATE", "IMPORT_ROLLBACK"];
+
+const parseValues = (json: string | null): FieldValues | null => {
+  if (!json) return null;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+};
+
+const formatField = (field: string) =>
+  field.replace(/_/g, " ").replace(/\b\w/g, char => char.toUpperCase());
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+export function HireHistoryTimeline({ hireId, canRevert = false }: HireHistoryTimelineProps) {
+  const [revertTarget, setRevertTarget] = useState<HistoryEntry | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: logs = [], isLoading } = useAuditLogs(hireId);
+
+  // Logs arrive newest first; keep only changes that recorded which fields moved
+  const entries: HistoryEntry[] = logs
+    .filter(log => HISTORY_ACTIONS.includes(log.action))
+    .map(log => {
+      const newValues = parseValues(log.new_values);
+      return newValues
+        ? { log, oldValues: parseValues(log.old_values) || {}, newValues, fields: Object.keys(newValues) }
+        : null;
+    })
+    .filter((entry): entry is HistoryEntry => entry !== null && entry.fields.length > 0);
+
+  const revertMutation = useMutation({
+    mutationFn: (logId: string) => hiresApi.revert(hireId, logId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['hire', hireId] });
+      queryClient.invalidateQueries({ queryKey: ['audit-logs', hireId] });
+      toast({
+        title: "Hire Reverted",
+        description: "The hire has been restored to the selected version",
+      });
+      setRevertTarget(null);
+    },
+    onError: (error: unknown) => {
+      const message = axios.isAxiosError(error)
+        ? error.response?.data?.error || error.message
+        : "Failed to revert hire";
+      toast({
+        title: "Revert Failed",
+        description: message,
+        variant: "destructive",
+      });
+      setRevertTarget(null);
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading history...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Change History
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">No field changes recorded yet</div>
+        ) : (
+          <ol className="relative border-l ml-2 space-y-6">
+            {entries.map((entry, index) => (
+              <li key={entry.log.id} className="ml-4">
+                <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background" />
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="font-medium">{new Date(entry.log.occurred_at).toLocaleString()}</span>
+                    <Badge variant="outline">{entry.log.action}</Badge>
+                    <span className="text-muted-foreground">by {entry.log.actor}</span>
+                  </div>
+                  {/* The newest entry is the current version, so there is nothing to revert to */}
+                  {canRevert && index > 0 && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRevertTarget(entry)}
+                      disabled={revertMutation.isPending}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      Revert to this version
+                    </Button>
+                  )}
+                </div>
+                <div className="border rounded-md overflow-hidden text-sm">
+                  <div className="grid grid-cols-[1fr_2fr_2fr] bg-muted font-medium">
+                    <div className="px-3 py-1">Field</div>
+                    <div className="px-3 py-1">Before</div>
+                    <div className="px-3 py-1">After</div>
+                  </div>
+                  {entry.fields.map(field => (
+                    <div key={field} className="grid grid-cols-[1fr_2fr_2fr] border-t">
+                      <div className="px-3 py-1 text-muted-foreground">{formatField(field)}</div>
+                      <div className="px-3 py-1 bg-red-50 text-red-800 break-all">{formatValue(entry.oldValues[field])}</div>
+                      <div className="px-3 py-1 bg-green-50 text-green-800 break-all">{formatValue(entry.newValues[field])}</div>
+                    </div>
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!revertTarget} onOpenChange={(open) => !open && setRevertTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revert to this version?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every change made after {revertTarget && new Date(revertTarget.log.occurred_at).toLocaleString()} will be
+              undone. The revert is recorded in the audit log and can itself be reverted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={revertMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (revertTarget) revertMutation.mutate(revertTarget.log.id);
+              }}
+              disabled={revertMutation.isPending}
+            >
+              {revertMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Revert
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState, useEffect } from "react";
+import axios from "axios";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
+import { ProgressBar } from "@/components/ui/progress-bar";
+import { useToast } from "@/components/ui/use-toast";
+import { CalendarDays, Filter, Loader2, Search, UserCog } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { hiresApi } from "@/services/api";
+import { settingsService } from "@/services/settings-service";
+import { licenseService } from "@/services/license-service";
+import { useDebounce } from "@/hooks/use-debounce";
+import { HireFilters, NewHire, PaginatedResponse } from "@/types/types";
+import { EMPTY_FILTERS, HIRE_COLUMNS, PROGRESS_FILTER_OPTIONS, SLA_FILTER_OPTIONS, searchParamsToViewState, viewStateToSearchParams } from "@/utils/hireViews";
+import { BoardColumn, getBoardGroupings, groupHiresIntoColumns } from "@/utils/hireBoard";
+import { HireDetailModal } from "./HireDetailModal";
+
+// The board shows every matching hire at once, up to the server's page size limit
+const BOARD_PAGE_SIZE = 1000;
+// Select items can't have an empty value
+const ANY = "__any__";
+
+const TEXT_FILTERS: { key: keyof HireFilters; label: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "title", label: "Title" },
+  { key: "department", label: "Department" },
+  { key: "email", label: "Email" },
+  { key: "ictSupportPic", label: "ICT Support PIC" },
+];
+
+export function HiresBoard() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The board reads and writes the same search and filter parameters as the table,
+  // so switching between them keeps the current filters
+  const [initialState] = useState(() => searchParamsToViewState(searchParams));
+  const [searchQuery, setSearchQuery] = useState(initialState?.q || "");
+  const [filters, setFilters] = useState<HireFilters>({ ...EMPTY_FILTERS, ...initialState?.filters });
+  const [groupingId, setGroupingId] = useState(searchParams.get("group") || "account_creation_status");
+  const [draggedHireId, setDraggedHireId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [selectedHireId, setSelectedHireId] = useState<string | null>(null);
+  const debouncedSearchQuery = useDebounce(searchQuery);
+  const debouncedFilters = useDebounce(filters);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settingsData } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings,
+  });
+
+  const { data: licenseTypes } = useQuery({
+    queryKey: ['license-types'],
+    queryFn: licenseService.getLicenseTypes,
+  });
+
+  const hiresQueryKey = ['hires-board', debouncedSearchQuery, debouncedFilters];
+  const { data, isLoading } = useQuery({
+    queryKey: hiresQueryKey,
+    queryFn: () => hiresApi.getAll({ pageSize: BOARD_PAGE_SIZE, sort: "on_site_date:asc", q: debouncedSearchQuery, ...debouncedFilters }),
+  });
+
+  const groupings = getBoardGroupings(
+    settingsData?.accountStatuses || ["Pending", "Active", "Inactive", "Suspended"],
+    settingsData?.onboardingChecklists?.default || []
+  );
+  const grouping = groupings.find(g => g.id === groupingId) || groupings[0];
+  const lanes = data ? groupHiresIntoColumns(data.data, grouping) : [];
+  const activeFilterCount = Object.values(filters).filter(Boolean).length;
+
+  // Keep the URL in step with the board so it can be shared as a link
+  useEffect(() => {
+    const nextParams = viewStateToSearchParams({
+      q: debouncedSearchQuery,
+      filters: debouncedFilters,
+      sortField: null,
+      sortDirection: null,
+      columns: HIRE_COLUMNS.map(column => column.key),
+      pageSize: null,
+    });
+    if (groupingId !== "account_creation_status") nextParams.set("group", groupingId);
+    if (nextParams.toString() !== searchParams.toString()) {
+      setSearchParams(nextParams, { replace: true });
+    }
+  }, [debouncedSearchQuery, debouncedFilters, groupingId, searchParams, setSearchParams]);
+
+  // Moving a card is an ordinary hire update, so it lands in the hire's history like any other edit
+  const moveMutation = useMutation({
+    mutationFn: ({ hire, value }: { hire: NewHire; value: string }) =>
+      hiresApi.update(hire.id, { [grouping.field]: value }),
+    onMutate: async ({ hire, value }) => {
+      await queryClient.cancelQueries({ queryKey: hiresQueryKey });
+      const previous = queryClient.getQueryData<PaginatedResponse<NewHire>>(hiresQueryKey);
+      if (previous) {
+        queryClient.setQueryData(hiresQueryKey, {
+          ...previous,
+          data: previous.data.map(h => h.id === hire.id ? { ...h, [grouping.field]: value } : h),
+        });
+      }
+      return { previous };
+    },
+    onSuccess: (_, { hire, value }) => {
+      toast({ title: "Hire Moved", description: `${hire.name} is now "${value}"` });
+    },
+    onError: (error: unknown, _, context) => {
+      if (context?.previous) queryClient.setQueryData(hiresQueryKey, context.previous);
+      toast({
+        title: "Move Failed",
+        description: axios.isAxiosError(error) ? error.response?.data?.error || error.message : "Failed to update the hire",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['hires-board'] });
+    },
+  });
+
+  const handleDrop = (column: BoardColumn) => {
+    const hire = data?.data.find(h => h.id === draggedHireId);
+    setDraggedHireId(null);
+    setDropTarget(null);
+    if (!hire || column.value === null || hire[grouping.field] === column.value) return;
+    moveMutation.mutate({ hire, value: column.value });
+  };
+
+  return (
+    <div className="flex flex-col h-screen">
+      <div className="flex-shrink-0 flex flex-wrap items-center gap-2 p-4 bg-white border-b">
+        <div className="relative w-full max-w-sm">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by name, email, department..."
+            className="pl-8"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+          />
+        </div>
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant="outline" className={cn(activeFilterCount > 0 && "text-primary")}>
+              <Filter className="h-4 w-4 mr-1" />
+              Filters
+              {activeFilterCount > 0 && <Badge variant="secondary" className="ml-2">{activeFilterCount}</Badge>}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-80 p-4 space-y-3" align="start">
+            {TEXT_FILTERS.map(({ key, label }) => (
+              <div key={key} className="space-y-1">
+                <Label className="text-xs">{label}</Label>
+                <Input
+                  placeholder="Type to filter..."
+                  value={filters[key]}
+                  onChange={(e) => setFilters(prev => ({ ...prev, [key]: e.target.value }))}
+                  className="h-8"
+                />
+              </div>
+            ))}
+            <div className="space-y-1">
+              <Label className="text-xs">License</Label>
+              <Select value={filters.license || ANY} onValueChange={(value) => setFilters(prev => ({ ...prev, license: value === ANY ? "" : value }))}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  <SelectItem value="None">None</SelectItem>
+                  {(licenseTypes || []).map(license => (
+                    <SelectItem key={license.name} value={license.name}>{license.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Progress</Label>
+              <Select value={filters.progress || ANY} onValueChange={(value) => setFilters(prev => ({ ...prev, progress: value === ANY ? "" : value }))}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  {PROGRESS_FILTER_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Deadlines</Label>
+              <Select value={filters.sla || ANY} onValueChange={(value) => setFilters(prev => ({ ...prev, sla: value === ANY ? "" : value }))}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  {SLA_FILTER_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="ghost" size="sm" className="text-xs" onClick={() => setFilters(EMPTY_FILTERS)}>
+              Clear
+            </Button>
+          </PopoverContent>
+        </Popover>
+        <div className="flex items-center gap-2 ml-auto">
+          <Label className="text-sm text-muted-foreground">Columns by</Label>
+          <Select value={grouping.id} onValueChange={setGroupingId}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {groupings.map(g => (
+                <SelectItem key={g.id} value={g.id}>{g.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8">Loading...</div>
+      ) : (
+        <ScrollArea className="flex-1 min-h-0">
+          {data && data.total > data.data.length && (
+            <p className="px-4 pt-4 text-sm text-muted-foreground">
+              Showing the first {data.data.length} of {data.total} hires. Narrow the filters to see the rest.
+            </p>
+          )}
+          <div className="flex gap-4 p-4 items-start">
+            {lanes.map(({ column, hires }) => (
+              <div
+                key={column.id}
+                className={cn(
+                  "w-72 flex-shrink-0 rounded-md border bg-muted/40",
+                  dropTarget === column.id && "ring-2 ring-primary"
+                )}
+                onDragOver={(e) => {
+                  if (column.value === null || !draggedHireId) return;
+                  e.preventDefault();
+                  setDropTarget(column.id);
+                }}
+                onDragLeave={() => setDropTarget(current => current === column.id ? null : current)}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(column);
+                }}
+              >
+                <div className="flex items-center justify-between px-3 py-2 border-b">
+                  <span className={cn("text-sm font-medium", column.value === null && "text-muted-foreground")}>{column.label}</span>
+                  <Badge variant="outline">{hires.length}</Badge>
+                </div>
+                <div className="space-y-2 p-2 min-h-[80px]">
+                  {hires.map(hire => (
+                    <div
+                      key={hire.id}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = "move";
+                        setDraggedHireId(hire.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedHireId(null);
+                        setDropTarget(null);
+                      }}
+                      onClick={() => setSelectedHireId(hire.id)}
+                      className={cn(
+                        "rounded-md border bg-background p-3 space-y-2 cursor-grab shadow-sm hover:bg-muted/50 transition-colors",
+                        draggedHireId === hire.id && "opacity-50"
+                      )}
+                    >
+                      <div>
+                        <div className="font-medium text-sm">{hire.name}</div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {[hire.title, hire.department].filter(Boolean).join(" • ")}
+                        </div>
+                      </div>
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <CalendarDays className="h-3 w-3" />
+                          {hire.on_site_date ? format(new Date(hire.on_site_date), "dd MMM yyyy") : "No date"}
+                        </span>
+                        <span className="flex items-center gap-1 truncate">
+                          <UserCog className="h-3 w-3" />
+                          {hire.ict_support_pic || "Unassigned"}
+                        </span>
+                      </div>
+                      <ProgressBar percentage={hire.progress_percentage ?? 0} />
+                    </div>
+                  ))}
+                  {moveMutation.isPending && moveMutation.variables?.value === column.value && (
+                    <div className="flex justify-center py-1">
+                      <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+          <ScrollBar orientation="horizontal" className="h-2.5" />
+        </ScrollArea>
+      )}
+
+      <HireDetailModal
+        isOpen={selectedHireId !== null}
+        onClose={() => setSelectedHireId(null)}
+        hireId={selectedHireId}
+      />
+    </div>
+  );
+}
@@ -1,34 +1,66 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea, ScrollBar } from "@/components/ui/scroll-area";
 import { hiresApi } from "@/services/api";
-import { NewHire, SortDirection, SortField } from "@/types/types";
+import { HireColumn, HireViewState, NewHire, SavedView, SortDirection, SortField } from "@/types/types";
 import { useToast } from "@/components/ui/use-toast";
-import { Edit, Trash2, Search, ListPlus, Laptop } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import { Edit, Trash2, Search, ListPlus, Laptop, ChevronLeft, ChevronRight, FileSpreadsheet, Columns3 } from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { BulkUpdateDialog } from "./BulkUpdateDialog";
+import { BulkProvisionAction, BulkProvisionDialog, BulkProvisionMenu } from "./BulkProvisionDialog";
 import { FilterPopover } from "./FilterPopover";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { licenseService } from "@/services/license-service";
 import { SortButton } from "./SortButton";
 import { ExcelReportDialog } from "./ExcelReportDialog";
-import { calculateProgressPercentage } from "@/utils/progressCalculator";
 import { ProgressBar } from "@/components/ui/progress-bar";
 import { useResponsive } from "@/hooks/use-responsive";
 import { HireDetailModal } from "./HireDetailModal";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useDebounce } from "@/hooks/use-debounce";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { SavedViewsMenu } from "./SavedViewsMenu";
+import { viewsService } from "@/services/views-service";
+import { settingsService } from "@/services/settings-service";
+import { useAuth } from "@/services/api";
+import { EMPTY_FILTERS, HIRE_COLUMNS, PROGRESS_FILTER_OPTIONS, SLA_FILTER_OPTIONS, isSameViewState, searchParamsToViewState, viewStateToSearchParams } from "@/utils/hireViews";
+import { CUSTOM_FIELD_PREFIX, formatCustomValue, visibleCustomFields } from "@/utils/customFields";
+
+const PAGE_SIZE_OPTIONS = [25, 50, 100];
+const ALL_COLUMNS = HIRE_COLUMNS.map(column => column.key);
 
 export function HiresTable() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  // A link that carries its own state opens exactly as it was shared
+  const [initialState] = useState(() => searchParamsToViewState(searchParams));
+  const [activeViewId, setActiveViewId] = useState<string | null>(searchParams.get("view"));
   const [hires, setHires] = useState<NewHire[]>([]);
+  const [totalHires, setTotalHires] = useState(0);
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(
+    initialState?.pageSize && PAGE_SIZE_OPTIONS.includes(initialState.pageSize) ? initialState.pageSize : PAGE_SIZE_OPTIONS[0]
+  );
   const [isLoading, setIsLoading] = useState(true);
-  const [searchQuery, setSearchQuery] = useState("");
+  const [searchQuery, setSearchQuery] = useState(initialState?.q || "");
   const [selectedHires, setSelectedHires] = useState<string[]>([]);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showBulkUpdateDialog, setShowBulkUpdateDialog] = useState(false);
+  const [bulkProvisionAction, setBulkProvisionAction] = useState<BulkProvisionAction | null>(null);
   const [showExcelReportDialog, setShowExcelReportDialog] = useState(false);
   const [isBulkDeleting, setIsBulkDeleting] = useState(false);
   const [isBulkUpdating, setIsBulkUpdating] = useState(false);
@@ -37,37 +69,115 @@ export function HiresTable() {
   const [selectedHireId, setSelectedHireId] = useState<string | null>(null);
   const [showDetailModal, setShowDetailModal] = useState(false);
   // Add sort state
-  const [sortField, setSortField] = useState<SortField>(null);
-  const [sortDirection, setSortDirection] = useState<SortDirection>(null);
+  const [sortField, setSortField] = useState<SortField>(initialState?.sortField || null);
+  const [sortDirection, setSortDirection] = useState<SortDirection>(initialState?.sortDirection || null);
   // Column filters state
-  const [filters, setFilters] = useState({
-    name: "",
-    title: "",
-    department: "",
-    email: "",
-    progress: "", // Changed from status to progress
-    license: "", 
-    ictSupportPic: "", // Added ICT Support PIC filter
-  });
+  const [filters, setFilters] = useState({ ...EMPTY_FILTERS, ...initialState?.filters });
+  const [visibleColumns, setVisibleColumns] = useState<HireColumn[]>(initialState?.columns || ALL_COLUMNS);
   const { toast } = useToast();
   const navigate = useNavigate();
+  const { getCurrentUser } = useAuth();
+  const currentUser = getCurrentUser();
   const { isMobile, isTablet, isDesktop } = useResponsive();
+  // Debounce typed filters so we don't query the server on every keystroke
+  const debouncedSearchQuery = useDebounce(searchQuery);
+  const debouncedFilters = useDebounce(filters);
+  // Only the most recent request may update the table, so slow responses can't overwrite newer ones
+  const latestRequest = useRef(0);
+  // The linked or default view is applied once, after saved views first load
+  const savedViewApplied = useRef(initialState !== null);
+
+  const { data: savedViews } = useQuery({
+    queryKey: ['saved-views'],
+    queryFn: viewsService.getViews,
+    enabled: !!currentUser,
+  });
+  const activeView = savedViews?.views.find(view => view.id === activeViewId) || null;
+
+  const { data: settings } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings,
+  });
+  // Custom fields can be added as columns after the built-in ones; they can't be sorted or filtered
+  const customColumns = visibleCustomFields(settings?.customFields, currentUser?.role).map(field => ({
+    key: `${CUSTOM_FIELD_PREFIX}${field.key}` as HireColumn,
+    label: field.label,
+    field,
+  }));
+
+  // The page size is left out of the view when it is the default, so it stays off the URL
+  const viewState: HireViewState = {
+    q: searchQuery,
+    filters,
+    sortField,
+    sortDirection,
+    columns: visibleColumns,
+    pageSize: pageSize === PAGE_SIZE_OPTIONS[0] ? null : pageSize,
+  };
+  const isViewModified = !!activeView && !isSameViewState(viewState, activeView.state);
+
+  const applyView = useCallback((view: SavedView | null) => {
+    const state = view?.state;
+    setActiveViewId(view ? view.id : null);
+    setSearchQuery(state?.q || "");
+    setFilters({ ...EMPTY_FILTERS, ...state?.filters });
+    setSortField(state?.sortField || null);
+    setSortDirection(state?.sortDirection || null);
+    setVisibleColumns(state?.columns || ALL_COLUMNS);
+    setPageSize(state?.pageSize && PAGE_SIZE_OPTIONS.includes(state.pageSize) ? state.pageSize : PAGE_SIZE_OPTIONS[0]);
+  }, []);
+
+  useEffect(() => {
+    if (savedViewApplied.current || !savedViews) return;
+    savedViewApplied.current = true;
+    const view = savedViews.views.find(v => v.id === (activeViewId || savedViews.defaultViewId));
+    if (view) applyView(view);
+  }, [savedViews, activeViewId, applyView]);
+
+  // Keep the URL in step with the table so the current view can be shared as a link
+  useEffect(() => {
+    const nextParams = viewStateToSearchParams({
+      q: debouncedSearchQuery,
+      filters: debouncedFilters,
+      sortField,
+      sortDirection,
+      columns: visibleColumns,
+      pageSize: pageSize === PAGE_SIZE_OPTIONS[0] ? null : pageSize,
+    }, activeViewId);
+    if (nextParams.toString() !== searchParams.toString()) {
+      setSearchParams(nextParams, { replace: true });
+    }
+  }, [debouncedSearchQuery, debouncedFilters, sortField, sortDirection, visibleColumns, pageSize, activeViewId, searchParams, setSearchParams]);
 
   useEffect(() => {
-    fetchHires();
     fetchLicenseTypes();
   }, []);
   
   useEffect(() => {
-    // Clear selections when filters change
+    // Go back to the first page when the search or filters change
+    setPage(1);
+  }, [debouncedSearchQuery, debouncedFilters, pageSize, sortField, sortDirection]);
+
+  useEffect(() => {
+    fetchHires();
+    // Selections only cover the rows currently shown
     setSelectedHires([]);
-  }, [searchQuery, filters]);
+  }, [page, pageSize, sortField, sortDirection, debouncedSearchQuery, debouncedFilters]);
 
   const fetchHires = async () => {
+    const requestId = ++latestRequest.current;
     try {
       setIsLoading(true);
-      const data = await hiresApi.getAll();
-      setHires(data);
+      const result = await hiresApi.getAll({
+        page,
+        pageSize,
+        sort: sortField && sortDirection ? `${sortField}:${sortDirection}` : undefined,
+        q: debouncedSearchQuery,
+        ...debouncedFilters,
+      });
+      if (requestId !== latestRequest.current) return;
+      setHires(result.data);
+      setTotalHires(result.total);
     } catch (error) {
       console.error("Error fetching hires:", error);
       toast({
@@ -76,7 +186,9 @@ export function HiresTable() {
         variant: "destructive",
       });
     } finally {
-      setIsLoading(false);
+      if (requestId === latestRequest.current) {
+        setIsLoading(false);
+      }
     }
   };
 
@@ -95,12 +207,12 @@ export function HiresTable() {
   };
 
   const handleDelete = async (id: string) => {
-    if (window.confirm("Are you sure you want to delete this record?")) {
+    if (window.confirm("Move this record to the trash? It can be restored from the Trash page.")) {
       try {
         await hiresApi.delete(id);
         toast({
           title: "Success",
-          description: "Record deleted successfully",
+          description: "Record moved to the trash",
         });
         fetchHires();
         setSelectedHires(prev => prev.filter(hireId => hireId !== id));
@@ -127,7 +239,7 @@ export function HiresTable() {
 
   const handleSelectAll = (checked: boolean) => {
     if (checked) {
-      setSelectedHires(filteredHires.map((hire) => hire.id));
+      setSelectedHires(hires.map((hire) => hire.id));
     } else {
       setSelectedHires([]);
     }
@@ -141,7 +253,7 @@ export function HiresTable() {
       await hiresApi.bulkDelete(selectedHires);
       toast({
         title: "Success",
-        description: `${selectedHires.length} records deleted successfully`,
+        description: `${selectedHires.length} records moved to the trash`,
       });
       setSelectedHires([]);
       fetchHires();
@@ -232,97 +344,22 @@ export function HiresTable() {
     setSortDirection(newDirection);
   };
   
+  const isColumnVisible = (column: HireColumn) => visibleColumns.includes(column);
+
+  // Keep columns in table order so the same selection always gives the same view
+  const toggleColumn = (column: HireColumn, visible: boolean) => {
+    const order = [...ALL_COLUMNS, ...customColumns.map(customColumn => customColumn.key)];
+    setVisibleColumns(prev => order.filter(key => key === column ? visible : prev.includes(key)));
+  };
+
   // Get sort direction for a column (for display in UI)
   const getSortDirectionForField = (field: string): SortDirection => {
     return sortField === field ? sortDirection : null;
   };
   
-  // Combined filtering logic for global search and column filters
-  const filteredHires = hires.filter((hire) => {
-    // Global search filtering
-    const searchLower = searchQuery.toLowerCase();
-    const matchesSearch = searchQuery === "" ||
-      hire.name.toLowerCase().includes(searchLower) ||
-      hire.email.toLowerCase().includes(searchLower) ||
-      hire.department.toLowerCase().includes(searchLower) ||
-      hire.title.toLowerCase().includes(searchLower);
-      
-    // Column-specific filtering
-    const matchesName = filters.name === "" || 
-      hire.name.toLowerCase().includes(filters.name.toLowerCase());
-    const matchesTitle = filters.title === "" || 
-      hire.title.toLowerCase().includes(filters.title.toLowerCase());
-    const matchesDepartment = filters.department === "" || 
-      hire.department.toLowerCase().includes(filters.department.toLowerCase());
-    const matchesEmail = filters.email === "" || 
-      hire.email.toLowerCase().includes(filters.email.toLowerCase());
-    
-    // Enhanced progress filter - check both percentage ranges and status-based filters
-    const hireProgress = calculateProgressPercentage(hire);
-    const matchesProgress = filters.progress === "" || 
-      // Status-based filters
-      (filters.progress === "not-started" && hireProgress === 0) ||
-      (filters.progress === "in-progress" && hireProgress > 0 && hireProgress < 100) ||
-      (filters.progress === "completed" && hireProgress === 100) ||
-      (filters.progress === "at-risk" && hireProgress < 50) ||
-      (filters.progress === "nearly-done" && hireProgress >= 75) ||
-      // Existing percentage range filters
-      (filters.progress === "0-25" && hireProgress >= 0 && hireProgress <= 25) ||
-      (filters.progress === "26-50" && hireProgress >= 26 && hireProgress <= 50) ||
-      (filters.progress === "51-75" && hireProgress >= 51 && hireProgress <= 75) ||
-      (filters.progress === "76-100" && hireProgress >= 76 && hireProgress <= 100);
-    
-    // License filter
-    const licenseLower = filters.license.toLowerCase();
-    const hireLicense = (hire.microsoft_365_license || "None").toLowerCase();
-    const matchesLicense = filters.license === "" || 
-      hireLicense === licenseLower ||
-      (licenseLower === "none" && (!hire.microsoft_365_license || hire.microsoft_365_license === ""));
-    
-    // ICT Support PIC filter
-    const ictSupportPicLower = filters.ictSupportPic.toLowerCase();
-    const hireIctSupportPic = (hire.ict_support_pic || "").toLowerCase();
-    const matchesIctSupportPic = filters.ictSupportPic === "" ||
-      hireIctSupportPic.includes(ictSupportPicLower);
-    
-    return matchesSearch && matchesName && matchesTitle && 
-           matchesDepartment && matchesEmail && matchesProgress && 
-           matchesLicense && matchesIctSupportPic;
-  });
-
-  // Apply sorting to filtered data
-  const sortedHires = [...filteredHires].sort((a, b) => {
-    if (!sortField || !sortDirection) return 0;
-    
-    let valueA = a[sortField];
-    let valueB = b[sortField];
-    
-    // Special handling for progress percentage
-    if (sortField === "progress_percentage") {
-      valueA = calculateProgressPercentage(a);
-      valueB = calculateProgressPercentage(b);
-    }
-    // Special handling for dates
-    else if (sortField === "on_site_date" || sortField === "created_at" || sortField === "updated_at") {
-      valueA = new Date(valueA || 0).getTime();
-      valueB = new Date(valueB || 0).getTime();
-    } 
-    // Special handling for license (consider "None" as empty string for sorting)
-    else if (sortField === "microsoft_365_license") {
-      valueA = valueA || "";
-      valueB = valueB || "";
-    }
-    // String comparison for other fields
-    else if (typeof valueA === "string" && typeof valueB === "string") {
-      valueA = valueA.toLowerCase();
-      valueB = valueB.toLowerCase();
-    }
-    
-    // Compare values based on sort direction
-    if (valueA < valueB) return sortDirection === "asc" ? -1 : 1;
-    if (valueA > valueB) return sortDirection === "asc" ? 1 : -1;
-    return 0;
-  });
+  const totalPages = Math.max(Math.ceil(totalHires / pageSize), 1);
+  const firstRowNumber = totalHires === 0 ? 0 : (page - 1) * pageSize + 1;
+  const lastRowNumber = Math.min(page * pageSize, totalHires);
 
   // Get selected hire details (complete objects not just IDs)
   const getSelectedHireDetails = (): NewHire[] => {
@@ -337,14 +374,56 @@ export function HiresTable() {
   return (
     <div className="flex flex-col h-screen">
       <div className="flex-shrink-0 flex justify-between items-center p-4 bg-white border-b">
-        <div className="relative w-full max-w-sm">
-          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search by name, email, department..."
-            className="pl-8"
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+        <div className="flex items-center gap-2 w-full max-w-2xl">
+          <div className="relative w-full max-w-sm">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name, email, department..."
+              className="pl-8"
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+          <SavedViewsMenu
+            currentState={viewState}
+            activeView={activeView}
+            isModified={isViewModified}
+            currentUser={currentUser}
+            onApplyView={applyView}
           />
+          {!isMobile && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline" size="icon" title="Columns">
+                  <Columns3 className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                <DropdownMenuLabel>Columns</DropdownMenuLabel>
+                {HIRE_COLUMNS.map(column => (
+                  <DropdownMenuCheckboxItem
+                    key={column.key}
+                    checked={isColumnVisible(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {column.label}
+                  </DropdownMenuCheckboxItem>
+                ))}
+                {customColumns.length > 0 && <DropdownMenuSeparator />}
+                {customColumns.map(column => (
+                  <DropdownMenuCheckboxItem
+                    key={column.key}
+                    checked={isColumnVisible(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {column.label}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
         </div>
         <div className="flex space-x-2">
           {selectedHires.length > 0 && (
@@ -358,6 +437,11 @@ export function HiresTable() {
                 <ListPlus className="h-4 w-4 mr-1" />
                 {isMobile ? "Update" : `Bulk Update (${selectedHires.length})`}
               </Button>
+              <BulkProvisionMenu
+                selectedCount={selectedHires.length}
+                onSelect={setBulkProvisionAction}
+                compact={isMobile}
+              />
               <Button 
                 variant="destructive" 
                 onClick={() => setShowDeleteDialog(true)}
@@ -369,6 +453,10 @@ export function HiresTable() {
               </Button>
             </>
           )}
+          <Button variant="outline" onClick={handleShowExcelReport} size={isMobile ? "sm" : "default"}>
+            <FileSpreadsheet className="h-4 w-4 mr-1" />
+            {isMobile ? "Report" : "Excel Report"}
+          </Button>
           <Button onClick={() => navigate("/hires/new")} size={isMobile ? "sm" : "default"}>
             {isMobile ? "Add" : "Add New Hire"}
           </Button>
@@ -377,7 +465,7 @@ export function HiresTable() {
 
       {isLoading ? (
         <div className="text-center py-8">Loading...</div>
-      ) : sortedHires.length === 0 ? (
+      ) : hires.length === 0 ? (
         <div className="text-center py-8 text-muted-foreground">
           {searchQuery || Object.values(filters).some(f => f !== "") 
             ? "No matching records found" 
@@ -392,7 +480,7 @@ export function HiresTable() {
                   <TableRow>
                     <TableHead className="w-[50px] bg-background">
                       <Checkbox 
-                        checked={sortedHires.length > 0 && selectedHires.length === sortedHires.length} 
+                        checked={hires.length > 0 && selectedHires.length === hires.length} 
                         onCheckedChange={handleSelectAll}
                         aria-label="Select all"
                       />
@@ -419,7 +507,7 @@ export function HiresTable() {
                       </div>
                     </TableHead>
                     {/* Title - Desktop only */}
-                    {isDesktop && (
+                    {isDesktop && isColumnVisible("title") && (
                       <TableHead className="min-w-[150px] bg-background">
                         <div className="flex items-center space-x-1">
                           Title
@@ -443,7 +531,7 @@ export function HiresTable() {
                       </TableHead>
                     )}
                     {/* Department - Tablet+ */}
-                    {!isMobile && (
+                    {!isMobile && isColumnVisible("department") && (
                       <TableHead className="min-w-[150px] bg-background">
                         <div className="flex items-center space-x-1">
                           Department
@@ -467,7 +555,7 @@ export function HiresTable() {
                       </TableHead>
                     )}
                     {/* Email - Tablet+ */}
-                    {!isMobile && (
+                    {!isMobile && isColumnVisible("email") && (
                       <TableHead className="min-w-[200px] bg-background">
                         <div className="flex items-center space-x-1">
                           Email
@@ -491,7 +579,7 @@ export function HiresTable() {
                       </TableHead>
                     )}
                     {/* Onsite Date - Desktop only */}
-                    {isDesktop && (
+                    {isDesktop && isColumnVisible("on_site_date") && (
                       <TableHead className="min-w-[120px] bg-background">
                         <div className="flex items-center space-x-1">
                           Onsite Date
@@ -503,7 +591,7 @@ export function HiresTable() {
                       </TableHead>
                     )}
                     {/* License - Desktop only */}
-                    {isDesktop && (
+                    {isDesktop && isColumnVisible("license") && (
                       <TableHead className="min-w-[120px] bg-background">
                         <div className="flex items-center space-x-1">
                           <Laptop className="h-3 w-3 mr-1" /> 
@@ -533,7 +621,7 @@ export function HiresTable() {
                       </TableHead>
                     )}
                     {/* ICT Support PIC - Desktop only */}
-                    {isDesktop && (
+                    {isDesktop && isColumnVisible("ict_support_pic") && (
                       <TableHead className="min-w-[120px] bg-background">
                         <div className="flex items-center space-x-1">
                           ICT Support PIC
@@ -556,6 +644,9 @@ export function HiresTable() {
                         </div>
                       </TableHead>
                     )}
+                    {isDesktop && customColumns.filter(column => isColumnVisible(column.key)).map(column => (
+                      <TableHead key={column.key} className="min-w-[120px] bg-background">{column.label}</TableHead>
+                    ))}
                     <TableHead className="min-w-[150px] bg-background">
                       <div className="flex items-center space-x-1">
                         Progress
@@ -563,58 +654,50 @@ export function HiresTable() {
                           direction={getSortDirectionForField("progress_percentage")}
                           onClick={() => handleSort("progress_percentage")}
                         />
+                        <SortButton 
+                          direction={getSortDirectionForField("overdue_count")}
+                          onClick={() => handleSort("overdue_count")}
+                        />
                         <FilterPopover 
-                          isActive={isFilterActive("progress")}
-                          onClear={() => clearFilter("progress")}
+                          isActive={isFilterActive("progress") || isFilterActive("sla")}
+                          onClear={() => setFilters(prev => ({ ...prev, progress: "", sla: "" }))}
                         >
                           <Label className="text-xs mb-2">Filter by progress status</Label>
                           <RadioGroup 
                             value={filters.progress} 
                             onValueChange={(value) => setFilters(prev => ({ ...prev, progress: value }))}
                           >
-                            {/* Status-based filters */}
-                            <div className="flex items-center space-x-2">
-                              <RadioGroupItem value="not-started" id="progress-not-started" />
-                              <Label htmlFor="progress-not-started" className="text-sm">Not Started (0%)</Label>
-                            </div>
-                            <div className="flex items-center space-x-2">
-                              <RadioGroupItem value="in-progress" id="progress-in-progress" />
-                              <Label htmlFor="progress-in-progress" className="text-sm">In Progress (1-99%)</Label>
-                            </div>
-                            <div className="flex items-center space-x-2">
-                              <RadioGroupItem value="completed" id="progress-completed" />
-                              <Label htmlFor="progress-completed" className="text-sm">Completed (100%)</Label>
-                            </div>
-                            <div className="flex items-center space-x-2">
-                              <RadioGroupItem value="at-risk" id="progress-at-risk" />
-                              <Label htmlFor="progress-at-risk" className="text-sm">At Risk (&lt;50%)</Label>
-                            </div>
-                            <div className="flex items-center space-x-2">
-                              <RadioGroupItem value="nearly-done" id="progress-nearly-done" />
-                              <Label htmlFor="progress-nearly-done" className="text-sm">Nearly Done (≥75%)</Label>
-                            </div>
+                            {PROGRESS_FILTER_OPTIONS.filter(option => option.group === "status").map(option => (
+                              <div key={option.value} className="flex items-center space-x-2">
+                                <RadioGroupItem value={option.value} id={`progress-${option.value}`} />
+                                <Label htmlFor={`progress-${option.value}`} className="text-sm">{option.label}</Label>
+                              </div>
+                            ))}
                             
                             {/* Separator */}
                             <div className="border-t my-2"></div>
                             <Label className="text-xs text-muted-foreground">Detailed Ranges:</Label>
                             
-                            {/* Existing percentage range filters */}
-                            <div className="flex items-center space-x-2">
-                              <RadioGroupItem value="0-25" id="progress-0-25" />
-                              <Label htmlFor="progress-0-25" className="text-sm">0-25%</Label>
-                            </div>
-                            <div className="flex items-center space-x-2">
-                              <RadioGroupItem value="26-50" id="progress-26-50" />
-                              <Label htmlFor="progress-26-50" className="text-sm">26-50%</Label>
-                            </div>
-                            <div className="flex items-center space-x-2">
-                              <RadioGroupItem value="51-75" id="progress-51-75" />
-                              <Label htmlFor="progress-51-75" className="text-sm">51-75%</Label>
-                            </div>
-                            <div className="flex items-center space-x-2">
-                              <RadioGroupItem value="76-100" id="progress-76-100" />
-                              <Label htmlFor="progress-76-100" className="text-sm">76-100%</Label>
-                            </div>
+                            {PROGRESS_FILTER_OPTIONS.filter(option => option.group === "range").map(option => (
+                              <div key={option.value} className="flex items-center space-x-2">
+                                <RadioGroupItem value={option.value} id={`progress-${option.value}`} />
+                                <Label htmlFor={`progress-${option.value}`} className="text-sm">{option.label}</Label>
+                              </div>
+                            ))}
+                          </RadioGroup>
+
+                          <div className="border-t my-2"></div>
+                          <Label className="text-xs mb-2">Filter by deadlines</Label>
+                          <RadioGroup 
+                            value={filters.sla} 
+                            onValueChange={(value) => setFilters(prev => ({ ...prev, sla: value }))}
+                          >
+                            {SLA_FILTER_OPTIONS.map(option => (
+                              <div key={option.value} className="flex items-center space-x-2">
+                                <RadioGroupItem value={option.value} id={`sla-${option.value}`} />
+                                <Label htmlFor={`sla-${option.value}`} className="text-sm">{option.label}</Label>
+                              </div>
+                            ))}
                           </RadioGroup>
                         </FilterPopover>
                       </div>
@@ -623,8 +706,9 @@ export function HiresTable() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {sortedHires.map((hire) => {
-                    const progressPercentage = calculateProgressPercentage(hire);
+                  {hires.map((hire) => {
+                    const progressPercentage = hire.progress_percentage ?? 0;
+                    const overdueDeadlines = (hire.deadlines || []).filter(deadline => deadline.overdue);
                     
                     return (
                       <TableRow 
@@ -651,15 +735,15 @@ export function HiresTable() {
                           </div>
                         </TableCell>
                         {/* Title - Desktop only */}
-                        {isDesktop && <TableCell>{hire.title}</TableCell>}
+                        {isDesktop && isColumnVisible("title") && <TableCell>{hire.title}</TableCell>}
                         {/* Department - Tablet+ */}
-                        {!isMobile && <TableCell>{hire.department}</TableCell>}
+                        {!isMobile && isColumnVisible("department") && <TableCell>{hire.department}</TableCell>}
                         {/* Email - Tablet+ */}
-                        {!isMobile && <TableCell>{hire.email}</TableCell>}
+                        {!isMobile && isColumnVisible("email") && <TableCell>{hire.email}</TableCell>}
                         {/* Onsite Date - Desktop only */}
-                        {isDesktop && <TableCell>{hire.on_site_date ? new Date(hire.on_site_date).toLocaleDateString() : 'N/A'}</TableCell>}
+                        {isDesktop && isColumnVisible("on_site_date") && <TableCell>{hire.on_site_date ? new Date(hire.on_site_date).toLocaleDateString() : 'N/A'}</TableCell>}
                         {/* License - Desktop only */}
-                        {isDesktop && (
+                        {isDesktop && isColumnVisible("license") && (
                           <TableCell>
                             <span className={`px-2 py-1 rounded text-xs font-medium ${
                               hire.microsoft_365_license && hire.microsoft_365_license !== "None" ? 
@@ -671,12 +755,64 @@ export function HiresTable() {
                           </TableCell>
                         )}
                         {/* ICT Support PIC - Desktop only */}
-                        {isDesktop && <TableCell>{hire.ict_support_pic || "Unassigned"}</TableCell>}
+                        {isDesktop && isColumnVisible("ict_support_pic") && <TableCell>{hire.ict_support_pic || "Unassigned"}</TableCell>}
+                        {isDesktop && customColumns.filter(column => isColumnVisible(column.key)).map(column => (
+                          <TableCell key={column.key}>{formatCustomValue(column.field, hire.custom_fields)}</TableCell>
+                        ))}
                         <TableCell>
-                          <ProgressBar 
-                            percentage={progressPercentage} 
-                            showText={!isMobile}
-                          />
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <div>
+                                <ProgressBar 
+                                  percentage={progressPercentage} 
+                                  showText={!isMobile}
+                                />
+                              </div>
+                            </TooltipTrigger>
+                            {hire.progress && (
+                              <TooltipContent className="space-y-1">
+                                {hire.progress.items.map(item => (
+                                  <div key={item.id} className="flex justify-between gap-4 text-xs">
+                                    <span>{item.label}</span>
+                                    <span className={item.complete ? "text-green-600" : "text-muted-foreground"}>
+                                      {item.earned} / {item.weight}
+                                    </span>
+                                  </div>
+                                ))}
+                              </TooltipContent>
+                            )}
+                          </Tooltip>
+                          {overdueDeadlines.length > 0 && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <span className="mt-1 inline-flex items-center rounded bg-red-100 px-2 py-0.5 text-xs font-medium text-red-800">
+                                  {overdueDeadlines.length} overdue
+                                </span>
+                              </TooltipTrigger>
+                              <TooltipContent className="space-y-1">
+                                {overdueDeadlines.map(deadline => (
+                                  <div key={deadline.id} className="flex justify-between gap-4 text-xs">
+                                    <span>{deadline.label}</span>
+                                    <span className="text-red-600">due {format(parseISO(deadline.due_date), "d MMM")}</span>
+                                  </div>
+                                ))}
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
+                          {hire.missing_documents && hire.missing_documents.length > 0 && (
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <span className="mt-1 ml-1 inline-flex items-center rounded bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                                  {hire.missing_documents.length} docs missing
+                                </span>
+                              </TooltipTrigger>
+                              <TooltipContent className="space-y-1">
+                                {hire.missing_documents.map(type => (
+                                  <div key={type.key} className="text-xs">{type.label}</div>
+                                ))}
+                              </TooltipContent>
+                            </Tooltip>
+                          )}
                         </TableCell>
                         <TableCell className="text-right space-x-1">
                           <Button 
@@ -710,14 +846,55 @@ export function HiresTable() {
           </ScrollArea>
         </div>
       )}
+
+      {totalHires > 0 && (
+        <div className="flex-shrink-0 flex items-center justify-between p-4 bg-white border-t text-sm">
+          <span className="text-muted-foreground">
+            {isMobile ? `${firstRowNumber}-${lastRowNumber} of ${totalHires}` : `Showing ${firstRowNumber}-${lastRowNumber} of ${totalHires} hires`}
+          </span>
+          <div className="flex items-center space-x-2">
+            {!isMobile && (
+              <Select value={String(pageSize)} onValueChange={(value) => setPageSize(Number(value))}>
+                <SelectTrigger className="h-8 w-[110px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAGE_SIZE_OPTIONS.map(size => (
+                    <SelectItem key={size} value={String(size)}>{size} / page</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => prev - 1)}
+              disabled={page <= 1 || isLoading}
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>Page {page} of {totalPages}</span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPage(prev => prev + 1)}
+              disabled={page >= totalPages || isLoading}
+              aria-label="Next page"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
       
       <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action will permanently delete {selectedHires.length} selected records
-              and cannot be undone.
+              {selectedHires.length} selected records will be moved to the trash. They can be
+              restored from the Trash page until they are purged.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -738,6 +915,15 @@ export function HiresTable() {
         selectedHires={getSelectedHireDetails()}
       />
       
+      {bulkProvisionAction && (
+        <BulkProvisionDialog
+          action={bulkProvisionAction}
+          hires={getSelectedHireDetails()}
+          onClose={() => setBulkProvisionAction(null)}
+          onFinished={fetchHires}
+        />
+      )}
+
       <ExcelReportDialog
         isOpen={showExcelReportDialog}
         onClose={() => setShowExcelReportDialog(false)}
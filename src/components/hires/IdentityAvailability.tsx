@@ -0,0 +1,92 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { CheckCircle2, AlertTriangle, Loader2 } from "lucide-react";
+import { useDebounce } from "@/hooks/use-debounce";
+import { activeDirectoryService } from "@/services/active-directory-service";
+
+interface IdentityAvailabilityProps {
+  name: string;
+  username: string;
+  email: string;
+  hireId?: string;
+  onApply: (suggestion: { username: string; email: string }) => void;
+}
+
+const FIELD_LABELS = {
+  username: "Username",
+  upn: "UPN",
+  email: "Email",
+};
+
+const SOURCE_LABELS = {
+  hire: "another hire",
+  ad: "Active Directory",
+};
+
+// Live check of the proposed username/email against AD and other hires, with clickable alternatives
+export function IdentityAvailability({ name, username, email, hireId, onApply }: IdentityAvailabilityProps) {
+  // Debounce a string key so the check only runs once typing pauses
+  const identityKey = useDebounce(JSON.stringify({ name, username, email }), 500);
+
+  const { data, isFetching, error } = useQuery({
+    queryKey: ['identity-check', identityKey, hireId],
+    queryFn: () => activeDirectoryService.checkIdentity({ ...JSON.parse(identityKey), hireId }),
+    enabled: Boolean(username || email),
+    staleTime: 30000,
+  });
+
+  if (!username && !email) return null;
+
+  if (isFetching && !data) {
+    return (
+      <p className="flex items-center gap-1 text-xs text-gray-500">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Checking availability...
+      </p>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="text-xs text-gray-500">Could not check username availability</p>;
+  }
+
+  if (data.available) {
+    return (
+      <p className="flex items-center gap-1 text-xs text-green-600">
+        <CheckCircle2 className="h-3 w-3" />
+        Username and email are available
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {[...data.errors, ...data.conflicts.map(conflict =>
+        `${FIELD_LABELS[conflict.field]} ${conflict.value} is used by ${conflict.name} (${SOURCE_LABELS[conflict.source]})`
+      )].map(message => (
+        <p key={message} className="flex items-center gap-1 text-xs text-red-500">
+          <AlertTriangle className="h-3 w-3" />
+          {message}
+        </p>
+      ))}
+      {data.suggestions.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs text-gray-500">Available:</span>
+          {data.suggestions.map(suggestion => (
+            <Button
+              key={suggestion.username}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              title={suggestion.email}
+              onClick={() => onApply(suggestion)}
+            >
+              {suggestion.username}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,231 @@
+import { useState } from "react";
+import axios from "axios";
+import { DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, CheckCircle, XCircle, MinusCircle, Circle } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { settingsService } from "@/services/settings-service";
+import { offboardingService } from "@/services/offboarding-service";
+import { distributionListService } from "@/services/distribution-list-service";
+import { NewHire, OffboardingStepResult } from "@/types/types";
+
+interface OffboardHireDialogProps {
+  hire: NewHire;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+type StepKey = OffboardingStepResult["step"];
+
+const STEP_LABELS: Record<StepKey, string> = {
+  "ad-account": "Disable AD account, strip ACL groups and move to disabled users OU",
+  "distribution-lists": "Remove from distribution lists",
+  "license-reclaim": "Flag Microsoft 365 license for reclaim",
+};
+
+const STEP_ORDER: StepKey[] = ["ad-account", "distribution-lists", "license-reclaim"];
+
+// Prefer the server's error message over the generic axios one
+const getErrorMessage = (error: unknown): string => {
+  if (axios.isAxiosError(error)) {
+    return error.response?.data?.error || error.response?.data?.message || error.message;
+  }
+  return error instanceof Error ? error.message : "An unexpected error occurred";
+};
+
+export function OffboardHireDialog({ hire, onClose, onSuccess }: OffboardHireDialogProps) {
+  const [lastWorkingDay, setLastWorkingDay] = useState(
+    hire.last_working_day
+      ? new Date(hire.last_working_day).toISOString().split("T")[0]
+      : new Date().toISOString().split("T")[0]
+  );
+  const [isRunning, setIsRunning] = useState(false);
+  const [currentStep, setCurrentStep] = useState<StepKey | null>(null);
+  const [results, setResults] = useState<Partial<Record<StepKey, OffboardingStepResult>>>({});
+  const [isFinished, setIsFinished] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings,
+  });
+
+  const isADEnabled = settings?.activeDirectorySettings?.enabled || false;
+  const isExchangeEnabled = settings?.exchangeOnlineSettings?.enabled || false;
+
+  const mailingLists = Array.isArray(hire.mailing_list)
+    ? hire.mailing_list
+    : (typeof hire.mailing_list === 'string' && hire.mailing_list
+        ? hire.mailing_list.split(',').map(item => item.trim()).filter(Boolean)
+        : []);
+
+  const runStep = async (step: StepKey, hireId: string): Promise<OffboardingStepResult> => {
+    try {
+      switch (step) {
+        case "ad-account": {
+          if (!isADEnabled) {
+            return { step, status: "Skipped", message: "Active Directory integration is not enabled" };
+          }
+          const result = await offboardingService.disableAdAccount(hireId);
+          return {
+            step,
+            status: result.success ? "Success" : "Failed",
+            message: result.steps?.map(s => s.message).join("; ") || result.message,
+          };
+        }
+        case "distribution-lists": {
+          if (!isExchangeEnabled) {
+            return { step, status: "Skipped", message: "Exchange Online integration is not enabled" };
+          }
+          if (mailingLists.length === 0) {
+            return { step, status: "Skipped", message: "No mailing lists assigned" };
+          }
+          const result = await distributionListService.removeUserFromDistributionLists(hireId, mailingLists);
+          return {
+            step,
+            status: result.errors?.length ? "Failed" : "Success",
+            message: result.message,
+          };
+        }
+        case "license-reclaim": {
+          const result = await offboardingService.flagLicenseReclaim(hireId);
+          return {
+            step,
+            status: "Success",
+            message: result.microsoft_365_license && result.microsoft_365_license !== "None"
+              ? `${result.microsoft_365_license} flagged for reclaim`
+              : "No license assigned",
+          };
+        }
+      }
+    } catch (error) {
+      return { step, status: "Failed", message: getErrorMessage(error) };
+    }
+  };
+
+  const handleOffboard = async () => {
+    if (!hire.id) return;
+    if (!lastWorkingDay) {
+      toast({
+        title: "Error",
+        description: "Last working day is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsRunning(true);
+    setResults({});
+    try {
+      await offboardingService.startOffboarding(hire.id, lastWorkingDay);
+
+      const stepResults: OffboardingStepResult[] = [];
+      for (const step of STEP_ORDER) {
+        setCurrentStep(step);
+        const result = await runStep(step, hire.id);
+        stepResults.push(result);
+        setResults(prev => ({ ...prev, [step]: result }));
+      }
+      setCurrentStep(null);
+
+      await offboardingService.completeOffboarding(hire.id, stepResults);
+      setIsFinished(true);
+      queryClient.invalidateQueries({ queryKey: ['audit-logs', hire.id] });
+
+      const failed = stepResults.filter(r => r.status === "Failed").length;
+      toast({
+        title: failed === 0 ? "Offboarding Completed" : "Offboarding Partially Completed",
+        description: failed === 0
+          ? `${hire.name} has been offboarded`
+          : `${failed} step(s) failed. Review the results and retry manually.`,
+        variant: failed === 0 ? "default" : "destructive",
+      });
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error offboarding hire:', error);
+      toast({
+        title: "Offboarding Failed",
+        description: getErrorMessage(error),
+        variant: "destructive",
+      });
+    } finally {
+      setCurrentStep(null);
+      setIsRunning(false);
+    }
+  };
+
+  const renderStepIcon = (step: StepKey) => {
+    if (currentStep === step) return <Loader2 className="w-4 h-4 animate-spin text-blue-500" />;
+    const result = results[step];
+    if (!result) return <Circle className="w-4 h-4 text-muted-foreground" />;
+    if (result.status === "Success") return <CheckCircle className="w-4 h-4 text-green-600" />;
+    if (result.status === "Skipped") return <MinusCircle className="w-4 h-4 text-muted-foreground" />;
+    return <XCircle className="w-4 h-4 text-red-600" />;
+  };
+
+  return (
+    <DialogContent className="max-w-2xl">
+      <DialogHeader>
+        <DialogTitle>Offboard Leaver</DialogTitle>
+        <DialogDescription>
+          {hire.name} ({hire.email})
+          {hire.offboarding_status && (
+            <Badge variant="outline" className="ml-2">{hire.offboarding_status}</Badge>
+          )}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="last_working_day">Last Working Day</Label>
+          <Input
+            id="last_working_day"
+            type="date"
+            value={lastWorkingDay}
+            onChange={(e) => setLastWorkingDay(e.target.value)}
+            disabled={isRunning || isFinished}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            The following steps will run in order. Each step is written to the audit log.
+          </p>
+          {STEP_ORDER.map(step => (
+            <div key={step} className="flex items-start gap-3 p-2 border rounded">
+              <div className="mt-0.5">{renderStepIcon(step)}</div>
+              <div className="flex-1">
+                <p className="text-sm">{STEP_LABELS[step]}</p>
+                {step === "distribution-lists" && mailingLists.length > 0 && !results[step] && (
+                  <p className="text-xs text-muted-foreground">{mailingLists.join(", ")}</p>
+                )}
+                {results[step] && (
+                  <p className={`text-xs ${results[step]?.status === "Failed" ? "text-red-600" : "text-muted-foreground"}`}>
+                    {results[step]?.message}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose} disabled={isRunning}>
+          Close
+        </Button>
+        {!isFinished && (
+          <Button variant="destructive" onClick={handleOffboard} disabled={isRunning}>
+            {isRunning && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Start Offboarding
+          </Button>
+        )}
+      </DialogFooter>
+    </DialogContent>
+  );
+}
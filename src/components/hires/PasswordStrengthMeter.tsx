@@ -0,0 +1,48 @@
+import { PasswordPolicy } from "@/types/types";
+import { getPasswordStrength, PasswordContext } from "@/utils/passwordPolicy";
+import { Check, X } from "lucide-react";
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  policy: PasswordPolicy;
+  context?: PasswordContext;
+}
+
+const SCORE_COLORS = ["bg-red-500", "bg-red-500", "bg-yellow-500", "bg-green-400", "bg-green-600"];
+
+export function PasswordStrengthMeter({ password, policy, context }: PasswordStrengthMeterProps) {
+  if (!password) return null;
+
+  const { score, label, errors } = getPasswordStrength(password, policy, context);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <div className="flex flex-1 gap-1">
+          {[0, 1, 2, 3].map(segment => (
+            <div
+              key={segment}
+              className={`h-1.5 flex-1 rounded ${segment < Math.max(score, 1) ? SCORE_COLORS[score] : "bg-gray-200"}`}
+            />
+          ))}
+        </div>
+        <span className="text-xs text-gray-500 w-16 text-right">{label}</span>
+      </div>
+      {errors.length > 0 ? (
+        <ul className="space-y-0.5">
+          {errors.map(error => (
+            <li key={error} className="flex items-center gap-1 text-xs text-red-500">
+              <X className="h-3 w-3" />
+              {error}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="flex items-center gap-1 text-xs text-green-600">
+          <Check className="h-3 w-3" />
+          Meets the password policy
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import axios from "axios";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Bookmark, Check, Link, Loader2, Save, Share2, Star, Trash2, X } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { HireViewState, SavedView } from "@/types/types";
+import { viewsService } from "@/services/views-service";
+
+interface SavedViewsMenuProps {
+  currentState: HireViewState;
+  activeView: SavedView | null;
+  isModified: boolean;
+  currentUser: { username: string; role: string } | null;
+  onApplyView: (view: SavedView | null) => void;
+}
+
+export function SavedViewsMenu({ currentState, activeView, isModified, currentUser, onApplyView }: SavedViewsMenuProps) {
+  const [showSaveDialog, setShowSaveDialog] = useState(false);
+  const [newViewName, setNewViewName] = useState("");
+  const [shareNewView, setShareNewView] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['saved-views'],
+    queryFn: viewsService.getViews,
+    enabled: !!currentUser,
+  });
+  const views = data?.views || [];
+  const defaultViewId = data?.defaultViewId || null;
+  const myViews = views.filter(view => view.owner === currentUser?.username);
+  const sharedViews = views.filter(view => view.owner !== currentUser?.username);
+  const ownsActiveView = !!activeView && activeView.owner === currentUser?.username;
+
+  const showError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: axios.isAxiosError(error) ? error.response?.data?.error || error.message : "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => viewsService.createView(newViewName.trim(), currentState, shareNewView),
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+      setShowSaveDialog(false);
+      onApplyView(view);
+      toast({ title: "View Saved", description: `"${view.name}" saved${view.is_shared ? " and shared with the team" : ""}` });
+    },
+    onError: showError("Save Failed"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: { state?: HireViewState; isShared?: boolean } }) =>
+      viewsService.updateView(id, changes),
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+      onApplyView(view);
+    },
+    onError: showError("Update Failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => viewsService.deleteView(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+      onApplyView(null);
+    },
+    onError: showError("Delete Failed"),
+  });
+
+  const defaultMutation = useMutation({
+    mutationFn: (viewId: string | null) => viewsService.setDefaultView(viewId),
+    onSuccess: ({ defaultViewId: viewId }) => {
+      queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+      toast({ title: viewId ? "Default View Set" : "Default View Cleared" });
+    },
+    onError: showError("Could Not Set Default"),
+  });
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    toast({ title: "Link Copied", description: "Anyone with access to the hires list can open this view" });
+  };
+
+  const openSaveDialog = () => {
+    setNewViewName("");
+    setShareNewView(false);
+    setShowSaveDialog(true);
+  };
+
+  const renderViewItem = (view: SavedView) => (
+    <DropdownMenuItem key={view.id} onSelect={() => onApplyView(view)} className="flex items-center gap-2">
+      <Check className={`h-4 w-4 ${view.id === activeView?.id ? "opacity-100" : "opacity-0"}`} />
+      <span className="flex-1 truncate">{view.name}</span>
+      {view.owner !== currentUser?.username && <span className="text-xs text-muted-foreground">{view.owner}</span>}
+      {view.is_shared && view.owner === currentUser?.username && <Share2 className="h-3 w-3 text-muted-foreground" />}
+      {view.id === defaultViewId && <Star className="h-3 w-3 fill-current text-amber-500" />}
+    </DropdownMenuItem>
+  );
+
+  if (!currentUser) return null;
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="gap-1 max-w-[220px]">
+            <Bookmark className="h-4 w-4 flex-shrink-0" />
+            <span className="truncate">{activeView ? activeView.name : "All hires"}</span>
+            {isModified && <span className="text-muted-foreground" title="Unsaved changes">*</span>}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuItem onSelect={() => onApplyView(null)} className="flex items-center gap-2">
+            <Check className={`h-4 w-4 ${activeView ? "opacity-0" : "opacity-100"}`} />
+            All hires
+          </DropdownMenuItem>
+          {myViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>My views</DropdownMenuLabel>
+              {myViews.map(renderViewItem)}
+            </>
+          )}
+          {sharedViews.length > 0 && (
+            <>
+              <DropdownMenuLabel>Shared with the team</DropdownMenuLabel>
+              {sharedViews.map(renderViewItem)}
+            </>
+          )}
+
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={openSaveDialog}>
+            <Save className="h-4 w-4 mr-2" />
+            Save as new view...
+          </DropdownMenuItem>
+          {ownsActiveView && isModified && (
+            <DropdownMenuItem onSelect={() => updateMutation.mutate({ id: activeView.id, changes: { state: currentState } })}>
+              <Save className="h-4 w-4 mr-2" />
+              Update "{activeView.name}"
+            </DropdownMenuItem>
+          )}
+          {activeView && (
+            <DropdownMenuItem onSelect={() => defaultMutation.mutate(activeView.id === defaultViewId ? null : activeView.id)}>
+              <Star className="h-4 w-4 mr-2" />
+              {activeView.id === defaultViewId ? "Stop opening with this view" : "Open hires with this view"}
+            </DropdownMenuItem>
+          )}
+          {ownsActiveView && (
+            <DropdownMenuItem onSelect={() => updateMutation.mutate({ id: activeView.id, changes: { isShared: !activeView.is_shared } })}>
+              <Share2 className="h-4 w-4 mr-2" />
+              {activeView.is_shared ? "Stop sharing" : "Share with the team"}
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={copyLink}>
+            <Link className="h-4 w-4 mr-2" />
+            Copy link
+          </DropdownMenuItem>
+          {activeView && (ownsActiveView || currentUser.role === "admin") && (
+            <DropdownMenuItem onSelect={() => deleteMutation.mutate(activeView.id)} className="text-destructive">
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete view
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showSaveDialog} onOpenChange={setShowSaveDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current search, filters, sort and visible columns.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                value={newViewName}
+                onChange={(e) => setNewViewName(e.target.value)}
+                placeholder="e.g. My pending hires"
+                autoFocus
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox id="view-shared" checked={shareNewView} onCheckedChange={(checked) => setShareNewView(checked === true)} />
+              <Label htmlFor="view-shared" className="font-normal">Share with the team</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowSaveDialog(false)}>
+              <X className="h-4 w-4 mr-1" />
+              Cancel
+            </Button>
+            <Button onClick={() => createMutation.mutate()} disabled={!newViewName.trim() || createMutation.isPending}>
+              {createMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save View
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,5 +1,6 @@
 
 import { useState, useEffect } from "react";
+import axios from "axios";
 import {
   DialogContent,
   DialogDescription,
@@ -74,7 +75,7 @@ export function SendWhatsAppDialog({ hire, onClose }: SendWhatsAppDialogProps) {
     setIsLoading(true);
     try {
       logger.ui.info("SendWhatsAppDialog", "Sending message to:", phoneNumber);
-      await whatsappService.sendMessage(phoneNumber, message);
+      await whatsappService.sendMessage(phoneNumber, message, hire.id);
       
       toast({
         title: "Success",
@@ -86,7 +87,9 @@ export function SendWhatsAppDialog({ hire, onClose }: SendWhatsAppDialogProps) {
       console.error("Failed to send WhatsApp message:", error);
       toast({
         title: "Error",
-        description: "Failed to send WhatsApp message",
+        description: axios.isAxiosError(error) && error.response?.data?.details
+          ? error.response.data.details
+          : "Failed to send WhatsApp message",
         variant: "destructive",
       });
     } finally {
@@ -128,6 +131,13 @@ export function SendWhatsAppDialog({ hire, onClose }: SendWhatsAppDialogProps) {
             disabled={isLoading || isGenerating}
             className="font-mono text-sm"
           />
+          {message.includes("{{password}}") && (
+            <p className="text-xs text-muted-foreground">
+              {hire.has_password
+                ? "{{password}} is filled in from the credential vault when the message is sent. This is recorded in the audit log."
+                : "No initial password is stored for this hire - remove {{password}} before sending."}
+            </p>
+          )}
         </div>
       </div>
 
@@ -3,12 +3,12 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/components/ui/use-toast";
-import { Upload, Download, Trash2, FileText, AlertCircle, Eye } from "lucide-react";
+import { Upload, Download, FileText, AlertCircle, Eye, FilePlus2 } from "lucide-react";
 import { srfService } from "@/services/srf-service";
 import { NewHire } from "@/types/types";
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useQueryClient } from "@tanstack/react-query";
 import { SrfDocumentPreview } from "./SrfDocumentPreview";
+import { SrfVersionHistory } from "./SrfVersionHistory";
 
 interface SrfDocumentUploadProps {
   hire: NewHire;
@@ -16,9 +16,8 @@ interface SrfDocumentUploadProps {
 
 export function SrfDocumentUpload({ hire }: SrfDocumentUploadProps) {
   const [isUploading, setIsUploading] = useState(false);
-  const [isDeleting, setIsDeleting] = useState(false);
   const [isPreviewing, setIsPreviewing] = useState(false);
-  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const { toast } = useToast();
@@ -52,14 +51,15 @@ export function SrfDocumentUpload({ hire }: SrfDocumentUploadProps) {
     setIsUploading(true);
 
     try {
-      await srfService.uploadSrfDocument(hire.id, file);
+      const result = await srfService.uploadSrfDocument(hire.id, file);
       toast({
         title: "Success",
-        description: "SRF document uploaded successfully",
+        description: result.message,
       });
       
       // Invalidate and refetch hire data
       queryClient.invalidateQueries({ queryKey: ['hire', hire.id] });
+      queryClient.invalidateQueries({ queryKey: ['srf-versions', hire.id] });
     } catch (error) {
       console.error("Error uploading SRF document:", error);
       toast({
@@ -74,6 +74,32 @@ export function SrfDocumentUpload({ hire }: SrfDocumentUploadProps) {
     }
   };
 
+  const handleGenerate = async () => {
+    if (!hire.id) return;
+
+    setIsGenerating(true);
+
+    try {
+      const result = await srfService.generateSrfDocument(hire.id);
+      toast({
+        title: "SRF generated",
+        description: result.message,
+      });
+
+      queryClient.invalidateQueries({ queryKey: ['hire', hire.id] });
+      queryClient.invalidateQueries({ queryKey: ['srf-versions', hire.id] });
+    } catch (error) {
+      console.error("Error generating SRF document:", error);
+      toast({
+        title: "Generation failed",
+        description: "Failed to generate the SRF from this hire",
+        variant: "destructive",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
   const handleDownload = async (event: React.MouseEvent) => {
     event.preventDefault();
     event.stopPropagation();
@@ -105,40 +131,6 @@ export function SrfDocumentUpload({ hire }: SrfDocumentUploadProps) {
     }
   };
 
-  const handleDeleteClick = (event: React.MouseEvent) => {
-    event.preventDefault();
-    event.stopPropagation();
-    setShowDeleteDialog(true);
-  };
-
-  const handleDelete = async () => {
-    if (!hire.id) return;
-
-    setIsDeleting(true);
-
-    try {
-      console.log("Attempting to delete SRF document for hire ID:", hire.id);
-      await srfService.deleteSrfDocument(hire.id);
-      toast({
-        title: "Success",
-        description: "SRF document deleted successfully",
-      });
-      
-      // Invalidate and refetch hire data
-      queryClient.invalidateQueries({ queryKey: ['hire', hire.id] });
-      setShowDeleteDialog(false);
-    } catch (error) {
-      console.error("Error deleting SRF document:", error);
-      toast({
-        title: "Delete failed",
-        description: "Failed to delete SRF document",
-        variant: "destructive",
-      });
-    } finally {
-      setIsDeleting(false);
-    }
-  };
-
   const handlePreview = async (event: React.MouseEvent) => {
     event.preventDefault();
     event.stopPropagation();
@@ -193,10 +185,26 @@ export function SrfDocumentUpload({ hire }: SrfDocumentUploadProps) {
   return (
     <Card>
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <FileText className="h-5 w-5" />
-          SRF Document
-        </CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="h-5 w-5" />
+            SRF Document
+            {hire.srf_number && (
+              <span className="text-sm font-normal text-muted-foreground">No. {hire.srf_number}</span>
+            )}
+          </CardTitle>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="flex items-center gap-1"
+          >
+            <FilePlus2 className="h-3 w-3" />
+            {isGenerating ? "Generating..." : "Generate SRF"}
+          </Button>
+        </div>
       </CardHeader>
       <CardContent className="space-y-4">
         {hasDocument ? (
@@ -235,16 +243,6 @@ export function SrfDocumentUpload({ hire }: SrfDocumentUploadProps) {
                   <Download className="h-3 w-3" />
                   Download
                 </Button>
-                <Button
-                  type="button"
-                  onClick={handleDeleteClick}
-                  size="sm"
-                  variant="outline"
-                  className="flex items-center gap-1 text-red-600 hover:text-red-700"
-                >
-                  <Trash2 className="h-3 w-3" />
-                  Delete
-                </Button>
               </div>
             </div>
             
@@ -256,7 +254,7 @@ export function SrfDocumentUpload({ hire }: SrfDocumentUploadProps) {
             )}
             
             <div className="space-y-2">
-              <label className="text-sm font-medium">Replace Document</label>
+              <label className="text-sm font-medium">Upload New Version</label>
               <div className="flex items-center gap-2">
                 <Input
                   type="file"
@@ -272,7 +270,7 @@ export function SrfDocumentUpload({ hire }: SrfDocumentUploadProps) {
                   size="sm"
                 >
                   <Upload className="h-3 w-3" />
-                  {isUploading ? "Uploading..." : "Replace"}
+                  {isUploading ? "Uploading..." : "Upload"}
                 </Button>
               </div>
             </div>
@@ -281,7 +279,7 @@ export function SrfDocumentUpload({ hire }: SrfDocumentUploadProps) {
           <div className="space-y-4">
             <div className="flex items-center gap-2 text-amber-600">
               <AlertCircle className="h-4 w-4" />
-              <span className="text-sm">No SRF document uploaded</span>
+              <span className="text-sm">No SRF document yet - generate one from this hire or upload a filled-in form</span>
             </div>
             
             <div className="space-y-2">
@@ -311,22 +309,7 @@ export function SrfDocumentUpload({ hire }: SrfDocumentUploadProps) {
           </div>
         )}
 
-        <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Delete SRF Document</AlertDialogTitle>
-              <AlertDialogDescription>
-                Are you sure you want to delete this SRF document? This action cannot be undone.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={handleDelete} disabled={isDeleting}>
-                {isDeleting ? "Deleting..." : "Delete"}
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
+        {hire.id && <SrfVersionHistory hireId={hire.id} />}
 
         <SrfDocumentPreview
           isOpen={showPreview}
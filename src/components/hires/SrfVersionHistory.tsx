@@ -0,0 +1,230 @@
+import { useState } from "react";
+import axios from "axios";
+import { format } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Check, Download, History, Loader2, Undo2, X } from "lucide-react";
+import { srfService } from "@/services/srf-service";
+import { useAuth } from "@/services/api";
+import { SrfVersion, SrfVersionStatus } from "@/types/types";
+
+interface SrfVersionHistoryProps {
+  hireId: string;
+}
+
+const STATUS_BADGES: Record<SrfVersionStatus, { label: string; className: string }> = {
+  submitted: { label: "Awaiting review", className: "bg-amber-100 text-amber-800" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-800" },
+  withdrawn: { label: "Withdrawn", className: "bg-gray-100 text-gray-700" },
+};
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+/**
+ * Every SRF uploaded for a hire with its review state. Admins approve or reject the newest version;
+ * approving it is what marks the hire's SRF as done. Anyone can withdraw it while it awaits review.
+ */
+export function SrfVersionHistory({ hireId }: SrfVersionHistoryProps) {
+  const [rejectTarget, setRejectTarget] = useState<SrfVersion | null>(null);
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { getCurrentUser } = useAuth();
+  const isAdmin = getCurrentUser()?.role === "admin";
+
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ['srf-versions', hireId],
+    queryFn: () => srfService.getSrfVersions(hireId),
+  });
+
+  const onReviewed = (version: SrfVersion) => {
+    toast({ title: `SRF version ${version.version} ${version.status}` });
+    setRejectTarget(null);
+    setReason("");
+    queryClient.invalidateQueries({ queryKey: ['srf-versions', hireId] });
+    queryClient.invalidateQueries({ queryKey: ['hire', hireId] });
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: (versionId: string) => srfService.approveSrfVersion(hireId, versionId),
+    onSuccess: onReviewed,
+    onError: (error: unknown) => {
+      toast({ title: "Approval failed", description: errorMessage(error, "Failed to approve SRF"), variant: "destructive" });
+    },
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: ({ versionId, reason }: { versionId: string; reason: string }) =>
+      srfService.rejectSrfVersion(hireId, versionId, reason),
+    onSuccess: onReviewed,
+    onError: (error: unknown) => {
+      toast({ title: "Rejection failed", description: errorMessage(error, "Failed to reject SRF"), variant: "destructive" });
+    },
+  });
+
+  const withdrawMutation = useMutation({
+    mutationFn: (versionId: string) => srfService.withdrawSrfVersion(hireId, versionId),
+    onSuccess: onReviewed,
+    onError: (error: unknown) => {
+      toast({ title: "Withdrawal failed", description: errorMessage(error, "Failed to withdraw SRF"), variant: "destructive" });
+    },
+  });
+
+  const handleDownload = async (version: SrfVersion) => {
+    try {
+      const blob = await srfService.downloadSrfVersion(hireId, version.id);
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = version.file_name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error downloading SRF version:", error);
+      toast({ title: "Download failed", description: "Failed to download SRF version", variant: "destructive" });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading SRF versions...
+      </div>
+    );
+  }
+
+  if (versions.length === 0) return null;
+
+  const isReviewing = approveMutation.isPending || rejectMutation.isPending || withdrawMutation.isPending;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <History className="h-4 w-4" />
+        Versions
+      </div>
+      <div className="divide-y border rounded-lg">
+        {versions.map((version, index) => {
+          const badge = STATUS_BADGES[version.status];
+          const canWithdraw = index === 0 && version.status === "submitted";
+          const canReview = isAdmin && canWithdraw;
+          return (
+            <div key={version.id} className="flex items-start justify-between gap-2 p-2">
+              <div className="min-w-0 space-y-0.5">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">v{version.version}</span>
+                  <span className="text-sm truncate">{version.file_name}</span>
+                  <Badge variant="outline" className={badge.className}>{badge.label}</Badge>
+                  {index > 0 && version.status === "submitted" && (
+                    <span className="text-xs text-muted-foreground">replaced</span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  Uploaded {format(new Date(version.uploaded_at), "d MMM yyyy HH:mm")}
+                  {version.uploaded_by && ` by ${version.uploaded_by}`}
+                </p>
+                {version.reviewed_by && version.reviewed_at && (
+                  <p className="text-xs text-gray-500">
+                    {badge.label} by {version.reviewed_by} on{" "}
+                    {format(new Date(version.reviewed_at), "d MMM yyyy HH:mm")}
+                  </p>
+                )}
+                {version.rejection_reason && (
+                  <p className="text-xs text-red-600">Reason: {version.rejection_reason}</p>
+                )}
+              </div>
+              <div className="flex gap-1 shrink-0">
+                {canReview && (
+                  <>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      className="text-green-700"
+                      onClick={() => approveMutation.mutate(version.id)}
+                      disabled={isReviewing}
+                    >
+                      <Check className="h-3 w-3 mr-1" />
+                      Approve
+                    </Button>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant="outline"
+                      className="text-red-600"
+                      onClick={() => setRejectTarget(version)}
+                      disabled={isReviewing}
+                    >
+                      <X className="h-3 w-3 mr-1" />
+                      Reject
+                    </Button>
+                  </>
+                )}
+                {canWithdraw && (
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => withdrawMutation.mutate(version.id)}
+                    disabled={isReviewing}
+                    title="Withdraw this version, e.g. a wrong file"
+                  >
+                    <Undo2 className="h-3 w-3 mr-1" />
+                    Withdraw
+                  </Button>
+                )}
+                <Button type="button" size="sm" variant="ghost" onClick={() => handleDownload(version)} title="Download">
+                  <Download className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog open={Boolean(rejectTarget)} onOpenChange={(open) => !open && setRejectTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reject SRF version {rejectTarget?.version}</DialogTitle>
+            <DialogDescription>
+              The reason is shown on the hire and kept in the audit log, so whoever uploads the next version knows what to fix.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Missing the department head's signature"
+            rows={3}
+          />
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setRejectTarget(null)}>Cancel</Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={() => rejectTarget && rejectMutation.mutate({ versionId: rejectTarget.id, reason: reason.trim() })}
+              disabled={!reason.trim() || rejectMutation.isPending}
+            >
+              {rejectMutation.isPending ? "Rejecting..." : "Reject"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import axios from "axios";
+import { format, formatDistanceToNow } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ChevronLeft, ChevronRight, Loader2, RotateCcw, Search, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { hiresApi, useAuth } from "@/services/api";
+import { useDebounce } from "@/hooks/use-debounce";
+import { TrashedHire } from "@/types/types";
+
+const PAGE_SIZE = 25;
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) ? error.response?.data?.error : undefined) || fallback;
+
+export function TrashList() {
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [purgeTarget, setPurgeTarget] = useState<TrashedHire | null>(null);
+  const debouncedSearch = useDebounce(search, 300);
+  const queryClient = useQueryClient();
+  const { getCurrentUser } = useAuth();
+  const role = getCurrentUser()?.role;
+  const isAdmin = role === "admin";
+  const canRestore = isAdmin || role === "support";
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['hires-trash', { q: debouncedSearch, page }],
+    queryFn: () => hiresApi.getTrash({ page, pageSize: PAGE_SIZE, q: debouncedSearch || undefined }),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: hiresApi.restore,
+    onSuccess: (hire) => {
+      toast.success(`${hire.name} restored`);
+      queryClient.invalidateQueries({ queryKey: ['hires-trash'] });
+    },
+    onError: (error: unknown) => toast.error(errorMessage(error, "Failed to restore hire")),
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: (id: string) => hiresApi.purge([id]),
+    onSuccess: () => {
+      toast.success("Hire permanently deleted");
+      setPurgeTarget(null);
+      queryClient.invalidateQueries({ queryKey: ['hires-trash'] });
+    },
+    onError: (error: unknown) => toast.error(errorMessage(error, "Failed to permanently delete hire")),
+  });
+
+  const hires = data?.data || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Deleted Hires</CardTitle>
+        <CardDescription>
+          Deleted hires keep their history and can be restored.{" "}
+          {data && (data.retentionDays > 0
+            ? `They are permanently deleted ${data.retentionDays} day(s) after being moved here.`
+            : "They stay here until an admin permanently deletes them.")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative max-w-sm">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search name, email or department..."
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            className="pl-8"
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <span className="ml-2">Loading deleted hires...</span>
+          </div>
+        ) : error ? (
+          <div className="text-red-500">Error loading deleted hires. Please try again later.</div>
+        ) : hires.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">The trash is empty.</p>
+        ) : (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Department</TableHead>
+                  <TableHead>On-site date</TableHead>
+                  <TableHead>Deleted</TableHead>
+                  <TableHead>Purged</TableHead>
+                  <TableHead className="w-[220px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {hires.map(hire => (
+                  <TableRow key={hire.id}>
+                    <TableCell>
+                      <div className="font-medium">{hire.name}</div>
+                      <div className="text-xs text-muted-foreground">{hire.email}</div>
+                    </TableCell>
+                    <TableCell>{hire.department}</TableCell>
+                    <TableCell>{hire.on_site_date ? format(new Date(hire.on_site_date), "d MMM yyyy") : "-"}</TableCell>
+                    <TableCell>
+                      <div className="text-sm">{formatDistanceToNow(new Date(hire.deleted_at), { addSuffix: true })}</div>
+                      <div className="text-xs text-muted-foreground">by {hire.deleted_by || "system"}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {hire.purge_at ? format(new Date(hire.purge_at), "d MMM yyyy") : "Never"}
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      {canRestore && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => restoreMutation.mutate(hire.id)}
+                          disabled={restoreMutation.isPending}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                      {isAdmin && (
+                        <Button variant="destructive" size="sm" onClick={() => setPurgeTarget(hire)}>
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Purge
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {data && data.totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <span className="text-muted-foreground">Page {data.page} of {data.totalPages}</span>
+            <Button variant="outline" size="icon" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setPage(page + 1)} disabled={page >= data.totalPages}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={Boolean(purgeTarget)} onOpenChange={(open) => !open && setPurgeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Permanently delete {purgeTarget?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The hire, its audit log, comments and documents will be removed for good. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeTarget && purgeMutation.mutate(purgeTarget.id)}
+              disabled={purgeMutation.isPending}
+            >
+              {purgeMutation.isPending ? "Deleting..." : "Delete permanently"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import axios from "axios";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Save, Trash2, Loader2 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ColumnMapping, ImportColumnsResponse, ImportPreset } from "@/types/types";
+import { settingsService } from "@/services/settings-service";
+
+interface ColumnMappingStepProps {
+  columns: ImportColumnsResponse;
+  mapping: ColumnMapping;
+  onMappingChange: (mapping: ColumnMapping) => void;
+  presets: ImportPreset[];
+  selectedPresetId: string | null;
+  onPresetSelect: (preset: ImportPreset | null) => void;
+}
+
+// Select items can't have an empty value
+const IGNORE = "__ignore__";
+
+const formatField = (field: string) =>
+  field.replace(/_/g, " ").replace(/\b\w/g, char => char.toUpperCase());
+
+/** Required hire fields that no column is mapped to */
+const getUnmappedRequiredFields = (columns: ImportColumnsResponse, mapping: ColumnMapping) =>
+  columns.requiredFields.filter(field => !Object.values(mapping).includes(field));
+
+export function ColumnMappingStep({
+  columns,
+  mapping,
+  onMappingChange,
+  presets,
+  selectedPresetId,
+  onPresetSelect,
+}: ColumnMappingStepProps) {
+  const selectedPreset = presets.find(preset => preset.id === selectedPresetId) || null;
+  const [presetSource, setPresetSource] = useState(selectedPreset?.source || "");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const savePresetMutation = useMutation({
+    mutationFn: () => settingsService.saveImportPreset(presetSource.trim(), mapping),
+    onSuccess: ({ preset }) => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      onPresetSelect(preset);
+      toast({ title: "Preset Saved", description: `Column mapping saved for "${preset.source}"` });
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Save Failed",
+        description: axios.isAxiosError(error) ? error.response?.data?.error || error.message : "Failed to save preset",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deletePresetMutation = useMutation({
+    mutationFn: (id: string) => settingsService.deleteImportPreset(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      onPresetSelect(null);
+      setPresetSource("");
+    },
+  });
+
+  const setColumnField = (header: string, field: string) => {
+    const next = { ...mapping };
+    // Each field can only come from one column
+    for (const [otherHeader, otherField] of Object.entries(next)) {
+      if (otherField === field) delete next[otherHeader];
+    }
+    if (field === IGNORE) {
+      delete next[header];
+    } else {
+      next[header] = field;
+    }
+    onMappingChange(next);
+  };
+
+  const unmappedRequired = getUnmappedRequiredFields(columns, mapping);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1 flex-1 min-w-[180px]">
+          <label className="text-sm font-medium">Preset</label>
+          <Select
+            value={selectedPresetId || IGNORE}
+            onValueChange={(value) => {
+              const preset = presets.find(p => p.id === value) || null;
+              onPresetSelect(preset);
+              setPresetSource(preset?.source || "");
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={IGNORE}>Matched from headers</SelectItem>
+              {presets.map(preset => (
+                <SelectItem key={preset.id} value={preset.id}>{preset.source}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1 flex-1 min-w-[180px]">
+          <label htmlFor="preset-source" className="text-sm font-medium">Save mapping for source</label>
+          <Input
+            id="preset-source"
+            value={presetSource}
+            onChange={(e) => setPresetSource(e.target.value)}
+            placeholder="e.g. HR Excel export"
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => savePresetMutation.mutate()}
+          disabled={!presetSource.trim() || unmappedRequired.length > 0 || savePresetMutation.isPending}
+        >
+          {savePresetMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+          Save Preset
+        </Button>
+        {selectedPreset && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => deletePresetMutation.mutate(selectedPreset.id)}
+            disabled={deletePresetMutation.isPending}
+            title="Delete preset"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className="border rounded-md max-h-[360px] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>File column</TableHead>
+              <TableHead>Example</TableHead>
+              <TableHead>Hire field</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {columns.headers.map(header => (
+              <TableRow key={header}>
+                <TableCell className="font-medium">{header}</TableCell>
+                <TableCell className="text-muted-foreground text-xs max-w-[160px] truncate">
+                  {columns.sampleRows.find(row => row[header])?.[header] || "—"}
+                </TableCell>
+                <TableCell>
+                  <Select value={mapping[header] || IGNORE} onValueChange={(value) => setColumnField(header, value)}>
+                    <SelectTrigger className="h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={IGNORE}>— Don't import —</SelectItem>
+                      {columns.fields.map(field => (
+                        <SelectItem key={field} value={field}>
+                          {columns.fieldLabels?.[field] || formatField(field)}{columns.requiredFields.includes(field) ? " *" : ""}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      {unmappedRequired.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 text-xs text-destructive">
+          <span>Required fields not mapped:</span>
+          {unmappedRequired.map(field => (
+            <Badge key={field} variant="destructive">{columns.fieldLabels?.[field] || formatField(field)}</Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,33 +1,111 @@
 import { useState } from "react";
+import axios from "axios";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { hiresApi } from "@/services/api";
 import { useToast } from "@/components/ui/use-toast";
-import { Upload, AlertCircle, CheckCircle2, Download, FileText, X } from "lucide-react";
-import { ImportResponse, ImportError } from "@/types/types";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Upload, AlertCircle, CheckCircle2, Download, FileText, X, Loader2, Eye, ArrowLeft } from "lucide-react";
+import { ImportResponse, ImportError, ImportColumnsResponse, ColumnMapping, ImportPreset, ImportMode, ImportPreviewResponse } from "@/types/types";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { settingsService } from "@/services/settings-service";
+import { ColumnMappingStep } from "./ColumnMappingStep";
+import { ImportPreviewStep } from "./ImportPreviewStep";
+
+// A preset fits a file when every column it maps is in the file
+const presetFits = (preset: ImportPreset, headers: string[]) =>
+  Object.keys(preset.mapping).every(header => headers.includes(header));
 
 export function FileImporter() {
   const [file, setFile] = useState<File | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
   const [result, setResult] = useState<ImportResponse | null>(null);
+  const [columns, setColumns] = useState<ImportColumnsResponse | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
+  const [isReadingColumns, setIsReadingColumns] = useState(false);
+  const [mode, setMode] = useState<ImportMode>("create");
+  const [preview, setPreview] = useState<ImportPreviewResponse | null>(null);
+  const [selectedRows, setSelectedRows] = useState<number[]>([]);
+  const [isPreviewing, setIsPreviewing] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settingsData } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings,
+  });
+  const presets = settingsData?.importPresets || [];
+
+  // Read the file's columns and start from a fitting preset, or from what the headers suggest
+  const readColumns = async (selectedFile: File) => {
+    setIsReadingColumns(true);
+    setColumns(null);
+    setPreview(null);
+    try {
+      const response = await hiresApi.getImportColumns(selectedFile);
+      const preset = presets.find(p => presetFits(p, response.headers));
+      setColumns(response);
+      setMapping(preset ? preset.mapping : response.suggestedMapping);
+      setSelectedPresetId(preset?.id || null);
+    } catch (error) {
+      console.error("Error reading import columns:", error);
+      toast({
+        title: "Could Not Read File",
+        description: "The file's columns could not be read. Check that it is a valid CSV or Excel file.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReadingColumns(false);
+    }
+  };
+
+  // A preview is only good for the mapping and mode it was made with
+  const handleMappingChange = (next: ColumnMapping) => {
+    setMapping(next);
+    setPreview(null);
+  };
+
+  const handleModeChange = (next: ImportMode) => {
+    setMode(next);
+    setPreview(null);
+  };
+
+  const handlePresetSelect = (preset: ImportPreset | null) => {
+    setSelectedPresetId(preset?.id || null);
+    setPreview(null);
+    if (!columns) return;
+    if (!preset) {
+      setMapping(columns.suggestedMapping);
+    } else if (presetFits(preset, columns.headers)) {
+      setMapping(preset.mapping);
+    } else {
+      // Keep what fits; columns missing from this file are dropped
+      setMapping(Object.fromEntries(Object.entries(preset.mapping).filter(([header]) => columns.headers.includes(header))));
+    }
+  };
+
+  const unmappedRequired = columns
+    ? columns.requiredFields.filter(field => !Object.values(mapping).includes(field))
+    : [];
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       const selectedFile = e.target.files[0];
       const fileExt = selectedFile.name.split('.').pop()?.toLowerCase();
       
-      if (fileExt === 'csv' || fileExt === 'xlsx' || fileExt === 'xls') {
+      if (fileExt === 'csv' || fileExt === 'xlsx') {
         setFile(selectedFile);
         setResult(null);
+        readColumns(selectedFile);
       } else {
         toast({
           title: "Invalid File Type",
-          description: "Please upload a CSV or Excel file (.csv, .xlsx, .xls)",
+          description: "Please upload a CSV or Excel file (.csv, .xlsx)",
           variant: "destructive",
         });
         e.target.value = '';
@@ -35,7 +113,8 @@ export function FileImporter() {
     }
   };
 
-  const handleImport = async () => {
+  // Dry run first, so every row's outcome can be checked before anything is written
+  const handlePreview = async () => {
     if (!file) {
       toast({
         title: "No File Selected",
@@ -45,15 +124,41 @@ export function FileImporter() {
       return;
     }
 
+    setIsPreviewing(true);
+    setResult(null);
+    try {
+      const response = await hiresApi.previewImport(file, columns ? mapping : undefined, mode);
+      setPreview(response);
+      // Everything that would write something starts selected
+      setSelectedRows(response.rows
+        .filter(entry => entry.action === "create" || entry.action === "update")
+        .map(entry => entry.row));
+    } catch (error) {
+      console.error("Import preview error:", error);
+      toast({
+        title: "Preview Failed",
+        description: axios.isAxiosError(error) ? error.response?.data?.message || error.message : "An error occurred while checking the file",
+        variant: "destructive",
+      });
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file || !preview) return;
+
     setIsLoading(true);
     try {
-      const response = await hiresApi.import(file);
+      const response = await hiresApi.import(file, columns ? mapping : undefined, mode, selectedRows);
       setResult(response);
+      setPreview(null);
+      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
       
       if (response.success) {
         toast({
           title: "Import Successful",
-          description: `Successfully imported ${response.imported || response.rowsImported} of ${response.totalRows || 'all'} records`,
+          description: `${response.rowsCreated ?? 0} created and ${response.rowsUpdated ?? 0} updated of ${response.totalRows || 'all'} selected records`,
         });
       } else {
         toast({
@@ -101,6 +206,11 @@ export function FileImporter() {
   const resetForm = () => {
     setFile(null);
     setResult(null);
+    setColumns(null);
+    setMapping({});
+    setSelectedPresetId(null);
+    setPreview(null);
+    setSelectedRows([]);
     // Reset file input
     const fileInput = document.getElementById('file-upload') as HTMLInputElement;
     if (fileInput) {
@@ -149,12 +259,12 @@ export function FileImporter() {
           <Input 
             id="file-upload" 
             type="file" 
-            accept=".csv,.xlsx,.xls"
+            accept=".csv,.xlsx"
             onChange={handleFileChange}
             disabled={isLoading}
           />
           <p className="text-xs text-muted-foreground mt-1">
-            Accepted formats: .csv, .xlsx, .xls
+            Accepted formats: .csv, .xlsx
           </p>
         </div>
         
@@ -214,32 +324,84 @@ export function FileImporter() {
           </div>
         )}
 
-        <div className="space-y-2">
-          <h3 className="text-sm font-medium">Required Column Mapping</h3>
-          <div className="text-xs text-muted-foreground grid grid-cols-2 gap-x-4 gap-y-1">
-            <div>name*</div>
-            <div>title*</div>
-            <div>department*</div>
-            <div>email*</div>
-            <div>direct_report*</div>
-            <div>phone_number</div>
-            <div>mailing_list</div>
-            <div>account_creation_status</div>
-            <div>username</div>
-            <div>password</div>
-            <div>on_site_date</div>
-            <div>ict_support_pic</div>
-            <div>remarks</div>
-            <div>license_assigned</div>
-            <div>status_srf</div>
-            <div>microsoft_365_license</div>
-            <div>laptop_ready</div>
-            <div>note</div>
+        {isReadingColumns && (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Reading columns...
           </div>
-          <p className="text-xs text-muted-foreground mt-1">
-            * Required fields. Column headers in your file should match these names (case-insensitive)
-          </p>
-        </div>
+        )}
+
+        {preview ? (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Preview</h3>
+            <p className="text-xs text-muted-foreground">
+              Nothing has been imported yet. Choose which rows to import.
+            </p>
+            <ImportPreviewStep
+              preview={preview}
+              selectedRows={selectedRows}
+              onSelectedRowsChange={setSelectedRows}
+            />
+          </div>
+        ) : columns ? (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Import Mode</h3>
+            <Select value={mode} onValueChange={(value) => handleModeChange(value as ImportMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="create">Create new hires only</SelectItem>
+                <SelectItem value="upsert">Create new hires and update existing ones</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {mode === "upsert"
+                ? "Rows matching an existing hire by email or employee ID update that hire. Blank cells keep the current value."
+                : "Rows matching an existing hire are reported as errors."}
+            </p>
+            <h3 className="text-sm font-medium pt-2">Column Mapping</h3>
+            <p className="text-xs text-muted-foreground">
+              {columns.totalRows} row(s) found. Choose which hire field each column of your file fills.
+            </p>
+            <ColumnMappingStep
+              columns={columns}
+              mapping={mapping}
+              onMappingChange={handleMappingChange}
+              presets={presets}
+              selectedPresetId={selectedPresetId}
+              onPresetSelect={handlePresetSelect}
+            />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">Required Column Mapping</h3>
+            <div className="text-xs text-muted-foreground grid grid-cols-2 gap-x-4 gap-y-1">
+              <div>name*</div>
+              <div>title*</div>
+              <div>position_grade</div>
+              <div>department*</div>
+              <div>email*</div>
+              <div>direct_report*</div>
+              <div>phone_number</div>
+              <div>employee_id</div>
+              <div>mailing_list</div>
+              <div>account_creation_status</div>
+              <div>username</div>
+              <div>password</div>
+              <div>on_site_date</div>
+              <div>ict_support_pic</div>
+              <div>remarks</div>
+              <div>license_assigned</div>
+              <div>microsoft_365_license</div>
+              <div>laptop_ready</div>
+              <div>note</div>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              * Required fields. Columns with these names are matched automatically; others can be mapped once the file is selected
+            </p>
+          </div>
+        )}
       </CardContent>
       <CardFooter className="flex justify-between">
         <Button
@@ -249,16 +411,43 @@ export function FileImporter() {
         >
           Reset
         </Button>
-        <Button onClick={handleImport} disabled={!file || isLoading} className="gap-2">
-          {isLoading ? (
-            <>Importing...</>
-          ) : (
-            <>
-              <FileText className="h-4 w-4" />
-              Import Data
-            </>
-          )}
-        </Button>
+        {preview ? (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setPreview(null)} disabled={isLoading} className="gap-2">
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <Button
+              onClick={handleImport}
+              disabled={isLoading || selectedRows.length === 0}
+              className="gap-2"
+            >
+              {isLoading ? (
+                <>Importing...</>
+              ) : (
+                <>
+                  <FileText className="h-4 w-4" />
+                  Import {selectedRows.length} Row(s)
+                </>
+              )}
+            </Button>
+          </div>
+        ) : (
+          <Button
+            onClick={handlePreview}
+            disabled={!file || isPreviewing || isReadingColumns || unmappedRequired.length > 0}
+            className="gap-2"
+          >
+            {isPreviewing ? (
+              <>Checking...</>
+            ) : (
+              <>
+                <Eye className="h-4 w-4" />
+                Preview Import
+              </>
+            )}
+          </Button>
+        )}
       </CardFooter>
     </Card>
   );
@@ -0,0 +1,146 @@
+import { useState } from "react";
+import axios from "axios";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Undo2 } from "lucide-react";
+import { useToast } from "@/components/ui/use-toast";
+import { hiresApi } from "@/services/api";
+import { ImportBatch } from "@/types/types";
+
+interface ImportBatchListProps {
+  canRollback?: boolean;
+}
+
+export function ImportBatchList({ canRollback = false }: ImportBatchListProps) {
+  const [rollbackTarget, setRollbackTarget] = useState<ImportBatch | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: batches = [], isLoading } = useQuery({
+    queryKey: ['import-batches'],
+    queryFn: hiresApi.getImportBatches,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: (importId: string) => hiresApi.rollbackImport(importId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['import-batches'] });
+      queryClient.invalidateQueries({ queryKey: ['hires'] });
+      setRollbackTarget(null);
+      toast({
+        title: "Import Rolled Back",
+        description: `${result.deleted} hire(s) removed, ${result.restored} restored` +
+          (result.conflicts.length > 0
+            ? `. ${result.conflicts.length} left unchanged because they were edited after the import: ${result.conflicts.map(c => c.name).join(", ")}`
+            : ""),
+      });
+    },
+    onError: (error: unknown) => {
+      toast({
+        title: "Rollback Failed",
+        description: axios.isAxiosError(error) ? error.response?.data?.error || error.message : "Failed to roll back import",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isLoading && batches.length === 0) return null;
+
+  return (
+    <Card className="max-w-2xl mx-auto">
+      <CardHeader>
+        <CardTitle className="text-xl">Recent Imports</CardTitle>
+        <CardDescription>Every committed import is recorded and can be rolled back</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>By</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map(batch => (
+                <TableRow key={batch.id}>
+                  <TableCell>
+                    <div className="font-medium truncate max-w-[200px]">{batch.file_name}</div>
+                    <div className="text-xs text-muted-foreground">{new Date(batch.created_at).toLocaleString()}</div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {batch.created_count} created, {batch.updated_count} updated
+                    <Badge variant="outline" className="ml-2">{batch.mode}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{batch.performed_by || "System"}</TableCell>
+                  <TableCell className="text-right">
+                    {batch.rolled_back_at ? (
+                      <Badge variant="secondary" title={`By ${batch.rolled_back_by || "System"}`}>
+                        Rolled back {new Date(batch.rolled_back_at).toLocaleDateString()}
+                      </Badge>
+                    ) : canRollback && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setRollbackTarget(batch)}
+                        disabled={rollbackMutation.isPending}
+                      >
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Roll back
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!rollbackTarget} onOpenChange={(open) => !open && setRollbackTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll back this import?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The {rollbackTarget?.created_count} hire(s) created by importing {rollbackTarget?.file_name} will be deleted and
+              the {rollbackTarget?.updated_count} hire(s) it updated will get their previous values back. Hires edited since
+              the import are left as they are.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={rollbackMutation.isPending}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (rollbackTarget) rollbackMutation.mutate(rollbackTarget.id);
+              }}
+              disabled={rollbackMutation.isPending}
+            >
+              {rollbackMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Roll Back
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ImportAction, ImportPreviewResponse } from "@/types/types";
+
+interface ImportPreviewStepProps {
+  preview: ImportPreviewResponse;
+  selectedRows: number[];
+  onSelectedRowsChange: (rows: number[]) => void;
+}
+
+const ACTION_BADGES: Record<ImportAction, { label: string; className: string }> = {
+  create: { label: "Create", className: "bg-green-100 text-green-800 hover:bg-green-100" },
+  update: { label: "Update", className: "bg-blue-100 text-blue-800 hover:bg-blue-100" },
+  skip: { label: "Skip", className: "bg-muted text-muted-foreground hover:bg-muted" },
+  error: { label: "Error", className: "bg-red-100 text-red-800 hover:bg-red-100" },
+};
+
+const formatField = (field: string) =>
+  field.replace(/_/g, " ").replace(/\b\w/g, char => char.toUpperCase());
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+};
+
+export function ImportPreviewStep({ preview, selectedRows, onSelectedRowsChange }: ImportPreviewStepProps) {
+  // Only rows that would write something can be picked
+  const selectableRows = preview.rows
+    .filter(entry => entry.action === "create" || entry.action === "update")
+    .map(entry => entry.row);
+  const allSelected = selectableRows.length > 0 && selectableRows.every(row => selectedRows.includes(row));
+
+  const toggleRow = (row: number, checked: boolean) => {
+    onSelectedRowsChange(checked ? [...selectedRows, row] : selectedRows.filter(selected => selected !== row));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2 text-xs">
+        {(Object.keys(ACTION_BADGES) as ImportAction[]).map(action => (
+          <Badge key={action} className={ACTION_BADGES[action].className}>
+            {preview.summary[action]} {ACTION_BADGES[action].label.toLowerCase()}
+          </Badge>
+        ))}
+      </div>
+
+      <div className="border rounded-md max-h-[420px] overflow-y-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => onSelectedRowsChange(checked ? selectableRows : [])}
+                  disabled={selectableRows.length === 0}
+                  aria-label="Select all rows"
+                />
+              </TableHead>
+              <TableHead className="w-14">Row</TableHead>
+              <TableHead>Hire</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Details</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {preview.rows.map(entry => {
+              const selectable = selectableRows.includes(entry.row);
+              return (
+                <TableRow key={entry.row} className={selectable ? undefined : "opacity-70"}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedRows.includes(entry.row)}
+                      onCheckedChange={(checked) => toggleRow(entry.row, checked === true)}
+                      disabled={!selectable}
+                      aria-label={`Select row ${entry.row}`}
+                    />
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{entry.row}</TableCell>
+                  <TableCell>
+                    <div className="font-medium">{entry.name || "—"}</div>
+                    <div className="text-xs text-muted-foreground">{entry.email}</div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge className={ACTION_BADGES[entry.action].className}>{ACTION_BADGES[entry.action].label}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs">
+                    {entry.error && (
+                      <span className={entry.action === "error" ? "text-destructive" : "text-muted-foreground"}>
+                        {entry.error}
+                      </span>
+                    )}
+                    {entry.changes && Object.entries(entry.changes).map(([field, change]) => (
+                      <div key={field}>
+                        <span className="text-muted-foreground">{formatField(field)}:</span>{" "}
+                        <span className="line-through text-red-700">{formatValue(change.from)}</span>{" → "}
+                        <span className="text-green-700">{formatValue(change.to)}</span>
+                      </div>
+                    ))}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {selectedRows.length} of {selectableRows.length} importable row(s) selected
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { Fragment, useState } from "react";
+import axios from "axios";
+import { Link } from "react-router-dom";
+import { format, formatDistanceToNow } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { jobsService } from "@/services/jobs-service";
+import { useAuth } from "@/services/api";
+import { JobStatus } from "@/types/types";
+
+const PAGE_SIZE = 25;
+
+// Refreshed while the page is open so running jobs move along on their own
+const POLL_INTERVAL = 5000;
+
+const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: "Queued",
+  running: "Running",
+  retrying: "Retrying",
+  succeeded: "Succeeded",
+  dead: "Dead",
+};
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: "bg-gray-100 text-gray-800",
+  running: "bg-blue-100 text-blue-800",
+  retrying: "bg-yellow-100 text-yellow-800",
+  succeeded: "bg-green-100 text-green-800",
+  dead: "bg-red-100 text-red-800",
+};
+
+const LOG_LEVEL_STYLES = {
+  info: "text-muted-foreground",
+  warn: "text-yellow-700",
+  error: "text-red-600",
+};
+
+export function JobStatusBadge({ status }: { status: JobStatus }) {
+  return (
+    <span className={cn("px-2 py-1 rounded text-xs font-medium", STATUS_STYLES[status])}>
+      {JOB_STATUS_LABELS[status]}
+    </span>
+  );
+}
+
+// Log of one job, loaded when its row is expanded
+function JobLogs({ jobId }: { jobId: string }) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['jobs', jobId],
+    queryFn: () => jobsService.getJob(jobId),
+    refetchInterval: POLL_INTERVAL,
+  });
+
+  if (isLoading || !data) {
+    return <Loader2 className="h-4 w-4 animate-spin" />;
+  }
+
+  return (
+    <div className="space-y-1 font-mono text-xs">
+      {data.logs.map(log => (
+        <div key={log.id} className="flex gap-3">
+          <span className="text-muted-foreground whitespace-nowrap">{format(new Date(log.created_at), "d MMM HH:mm:ss")}</span>
+          <span className="text-muted-foreground whitespace-nowrap">#{log.attempt}</span>
+          <span className={cn("break-all", LOG_LEVEL_STYLES[log.level])}>{log.message}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function JobsList() {
+  const [status, setStatus] = useState<JobStatus | "all">("all");
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { getCurrentUser } = useAuth();
+  const canRetry = ["admin", "support"].includes(getCurrentUser()?.role || "");
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['jobs', { status, page }],
+    queryFn: () => jobsService.getJobs({ page, pageSize: PAGE_SIZE, status: status === "all" ? undefined : status }),
+    refetchInterval: POLL_INTERVAL,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: jobsService.retryJob,
+    onSuccess: () => {
+      toast.success("Job queued to run again");
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+    },
+    onError: (error: unknown) => {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      toast.error(message || "Failed to retry job");
+    },
+  });
+
+  const jobs = data?.data || [];
+  const counts = data?.statusCounts || {};
+  const totalCount = Object.values(counts).reduce((sum, count) => sum + (count || 0), 0);
+
+  const changeStatus = (value: string) => {
+    setStatus(value as JobStatus | "all");
+    setPage(1);
+    setExpandedId(null);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Background Jobs</CardTitle>
+        <CardDescription>
+          AD account creation, distribution list syncs, WhatsApp messages and emails run here. Failed jobs are
+          retried with increasing delays; once out of attempts they are dead and can be retried by hand.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Tabs value={status} onValueChange={changeStatus}>
+          <TabsList>
+            <TabsTrigger value="all">All ({totalCount})</TabsTrigger>
+            {(Object.keys(JOB_STATUS_LABELS) as JobStatus[]).map(key => (
+              <TabsTrigger key={key} value={key}>
+                {JOB_STATUS_LABELS[key]} ({counts[key] || 0})
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin" />
+            <span className="ml-2">Loading jobs...</span>
+          </div>
+        ) : error ? (
+          <div className="text-red-500">Error loading jobs. Please try again later.</div>
+        ) : jobs.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No jobs to show.</p>
+        ) : (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Job</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead>Queued</TableHead>
+                  <TableHead>Last error</TableHead>
+                  <TableHead className="w-[100px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {jobs.map(job => (
+                  <Fragment key={job.id}>
+                    <TableRow className="cursor-pointer" onClick={() => setExpandedId(expandedId === job.id ? null : job.id)}>
+                      <TableCell>
+                        {expandedId === job.id ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      </TableCell>
+                      <TableCell>
+                        <div className="font-medium">{job.description || job.type}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {job.type}
+                          {job.hire_id && (
+                            <>
+                              {" · "}
+                              <Link to={`/hires/${job.hire_id}`} className="underline" onClick={(e) => e.stopPropagation()}>
+                                View hire
+                              </Link>
+                            </>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <JobStatusBadge status={job.status} />
+                        {job.status === "retrying" && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            next {formatDistanceToNow(new Date(job.run_at), { addSuffix: true })}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{job.attempts} / {job.max_attempts}</TableCell>
+                      <TableCell>
+                        <div className="text-sm">{formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}</div>
+                        <div className="text-xs text-muted-foreground">by {job.created_by || "system"}</div>
+                      </TableCell>
+                      <TableCell className="max-w-[280px] truncate text-sm text-red-600" title={job.last_error || undefined}>
+                        {job.last_error}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {job.status === "dead" && canRetry && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              retryMutation.mutate(job.id);
+                            }}
+                            disabled={retryMutation.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Retry
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === job.id && (
+                      <TableRow className="bg-muted/30 hover:bg-muted/30">
+                        <TableCell />
+                        <TableCell colSpan={6}>
+                          <JobLogs jobId={job.id} />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {data && data.totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2 text-sm">
+            <span className="text-muted-foreground">Page {data.page} of {data.totalPages}</span>
+            <Button variant="outline" size="icon" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => setPage(page + 1)} disabled={page >= data.totalPages}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { AtSign, Bell } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { notificationsService } from "@/services/notifications-service";
+import { AppNotification } from "@/types/types";
+
+interface NotificationsMenuProps {
+  collapsed: boolean;
+}
+
+// Checked in the background so mentions show up without reloading
+const POLL_INTERVAL = 60000;
+
+// Sidebar entry with the unread count; opening a notification marks it read and jumps to the comment
+export function NotificationsMenu({ collapsed }: NotificationsMenuProps) {
+  const [open, setOpen] = useState(false);
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['notifications'],
+    queryFn: notificationsService.getNotifications,
+    refetchInterval: POLL_INTERVAL,
+  });
+  const notifications = data?.notifications || [];
+  const unreadCount = data?.unreadCount || 0;
+
+  const markReadMutation = useMutation({
+    mutationFn: notificationsService.markRead,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications'] }),
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: notificationsService.markAllRead,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['notifications'] }),
+  });
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.read_at) markReadMutation.mutate(notification.id);
+    setOpen(false);
+    if (notification.hire_id) {
+      navigate(`/hires/${notification.hire_id}${notification.comment_id ? `#comment-${notification.comment_id}` : ""}`);
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          className="w-full justify-start text-white hover:bg-audit-lightBlue hover:text-white relative"
+          aria-label={`Notifications${unreadCount ? ` (${unreadCount} unread)` : ""}`}
+        >
+          <Bell className="mr-2 h-4 w-4" />
+          {!collapsed && "Notifications"}
+          {unreadCount > 0 && (
+            <span
+              className={cn(
+                "rounded-full bg-red-500 text-white text-xs px-1.5 min-w-5 text-center",
+                collapsed ? "absolute top-0.5 right-0.5" : "ml-auto"
+              )}
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <span className="text-sm font-medium">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => markAllReadMutation.mutate()}
+            disabled={unreadCount === 0 || markAllReadMutation.isPending}
+          >
+            Mark all as read
+          </Button>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-3 py-6 text-center text-sm text-muted-foreground">You're all caught up.</p>
+        ) : (
+          <ScrollArea className="max-h-96">
+            {notifications.map(notification => (
+              <button
+                key={notification.id}
+                type="button"
+                onClick={() => openNotification(notification)}
+                className={cn(
+                  "w-full text-left px-3 py-2 flex gap-2 border-b last:border-b-0 hover:bg-muted",
+                  !notification.read_at && "bg-blue-50"
+                )}
+              >
+                <AtSign className="h-4 w-4 mt-0.5 flex-shrink-0 text-blue-600" />
+                <span className="min-w-0">
+                  <span className={cn("block text-sm", !notification.read_at && "font-medium")}>{notification.message}</span>
+                  <span className="block text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
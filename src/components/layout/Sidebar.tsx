@@ -3,6 +3,7 @@ import { Link, useLocation } from "react-router-dom";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { useAuth } from "@/services/auth-service";
+import { NotificationsMenu } from "./NotificationsMenu";
 import {
   UserCircle,
   LayoutDashboard,
@@ -14,6 +15,9 @@ import {
   ChevronLeft,
   ChevronRight,
   Mail,
+  CalendarDays,
+  ListChecks,
+  Trash2,
 } from "lucide-react";
 
 export function Sidebar() {
@@ -44,6 +48,11 @@ export function Sidebar() {
       path: "/hires",
       icon: <Users className="mr-2 h-4 w-4" />,
     },
+    {
+      label: "Calendar",
+      path: "/calendar",
+      icon: <CalendarDays className="mr-2 h-4 w-4" />,
+    },
     {
       label: "Import Data",
       path: "/import",
@@ -54,6 +63,16 @@ export function Sidebar() {
       path: "/onboard-email",
       icon: <Mail className="mr-2 h-4 w-4" />,
     },
+    {
+      label: "Jobs",
+      path: "/jobs",
+      icon: <ListChecks className="mr-2 h-4 w-4" />,
+    },
+    {
+      label: "Trash",
+      path: "/trash",
+      icon: <Trash2 className="mr-2 h-4 w-4" />,
+    },
   ];
   
   const adminOrSupportNavItems: NavItem[] = [
@@ -130,6 +149,7 @@ export function Sidebar() {
               </Button>
             </Link>
           ))}
+          {user && <NotificationsMenu collapsed={collapsed} />}
         </nav>
       </div>
 
@@ -31,10 +31,13 @@ export function OnboardEmailGenerator() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [geminiApiKey, setGeminiApiKey] = useState("");
 
-  // Query to get all hires
+  // Query to get the most recent hires for the picker
   const { data: hires = [], isLoading } = useQuery({
-    queryKey: ['hires'],
-    queryFn: hiresApi.getAll
+    queryKey: ['hires', 'recent'],
+    queryFn: async () => {
+      const result = await hiresApi.getAll({ page: 1, pageSize: 200, sort: "created_at:desc" });
+      return result.data;
+    }
   });
 
   const handleAnalyzeCV = async () => {
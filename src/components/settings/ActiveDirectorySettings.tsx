@@ -26,6 +26,7 @@ interface ActiveDirectorySettings {
   protocol: "ldap" | "ldaps";
   enabled: boolean;
   authFormat: "upn" | "dn";
+  disabledUsersOU?: string;
 }
 
 export function ActiveDirectorySettings() {
@@ -299,6 +300,20 @@ export function ActiveDirectorySettings() {
                   disabled={isLoading || !settings.enabled}
                 />
               </div>
+              
+              <div className="space-y-2">
+                <Label htmlFor="disabledUsersOU">Disabled Users OU</Label>
+                <Input 
+                  id="disabledUsersOU"
+                  value={settings.disabledUsersOU || ""}
+                  onChange={(e) => handleChange("disabledUsersOU", e.target.value)}
+                  placeholder="OU=Disabled Users,DC=example,DC=com"
+                  disabled={isLoading || !settings.enabled}
+                />
+                <p className="text-xs text-gray-500">
+                  Leaver accounts are moved here when they are offboarded
+                </p>
+              </div>
             </div>
           </div>
 
@@ -0,0 +1,139 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Save, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { settingsService } from "@/services/settings-service";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+export function CredentialVaultSettings() {
+  const [retentionDays, setRetentionDays] = useState(7);
+  const [purgeOnFirstLogon, setPurgeOnFirstLogon] = useState(true);
+  const [isEditing, setIsEditing] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Fetch settings from the server
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings
+  });
+
+  // Update form when data is loaded
+  useEffect(() => {
+    if (data?.credentialVault) {
+      setRetentionDays(data.credentialVault.retentionDays);
+      setPurgeOnFirstLogon(data.credentialVault.purgeOnFirstLogon);
+    }
+  }, [data]);
+
+  // Save vault settings mutation
+  const saveVaultMutation = useMutation({
+    mutationFn: settingsService.updateCredentialVault,
+    onSuccess: () => {
+      toast.success("Credential vault settings saved successfully");
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+    onError: (error) => {
+      toast.error("Failed to save credential vault settings");
+      console.error("Error saving credential vault settings:", error);
+    }
+  });
+
+  const handleSaveChanges = () => {
+    if (!Number.isInteger(retentionDays) || retentionDays < 0) {
+      toast.error("Retention days must be a whole number of zero or more");
+      return;
+    }
+    saveVaultMutation.mutate({ retentionDays, purgeOnFirstLogon });
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center items-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="ml-2">Loading settings...</span>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <div className="text-red-500">Error loading settings. Please try again later.</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Credential Vault</CardTitle>
+        <CardDescription>
+          Initial passwords are stored encrypted and can only be revealed by admin or support users.
+          Every reveal is recorded in the hire's audit log. Choose when stored passwords are purged.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="retention-days">Purge after (days)</Label>
+            <Input
+              id="retention-days"
+              type="number"
+              min={0}
+              value={retentionDays}
+              onChange={(e) => setRetentionDays(Number(e.target.value))}
+              disabled={!isEditing}
+              className="max-w-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              Counted from when the password was set. Use 0 to keep passwords until the first logon.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch
+              id="purge-on-logon"
+              checked={purgeOnFirstLogon}
+              onCheckedChange={setPurgeOnFirstLogon}
+              disabled={!isEditing}
+            />
+            <Label htmlFor="purge-on-logon">Purge once the user has logged on to Active Directory</Label>
+          </div>
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        {isEditing ? (
+          <>
+            <Button variant="outline" onClick={() => setIsEditing(false)}>Cancel</Button>
+            <Button
+              onClick={handleSaveChanges}
+              disabled={saveVaultMutation.isPending}
+            >
+              {saveVaultMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={() => setIsEditing(true)}>Edit Vault Settings</Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
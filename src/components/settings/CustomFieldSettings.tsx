@@ -0,0 +1,259 @@
+import { useState, useEffect } from "react";
+import axios from "axios";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Save, Loader2, Plus, ArrowUp, ArrowDown, X } from "lucide-react";
+import { toast } from "sonner";
+import { settingsService } from "@/services/settings-service";
+import { useAuth } from "@/services/api";
+import { CustomFieldDefinition, CustomFieldType } from "@/types/types";
+import { CUSTOM_FIELD_TYPE_LABELS } from "@/utils/customFields";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+// Keys are fixed once saved, since stored values, views and report templates refer to them
+const toKey = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^[^a-z]+|_+$/g, "").slice(0, 50);
+
+export function CustomFieldSettings() {
+  const [fields, setFields] = useState<CustomFieldDefinition[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const queryClient = useQueryClient();
+  const { getCurrentUser } = useAuth();
+  const isAdmin = getCurrentUser()?.role === "admin";
+
+  // Fetch settings from the server
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings
+  });
+
+  // Update form when data is loaded
+  useEffect(() => {
+    if (data?.customFields) {
+      setFields(data.customFields);
+    }
+  }, [data]);
+
+  // Save custom fields mutation
+  const saveFieldsMutation = useMutation({
+    mutationFn: settingsService.updateCustomFields,
+    onSuccess: () => {
+      toast.success("Custom fields saved successfully");
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      queryClient.invalidateQueries({ queryKey: ['report-fields'] });
+    },
+    onError: (error: unknown) => {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      toast.error(message || "Failed to save custom fields");
+      console.error("Error saving custom fields:", error);
+    }
+  });
+
+  const savedKeys = new Set((data?.customFields || []).map(field => field.key));
+
+  const updateField = (index: number, changes: Partial<CustomFieldDefinition>) => {
+    setFields(fields.map((field, i) => {
+      if (i !== index) return field;
+      const updated = { ...field, ...changes };
+      // New fields take their key from the label until saved
+      if (changes.label !== undefined && !savedKeys.has(field.key)) updated.key = toKey(changes.label);
+      return updated;
+    }));
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const reordered = [...fields];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    setFields(reordered);
+  };
+
+  const addField = () => {
+    setFields([...fields, { key: "", label: "", type: "text", required: false, visibleTo: [] }]);
+  };
+
+  const handleCancel = () => {
+    setFields(data?.customFields || []);
+    setIsEditing(false);
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center items-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="ml-2">Loading settings...</span>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <div className="text-red-500">Error loading settings. Please try again later.</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom Hire Fields</CardTitle>
+        <CardDescription>
+          Extra fields recorded for every hire. They appear on the hire form and details, as optional columns in
+          the hires list, in imports and Excel reports, and as {"{{custom.key}}"} in message templates.
+          Fields limited to Admin are hidden from ICT Support users.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {fields.length === 0 && !isEditing ? (
+          <p className="text-sm text-muted-foreground">No custom fields defined yet.</p>
+        ) : (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Options</TableHead>
+                  <TableHead>Required</TableHead>
+                  <TableHead>Admin only</TableHead>
+                  <TableHead className="w-[120px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fields.map((field, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Input
+                        value={field.label}
+                        onChange={(e) => updateField(index, { label: e.target.value })}
+                        disabled={!isEditing}
+                        placeholder="e.g. Cost Centre"
+                        className="h-8"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={field.key}
+                        onChange={(e) => updateField(index, { key: e.target.value })}
+                        disabled={!isEditing || savedKeys.has(field.key)}
+                        className="h-8 font-mono text-xs"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={field.type}
+                        onValueChange={(value) => updateField(index, { type: value as CustomFieldType })}
+                        disabled={!isEditing}
+                      >
+                        <SelectTrigger className="h-8 w-[130px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.entries(CUSTOM_FIELD_TYPE_LABELS).map(([type, label]) => (
+                            <SelectItem key={type} value={type}>{label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      {field.type === "select" && (
+                        <Input
+                          value={(field.options || []).join(", ")}
+                          onChange={(e) => updateField(index, { options: e.target.value.split(",").map(option => option.trimStart()) })}
+                          disabled={!isEditing}
+                          placeholder="Comma separated"
+                          className="h-8"
+                        />
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        checked={field.required}
+                        onCheckedChange={(checked) => updateField(index, { required: checked === true })}
+                        disabled={!isEditing}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        checked={field.visibleTo.length === 1 && field.visibleTo[0] === "admin"}
+                        onCheckedChange={(checked) => updateField(index, { visibleTo: checked === true ? ["admin"] : [] })}
+                        disabled={!isEditing}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveField(index, -1)} disabled={!isEditing || index === 0}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveField(index, 1)} disabled={!isEditing || index === fields.length - 1}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setFields(fields.filter((_, i) => i !== index))}
+                        disabled={!isEditing}
+                        title="Remove field"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        {isEditing && (
+          <div className="mt-4 space-y-2">
+            <Button variant="outline" onClick={addField}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Field
+            </Button>
+            <Label className="block font-normal text-muted-foreground">
+              Removing a field hides it everywhere; values already stored for it are kept.
+            </Label>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        {isEditing ? (
+          <>
+            <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            <Button
+              onClick={() => saveFieldsMutation.mutate(fields)}
+              disabled={saveFieldsMutation.isPending}
+            >
+              {saveFieldsMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={() => setIsEditing(true)} disabled={!isAdmin} title={isAdmin ? undefined : "Only admins can change custom fields"}>
+            Edit Custom Fields
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
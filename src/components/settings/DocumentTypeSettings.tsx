@@ -0,0 +1,215 @@
+import { useState, useEffect } from "react";
+import axios from "axios";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Save, Loader2, Plus, ArrowUp, ArrowDown, X } from "lucide-react";
+import { toast } from "sonner";
+import { settingsService } from "@/services/settings-service";
+import { useAuth } from "@/services/api";
+import { DocumentType } from "@/types/types";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+// Keys are fixed once saved, since uploaded documents refer to them
+const toKey = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^[^a-z]+|_+$/g, "").slice(0, 50);
+
+export function DocumentTypeSettings() {
+  const [types, setTypes] = useState<DocumentType[]>([]);
+  const [isEditing, setIsEditing] = useState(false);
+  const queryClient = useQueryClient();
+  const { getCurrentUser } = useAuth();
+  const isAdmin = getCurrentUser()?.role === "admin";
+
+  // Fetch settings from the server
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings
+  });
+
+  // Update form when data is loaded
+  useEffect(() => {
+    if (data?.documentTypes) {
+      setTypes(data.documentTypes);
+    }
+  }, [data]);
+
+  // Save document types mutation
+  const saveTypesMutation = useMutation({
+    mutationFn: settingsService.updateDocumentTypes,
+    onSuccess: () => {
+      toast.success("Document types saved successfully");
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+      queryClient.invalidateQueries({ queryKey: ['hire-documents'] });
+    },
+    onError: (error: unknown) => {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      toast.error(message || "Failed to save document types");
+      console.error("Error saving document types:", error);
+    }
+  });
+
+  const savedKeys = new Set((data?.documentTypes || []).map(type => type.key));
+
+  const updateType = (index: number, changes: Partial<DocumentType>) => {
+    setTypes(types.map((type, i) => {
+      if (i !== index) return type;
+      const updated = { ...type, ...changes };
+      // New types take their key from the label until saved
+      if (changes.label !== undefined && !savedKeys.has(type.key)) updated.key = toKey(changes.label);
+      return updated;
+    }));
+  };
+
+  const moveType = (index: number, offset: number) => {
+    const reordered = [...types];
+    [reordered[index], reordered[index + offset]] = [reordered[index + offset], reordered[index]];
+    setTypes(reordered);
+  };
+
+  const handleCancel = () => {
+    setTypes(data?.documentTypes || []);
+    setIsEditing(false);
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center items-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="ml-2">Loading settings...</span>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <div className="text-red-500">Error loading settings. Please try again later.</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Hire Documents</CardTitle>
+        <CardDescription>
+          Documents collected for every hire, such as the signed contract or NDA. Hires without a document
+          of a required type are flagged as missing documents in the hires list.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {types.length === 0 && !isEditing ? (
+          <p className="text-sm text-muted-foreground">No document types defined yet.</p>
+        ) : (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Label</TableHead>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Required</TableHead>
+                  <TableHead className="w-[120px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {types.map((type, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Input
+                        value={type.label}
+                        onChange={(e) => updateType(index, { label: e.target.value })}
+                        disabled={!isEditing}
+                        placeholder="e.g. Signed Contract"
+                        className="h-8"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={type.key}
+                        onChange={(e) => updateType(index, { key: e.target.value })}
+                        disabled={!isEditing || savedKeys.has(type.key)}
+                        className="h-8 font-mono text-xs"
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Checkbox
+                        checked={type.required}
+                        onCheckedChange={(checked) => updateType(index, { required: checked === true })}
+                        disabled={!isEditing}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveType(index, -1)} disabled={!isEditing || index === 0}>
+                        <ArrowUp className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveType(index, 1)} disabled={!isEditing || index === types.length - 1}>
+                        <ArrowDown className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setTypes(types.filter((_, i) => i !== index))}
+                        disabled={!isEditing}
+                        title="Remove document type"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        {isEditing && (
+          <div className="mt-4 space-y-2">
+            <Button variant="outline" onClick={() => setTypes([...types, { key: "", label: "", required: false }])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Document Type
+            </Button>
+            <Label className="block font-normal text-muted-foreground">
+              Removing a type keeps documents already uploaded for it; they are listed under "Other documents".
+            </Label>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        {isEditing ? (
+          <>
+            <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            <Button
+              onClick={() => saveTypesMutation.mutate(types)}
+              disabled={saveTypesMutation.isPending}
+            >
+              {saveTypesMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={() => setIsEditing(true)} disabled={!isAdmin} title={isAdmin ? undefined : "Only admins can change document types"}>
+            Edit Document Types
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
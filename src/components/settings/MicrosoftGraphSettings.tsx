@@ -26,6 +26,8 @@ interface MicrosoftGraphSettings {
   defaultBccRecipients?: string[];
   emailSubjectTemplate?: string;
   emailBodyTemplate?: string;
+  welcomeEmailSubjectTemplate?: string;
+  welcomeEmailBodyTemplate?: string;
   senderEmail?: string;
   useLoggedInUserAsSender?: boolean;
 }
@@ -54,6 +56,18 @@ Please process these license assignments at your earliest convenience. If you ne
 
 Thank you for your assistance.
 
+{{signature}}`,
+    welcomeEmailSubjectTemplate: 'Welcome to PT. Merdeka Tsingshan Indonesia, {{name}}',
+    welcomeEmailBodyTemplate: `Dear {{name}},
+
+Welcome to PT. Merdeka Tsingshan Indonesia! Your company account is ready:
+
+Email: {{email}}
+Username: {{username}}
+Department: {{department}}
+
+Your first day on site is {{on_site_date}}. Please don't hesitate to contact IT for any question.
+
 {{signature}}`
   });
   const [isLoading, setIsLoading] = useState(true);
@@ -435,6 +449,30 @@ Thank you for your assistance.
               </p>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="welcome-email-subject">Welcome Email Subject Template</Label>
+              <Input
+                id="welcome-email-subject"
+                type="text"
+                value={settings.welcomeEmailSubjectTemplate || ''}
+                onChange={(e) => setSettings({ ...settings, welcomeEmailSubjectTemplate: e.target.value })}
+                placeholder="Welcome to PT. Merdeka Tsingshan Indonesia, {{name}}"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="welcome-email-body">Welcome Email Body Template</Label>
+              <Textarea
+                id="welcome-email-body"
+                value={settings.welcomeEmailBodyTemplate || ''}
+                onChange={(e) => setSettings({ ...settings, welcomeEmailBodyTemplate: e.target.value })}
+                rows={8}
+              />
+              <p className="text-xs text-muted-foreground">
+                Sent to the hire's own mailbox. Use hire fields such as {"{{name}}"}, {"{{email}}"}, {"{{username}}"} and {"{{on_site_date}}"}, {"{{custom.<key>}}"} for custom fields, and {"{{signature}}"} for the sender signature
+              </p>
+            </div>
+
             {/* Test Email Section */}
             <div className="space-y-4 pt-4 border-t">
               <div className="space-y-2">
@@ -0,0 +1,378 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, Plus, Save, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { settingsService } from "@/services/settings-service";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ChecklistItem, ChecklistStage, OnboardingChecklists } from "@/types/types";
+
+// Must match CHECKLIST_FIELDS in src/server/utils/progressCalculator.js
+const FIELD_OPTIONS: Array<{ value: string; label: string; type: "boolean" | "text" }> = [
+  { value: "account_creation_status", label: "Account Status", type: "text" },
+  { value: "laptop_ready", label: "Laptop Status", type: "text" },
+  { value: "license_assigned", label: "License Assigned", type: "boolean" },
+  { value: "status_srf", label: "SRF Status", type: "boolean" },
+  { value: "microsoft_365_license", label: "Microsoft 365 License", type: "text" },
+  { value: "distribution_list_sync_status", label: "Distribution List Sync", type: "text" },
+  { value: "srf_document_path", label: "SRF Document", type: "text" },
+  { value: "username", label: "Username", type: "text" },
+  { value: "ict_support_pic", label: "ICT Support PIC", type: "text" },
+  { value: "direct_report", label: "Direct Report", type: "text" },
+  { value: "phone_number", label: "Phone Number", type: "text" },
+];
+
+const CONDITION_LABELS: Record<ChecklistItem["condition"], string> = {
+  truthy: "Is checked",
+  notEmpty: "Has a value",
+  stages: "Matches a stage",
+};
+
+const DEFAULT_SCOPE = "default";
+
+const conditionsForField = (field: string): ChecklistItem["condition"][] =>
+  FIELD_OPTIONS.find(option => option.value === field)?.type === "boolean" ? ["truthy"] : ["notEmpty", "stages"];
+
+export function OnboardingChecklistSettings() {
+  const [checklists, setChecklists] = useState<OnboardingChecklists>({ default: [], positionGrades: {} });
+  const [scope, setScope] = useState(DEFAULT_SCOPE);
+  const [isEditing, setIsEditing] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Fetch settings from the server
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings
+  });
+
+  // Update checklists when data is loaded
+  useEffect(() => {
+    if (data?.onboardingChecklists) {
+      setChecklists(data.onboardingChecklists);
+    }
+  }, [data]);
+
+  const positionGrades = data?.positionGrades || [];
+
+  // Save checklists mutation
+  const saveChecklistsMutation = useMutation({
+    mutationFn: settingsService.updateOnboardingChecklists,
+    onSuccess: () => {
+      toast.success("Onboarding checklists saved successfully");
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+    onError: (error) => {
+      toast.error("Failed to save onboarding checklists");
+      console.error("Error saving onboarding checklists:", error);
+    }
+  });
+
+  const isDefaultScope = scope === DEFAULT_SCOPE;
+  const hasOverride = !isDefaultScope && (checklists.positionGrades[scope]?.length ?? 0) > 0;
+  const items = isDefaultScope ? checklists.default : checklists.positionGrades[scope] || [];
+  const totalWeight = items.reduce((sum, item) => sum + (Number(item.weight) || 0), 0);
+
+  const setItems = (next: ChecklistItem[]) => {
+    if (isDefaultScope) {
+      setChecklists({ ...checklists, default: next });
+    } else {
+      setChecklists({ ...checklists, positionGrades: { ...checklists.positionGrades, [scope]: next } });
+    }
+  };
+
+  const updateItem = (index: number, changes: Partial<ChecklistItem>) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleFieldChange = (index: number, field: string) => {
+    const allowed = conditionsForField(field);
+    const condition = allowed.includes(items[index].condition) ? items[index].condition : allowed[0];
+    updateItem(index, { field, condition });
+  };
+
+  const handleConditionChange = (index: number, condition: ChecklistItem["condition"]) => {
+    const stages = condition === "stages" && !items[index].stages?.length ? [{ value: "", credit: 100 }] : items[index].stages;
+    updateItem(index, { condition, stages });
+  };
+
+  const updateStage = (index: number, stageIndex: number, changes: Partial<ChecklistStage>) => {
+    const stages = (items[index].stages || []).map((stage, i) => (i === stageIndex ? { ...stage, ...changes } : stage));
+    updateItem(index, { stages });
+  };
+
+  const handleAddItem = () => {
+    setItems([
+      ...items,
+      { id: String(Date.now()), label: "", field: "account_creation_status", condition: "notEmpty", weight: 10 },
+    ]);
+  };
+
+  const handleRemoveItem = (index: number) => {
+    setItems(items.filter((_, i) => i !== index));
+  };
+
+  // Start a position grade from a copy of the default checklist
+  const handleCustomizeGrade = () => {
+    setChecklists({
+      ...checklists,
+      positionGrades: { ...checklists.positionGrades, [scope]: checklists.default.map(item => ({ ...item })) },
+    });
+  };
+
+  const handleResetGrade = () => {
+    const { [scope]: _removed, ...rest } = checklists.positionGrades;
+    setChecklists({ ...checklists, positionGrades: rest });
+    toast.success(`${scope} now uses the default checklist`);
+  };
+
+  const handleCancel = () => {
+    if (data?.onboardingChecklists) {
+      setChecklists(data.onboardingChecklists);
+    }
+    setIsEditing(false);
+  };
+
+  const handleSaveChanges = () => {
+    const allItems = [checklists.default, ...Object.values(checklists.positionGrades)].flat();
+    if (allItems.some(item => !item.label.trim())) {
+      toast.error("Every checklist item needs a label");
+      return;
+    }
+    if (allItems.some(item => item.condition === "stages" && item.stages?.some(stage => !stage.value.trim()))) {
+      toast.error("Every stage needs a value");
+      return;
+    }
+    saveChecklistsMutation.mutate(checklists);
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center items-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="ml-2">Loading settings...</span>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <div className="text-red-500">Error loading settings. Please try again later.</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Onboarding Checklist</CardTitle>
+        <CardDescription>
+          Define the steps that make up a hire's onboarding progress. Weights are relative - progress is the share
+          of the total weight a hire has earned. Position grades without their own checklist use the default.
+          Due is the deadline in business days before the on-site date (3 means T-3); unfinished steps past it show as overdue.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Checklist</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_SCOPE}>Default</SelectItem>
+                  {positionGrades.map(grade => (
+                    <SelectItem key={grade} value={grade}>
+                      {grade}{checklists.positionGrades[grade]?.length ? " (custom)" : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isEditing && !isDefaultScope && (
+              hasOverride ? (
+                <Button variant="outline" size="sm" onClick={handleResetGrade}>Use Default Checklist</Button>
+              ) : (
+                <Button variant="outline" size="sm" onClick={handleCustomizeGrade}>Customize for {scope}</Button>
+              )
+            )}
+            <Badge variant="secondary" className="ml-auto">Total weight: {totalWeight}</Badge>
+          </div>
+
+          {!isDefaultScope && !hasOverride ? (
+            <p className="text-sm text-muted-foreground">{scope} uses the default checklist.</p>
+          ) : (
+            <div className="space-y-3">
+              {items.map((item, index) => (
+                <div key={item.id} className="border rounded p-3 space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-[2fr_2fr_2fr_1fr_1fr_auto] gap-2 items-end">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Label</Label>
+                      <Input
+                        value={item.label}
+                        onChange={(e) => updateItem(index, { label: e.target.value })}
+                        disabled={!isEditing}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Field</Label>
+                      <Select value={item.field} onValueChange={(value) => handleFieldChange(index, value)} disabled={!isEditing}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {FIELD_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Complete when</Label>
+                      <Select
+                        value={item.condition}
+                        onValueChange={(value) => handleConditionChange(index, value as ChecklistItem["condition"])}
+                        disabled={!isEditing}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {conditionsForField(item.field).map(condition => (
+                            <SelectItem key={condition} value={condition}>{CONDITION_LABELS[condition]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Weight</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={item.weight}
+                        onChange={(e) => updateItem(index, { weight: Number(e.target.value) })}
+                        disabled={!isEditing}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs" title="Business days before the on-site date; negative is after arrival, empty for no deadline">
+                        Due (T-days)
+                      </Label>
+                      <Input
+                        type="number"
+                        min={-30}
+                        max={60}
+                        value={item.dueDays ?? ""}
+                        onChange={(e) => updateItem(index, { dueDays: e.target.value === "" ? undefined : Number(e.target.value) })}
+                        placeholder="None"
+                        disabled={!isEditing}
+                      />
+                    </div>
+                    {isEditing && (
+                      <Button variant="ghost" size="icon" onClick={() => handleRemoveItem(index)}>
+                        <X className="h-4 w-4" />
+                        <span className="sr-only">Remove</span>
+                      </Button>
+                    )}
+                  </div>
+
+                  {item.condition === "stages" && (
+                    <div className="pl-4 space-y-2">
+                      <p className="text-xs text-muted-foreground">
+                        Stage values are matched case-insensitively. Credit is the percentage of the weight earned.
+                      </p>
+                      {(item.stages || []).map((stage, stageIndex) => (
+                        <div key={stageIndex} className="flex gap-2 items-center">
+                          <Input
+                            placeholder="Value, e.g. Ready"
+                            value={stage.value}
+                            onChange={(e) => updateStage(index, stageIndex, { value: e.target.value })}
+                            disabled={!isEditing}
+                            className="max-w-xs"
+                          />
+                          <Input
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={stage.credit}
+                            onChange={(e) => updateStage(index, stageIndex, { credit: Number(e.target.value) })}
+                            disabled={!isEditing}
+                            className="w-24"
+                          />
+                          <span className="text-sm text-muted-foreground">%</span>
+                          {isEditing && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => updateItem(index, { stages: item.stages?.filter((_, i) => i !== stageIndex) })}
+                            >
+                              <X className="h-4 w-4" />
+                              <span className="sr-only">Remove stage</span>
+                            </Button>
+                          )}
+                        </div>
+                      ))}
+                      {isEditing && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => updateItem(index, { stages: [...(item.stages || []), { value: "", credit: 100 }] })}
+                        >
+                          <Plus className="h-4 w-4 mr-1" />
+                          Add Stage
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {isEditing && (
+                <Button size="sm" onClick={handleAddItem}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Item
+                </Button>
+              )}
+            </div>
+          )}
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        {isEditing ? (
+          <>
+            <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            <Button
+              onClick={handleSaveChanges}
+              disabled={saveChecklistsMutation.isPending}
+            >
+              {saveChecklistsMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={() => setIsEditing(true)}>Edit Checklist</Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
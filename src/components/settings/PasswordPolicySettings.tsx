@@ -0,0 +1,230 @@
+import { useState, useEffect } from "react";
+import axios from "axios";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { settingsService } from "@/services/settings-service";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { PasswordGenerator, PasswordPolicy } from "@/types/types";
+import { DEFAULT_PASSWORD_POLICY, generatePassword } from "@/utils/passwordPolicy";
+
+type PolicyToggle = "requireUppercase" | "requireLowercase" | "requireNumbers" | "requireSymbols" | "disallowNameParts";
+
+const POLICY_TOGGLES: { key: PolicyToggle; label: string }[] = [
+  { key: "requireUppercase", label: "Require an uppercase letter" },
+  { key: "requireLowercase", label: "Require a lowercase letter" },
+  { key: "requireNumbers", label: "Require a number" },
+  { key: "requireSymbols", label: "Require a symbol" },
+  { key: "disallowNameParts", label: "Reject passwords containing the user's name or username" },
+];
+
+export function PasswordPolicySettings() {
+  const [policy, setPolicy] = useState<PasswordPolicy>(DEFAULT_PASSWORD_POLICY);
+  const [bannedWordsText, setBannedWordsText] = useState(DEFAULT_PASSWORD_POLICY.bannedWords.join("\n"));
+  const [samplePassword, setSamplePassword] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Fetch settings from the server
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings
+  });
+
+  // Update form when data is loaded
+  useEffect(() => {
+    if (data?.passwordPolicy) {
+      setPolicy(data.passwordPolicy);
+      setBannedWordsText(data.passwordPolicy.bannedWords.join("\n"));
+    }
+  }, [data]);
+
+  // Save password policy mutation
+  const savePolicyMutation = useMutation({
+    mutationFn: settingsService.updatePasswordPolicy,
+    onSuccess: () => {
+      toast.success("Password policy saved successfully");
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+    onError: (error: unknown) => {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      toast.error(message || "Failed to save password policy");
+      console.error("Error saving password policy:", error);
+    }
+  });
+
+  const getEditedPolicy = (): PasswordPolicy => ({
+    ...policy,
+    bannedWords: bannedWordsText.split(/[\n,]/).map(word => word.trim()).filter(Boolean),
+  });
+
+  const handleSaveChanges = () => {
+    if (!Number.isInteger(policy.minLength) || policy.minLength < 7 || policy.minLength > 128) {
+      toast.error("Minimum length must be between 7 and 128");
+      return;
+    }
+    if (!Number.isInteger(policy.passphraseWords) || policy.passphraseWords < 3 || policy.passphraseWords > 8) {
+      toast.error("Passphrases need between 3 and 8 words");
+      return;
+    }
+    savePolicyMutation.mutate(getEditedPolicy());
+  };
+
+  const handleCancel = () => {
+    if (data?.passwordPolicy) {
+      setPolicy(data.passwordPolicy);
+      setBannedWordsText(data.passwordPolicy.bannedWords.join("\n"));
+    }
+    setIsEditing(false);
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center items-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="ml-2">Loading settings...</span>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <div className="text-red-500">Error loading settings. Please try again later.</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Password Policy</CardTitle>
+        <CardDescription>
+          Rules for the initial passwords given to new hires. Generated passwords follow this policy,
+          and Active Directory accounts are only created with passwords that meet it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="min-length">Minimum length</Label>
+              <Input
+                id="min-length"
+                type="number"
+                min={7}
+                max={128}
+                value={policy.minLength}
+                onChange={(e) => setPolicy({ ...policy, minLength: Number(e.target.value) })}
+                disabled={!isEditing}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="generator">Generator</Label>
+              <Select
+                value={policy.generator}
+                onValueChange={(value) => setPolicy({ ...policy, generator: value as PasswordGenerator })}
+                disabled={!isEditing}
+              >
+                <SelectTrigger id="generator">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="random">Random characters</SelectItem>
+                  <SelectItem value="passphrase">Passphrase</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {policy.generator === "passphrase" && (
+              <div className="space-y-2">
+                <Label htmlFor="passphrase-words">Words per passphrase</Label>
+                <Input
+                  id="passphrase-words"
+                  type="number"
+                  min={3}
+                  max={8}
+                  value={policy.passphraseWords}
+                  onChange={(e) => setPolicy({ ...policy, passphraseWords: Number(e.target.value) })}
+                  disabled={!isEditing}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            {POLICY_TOGGLES.map(({ key, label }) => (
+              <div key={key} className="flex items-center gap-2">
+                <Switch
+                  id={key}
+                  checked={policy[key]}
+                  onCheckedChange={(checked) => setPolicy({ ...policy, [key]: checked })}
+                  disabled={!isEditing}
+                />
+                <Label htmlFor={key}>{label}</Label>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="banned-words">Banned words</Label>
+            <Textarea
+              id="banned-words"
+              rows={4}
+              value={bannedWordsText}
+              onChange={(e) => setBannedWordsText(e.target.value)}
+              disabled={!isEditing}
+              placeholder="One word per line"
+            />
+            <p className="text-xs text-muted-foreground">
+              One per line. Common substitutions are also caught, so "password" rejects "P4ssw0rd".
+            </p>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setSamplePassword(generatePassword(getEditedPolicy()))}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Generate sample
+            </Button>
+            {samplePassword && <code className="rounded bg-muted px-2 py-1 text-sm">{samplePassword}</code>}
+          </div>
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        {isEditing ? (
+          <>
+            <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            <Button
+              onClick={handleSaveChanges}
+              disabled={savePolicyMutation.isPending}
+            >
+              {savePolicyMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={() => setIsEditing(true)}>Edit Password Policy</Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,313 @@
+import { useState, useEffect } from "react";
+import axios from "axios";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Save, Loader2, Plus, Trash2, ArrowUp, ArrowDown, X } from "lucide-react";
+import { toast } from "sonner";
+import { settingsService } from "@/services/settings-service";
+import { reportService } from "@/services/report-service";
+import { ReportColumn, ReportTemplate } from "@/types/types";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+// Select items can't have an empty value
+const SINGLE_SHEET = "__single__";
+
+const formatField = (field: string) =>
+  field.replace(/_/g, " ").replace(/\b\w/g, char => char.toUpperCase());
+
+export function ReportTemplateSettings() {
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Fetch settings from the server
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings
+  });
+
+  const { data: reportFields } = useQuery({
+    queryKey: ['report-fields'],
+    queryFn: reportService.getFields
+  });
+
+  // Update form when data is loaded
+  useEffect(() => {
+    if (data?.reportTemplates) {
+      setTemplates(data.reportTemplates);
+      setSelectedId(current => current && data.reportTemplates?.some(t => t.id === current)
+        ? current
+        : data.reportTemplates?.[0]?.id || null);
+    }
+  }, [data]);
+
+  // Save report templates mutation
+  const saveTemplatesMutation = useMutation({
+    mutationFn: settingsService.updateReportTemplates,
+    onSuccess: () => {
+      toast.success("Report templates saved successfully");
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+    onError: (error: unknown) => {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      toast.error(message || "Failed to save report templates");
+      console.error("Error saving report templates:", error);
+    }
+  });
+
+  const selected = templates.find(template => template.id === selectedId) || null;
+  const fields = reportFields?.fields || [];
+  const isDateField = (field: string) => fields.some(f => f.field === field && f.isDate);
+
+  const updateSelected = (changes: Partial<ReportTemplate>) => {
+    setTemplates(templates.map(template => template.id === selectedId ? { ...template, ...changes } : template));
+  };
+
+  const updateColumn = (index: number, changes: Partial<ReportColumn>) => {
+    if (!selected) return;
+    updateSelected({ columns: selected.columns.map((column, i) => i === index ? { ...column, ...changes } : column) });
+  };
+
+  const moveColumn = (index: number, offset: number) => {
+    if (!selected) return;
+    const columns = [...selected.columns];
+    [columns[index], columns[index + offset]] = [columns[index + offset], columns[index]];
+    updateSelected({ columns });
+  };
+
+  const addColumn = (field: string) => {
+    if (!selected) return;
+    const header = fields.find(f => f.field === field)?.header || formatField(field);
+    updateSelected({
+      columns: [...selected.columns, isDateField(field) ? { field, header, dateFormat: "dd/MM/yyyy" } : { field, header }]
+    });
+  };
+
+  const addTemplate = () => {
+    const template: ReportTemplate = {
+      id: Math.random().toString(36).slice(2),
+      name: `New Report ${templates.length + 1}`,
+      groupBy: null,
+      columns: [{ field: "name", header: "Name" }],
+    };
+    setTemplates([...templates, template]);
+    setSelectedId(template.id);
+  };
+
+  const deleteSelected = () => {
+    const remaining = templates.filter(template => template.id !== selectedId);
+    setTemplates(remaining);
+    setSelectedId(remaining[0]?.id || null);
+  };
+
+  const handleCancel = () => {
+    setTemplates(data?.reportTemplates || []);
+    setIsEditing(false);
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center items-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="ml-2">Loading settings...</span>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <div className="text-red-500">Error loading settings. Please try again later.</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const unusedFields = fields.filter(f => !selected?.columns.some(column => column.field === f.field));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Excel Report Templates</CardTitle>
+        <CardDescription>
+          Reports offered by the Excel Report button on the hires list: which columns they contain and in what order,
+          their headers, how dates are shown and whether hires are split into one sheet per value.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="space-y-2 flex-1 min-w-[200px]">
+              <Label>Template</Label>
+              <Select value={selectedId || undefined} onValueChange={setSelectedId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="No templates" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name || "(unnamed)"}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isEditing && (
+              <>
+                <Button variant="outline" onClick={addTemplate}>
+                  <Plus className="h-4 w-4 mr-1" />
+                  New Template
+                </Button>
+                <Button variant="ghost" size="icon" onClick={deleteSelected} disabled={!selected} title="Delete template">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+          </div>
+
+          {selected && (
+            <>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="report-template-name">Name</Label>
+                  <Input
+                    id="report-template-name"
+                    value={selected.name}
+                    onChange={(e) => updateSelected({ name: e.target.value })}
+                    disabled={!isEditing}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Sheets</Label>
+                  <Select
+                    value={selected.groupBy || SINGLE_SHEET}
+                    onValueChange={(value) => updateSelected({ groupBy: value === SINGLE_SHEET ? null : value })}
+                    disabled={!isEditing}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SINGLE_SHEET}>One sheet</SelectItem>
+                      {(reportFields?.groupByFields || []).map(field => (
+                        <SelectItem key={field} value={field}>One sheet per {formatField(field).toLowerCase()}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Header</TableHead>
+                      <TableHead>Date format</TableHead>
+                      <TableHead className="w-[120px]" />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selected.columns.map((column, index) => (
+                      <TableRow key={column.field}>
+                        <TableCell className="text-sm">{fields.find(f => f.field === column.field)?.header || formatField(column.field)}</TableCell>
+                        <TableCell>
+                          <Input
+                            value={column.header}
+                            onChange={(e) => updateColumn(index, { header: e.target.value })}
+                            disabled={!isEditing}
+                            className="h-8"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          {isDateField(column.field) && (
+                            <Select
+                              value={column.dateFormat || "dd/MM/yyyy"}
+                              onValueChange={(value) => updateColumn(index, { dateFormat: value })}
+                              disabled={!isEditing}
+                            >
+                              <SelectTrigger className="h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(reportFields?.dateFormats || []).map(dateFormat => (
+                                  <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveColumn(index, -1)} disabled={!isEditing || index === 0}>
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveColumn(index, 1)} disabled={!isEditing || index === selected.columns.length - 1}>
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={() => updateSelected({ columns: selected.columns.filter((_, i) => i !== index) })}
+                            disabled={!isEditing || selected.columns.length === 1}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {isEditing && unusedFields.length > 0 && (
+                <Select value="" onValueChange={addColumn}>
+                  <SelectTrigger className="max-w-xs">
+                    <SelectValue placeholder="Add column..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unusedFields.map(f => (
+                      <SelectItem key={f.field} value={f.field}>{f.header}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </>
+          )}
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        {isEditing ? (
+          <>
+            <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            <Button
+              onClick={() => saveTemplatesMutation.mutate(templates)}
+              disabled={saveTemplatesMutation.isPending}
+            >
+              {saveTemplatesMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={() => setIsEditing(true)}>Edit Report Templates</Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
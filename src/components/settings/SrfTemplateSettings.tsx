@@ -0,0 +1,216 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Save, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { settingsService, SrfTemplate } from "@/services/settings-service";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+const EMPTY_TEMPLATE: SrfTemplate = {
+  companyName: "",
+  companyAddress: "",
+  title: "",
+  numberFormat: "",
+  introduction: "",
+  footer: "",
+  signatures: [],
+};
+
+export function SrfTemplateSettings() {
+  const [template, setTemplate] = useState<SrfTemplate>(EMPTY_TEMPLATE);
+  const [signatures, setSignatures] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Fetch settings from the server
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings
+  });
+
+  // Update form when data is loaded
+  useEffect(() => {
+    if (data?.srfTemplate) {
+      setTemplate(data.srfTemplate);
+      setSignatures(data.srfTemplate.signatures.join(", "));
+    }
+  }, [data]);
+
+  // Save SRF template mutation
+  const saveTemplateMutation = useMutation({
+    mutationFn: settingsService.updateSrfTemplate,
+    onSuccess: () => {
+      toast.success("SRF template saved successfully");
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+    onError: (error) => {
+      toast.error("Failed to save SRF template");
+      console.error("Error saving SRF template:", error);
+    }
+  });
+
+  const updateField = (field: keyof SrfTemplate, value: string) => {
+    setTemplate(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleCancel = () => {
+    if (data?.srfTemplate) {
+      setTemplate(data.srfTemplate);
+      setSignatures(data.srfTemplate.signatures.join(", "));
+    }
+    setIsEditing(false);
+  };
+
+  const handleSaveChanges = () => {
+    if (!template.companyName.trim() || !template.title.trim()) {
+      toast.error("Company name and form title are required");
+      return;
+    }
+    if (!template.numberFormat.includes("{{seq}}")) {
+      toast.error("The SRF number format must include {{seq}}");
+      return;
+    }
+    saveTemplateMutation.mutate({
+      ...template,
+      signatures: signatures.split(",").map(label => label.trim()).filter(Boolean),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center items-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="ml-2">Loading settings...</span>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <div className="text-red-500">Error loading settings. Please try again later.</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>SRF Template</CardTitle>
+        <CardDescription>
+          The Service Request Form generated from a hire. Each generated form gets the next SRF No. for the year
+          and is attached to the hire as a new SRF version.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="srf-company-name">Company name</Label>
+            <Input
+              id="srf-company-name"
+              value={template.companyName}
+              onChange={(e) => updateField("companyName", e.target.value)}
+              disabled={!isEditing}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="srf-company-address">Company address</Label>
+            <Input
+              id="srf-company-address"
+              value={template.companyAddress}
+              onChange={(e) => updateField("companyAddress", e.target.value)}
+              disabled={!isEditing}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="srf-title">Form title</Label>
+            <Input
+              id="srf-title"
+              value={template.title}
+              onChange={(e) => updateField("title", e.target.value)}
+              disabled={!isEditing}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="srf-number-format">SRF No. format</Label>
+            <Input
+              id="srf-number-format"
+              value={template.numberFormat}
+              onChange={(e) => updateField("numberFormat", e.target.value)}
+              disabled={!isEditing}
+            />
+            <p className="text-xs text-muted-foreground">
+              {"{{year}}"} is the year the form is generated and {"{{seq}}"} its number within that year, e.g. SRF/2026/0042.
+            </p>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="srf-introduction">Introduction</Label>
+          <Textarea
+            id="srf-introduction"
+            value={template.introduction}
+            onChange={(e) => updateField("introduction", e.target.value)}
+            disabled={!isEditing}
+            rows={3}
+          />
+          <p className="text-xs text-muted-foreground">
+            Use hire fields like {"{{name}}"}, {"{{department}}"} and {"{{title}}"}, as in the message templates.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="srf-footer">Footer</Label>
+          <Textarea
+            id="srf-footer"
+            value={template.footer}
+            onChange={(e) => updateField("footer", e.target.value)}
+            disabled={!isEditing}
+            rows={2}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="srf-signatures">Signature boxes</Label>
+          <Input
+            id="srf-signatures"
+            value={signatures}
+            onChange={(e) => setSignatures(e.target.value)}
+            disabled={!isEditing}
+          />
+          <p className="text-xs text-muted-foreground">Comma-separated labels, printed left to right at the bottom of the form.</p>
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        {isEditing ? (
+          <>
+            <Button variant="outline" onClick={handleCancel}>Cancel</Button>
+            <Button
+              onClick={handleSaveChanges}
+              disabled={saveTemplateMutation.isPending}
+            >
+              {saveTemplateMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={() => setIsEditing(true)}>Edit SRF Template</Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
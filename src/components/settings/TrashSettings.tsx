@@ -0,0 +1,125 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Save, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { settingsService } from "@/services/settings-service";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+export function TrashSettings() {
+  const [retentionDays, setRetentionDays] = useState(30);
+  const [isEditing, setIsEditing] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Fetch settings from the server
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings
+  });
+
+  // Update form when data is loaded
+  useEffect(() => {
+    if (data?.trash) {
+      setRetentionDays(data.trash.retentionDays);
+    }
+  }, [data]);
+
+  // Save trash settings mutation
+  const saveTrashMutation = useMutation({
+    mutationFn: settingsService.updateTrashSettings,
+    onSuccess: () => {
+      toast.success("Trash settings saved successfully");
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+    onError: (error) => {
+      toast.error("Failed to save trash settings");
+      console.error("Error saving trash settings:", error);
+    }
+  });
+
+  const handleSaveChanges = () => {
+    if (!Number.isInteger(retentionDays) || retentionDays < 0) {
+      toast.error("Retention days must be a whole number of zero or more");
+      return;
+    }
+    saveTrashMutation.mutate({ retentionDays });
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center items-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="ml-2">Loading settings...</span>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <div className="text-red-500">Error loading settings. Please try again later.</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Trash</CardTitle>
+        <CardDescription>
+          Deleted hires go to the trash, where they can be restored with their history.
+          Choose how long they are kept before being permanently deleted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2">
+          <Label htmlFor="trash-retention-days">Purge after (days)</Label>
+          <Input
+            id="trash-retention-days"
+            type="number"
+            min={0}
+            value={retentionDays}
+            onChange={(e) => setRetentionDays(Number(e.target.value))}
+            disabled={!isEditing}
+            className="max-w-xs"
+          />
+          <p className="text-xs text-muted-foreground">
+            Counted from when the hire was deleted. Use 0 to keep deleted hires until an admin purges them.
+          </p>
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        {isEditing ? (
+          <>
+            <Button variant="outline" onClick={() => setIsEditing(false)}>Cancel</Button>
+            <Button
+              onClick={handleSaveChanges}
+              disabled={saveTrashMutation.isPending}
+            >
+              {saveTrashMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={() => setIsEditing(true)}>Edit Trash Settings</Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState, useEffect } from "react";
+import axios from "axios";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Save, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { settingsService } from "@/services/settings-service";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+
+export function UsernamePatternSettings() {
+  const [emailDomain, setEmailDomain] = useState("");
+  const [patternsText, setPatternsText] = useState("");
+  const [isEditing, setIsEditing] = useState(false);
+  const queryClient = useQueryClient();
+
+  // Fetch settings from the server
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings
+  });
+
+  // Update form when data is loaded
+  useEffect(() => {
+    if (data?.identitySettings) {
+      setEmailDomain(data.identitySettings.emailDomain);
+      setPatternsText(data.identitySettings.patterns.join("\n"));
+    }
+  }, [data]);
+
+  // Save identity settings mutation
+  const saveIdentityMutation = useMutation({
+    mutationFn: settingsService.updateIdentitySettings,
+    onSuccess: () => {
+      toast.success("Username patterns saved successfully");
+      setIsEditing(false);
+      queryClient.invalidateQueries({ queryKey: ['settings'] });
+    },
+    onError: (error: unknown) => {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      toast.error(message || "Failed to save username patterns");
+      console.error("Error saving username patterns:", error);
+    }
+  });
+
+  const handleSaveChanges = () => {
+    const patterns = patternsText.split("\n").map(pattern => pattern.trim()).filter(Boolean);
+    if (patterns.length === 0) {
+      toast.error("At least one username pattern is required");
+      return;
+    }
+    saveIdentityMutation.mutate({ emailDomain: emailDomain.trim(), patterns });
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex justify-center items-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin" />
+          <span className="ml-2">Loading settings...</span>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-6">
+          <div className="text-red-500">Error loading settings. Please try again later.</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Username Patterns</CardTitle>
+        <CardDescription>
+          When a proposed username or email is already taken in Active Directory or by another hire,
+          alternatives are suggested from these patterns, best first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email-domain">Email domain</Label>
+            <Input
+              id="email-domain"
+              value={emailDomain}
+              onChange={(e) => setEmailDomain(e.target.value)}
+              disabled={!isEditing}
+              placeholder="example.com"
+              className="max-w-xs"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="username-patterns">Patterns</Label>
+            <Textarea
+              id="username-patterns"
+              rows={6}
+              value={patternsText}
+              onChange={(e) => setPatternsText(e.target.value)}
+              disabled={!isEditing}
+              className="font-mono"
+            />
+            <p className="text-xs text-muted-foreground">
+              One per line. Use {"{first}"}, {"{middle}"} and {"{last}"} for name parts, {"{f}"}, {"{m}"} and {"{l}"} for
+              their initials, and {"{n}"} for a number from 2 to 9 — e.g. {"{first}.{last}"}, {"{first}.{l}"}, {"{first}.{last}{n}"}.
+              Usernames are cut to 20 characters.
+            </p>
+          </div>
+        </div>
+      </CardContent>
+      <CardFooter className="flex justify-between">
+        {isEditing ? (
+          <>
+            <Button variant="outline" onClick={() => setIsEditing(false)}>Cancel</Button>
+            <Button
+              onClick={handleSaveChanges}
+              disabled={saveIdentityMutation.isPending}
+            >
+              {saveIdentityMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Changes
+                </>
+              )}
+            </Button>
+          </>
+        ) : (
+          <Button onClick={() => setIsEditing(true)}>Edit Username Patterns</Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
@@ -7,6 +7,8 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { useToast } from "@/components/ui/use-toast";
 import { whatsappService } from "@/services/whatsapp-service";
+import { settingsService } from "@/services/settings-service";
+import { useQuery } from "@tanstack/react-query";
 import {
   Tooltip,
   TooltipContent,
@@ -39,6 +41,13 @@ export function WhatsAppSettings() {
 
   const { toast } = useToast();
 
+  // Custom fields can be used as {{custom.<key>}}
+  const { data: allSettings } = useQuery({
+    queryKey: ['settings'],
+    queryFn: settingsService.getSettings
+  });
+  const customPlaceholders = (allSettings?.customFields || []).map(field => `{{custom.${field.key}}}`);
+
   // Load settings on component mount
   useEffect(() => {
     const loadSettings = async () => {
@@ -220,6 +229,9 @@ export function WhatsAppSettings() {
                     <p className="text-xs">
                       {`{{name}}, {{email}}, {{title}}, {{department}}, {{password}}`}
                     </p>
+                    {customPlaceholders.length > 0 && (
+                      <p className="text-xs mt-1">Custom fields: {customPlaceholders.join(", ")}</p>
+                    )}
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
@@ -1,7 +1,6 @@
 
 import { useQuery } from "@tanstack/react-query";
 import { hiresApi } from "@/services/api";
-import { AuditLog } from "@/types/types";
 
 /**
  * Custom hook to fetch and cache audit logs for a hire
@@ -13,8 +12,7 @@ export const useAuditLogs = (hireId: string | undefined) => {
     queryKey: ['audit-logs', hireId],
     queryFn: async () => {
       if (!hireId) return [];
-      const hire = await hiresApi.getOne(hireId);
-      return hire.audit_logs || [];
+      return hiresApi.getLogs(hireId);
     },
     enabled,
     staleTime: 10000, // 10 seconds before refetching
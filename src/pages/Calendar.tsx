@@ -0,0 +1,15 @@
+import { MainLayout } from "@/components/layout/MainLayout";
+import { HiresCalendar } from "@/components/calendar/HiresCalendar";
+import { CalendarFeedCard } from "@/components/calendar/CalendarFeedCard";
+
+export default function Calendar() {
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold">Arrivals Calendar</h1>
+        <HiresCalendar />
+        <CalendarFeedCard />
+      </div>
+    </MainLayout>
+  );
+}
@@ -2,6 +2,8 @@
 import { useParams } from "react-router-dom";
 import { HireForm } from "@/components/hires/HireForm";
 import { AuditLogsList } from "@/components/hires/AuditLogsList";
+import { HireComments } from "@/components/hires/HireComments";
+import { HireHistoryTimeline } from "@/components/hires/HireHistoryTimeline";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Separator } from "@/components/ui/separator";
 import { useState } from "react";
@@ -9,11 +11,12 @@ import { hiresApi } from "@/services/api";
 import { useToast } from "@/components/ui/use-toast";
 import { NewHire } from "@/types/types";
 import { Button } from "@/components/ui/button";
-import { Send, UserPlus, RefreshCw, Mail, FileText, AlertCircle } from "lucide-react";
+import { Send, UserPlus, UserMinus, RefreshCw, Mail, FileText, AlertCircle } from "lucide-react";
 import { Dialog } from "@/components/ui/dialog";
 import { SendWhatsAppDialog } from "@/components/hires/SendWhatsAppDialog";
 import { CreateADAccountDialog } from "@/components/hires/CreateADAccountDialog";
 import { SyncDistributionListDialog } from "@/components/hires/SyncDistributionListDialog";
+import { OffboardHireDialog } from "@/components/hires/OffboardHireDialog";
 import { useQuery } from "@tanstack/react-query";
 import { settingsService } from "@/services/settings-service";
 import { useAuth } from "@/services/api";
@@ -23,6 +26,7 @@ export default function HireDetail() {
   const [isWhatsAppDialogOpen, setIsWhatsAppDialogOpen] = useState(false);
   const [isADDialogOpen, setIsADDialogOpen] = useState(false);
   const [isSyncDLDialogOpen, setIsSyncDLDialogOpen] = useState(false);
+  const [isOffboardDialogOpen, setIsOffboardDialogOpen] = useState(false);
   const { toast } = useToast();
   const { getCurrentUser } = useAuth();
   const currentUser = getCurrentUser();
@@ -86,6 +90,10 @@ export default function HireDetail() {
     setIsSyncDLDialogOpen(true);
   };
   
+  const handleOffboard = () => {
+    setIsOffboardDialogOpen(true);
+  };
+  
   const handleRefresh = () => {
     refetch();
     toast({
@@ -153,6 +161,17 @@ export default function HireDetail() {
                 <Send className="h-4 w-4" />
                 Send via WhatsApp
               </Button>
+              {/* Leaver workflow - hidden once offboarding has completed */}
+              {hire.offboarding_status !== "Completed" && (
+                <Button 
+                  onClick={handleOffboard} 
+                  className="flex items-center gap-2 text-red-600"
+                  variant="outline"
+                >
+                  <UserMinus className="h-4 w-4" />
+                  {hire.offboarding_status ? "Resume Offboarding" : "Offboard"}
+                </Button>
+              )}
             </div>
           </div>
         )}
@@ -161,7 +180,11 @@ export default function HireDetail() {
         {id && id !== "new" && (
           <>
             <Separator className="my-6" />
-            <AuditLogsList hireId={id} />
+            <HireHistoryTimeline hireId={id} canRevert={currentUser?.role === "admin"} />
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 items-start">
+              <HireComments hireId={id} currentUser={currentUser} />
+              <AuditLogsList hireId={id} />
+            </div>
           </>
         )}
       </div>
@@ -204,6 +227,17 @@ export default function HireDetail() {
               }}
             />
           </Dialog>
+
+          <Dialog open={isOffboardDialogOpen} onOpenChange={setIsOffboardDialogOpen}>
+            <OffboardHireDialog 
+              hire={hire} 
+              onClose={() => setIsOffboardDialogOpen(false)}
+              onSuccess={() => {
+                // Refresh hire data after offboarding
+                refetch();
+              }}
+            />
+          </Dialog>
         </>
       )}
     </MainLayout>
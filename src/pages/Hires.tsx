@@ -1,12 +1,25 @@
 
+import { Link, useLocation } from "react-router-dom";
 import { HiresTable } from "@/components/hires/HiresTable";
 import { MainLayout } from "@/components/layout/MainLayout";
+import { Button } from "@/components/ui/button";
+import { SquareKanban } from "lucide-react";
 
 export default function Hires() {
+  const location = useLocation();
+
   return (
     <MainLayout>
       <div className="space-y-6 w-full max-w-full overflow-hidden">
-        <h1 className="text-3xl font-bold">New Hires</h1>
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">New Hires</h1>
+          <Button variant="outline" asChild>
+            <Link to={{ pathname: "/hires/board", search: location.search }}>
+              <SquareKanban className="h-4 w-4 mr-1" />
+              Board
+            </Link>
+          </Button>
+        </div>
         <HiresTable />
       </div>
     </MainLayout>
@@ -0,0 +1,26 @@
+import { Link, useLocation } from "react-router-dom";
+import { HiresBoard as HiresBoardView } from "@/components/hires/HiresBoard";
+import { MainLayout } from "@/components/layout/MainLayout";
+import { Button } from "@/components/ui/button";
+import { Table2 } from "lucide-react";
+
+export default function HiresBoard() {
+  const location = useLocation();
+
+  return (
+    <MainLayout>
+      <div className="space-y-6 w-full max-w-full overflow-hidden">
+        <div className="flex items-center justify-between">
+          <h1 className="text-3xl font-bold">Onboarding Board</h1>
+          <Button variant="outline" asChild>
+            <Link to={{ pathname: "/hires", search: location.search }}>
+              <Table2 className="h-4 w-4 mr-1" />
+              Table
+            </Link>
+          </Button>
+        </div>
+        <HiresBoardView />
+      </div>
+    </MainLayout>
+  );
+}
@@ -1,5 +1,7 @@
 
 import { FileImporter } from "@/components/import/FileImporter";
+import { ImportBatchList } from "@/components/import/ImportBatchList";
+import { useAuth } from "@/services/api";
 import { MainLayout } from "@/components/layout/MainLayout";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,6 +9,9 @@ import { Separator } from "@/components/ui/separator";
 import { FileText, AlertCircle, CheckCircle2 } from "lucide-react";
 
 export default function Import() {
+  const { getCurrentUser } = useAuth();
+  const currentUser = getCurrentUser();
+
   return (
     <MainLayout>
       <div className="space-y-6">
@@ -62,7 +67,7 @@ export default function Import() {
                 <div>
                   <h3 className="font-medium">Upload and Import</h3>
                   <p className="text-sm text-muted-foreground">
-                    Upload your CSV file and click Import. The system will validate the data and process it.
+                    Upload your file, map its columns and click Preview Import. Every row is checked and nothing is written yet.
                   </p>
                 </div>
               </div>
@@ -74,9 +79,9 @@ export default function Import() {
                   <span className="text-primary font-medium">4</span>
                 </div>
                 <div>
-                  <h3 className="font-medium">Review Results</h3>
+                  <h3 className="font-medium">Review and Import</h3>
                   <p className="text-sm text-muted-foreground">
-                    Check the import results for any errors. Successfully imported records will be available in the system.
+                    Check what each row will create or update, pick the rows to import and commit them. An import can be rolled back later.
                   </p>
                 </div>
               </div>
@@ -106,7 +111,7 @@ export default function Import() {
               <div className="flex items-start gap-2">
                 <CheckCircle2 className="h-4 w-4 text-green-500 mt-0.5" />
                 <p className="text-sm">
-                  <span className="font-medium">Boolean fields:</span> license_assigned, status_srf, microsoft_365_license (accept "true", "false", "yes", "no", "1", "0")
+                  <span className="font-medium">Boolean fields:</span> license_assigned, microsoft_365_license (accept "true", "false", "yes", "no", "1", "0")
                 </p>
               </div>
               
@@ -121,6 +126,8 @@ export default function Import() {
         </div>
         
         <FileImporter />
+
+        <ImportBatchList canRollback={currentUser?.role === "admin"} />
       </div>
     </MainLayout>
   );
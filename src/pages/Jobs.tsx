@@ -0,0 +1,13 @@
+import { MainLayout } from "@/components/layout/MainLayout";
+import { JobsList } from "@/components/jobs/JobsList";
+
+export default function Jobs() {
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold">Jobs</h1>
+        <JobsList />
+      </div>
+    </MainLayout>
+  );
+}
@@ -11,7 +11,16 @@ import { WhatsAppSettings } from "@/components/settings/WhatsAppSettings";
 import { ActiveDirectorySettings } from "@/components/settings/ActiveDirectorySettings";
 import { ExchangeOnlineSettings } from "@/components/settings/ExchangeOnlineSettings";
 import { MicrosoftGraphSettings } from "@/components/settings/MicrosoftGraphSettings";
-import { Database, MessageSquare, Users, Server, BadgeCheck, Mail, Network } from "lucide-react";
+import { OnboardingChecklistSettings } from "@/components/settings/OnboardingChecklistSettings";
+import { CredentialVaultSettings } from "@/components/settings/CredentialVaultSettings";
+import { TrashSettings } from "@/components/settings/TrashSettings";
+import { PasswordPolicySettings } from "@/components/settings/PasswordPolicySettings";
+import { UsernamePatternSettings } from "@/components/settings/UsernamePatternSettings";
+import { ReportTemplateSettings } from "@/components/settings/ReportTemplateSettings";
+import { SrfTemplateSettings } from "@/components/settings/SrfTemplateSettings";
+import { CustomFieldSettings } from "@/components/settings/CustomFieldSettings";
+import { DocumentTypeSettings } from "@/components/settings/DocumentTypeSettings";
+import { Database, MessageSquare, Users, Server, BadgeCheck, Mail, Network, ListChecks, KeyRound, FileSpreadsheet, TextCursorInput } from "lucide-react";
 import { useIsMobile } from "@/hooks/use-mobile";
 
 export default function Settings() {
@@ -40,6 +49,10 @@ export default function Settings() {
                 <BadgeCheck className="h-4 w-4" />
                 <span>Account Status</span>
               </TabsTrigger>
+              <TabsTrigger value="checklist" className="flex items-center gap-1">
+                <ListChecks className="h-4 w-4" />
+                <span>Checklist</span>
+              </TabsTrigger>
               <TabsTrigger value="mailing-list" className="flex items-center gap-1">
                 <MessageSquare className="h-4 w-4" />
                 <span>Mailing List</span>
@@ -64,6 +77,18 @@ export default function Settings() {
                 <Network className="h-4 w-4" />
                 <span>Microsoft Graph</span>
               </TabsTrigger>
+              <TabsTrigger value="custom-fields" className="flex items-center gap-1">
+                <TextCursorInput className="h-4 w-4" />
+                <span>Custom Fields</span>
+              </TabsTrigger>
+              <TabsTrigger value="passwords" className="flex items-center gap-1">
+                <KeyRound className="h-4 w-4" />
+                <span>Passwords</span>
+              </TabsTrigger>
+              <TabsTrigger value="reports" className="flex items-center gap-1">
+                <FileSpreadsheet className="h-4 w-4" />
+                <span>Reports</span>
+              </TabsTrigger>
               <TabsTrigger value="database" className="flex items-center gap-1">
                 <Database className="h-4 w-4" />
                 <span>Databases</span>
@@ -79,6 +104,10 @@ export default function Settings() {
             <AccountStatusSettings />
           </TabsContent>
           
+          <TabsContent value="checklist" className="space-y-4">
+            <OnboardingChecklistSettings />
+          </TabsContent>
+          
           <TabsContent value="mailing-list" className="space-y-4">
             <MailingListSettings />
           </TabsContent>
@@ -93,6 +122,7 @@ export default function Settings() {
           
           <TabsContent value="active-directory" className="space-y-4">
             <ActiveDirectorySettings />
+            <UsernamePatternSettings />
           </TabsContent>
           
           <TabsContent value="exchange-online" className="space-y-4">
@@ -103,8 +133,24 @@ export default function Settings() {
             <MicrosoftGraphSettings />
           </TabsContent>
           
+          <TabsContent value="custom-fields" className="space-y-4">
+            <CustomFieldSettings />
+            <DocumentTypeSettings />
+          </TabsContent>
+          
+          <TabsContent value="passwords" className="space-y-4">
+            <PasswordPolicySettings />
+            <CredentialVaultSettings />
+          </TabsContent>
+          
+          <TabsContent value="reports" className="space-y-4">
+            <ReportTemplateSettings />
+            <SrfTemplateSettings />
+          </TabsContent>
+          
           <TabsContent value="database" className="space-y-4">
             <DatabaseConfigSettings />
+            <TrashSettings />
           </TabsContent>
           
           <TabsContent value="account-management" className="space-y-4">
@@ -0,0 +1,13 @@
+import { MainLayout } from "@/components/layout/MainLayout";
+import { TrashList } from "@/components/hires/TrashList";
+
+export default function Trash() {
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold">Trash</h1>
+        <TrashList />
+      </div>
+    </MainLayout>
+  );
+}
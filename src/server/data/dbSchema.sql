@@ -62,21 +62,90 @@ BEGIN
     ALTER TABLE hires ADD position_grade VARCHAR(255);
 END
 
+-- audit_logs used to exist in two shapes: the one this file created (hire_id, action, created_at) and the
+-- one the routes wrote to (new_hire_id, action_type, performed_by, timestamp, ...). Either is renamed to
+-- audit_logs_legacy so the unified table can take its place; its rows are copied across below.
+IF EXISTS (SELECT * FROM sysobjects WHERE name='audit_logs' AND xtype='U')
+   AND NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'audit_logs' AND COLUMN_NAME = 'target_type')
+   AND NOT EXISTS (SELECT * FROM sysobjects WHERE name='audit_logs_legacy' AND xtype='U')
+BEGIN
+    EXEC sp_rename 'audit_logs', 'audit_logs_legacy';
+END
+
 -- Check if the audit_logs table already exists
 IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='audit_logs' AND xtype='U')
 BEGIN
-    -- Create the audit_logs table
+    -- One row per audit event, written only through recordAudit in auditService.js
     CREATE TABLE audit_logs (
       id VARCHAR(255) PRIMARY KEY,
-      hire_id VARCHAR(255) NOT NULL,
-      action VARCHAR(255) NOT NULL,
-      details TEXT,
-      performed_by VARCHAR(255),
-      created_at DATETIME DEFAULT GETDATE(),
-      FOREIGN KEY (hire_id) REFERENCES hires(id)
+      occurred_at DATETIME NOT NULL DEFAULT GETDATE(),
+      actor VARCHAR(255) NOT NULL,        -- username, or 'system' for scheduled work
+      target_type VARCHAR(50) NOT NULL,   -- kind of record the event is about, e.g. 'hire'
+      target_id VARCHAR(255) NOT NULL,
+      action VARCHAR(100) NOT NULL,       -- one of AUDIT_ACTIONS
+      status VARCHAR(20) NOT NULL,        -- SUCCESS, PARTIAL, FAILED or SKIPPED
+      message NVARCHAR(MAX),
+      details NVARCHAR(MAX),              -- structured details, as a JSON object
+      old_values NVARCHAR(MAX),           -- field values before an update, as JSON
+      new_values NVARCHAR(MAX),           -- field values after an update, as JSON
+      import_id VARCHAR(255),             -- import batch that made the change, for rollback
+      request_id VARCHAR(64),             -- X-Request-Id of the API request behind the event
+      INDEX IX_audit_logs_target (target_type, target_id, occurred_at)
     );
 END
 
+-- Copy the rows of a renamed legacy audit_logs table into the unified one. Either legacy shape is given
+-- the other's columns first so one statement covers both. Rows already copied are skipped and the table
+-- is renamed to audit_logs_archived once done, so an interrupted copy carries on at the next start.
+IF EXISTS (SELECT * FROM sysobjects WHERE name='audit_logs_legacy' AND xtype='U')
+BEGIN
+    IF COL_LENGTH('audit_logs_legacy', 'hire_id') IS NULL ALTER TABLE audit_logs_legacy ADD hire_id VARCHAR(255) NULL;
+    IF COL_LENGTH('audit_logs_legacy', 'new_hire_id') IS NULL ALTER TABLE audit_logs_legacy ADD new_hire_id VARCHAR(255) NULL;
+    IF COL_LENGTH('audit_logs_legacy', 'action') IS NULL ALTER TABLE audit_logs_legacy ADD action VARCHAR(255) NULL;
+    IF COL_LENGTH('audit_logs_legacy', 'action_type') IS NULL ALTER TABLE audit_logs_legacy ADD action_type VARCHAR(255) NULL;
+    IF COL_LENGTH('audit_logs_legacy', 'status') IS NULL ALTER TABLE audit_logs_legacy ADD status VARCHAR(50) NULL;
+    IF COL_LENGTH('audit_logs_legacy', 'message') IS NULL ALTER TABLE audit_logs_legacy ADD message NVARCHAR(MAX) NULL;
+    IF COL_LENGTH('audit_logs_legacy', 'details') IS NULL ALTER TABLE audit_logs_legacy ADD details NVARCHAR(MAX) NULL;
+    IF COL_LENGTH('audit_logs_legacy', 'performed_by') IS NULL ALTER TABLE audit_logs_legacy ADD performed_by VARCHAR(255) NULL;
+    IF COL_LENGTH('audit_logs_legacy', 'created_at') IS NULL ALTER TABLE audit_logs_legacy ADD created_at DATETIME NULL;
+    IF COL_LENGTH('audit_logs_legacy', 'timestamp') IS NULL ALTER TABLE audit_logs_legacy ADD [timestamp] DATETIME NULL;
+    IF COL_LENGTH('audit_logs_legacy', 'old_values') IS NULL ALTER TABLE audit_logs_legacy ADD old_values NVARCHAR(MAX) NULL;
+    IF COL_LENGTH('audit_logs_legacy', 'new_values') IS NULL ALTER TABLE audit_logs_legacy ADD new_values NVARCHAR(MAX) NULL;
+    IF COL_LENGTH('audit_logs_legacy', 'import_id') IS NULL ALTER TABLE audit_logs_legacy ADD import_id VARCHAR(255) NULL;
+
+    -- Dynamic SQL, because audit_logs may still have its old columns when this batch is compiled.
+    -- Details that are not JSON become {"text": ...}; statuses are folded into the four the app uses.
+    EXEC('
+      INSERT INTO audit_logs (id, occurred_at, actor, target_type, target_id, action, status, message, details, old_values, new_values, import_id)
+      SELECT
+        l.id,
+        COALESCE(l.[timestamp], l.created_at, GETDATE()),
+        COALESCE(NULLIF(l.performed_by, ''''), ''system''),
+        ''hire'',
+        COALESCE(l.new_hire_id, l.hire_id),
+        UPPER(COALESCE(l.action_type, l.action, ''UNKNOWN'')),
+        CASE
+          WHEN UPPER(l.status) IN (''FAILED'', ''FAILURE'', ''ERROR'') THEN ''FAILED''
+          WHEN UPPER(l.status) IN (''PARTIAL'', ''SKIPPED'') THEN UPPER(l.status)
+          ELSE ''SUCCESS''
+        END,
+        l.message,
+        CASE
+          WHEN l.details IS NULL THEN NULL
+          WHEN ISJSON(CAST(l.details AS NVARCHAR(MAX))) = 1 THEN CAST(l.details AS NVARCHAR(MAX))
+          ELSE (SELECT CAST(l.details AS NVARCHAR(MAX)) AS text FOR JSON PATH, WITHOUT_ARRAY_WRAPPER)
+        END,
+        l.old_values,
+        l.new_values,
+        l.import_id
+      FROM audit_logs_legacy l
+      WHERE COALESCE(l.new_hire_id, l.hire_id) IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM audit_logs a WHERE a.id = l.id)
+    ');
+
+    EXEC sp_rename 'audit_logs_legacy', 'audit_logs_archived';
+END
+
 -- Check if the ms365_license_types table already exists
 IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='ms365_license_types' AND xtype='U')
 BEGIN
@@ -117,3 +186,299 @@ IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hire
 BEGIN
     ALTER TABLE hires ADD srf_document_uploaded_at DATETIME DEFAULT NULL;
 END
+
+-- Check if last_working_day column exists in hires table
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hires' AND COLUMN_NAME = 'last_working_day')
+BEGIN
+    ALTER TABLE hires ADD last_working_day DATE DEFAULT NULL;
+END
+
+-- Check if offboarding_status column exists in hires table
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hires' AND COLUMN_NAME = 'offboarding_status')
+BEGIN
+    ALTER TABLE hires ADD offboarding_status VARCHAR(50) DEFAULT NULL;
+END
+
+-- Check if offboarding_date column exists in hires table
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hires' AND COLUMN_NAME = 'offboarding_date')
+BEGIN
+    ALTER TABLE hires ADD offboarding_date DATETIME DEFAULT NULL;
+END
+
+-- Check if license_reclaim_status column exists in hires table
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hires' AND COLUMN_NAME = 'license_reclaim_status')
+BEGIN
+    ALTER TABLE hires ADD license_reclaim_status VARCHAR(50) DEFAULT NULL;
+END
+
+-- Check if password_encrypted column exists in hires table (initial password, encrypted by the credential vault)
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hires' AND COLUMN_NAME = 'password_encrypted')
+BEGIN
+    ALTER TABLE hires ADD password_encrypted NVARCHAR(MAX) DEFAULT NULL;
+END
+
+-- Check if password_set_at column exists in hires table
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hires' AND COLUMN_NAME = 'password_set_at')
+BEGIN
+    ALTER TABLE hires ADD password_set_at DATETIME DEFAULT NULL;
+END
+
+-- Check if password_purged_at column exists in hires table
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hires' AND COLUMN_NAME = 'password_purged_at')
+BEGIN
+    ALTER TABLE hires ADD password_purged_at DATETIME DEFAULT NULL;
+END
+
+-- Check if the import_batches table already exists
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='import_batches' AND xtype='U')
+BEGIN
+    -- One row per committed file import, so the batch can be listed and rolled back
+    CREATE TABLE import_batches (
+      id VARCHAR(255) PRIMARY KEY,
+      file_name NVARCHAR(255) NOT NULL,
+      mode VARCHAR(20) NOT NULL,
+      created_count INT NOT NULL DEFAULT 0,
+      updated_count INT NOT NULL DEFAULT 0,
+      performed_by VARCHAR(255),
+      created_at DATETIME NOT NULL,
+      rolled_back_at DATETIME DEFAULT NULL,
+      rolled_back_by VARCHAR(255) DEFAULT NULL
+    );
+END
+
+-- Check if the saved_views table already exists
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='saved_views' AND xtype='U')
+BEGIN
+    -- Named hires list views (filters, sort, visible columns) owned by an account, optionally shared with everyone
+    CREATE TABLE saved_views (
+      id VARCHAR(255) PRIMARY KEY,
+      name NVARCHAR(255) NOT NULL,
+      owner VARCHAR(255) NOT NULL,
+      is_shared BIT NOT NULL DEFAULT 0,
+      view_state NVARCHAR(MAX) NOT NULL,
+      created_at DATETIME NOT NULL,
+      updated_at DATETIME NOT NULL
+    );
+END
+
+-- Check if the user_view_defaults table already exists
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='user_view_defaults' AND xtype='U')
+BEGIN
+    -- The saved view each account opens the hires list with
+    CREATE TABLE user_view_defaults (
+      username VARCHAR(255) PRIMARY KEY,
+      view_id VARCHAR(255) NOT NULL,
+      updated_at DATETIME NOT NULL
+    );
+END
+
+-- Check if the calendar_feeds table already exists
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='calendar_feeds' AND xtype='U')
+BEGIN
+    -- Per-account secret links to the ICS feed of hire arrivals; only a hash of the token is kept
+    CREATE TABLE calendar_feeds (
+      username VARCHAR(255) PRIMARY KEY,
+      token_hash VARCHAR(64) NOT NULL UNIQUE,
+      created_at DATETIME NOT NULL,
+      last_used_at DATETIME DEFAULT NULL
+    );
+END
+
+-- Check if custom_fields column exists in hires table
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hires' AND COLUMN_NAME = 'custom_fields')
+BEGIN
+    -- Values of the admin-defined custom fields, as JSON keyed by field key
+    ALTER TABLE hires ADD custom_fields NVARCHAR(MAX) DEFAULT NULL;
+END
+
+-- Check if the hire_comments table already exists
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='hire_comments' AND xtype='U')
+BEGIN
+    -- Comment thread on each hire
+    CREATE TABLE hire_comments (
+      id VARCHAR(255) PRIMARY KEY,
+      hire_id VARCHAR(255) NOT NULL,
+      author VARCHAR(255) NOT NULL,
+      body NVARCHAR(MAX) NOT NULL,
+      created_at DATETIME NOT NULL,
+      edited_at DATETIME DEFAULT NULL
+    );
+END
+
+-- Check if the hire_comment_attachments table already exists
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='hire_comment_attachments' AND xtype='U')
+BEGIN
+    -- Files attached to a comment, kept in the file storage under comments/
+    CREATE TABLE hire_comment_attachments (
+      id VARCHAR(255) PRIMARY KEY,
+      comment_id VARCHAR(255) NOT NULL,
+      file_name NVARCHAR(255) NOT NULL,
+      file_path VARCHAR(500) NOT NULL,
+      mime_type VARCHAR(255),
+      size INT,
+      uploaded_at DATETIME NOT NULL
+    );
+END
+
+-- Check if the notifications table already exists
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='notifications' AND xtype='U')
+BEGIN
+    -- In-app notifications, such as being @mentioned in a comment
+    CREATE TABLE notifications (
+      id VARCHAR(255) PRIMARY KEY,
+      username VARCHAR(255) NOT NULL,
+      type VARCHAR(50) NOT NULL,
+      message NVARCHAR(500) NOT NULL,
+      hire_id VARCHAR(255) DEFAULT NULL,
+      comment_id VARCHAR(255) DEFAULT NULL,
+      actor VARCHAR(255) DEFAULT NULL,
+      created_at DATETIME NOT NULL,
+      read_at DATETIME DEFAULT NULL
+    );
+END
+
+-- Check if the jobs table already exists
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='jobs' AND xtype='U')
+BEGIN
+    -- Background work such as AD account creation, retried with backoff until it succeeds or is dead
+    CREATE TABLE jobs (
+      id VARCHAR(255) PRIMARY KEY,
+      type VARCHAR(100) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'queued',
+      description NVARCHAR(500) DEFAULT NULL,
+      payload NVARCHAR(MAX) DEFAULT NULL,
+      result NVARCHAR(MAX) DEFAULT NULL,
+      last_error NVARCHAR(MAX) DEFAULT NULL,
+      attempts INT NOT NULL DEFAULT 0,
+      max_attempts INT NOT NULL DEFAULT 5,
+      run_at DATETIME NOT NULL,
+      hire_id VARCHAR(255) DEFAULT NULL,
+      created_by VARCHAR(255) DEFAULT NULL,
+      created_at DATETIME NOT NULL,
+      started_at DATETIME DEFAULT NULL,
+      finished_at DATETIME DEFAULT NULL,
+      updated_at DATETIME NOT NULL
+    );
+END
+
+-- Check if the job_logs table already exists
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='job_logs' AND xtype='U')
+BEGIN
+    -- Log lines written while a job runs, across all of its attempts
+    CREATE TABLE job_logs (
+      id VARCHAR(255) PRIMARY KEY,
+      job_id VARCHAR(255) NOT NULL,
+      attempt INT NOT NULL DEFAULT 0,
+      level VARCHAR(10) NOT NULL,
+      message NVARCHAR(MAX) NOT NULL,
+      created_at DATETIME NOT NULL
+    );
+END
+
+-- Check if deleted_at column exists in hires table
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hires' AND COLUMN_NAME = 'deleted_at')
+BEGIN
+    -- Set when a hire is moved to the trash; listings and reports skip these rows
+    ALTER TABLE hires ADD deleted_at DATETIME DEFAULT NULL;
+END
+
+-- Check if deleted_by column exists in hires table
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hires' AND COLUMN_NAME = 'deleted_by')
+BEGIN
+    ALTER TABLE hires ADD deleted_by VARCHAR(255) DEFAULT NULL;
+END
+
+-- Check if the hire_documents table already exists
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='hire_documents' AND xtype='U')
+BEGIN
+    -- Typed documents such as the signed contract or NDA, kept in the file storage under documents/.
+    -- document_type is a key from the document types in Settings.
+    CREATE TABLE hire_documents (
+      id VARCHAR(255) PRIMARY KEY,
+      hire_id VARCHAR(255) NOT NULL,
+      document_type VARCHAR(50) NOT NULL,
+      file_name NVARCHAR(255) NOT NULL,
+      file_path VARCHAR(500) NOT NULL,
+      mime_type VARCHAR(255),
+      size INT,
+      uploaded_by VARCHAR(255) DEFAULT NULL,
+      uploaded_at DATETIME NOT NULL
+    );
+END
+
+-- Check if the srf_versions table already exists
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='srf_versions' AND xtype='U')
+BEGIN
+    -- Every SRF uploaded for a hire, kept in the file storage under srf/. The newest version is mirrored in the
+    -- hires.srf_document_* columns and status_srf is only set when that version is approved.
+    CREATE TABLE srf_versions (
+      id VARCHAR(255) PRIMARY KEY,
+      hire_id VARCHAR(255) NOT NULL,
+      version INT NOT NULL,
+      file_name NVARCHAR(255) NOT NULL,
+      file_path VARCHAR(500) NOT NULL,
+      size INT,
+      uploaded_by VARCHAR(255) DEFAULT NULL,
+      uploaded_at DATETIME NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'submitted',
+      reviewed_by VARCHAR(255) DEFAULT NULL,
+      reviewed_at DATETIME DEFAULT NULL,
+      rejection_reason NVARCHAR(1000) DEFAULT NULL
+    );
+
+    -- SRFs uploaded before versioning become version 1, approved if status_srf was already ticked
+    INSERT INTO srf_versions (id, hire_id, version, file_name, file_path, uploaded_at, status)
+    SELECT CONVERT(VARCHAR(255), NEWID()), id, 1, srf_document_name, srf_document_path,
+           COALESCE(srf_document_uploaded_at, updated_at, GETDATE()),
+           CASE WHEN status_srf = 1 THEN 'approved' ELSE 'submitted' END
+    FROM hires
+    WHERE srf_document_path IS NOT NULL AND srf_document_name IS NOT NULL;
+END
+
+-- Check if srf_number column exists in hires table
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hires' AND COLUMN_NAME = 'srf_number')
+BEGIN
+    -- "SRF No." given the first time an SRF is generated for the hire, and kept when it is generated again
+    ALTER TABLE hires ADD srf_number VARCHAR(50) DEFAULT NULL;
+END
+
+-- Check if the srf_sequences table already exists
+IF NOT EXISTS (SELECT * FROM sysobjects WHERE name='srf_sequences' AND xtype='U')
+BEGIN
+    -- Last SRF number handed out in each year; numbering starts again at 1 every January
+    CREATE TABLE srf_sequences (
+      year INT PRIMARY KEY,
+      last_number INT NOT NULL
+    );
+END
+
+-- Uploaded files live in the configured file storage under a key like srf/<file>; file_path holds that key.
+-- content_hash is the file's SHA-256, sent with every download so clients can check what they received.
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'srf_versions' AND COLUMN_NAME = 'content_hash')
+BEGIN
+    ALTER TABLE srf_versions ADD content_hash VARCHAR(64) DEFAULT NULL;
+END
+
+-- One row per version number of a hire, so two uploads at the same time can't both become the same version.
+-- Versions that already clashed are numbered again in upload order first.
+IF NOT EXISTS (SELECT * FROM sys.indexes WHERE name = 'UX_srf_versions_hire_version')
+BEGIN
+    WITH numbered AS (
+      SELECT version, ROW_NUMBER() OVER (PARTITION BY hire_id ORDER BY version, uploaded_at, id) AS renumbered
+      FROM srf_versions
+      WHERE hire_id IN (SELECT hire_id FROM srf_versions GROUP BY hire_id, version HAVING COUNT(*) > 1)
+    )
+    UPDATE numbered SET version = renumbered;
+
+    CREATE UNIQUE INDEX UX_srf_versions_hire_version ON srf_versions (hire_id, version);
+END
+
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hire_documents' AND COLUMN_NAME = 'content_hash')
+BEGIN
+    ALTER TABLE hire_documents ADD content_hash VARCHAR(64) DEFAULT NULL;
+END
+
+IF NOT EXISTS (SELECT * FROM INFORMATION_SCHEMA.COLUMNS WHERE TABLE_NAME = 'hire_comment_attachments' AND COLUMN_NAME = 'content_hash')
+BEGIN
+    ALTER TABLE hire_comment_attachments ADD content_hash VARCHAR(64) DEFAULT NULL;
+END
@@ -7,6 +7,7 @@ import { fileURLToPath } from 'url';
 import { errorHandler, notFound } from './middleware/errorMiddleware.js';
 import { extractUser } from './middleware/authMiddleware.js';
 import { getCurrentUser } from './middleware/userMiddleware.js';
+import { assignRequestId } from './middleware/requestIdMiddleware.js';
 import { executeQuery } from './utils/dbConnection.js';
 
 // Load environment variables
@@ -19,8 +20,11 @@ const port = process.env.PORT || 3001;
 
 const app = express();
 
+// Tag each request with an ID for audit events
+app.use(assignRequestId);
+
 // Enable CORS for all routes
-app.use(cors());
+app.use(cors({ exposedHeaders: ['X-Request-Id'] }));
 
 // JSON body parser
 app.use(express.json());
@@ -28,8 +32,8 @@ app.use(express.json());
 // URL encoded body parser
 app.use(express.urlencoded({ extended: true }));
 
-// Serve static files from the 'uploads' directory
-app.use('/uploads', express.static(path.join(__dirname, 'uploads')));
+// Uploaded files are not served statically - they are streamed by the routes that own them,
+// behind authentication, from the file storage (see services/fileStorage.js)
 
 // Session middleware (example, configure as needed)
 // app.use(session({
@@ -53,6 +57,13 @@ import whatsappRoutes from './routes/whatsapp.js';
 import activeDirectoryRoutes from './routes/active-directory.js';
 import hrisSyncRoutes from './routes/hris-sync.js';
 import distributionListsRoutes from './routes/distribution-lists.js';
+import reportsRoutes from './routes/reports.js';
+import viewsRoutes from './routes/views.js';
+import calendarRoutes from './routes/calendar.js';
+import commentsRoutes from './routes/comments.js';
+import documentsRoutes from './routes/documents.js';
+import notificationsRoutes from './routes/notifications.js';
+import jobsRoutes from './routes/jobs.js';
 
 // Routes
 app.use('/api/auth', authRoutes);
@@ -64,11 +75,17 @@ app.use('/api/whatsapp', whatsappRoutes);
 app.use('/api/active-directory', activeDirectoryRoutes);
 app.use('/api/hris-sync', hrisSyncRoutes);
 app.use('/api/distribution-lists', distributionListsRoutes);
+app.use('/api/reports', reportsRoutes);
+app.use('/api/views', viewsRoutes);
+app.use('/api/calendar', calendarRoutes);
+app.use('/api/hires/:hireId/comments', commentsRoutes);
+app.use('/api/hires/:hireId/documents', documentsRoutes);
+app.use('/api/notifications', notificationsRoutes);
+app.use('/api/jobs', jobsRoutes);
 
 // Serve static assets in production
 if (process.env.NODE_ENV === 'production') {
   const __dirname = path.resolve();
-  app.use('/uploads', express.static('/var/data/uploads'));
   app.use(express.static(path.join(__dirname, '../client/dist')));
 
   app.get('*', (req, res) =>
@@ -185,11 +185,15 @@ export async function modify(dn, changes) {
  * Move an LDAP object to a new superior (OU)
  */
 export async function moveDN(dn, newSuperior) {
+  // ldapjs takes the full new DN, so keep the entry's RDN and swap its parent
+  const rdn = dn.match(/^((?:\\.|[^,])+)/)[1];
+  const newDN = `${rdn},${newSuperior}`;
+
   const client = await getClient();
   return new Promise((resolve, reject) => {
-    client.modifyDN(dn, { newSuperior }, err => {
+    client.modifyDN(dn, newDN, err => {
       client.unbind();
-      err ? reject(err) : resolve();
+      err ? reject(err) : resolve(newDN);
     });
   });
 }
@@ -100,3 +100,18 @@ export const requireAdmin = (req, res, next) => {
   
   next();
 };
+
+/**
+ * Require one of the given roles to access route
+ */
+export const requireRole = (...roles) => (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ error: 'Unauthorized: Authentication required' });
+  }
+  
+  if (!roles.includes(req.user.role)) {
+    return res.status(403).json({ error: `Forbidden: ${roles.join(' or ')} access required` });
+  }
+  
+  next();
+};
@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+
+// A proxy's X-Request-Id is kept when it looks like an ID; anything else gets a fresh one
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,64}$/;
+
+const requestContext = new AsyncLocalStorage();
+
+/**
+ * Give every request an ID, echoed back in the X-Request-Id header. It is also kept for the rest of the
+ * request's async work, so audit events written by services can carry it without it being passed down.
+ */
+export const assignRequestId = (req, res, next) => {
+  const incoming = req.get('X-Request-Id');
+  req.id = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+  res.setHeader('X-Request-Id', req.id);
+  requestContext.run({ requestId: req.id }, next);
+};
+
+/**
+ * ID of the request being handled, or null outside a request (scheduled work, queued jobs)
+ */
+export const getRequestId = () => requestContext.getStore()?.requestId ?? null;
@@ -0,0 +1,152 @@
+/**
+ * Move uploaded files into the configured file storage. Run it with the server's environment:
+ *
+ *   npm run storage:migrate -- [--dry-run] [--from=local|s3]
+ *
+ * Rows saved before file storage existed hold a path on disk. Each of those files is copied into the
+ * storage under its folder, and the row gets the key and SHA-256 instead. With --from, files already
+ * kept by another driver - local disk before switching to S3, say - are copied across and checked
+ * against their recorded hash. Source files are never deleted, and finished rows are skipped, so it
+ * is safe to run again.
+ */
+import dotenv from 'dotenv';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { initDbConnection, executeQuery } from './utils/dbConnection.js';
+import { initializeSchema } from './utils/schemaInit.js';
+import { createStorage, getStorage, getStorageConfig, hashContent, isStorageKey, STORAGE_DRIVERS } from './services/fileStorage.js';
+
+dotenv.config();
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const FILE_TABLES = [
+  { table: 'srf_versions', folder: 'srf' },
+  { table: 'hire_documents', folder: 'documents' },
+  { table: 'hire_comment_attachments', folder: 'comments' }
+];
+
+const OUTCOMES = ['migrated', 'copied', 'hashed', 'skipped', 'missing', 'failed'];
+
+// Old rows hold an absolute path, or one relative to wherever the server happened to be started
+const findLegacyFile = (storedPath) => {
+  const candidates = path.isAbsolute(storedPath)
+    ? [storedPath]
+    : [path.resolve(process.cwd(), storedPath), path.resolve(__dirname, storedPath)];
+  return candidates.find(candidate => fs.existsSync(candidate)) || null;
+};
+
+const readFrom = async (storage, key) => {
+  const { body } = await storage.get(key);
+  const chunks = [];
+  for await (const chunk of body) chunks.push(chunk);
+  return Buffer.concat(chunks);
+};
+
+const parseArgs = (argv) => {
+  const from = argv.find(arg => arg.startsWith('--from='));
+  return {
+    dryRun: argv.includes('--dry-run'),
+    from: from ? from.slice('--from='.length).toLowerCase() : null
+  };
+};
+
+/**
+ * Bring one row's file into the target storage, returning what was done
+ */
+const migrateRow = async ({ table, folder }, row, { target, source, dryRun }) => {
+  if (!isStorageKey(row.file_path)) {
+    const filePath = findLegacyFile(row.file_path);
+    if (!filePath) return 'missing';
+    if (dryRun) return 'migrated';
+
+    const key = `${folder}/${path.basename(filePath)}`;
+    const buffer = await fs.promises.readFile(filePath);
+    const hash = hashContent(buffer);
+    await target.put(key, buffer, { contentType: row.mime_type || undefined, hash });
+    await executeQuery(`UPDATE ${table} SET file_path = ?, content_hash = ? WHERE id = ?`, [key, hash, row.id]);
+    if (table === 'srf_versions') {
+      // The hire's SRF columns mirror its newest version
+      await executeQuery('UPDATE hires SET srf_document_path = ? WHERE srf_document_path = ?', [key, row.file_path]);
+    }
+    return 'migrated';
+  }
+
+  if (source) {
+    if (row.content_hash && await target.exists(row.file_path)) return 'skipped';
+    if (dryRun) return 'copied';
+
+    const buffer = await readFrom(source, row.file_path);
+    const hash = hashContent(buffer);
+    if (row.content_hash && row.content_hash !== hash) {
+      throw new Error(`${row.file_path} no longer matches the hash recorded when it was stored`);
+    }
+    await target.put(row.file_path, buffer, { contentType: row.mime_type || undefined, hash });
+    if (!row.content_hash) {
+      await executeQuery(`UPDATE ${table} SET content_hash = ? WHERE id = ?`, [hash, row.id]);
+    }
+    return 'copied';
+  }
+
+  if (row.content_hash) return 'skipped';
+  if (dryRun) return 'hashed';
+
+  // Already in storage but stored before hashes were recorded
+  const buffer = await readFrom(target, row.file_path);
+  await executeQuery(`UPDATE ${table} SET content_hash = ? WHERE id = ?`, [hashContent(buffer), row.id]);
+  return 'hashed';
+};
+
+const main = async () => {
+  const options = parseArgs(process.argv.slice(2));
+  const config = getStorageConfig();
+
+  if (options.from && !STORAGE_DRIVERS.includes(options.from)) {
+    throw new Error(`--from must be one of: ${STORAGE_DRIVERS.join(', ')}`);
+  }
+  if (options.from === config.driver) {
+    throw new Error(`--from=${options.from} is already the configured driver; set FILE_STORAGE_DRIVER to the new one`);
+  }
+
+  const target = getStorage();
+  const source = options.from ? createStorage({ ...config, driver: options.from }) : null;
+
+  await initDbConnection();
+  await initializeSchema();
+
+  console.log(`${options.dryRun ? 'Dry run: ' : ''}migrating files into ${target.driver} storage${source ? ` from ${source.driver}` : ''}`);
+
+  let failures = 0;
+  for (const fileTable of FILE_TABLES) {
+    const rows = await executeQuery(`SELECT * FROM ${fileTable.table}`);
+    const counts = Object.fromEntries(OUTCOMES.map(outcome => [outcome, 0]));
+
+    for (const row of rows) {
+      try {
+        const outcome = await migrateRow(fileTable, row, { target, source, dryRun: options.dryRun });
+        counts[outcome]++;
+        if (outcome === 'missing') console.warn(`  ${fileTable.table} ${row.id}: file not found (${row.file_path})`);
+      } catch (error) {
+        counts.failed++;
+        console.error(`  ${fileTable.table} ${row.id}: ${error.notFound ? 'file not found in source storage' : error.message}`);
+      }
+    }
+
+    failures += counts.failed;
+    console.log(`${fileTable.table}: ${rows.length} row(s) - ${OUTCOMES.map(outcome => `${counts[outcome]} ${outcome}`).join(', ')}`);
+  }
+
+  if (!options.dryRun) {
+    console.log('Original files were left in place. Remove them once downloads have been checked.');
+  }
+  return failures;
+};
+
+main()
+  .then(failures => process.exit(failures > 0 ? 1 : 0))
+  .catch(error => {
+    console.error('File storage migration failed:', error.message);
+    process.exit(1);
+  });
@@ -6,7 +6,13 @@ import bcrypt from 'bcrypt';
 import ldap from 'ldapjs';
 import { executeQuery } from '../utils/dbConnection.js';
 import logger from '../utils/logger.js';
-import { search, escapeFilter } from '../lib/ldapService.js';
+import { search, escapeFilter, modify, moveDN } from '../lib/ldapService.js';
+import { getHirePassword, sealHirePassword } from '../services/credentialVaultService.js';
+import { enqueueJob, permanentJobError, registerJobHandler } from '../services/jobQueueService.js';
+import { recordAudit } from '../services/auditService.js';
+import { requireRole } from '../middleware/authMiddleware.js';
+import { getPasswordPolicy, validatePassword } from '../utils/passwordPolicy.js';
+import { buildCandidates, getIdentitySettings, MAX_USERNAME_LENGTH } from '../utils/identitySuggestions.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -410,6 +416,179 @@ router.post('/test', async (req, res) => {
   }
 });
 
+// Number of available alternatives returned when the proposed identity is taken
+const SUGGESTION_LIMIT = 5;
+
+/**
+ * Find which of the given usernames and emails are already used by another hire or in AD.
+ * Returns one conflict per clash: { field: 'username' | 'upn' | 'email', value, source: 'hire' | 'ad', name }
+ */
+const findIdentityConflicts = async (settings, usernames, emails, hireId) => {
+  const conflicts = [];
+  const lowerUsernames = usernames.map(value => value.toLowerCase());
+  const lowerEmails = emails.map(value => value.toLowerCase());
+  // Nothing to look up, e.g. a name with no letters to build candidates from
+  if (lowerUsernames.length === 0 && lowerEmails.length === 0) return conflicts;
+
+  const conditions = [];
+  if (lowerUsernames.length > 0) conditions.push(`LOWER(username) IN (${lowerUsernames.map(() => '?').join(', ')})`);
+  if (lowerEmails.length > 0) conditions.push(`LOWER(email) IN (${lowerEmails.map(() => '?').join(', ')})`);
+  const hires = await executeQuery(`
+    SELECT id, name, username, email FROM hires
+    WHERE ${conditions.join(' OR ')}
+  `, [...lowerUsernames, ...lowerEmails]);
+
+  // The hire being edited owns its own identity, including its AD account once created
+  const ownHire = hireId
+    ? (await executeQuery('SELECT username, email, account_creation_status FROM hires WHERE id = ?', [hireId]))[0]
+    : null;
+
+  for (const hire of hires) {
+    if (hire.id === hireId) continue;
+    if (hire.username && lowerUsernames.includes(hire.username.toLowerCase())) {
+      conflicts.push({ field: 'username', value: hire.username.toLowerCase(), source: 'hire', name: hire.name });
+    }
+    if (hire.email && lowerEmails.includes(hire.email.toLowerCase())) {
+      conflicts.push({ field: 'email', value: hire.email.toLowerCase(), source: 'hire', name: hire.name });
+    }
+  }
+
+  const adSettings = settings.activeDirectorySettings;
+  if (adSettings?.enabled) {
+    const clauses = [
+      ...lowerUsernames.map(value => `(sAMAccountName=${escapeFilter(value)})`),
+      ...lowerEmails.flatMap(value => [`(userPrincipalName=${escapeFilter(value)})`, `(mail=${escapeFilter(value)})`])
+    ].join('');
+    const entries = await search(
+      adSettings.baseDN,
+      `(&(objectClass=user)(|${clauses}))`,
+      ['sAMAccountName', 'userPrincipalName', 'mail', 'displayName']
+    );
+
+    const ownsAccount = ownHire?.account_creation_status === 'Active';
+    for (const entry of entries) {
+      const samAccountName = String(entry.sAMAccountName || '').toLowerCase();
+      if (ownsAccount && samAccountName === ownHire.username?.toLowerCase()) continue;
+
+      const name = entry.displayName || samAccountName;
+      if (lowerUsernames.includes(samAccountName)) {
+        conflicts.push({ field: 'username', value: samAccountName, source: 'ad', name });
+      }
+      const upn = String(entry.userPrincipalName || '').toLowerCase();
+      if (lowerEmails.includes(upn)) {
+        conflicts.push({ field: 'upn', value: upn, source: 'ad', name });
+      }
+      const mail = String(entry.mail || '').toLowerCase();
+      if (lowerEmails.includes(mail)) {
+        conflicts.push({ field: 'email', value: mail, source: 'ad', name });
+      }
+    }
+  }
+
+  return conflicts;
+};
+
+// Check a proposed username (sAMAccountName), UPN and email against AD and other hires.
+// When any of them is taken, return ranked alternatives built from the configured username patterns.
+router.post('/check-identity', async (req, res) => {
+  try {
+    const { name, hireId } = req.body;
+    const username = String(req.body.username || '').trim().toLowerCase();
+    const email = String(req.body.email || '').trim().toLowerCase();
+
+    if (!username && !email && !name) {
+      return res.status(400).json({ success: false, error: "A name, username or email is required" });
+    }
+
+    const settings = getSettings();
+    const candidates = buildCandidates(name, getIdentitySettings(settings));
+    const usernames = [...new Set([username, ...candidates.map(candidate => candidate.username)].filter(Boolean))];
+    const emails = [...new Set([email, ...candidates.map(candidate => candidate.email)].filter(Boolean))];
+
+    const allConflicts = await findIdentityConflicts(settings, usernames, emails, hireId);
+    const takenUsernames = new Set(allConflicts.filter(c => c.field === 'username').map(c => c.value));
+    const takenEmails = new Set(allConflicts.filter(c => c.field !== 'username').map(c => c.value));
+
+    const conflicts = allConflicts.filter(c => c.field === 'username' ? c.value === username : c.value === email);
+    const errors = [];
+    if (username.length > MAX_USERNAME_LENGTH) {
+      errors.push(`Username must be ${MAX_USERNAME_LENGTH} characters or fewer`);
+    }
+
+    const available = conflicts.length === 0 && errors.length === 0;
+    const suggestions = available ? [] : candidates
+      .filter(candidate => candidate.username !== username || candidate.email !== email)
+      .filter(candidate => !takenUsernames.has(candidate.username) && !takenEmails.has(candidate.email))
+      .slice(0, SUGGESTION_LIMIT);
+
+    res.json({
+      success: true,
+      available,
+      conflicts,
+      errors,
+      suggestions
+    });
+  } catch (err) {
+    logger.api.error('Error checking identity availability:', err);
+    res.status(500).json({ 
+      success: false, 
+      error: `Failed to check username availability: ${err.message}` 
+    });
+  }
+});
+
+// Queued by POST /create-user/:id. Safe to run again - an existing account only has its groups updated.
+registerJobHandler('ad.createUser', async ({ hireId, userData, performedBy, requestId }, { log }) => {
+  const settings = getSettings();
+  if (!settings.activeDirectorySettings || !settings.activeDirectorySettings.enabled) {
+    throw permanentJobError('Active Directory integration is not enabled');
+  }
+  
+  const password = await getHirePassword(hireId);
+  if (!password) {
+    throw permanentJobError('No initial password is stored for this hire');
+  }
+  
+  await log(`Creating AD account ${userData.username}`);
+  const result = await createLdapUser(settings.activeDirectorySettings, { ...userData, password });
+  if (!result.success) {
+    throw new Error(result.error || result.message || 'AD account creation failed');
+  }
+  await log(result.userCreated ? 'Account created' : 'Account already existed - groups updated');
+  
+  try {
+    // Update account status to Active
+    await executeQuery('UPDATE hires SET account_creation_status = ? WHERE id = ?', ['Active', hireId]);
+    logger.db.info(`Updated account_creation_status to 'Active' for hire ID ${hireId}`);
+    
+    // Add appropriate audit log entry based on whether user was created or updated
+    // Jobs run after the request has finished, so its ID comes with the payload
+    await recordAudit({
+      actor: performedBy,
+      requestId,
+      targetId: hireId,
+      action: result.userCreated ? 'AD_ACCOUNT_CREATED' : 'AD_GROUPS_UPDATED',
+      message: result.userCreated
+        ? `Active Directory account created for user ${userData.username}`
+        : `Active Directory groups updated for existing user ${userData.username}`,
+      details: {
+        username: userData.username,
+        displayName: userData.displayName,
+        ou: userData.ou,
+        userAlreadyExisted: !result.userCreated,
+        groupsAdded: result.details?.groups || []
+      }
+    });
+  } catch (dbError) {
+    // The account exists now, so this attempt still counts as a success
+    logger.db.error(`Database error after AD operation for hire ID ${hireId}:`, dbError);
+    await log(`AD operation completed but the hire record could not be updated: ${dbError.message}`, 'warn');
+    return { ...result, warning: 'AD operation completed but database update failed. Please check database schema.' };
+  }
+  
+  return result;
+});
+
 // Create AD user
 router.post('/create-user/:id', async (req, res) => {
   try {
@@ -430,6 +609,11 @@ router.post('/create-user/:id', async (req, res) => {
       });
     }
     
+    // Fall back to the initial password held in the credential vault
+    if (!userData.password) {
+      userData.password = await getHirePassword(id);
+    }
+    
     // Enhanced password validation
     if (!userData.password) {
       logger.api.error('Missing password for AD user creation');
@@ -439,83 +623,45 @@ router.post('/create-user/:id', async (req, res) => {
       });
     }
     
-    // Check password complexity
-    if (userData.password.length < 7) {
-      logger.api.error('Password too short for AD user creation');
+    // Check the password against the policy configured in Settings
+    const passwordErrors = validatePassword(userData.password, getPasswordPolicy(settings), {
+      name: userData.displayName,
+      username: userData.username
+    });
+    if (passwordErrors.length > 0) {
+      logger.api.error(`Password does not meet the password policy: ${passwordErrors.join('; ')}`);
       return res.status(400).json({
         success: false,
-        error: "Password must be at least 7 characters long for AD account"
+        error: `Password does not meet the password policy: ${passwordErrors.join('; ')}`,
+        details: passwordErrors
       });
     }
     
-    // Create user in AD using ldapjs (now handles existing users)
-    const result = await createLdapUser(settings.activeDirectorySettings, userData);
-    
-    // If successful (either created or updated existing), update the hire record
-    if (result.success) {
-      try {
-        // Update account status to Active
-        await executeQuery('UPDATE hires SET account_creation_status = ? WHERE id = ?', ['Active', id]);
-        logger.db.info(`Updated account_creation_status to 'Active' for hire ID ${id}`);
-        
-        // Add appropriate audit log entry based on whether user was created or updated
-        const timestamp = new Date().toISOString();
-        const actionType = result.userCreated ? 'AD_ACCOUNT_CREATED' : 'AD_GROUPS_UPDATED';
-        const message = result.userCreated 
-          ? `Active Directory account created for user ${userData.username}`
-          : `Active Directory groups updated for existing user ${userData.username}`;
-        
-        const audit = {
-          id: Math.random().toString(36).slice(2),
-          new_hire_id: id,
-          action_type: actionType,
-          status: 'Success',
-          message: message,
-          details: JSON.stringify({
-            username: userData.username,
-            displayName: userData.displayName,
-            ou: userData.ou,
-            userAlreadyExisted: !result.userCreated,
-            groupsAdded: result.details?.groups || []
-          }),
-          performed_by: req.user?.username || 'system',
-          timestamp: timestamp
-        };
-        
-        // Insert the audit log into the database with correct column names
-        try {
-          await executeQuery(
-            'INSERT INTO audit_logs (id, new_hire_id, action_type, status, message, details, performed_by, timestamp) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
-            [audit.id, audit.new_hire_id, audit.action_type, audit.status, audit.message, audit.details, audit.performed_by, audit.timestamp]
-          );
-          logger.db.info(`Created audit log entry for AD operation for hire ID ${id}`);
-        } catch (auditError) {
-          // Log the specific SQL error details for audit log insertion
-          logger.db.error(`Audit log creation error for hire ID ${id}:`, auditError);
-          if (auditError.originalError?.info) {
-            logger.db.error('SQL error details:', auditError.originalError.info);
-          }
-          // Continue execution even if audit log fails - we still want to return success
-          logger.db.warn('AD operation completed but audit log creation failed');
-        }
-      } catch (dbError) {
-        // Log detailed information about the database error
-        logger.db.error('Database error when updating account_creation_status:', dbError);
-        if (dbError.originalError?.info) {
-          logger.db.error('SQL error details:', dbError.originalError.info);
-          logger.db.error(`SQL error number: ${dbError.originalError.info.number}, state: ${dbError.originalError.info.state}`);
-          logger.db.error(`SQL error message: ${dbError.originalError.info.message}`);
-        }
-        
-        // Still return success, but with a warning
-        return res.json({
-          ...result,
-          warning: "AD operation completed but database update failed. Please check database schema."
-        });
-      }
+    // A password typed in for this account goes into the vault, so the queued job never carries it
+    if (req.body.password) {
+      const sealed = sealHirePassword({ password: req.body.password });
+      await executeQuery(
+        'UPDATE hires SET password_encrypted = ?, password_set_at = ?, password_purged_at = NULL WHERE id = ?',
+        [sealed.password_encrypted, sealed.password_set_at, id]
+      );
     }
     
-    res.json(result);
+    // Creating the account is queued so a timeout or restart doesn't lose it
+    const performedBy = req.user?.username || 'system';
+    const accountData = { ...userData };
+    delete accountData.password;
+    const jobId = await enqueueJob('ad.createUser', { hireId: id, userData: accountData, performedBy, requestId: req.id }, {
+      description: `Create AD account ${userData.username}`,
+      hireId: id,
+      createdBy: performedBy
+    });
+    
+    res.status(202).json({
+      success: true,
+      queued: true,
+      jobId,
+      message: `Creation of AD account ${userData.username} has been queued`
+    });
   } catch (err) {
     // Using the correct logger format for the server with enhanced error details
     logger.api.error('Error creating AD user:', err);
@@ -529,6 +675,131 @@ router.post('/create-user/:id', async (req, res) => {
   }
 });
 
+// Write one audit log row for an offboarding step; failures are logged but never thrown
+const logOffboardingStep = async (req, hireId, action, status, message, details) => {
+  try {
+    await recordAudit({ req, targetId: hireId, action, status, message, details });
+  } catch (auditError) {
+    logger.db.error(`Audit log creation error for hire ID ${hireId}:`, auditError);
+  }
+};
+
+// Disable a leaver's AD account: disable, strip ACL groups, then move to the disabled users OU.
+// Always the account stored on the hire - admins and support only.
+router.post('/disable-user/:id', requireRole('admin', 'support'), async (req, res) => {
+  try {
+    const { id } = req.params;
+
+    const settings = getSettings();
+    const adSettings = settings.activeDirectorySettings;
+    if (!adSettings || !adSettings.enabled) {
+      return res.status(400).json({ 
+        success: false, 
+        error: "Active Directory integration is not enabled" 
+      });
+    }
+
+    const hires = await executeQuery('SELECT username FROM hires WHERE id = ? AND deleted_at IS NULL', [id]);
+    if (hires.length === 0) {
+      return res.status(404).json({ success: false, error: 'Hire not found' });
+    }
+
+    const username = hires[0].username;
+    if (!username) {
+      return res.status(400).json({ success: false, error: 'Hire does not have a username' });
+    }
+
+    const entries = await search(
+      adSettings.baseDN,
+      `(&(objectClass=user)(sAMAccountName=${escapeFilter(username)}))`,
+      ['distinguishedName', 'userAccountControl', 'memberOf']
+    );
+    if (entries.length === 0) {
+      return res.status(404).json({ success: false, error: `User ${username} was not found in Active Directory` });
+    }
+
+    const entry = entries[0];
+    let userDN = entry.distinguishedName;
+    const steps = [];
+
+    // Step 1: set the ACCOUNTDISABLE flag (0x2) on userAccountControl
+    try {
+      const uac = (parseInt(entry.userAccountControl, 10) || 512) | 2;
+      await modify(userDN, [{ operation: 'replace', modification: { userAccountControl: String(uac) } }]);
+      steps.push({ step: 'disable', success: true, message: `Account ${username} disabled` });
+      await logOffboardingStep(req, id, 'AD_ACCOUNT_DISABLED', 'SUCCESS', `Active Directory account ${username} disabled`, { username, dn: userDN });
+    } catch (err) {
+      logger.api.error(`Failed to disable AD account ${username}:`, err);
+      steps.push({ step: 'disable', success: false, message: err.message });
+      await logOffboardingStep(req, id, 'AD_ACCOUNT_DISABLED', 'FAILED', `Failed to disable Active Directory account ${username}: ${err.message}`, { username, dn: userDN });
+
+      // A live account must keep its access and stay where it is, so nothing else is done
+      return res.json({
+        success: false,
+        message: `Active Directory account ${username} could not be disabled; its groups and OU were left unchanged`,
+        distinguishedName: userDN,
+        steps
+      });
+    }
+
+    // Step 2: remove the user from every ACL group it belongs to
+    const memberOf = Array.isArray(entry.memberOf) ? entry.memberOf : (entry.memberOf ? [entry.memberOf] : []);
+    const aclGroups = memberOf.filter(groupDN => /^CN=ACL /i.test(groupDN));
+    const removedGroups = [];
+    const failedGroups = [];
+    for (const groupDN of aclGroups) {
+      try {
+        await modify(groupDN, [{ operation: 'delete', modification: { member: userDN } }]);
+        removedGroups.push(groupDN);
+      } catch (err) {
+        logger.api.error(`Failed to remove ${username} from ${groupDN}:`, err);
+        failedGroups.push({ group: groupDN, error: err.message });
+      }
+    }
+    const groupsMessage = aclGroups.length === 0
+      ? `No ACL groups found for ${username}`
+      : `Removed ${username} from ${removedGroups.length} of ${aclGroups.length} ACL groups`;
+    steps.push({ step: 'groups', success: failedGroups.length === 0, message: groupsMessage, removedGroups, failedGroups });
+    await logOffboardingStep(req, id, 'AD_GROUPS_REMOVED', failedGroups.length === 0 ? 'SUCCESS' : 'FAILED', groupsMessage, { username, removedGroups, failedGroups });
+
+    // Step 3: move the account to the disabled users OU
+    if (!adSettings.disabledUsersOU) {
+      steps.push({ step: 'move', success: false, skipped: true, message: 'No disabled users OU configured in Active Directory settings' });
+      await logOffboardingStep(req, id, 'AD_ACCOUNT_MOVED', 'SKIPPED', 'No disabled users OU configured in Active Directory settings', { username, dn: userDN });
+    } else {
+      try {
+        const previousDN = userDN;
+        userDN = await moveDN(userDN, adSettings.disabledUsersOU);
+        steps.push({ step: 'move', success: true, message: `Account moved to ${adSettings.disabledUsersOU}` });
+        await logOffboardingStep(req, id, 'AD_ACCOUNT_MOVED', 'SUCCESS', `Active Directory account ${username} moved to ${adSettings.disabledUsersOU}`, { username, from: previousDN, to: userDN });
+      } catch (err) {
+        logger.api.error(`Failed to move AD account ${username}:`, err);
+        steps.push({ step: 'move', success: false, message: err.message });
+        await logOffboardingStep(req, id, 'AD_ACCOUNT_MOVED', 'FAILED', `Failed to move Active Directory account ${username}: ${err.message}`, { username, dn: userDN });
+      }
+    }
+
+    // The account is disabled by now, even if the later steps failed
+    const success = steps.every(step => step.success || step.skipped);
+    await executeQuery('UPDATE hires SET account_creation_status = ? WHERE id = ?', ['Inactive', id]);
+
+    res.json({
+      success,
+      message: success
+        ? `Active Directory account ${username} offboarded`
+        : `Active Directory offboarding for ${username} completed with errors`,
+      distinguishedName: userDN,
+      steps
+    });
+  } catch (err) {
+    logger.api.error('Error disabling AD user:', err);
+    res.status(500).json({ 
+      success: false, 
+      error: `Failed to disable AD user: ${err.message}` 
+    });
+  }
+});
+
 // Add this function around line 500, before the createLdapUser function
 // Function to check if OU exists and create it if needed
 const ensureOUExists = async (client, ouPath, settings) => {
@@ -0,0 +1,113 @@
+import express from 'express';
+import crypto from 'crypto';
+import { executeQuery } from '../utils/dbConnection.js';
+import logger from '../utils/logger.js';
+import { requireAuth } from '../middleware/authMiddleware.js';
+import { getChecklistSettings, calculateProgress } from '../utils/progressCalculator.js';
+import { buildHiresCalendar } from '../utils/icsFeed.js';
+
+const router = express.Router();
+
+// How far back and ahead the subscribed feed reaches
+const FEED_DAYS_BEFORE = 30;
+const FEED_DAYS_AFTER = 180;
+
+// Only a hash of each feed token is stored, so the link can't be recovered from the database
+const hashToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Get whether the current user has a calendar feed link
+router.get('/feed', requireAuth, async (req, res) => {
+  try {
+    const rows = await executeQuery(
+      'SELECT created_at, last_used_at FROM calendar_feeds WHERE username = ?',
+      [req.user.username]
+    );
+    res.json({
+      exists: rows.length > 0,
+      createdAt: rows[0]?.created_at || null,
+      lastUsedAt: rows[0]?.last_used_at || null
+    });
+  } catch (error) {
+    logger.api.error('Error fetching calendar feed:', error);
+    res.status(500).json({ error: 'Failed to fetch calendar feed', message: error.message });
+  }
+});
+
+// Create the current user's feed link, replacing (and so revoking) any earlier one.
+// The token is only ever returned here.
+router.post('/feed', requireAuth, async (req, res) => {
+  try {
+    const { username } = req.user;
+    const token = crypto.randomBytes(24).toString('hex');
+    const now = new Date().toISOString();
+
+    await executeQuery('DELETE FROM calendar_feeds WHERE username = ?', [username]);
+    await executeQuery(
+      'INSERT INTO calendar_feeds (username, token_hash, created_at) VALUES (?, ?, ?)',
+      [username, hashToken(token), now]
+    );
+
+    logger.api.info(`Calendar feed link created for ${username}`);
+    res.status(201).json({ token, createdAt: now });
+  } catch (error) {
+    logger.api.error('Error creating calendar feed:', error);
+    res.status(500).json({ error: 'Failed to create calendar feed', message: error.message });
+  }
+});
+
+// Revoke the current user's feed link
+router.delete('/feed', requireAuth, async (req, res) => {
+  try {
+    await executeQuery('DELETE FROM calendar_feeds WHERE username = ?', [req.user.username]);
+    logger.api.info(`Calendar feed link revoked for ${req.user.username}`);
+    res.json({ success: true, message: 'Calendar feed link revoked' });
+  } catch (error) {
+    logger.api.error('Error revoking calendar feed:', error);
+    res.status(500).json({ error: 'Failed to revoke calendar feed', message: error.message });
+  }
+});
+
+// The subscribed feed. Calendar apps can't send a bearer token, so the secret in the
+// link identifies the user instead. ?mine=1 limits it to hires the user is ICT Support PIC for.
+router.get('/feed/:token.ics', async (req, res) => {
+  try {
+    const feeds = await executeQuery(`
+      SELECT f.username FROM calendar_feeds f
+      JOIN users u ON u.username = f.username
+      WHERE f.token_hash = ?
+    `, [hashToken(req.params.token)]);
+
+    if (feeds.length === 0) {
+      return res.status(404).json({ error: 'Calendar feed not found' });
+    }
+    const { username } = feeds[0];
+    const mine = req.query.mine === '1';
+
+    const hires = await executeQuery(`
+      SELECT * FROM hires
+      WHERE deleted_at IS NULL
+        AND on_site_date >= DATEADD(day, ?, CAST(GETDATE() AS DATE))
+        AND on_site_date <= DATEADD(day, ?, CAST(GETDATE() AS DATE))
+        ${mine ? 'AND ict_support_pic = ?' : ''}
+      ORDER BY on_site_date ASC
+    `, [-FEED_DAYS_BEFORE, FEED_DAYS_AFTER, ...(mine ? [username] : [])]);
+
+    await executeQuery('UPDATE calendar_feeds SET last_used_at = ? WHERE username = ?', [new Date().toISOString(), username]);
+
+    const checklists = getChecklistSettings();
+    const calendar = buildHiresCalendar(
+      hires.map(hire => ({ ...hire, progress_percentage: calculateProgress(hire, checklists).percentage })),
+      { calendarName: mine ? `New Hire Arrivals (${username})` : 'New Hire Arrivals' }
+    );
+
+    logger.api.info(`Served calendar feed to ${username} with ${hires.length} hires`);
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Content-Disposition', 'inline; filename="new-hire-arrivals.ics"');
+    res.send(calendar);
+  } catch (error) {
+    logger.api.error('Error serving calendar feed:', error);
+    res.status(500).json({ error: 'Failed to build calendar feed', message: error.message });
+  }
+});
+
+export default router;
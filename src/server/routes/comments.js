@@ -0,0 +1,276 @@
+import express from 'express';
+import path from 'path';
+import multer from 'multer';
+import { executeQuery } from '../utils/dbConnection.js';
+import logger from '../utils/logger.js';
+import { requireAuth } from '../middleware/authMiddleware.js';
+import { extractMentions } from '../utils/mentions.js';
+import { storeFile, removeStoredFile, sendStoredFile } from '../services/fileStorage.js';
+
+// Mounted at /api/hires/:hireId/comments
+const router = express.Router({ mergeParams: true });
+
+// Comments are signed by their author, so every route needs an account
+router.use(requireAuth);
+
+const MAX_ATTACHMENTS = 5;
+
+const generateId = () => {
+  return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+};
+
+// Attachments are held in memory until the hire is checked, then kept in the file storage under comments/
+const attachmentStorage = multer.memoryStorage();
+
+const attachmentFileFilter = (req, file, cb) => {
+  const allowedTypes = [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/plain',
+    'text/csv',
+    'image/png',
+    'image/jpeg',
+    'image/gif'
+  ];
+
+  if (allowedTypes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Attach PDF, Word, Excel, text, CSV or image files.'), false);
+  }
+};
+
+const uploadAttachments = multer({
+  storage: attachmentStorage,
+  fileFilter: attachmentFileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB per file
+    files: MAX_ATTACHMENTS
+  }
+}).array('attachments', MAX_ATTACHMENTS);
+
+// Multer errors (wrong type, too large, too many) become a 400 instead of the generic error handler
+const handleUpload = (req, res, next) => {
+  uploadAttachments(req, res, (error) => {
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+    next();
+  });
+};
+
+const removeStoredFiles = async (keys) => {
+  for (const key of keys) {
+    await removeStoredFile(key);
+  }
+};
+
+// Accounts that can be mentioned: approved ones, and admins who never need approval
+const getMentionableUsernames = async () => {
+  const users = await executeQuery("SELECT username FROM users WHERE approved = 1 OR role = 'admin'");
+  return users.map(user => user.username);
+};
+
+const toComment = (row, attachments) => ({
+  id: row.id,
+  hire_id: row.hire_id,
+  author: row.author,
+  body: row.body,
+  created_at: row.created_at,
+  edited_at: row.edited_at,
+  attachments: attachments
+    .filter(attachment => attachment.comment_id === row.id)
+    .map(({ id, file_name, mime_type, size, uploaded_at }) => ({ id, file_name, mime_type, size, uploaded_at }))
+});
+
+const findComment = async (hireId, commentId) => {
+  const rows = await executeQuery('SELECT * FROM hire_comments WHERE id = ? AND hire_id = ?', [commentId, hireId]);
+  return rows[0] || null;
+};
+
+const getAttachments = async (commentIds) => {
+  if (commentIds.length === 0) return [];
+  return executeQuery(
+    `SELECT * FROM hire_comment_attachments WHERE comment_id IN (${commentIds.map(() => '?').join(', ')}) ORDER BY uploaded_at ASC`,
+    commentIds
+  );
+};
+
+/**
+ * Notify each newly mentioned account, except the author mentioning themselves
+ */
+const notifyMentions = async ({ hire, commentId, author, mentions, now }) => {
+  for (const username of mentions) {
+    if (username === author) continue;
+    await executeQuery(`
+      INSERT INTO notifications (id, username, type, message, hire_id, comment_id, actor, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `, [generateId(), username, 'mention', `${author} mentioned you on ${hire.name}`, hire.id, commentId, author, now]);
+  }
+};
+
+// Get a hire's comment thread, oldest first
+router.get('/', async (req, res) => {
+  const { hireId } = req.params;
+
+  try {
+    const rows = await executeQuery(
+      'SELECT * FROM hire_comments WHERE hire_id = ? ORDER BY created_at ASC',
+      [hireId]
+    );
+    const attachments = await getAttachments(rows.map(row => row.id));
+    res.json(rows.map(row => toComment(row, attachments)));
+  } catch (error) {
+    logger.api.error(`Error fetching comments for hire ${hireId}:`, error);
+    res.status(500).json({ error: 'Failed to fetch comments', message: error.message });
+  }
+});
+
+// Add a comment, with optional attachments, and notify the accounts it mentions
+router.post('/', handleUpload, async (req, res) => {
+  const { hireId } = req.params;
+  const files = req.files || [];
+  const storedKeys = [];
+
+  try {
+    const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+    if (!body && files.length === 0) {
+      return res.status(400).json({ error: 'Write a comment or attach a file' });
+    }
+
+    const hires = await executeQuery('SELECT id, name FROM hires WHERE id = ?', [hireId]);
+    if (hires.length === 0) {
+      return res.status(404).json({ error: 'New hire not found' });
+    }
+
+    const { username } = req.user;
+    const now = new Date().toISOString();
+    const commentId = generateId();
+
+    await executeQuery(
+      'INSERT INTO hire_comments (id, hire_id, author, body, created_at) VALUES (?, ?, ?, ?, ?)',
+      [commentId, hireId, username, body, now]
+    );
+    for (const file of files) {
+      const extension = path.extname(file.originalname);
+      const stored = await storeFile('comments', `${hireId}_comment_${Date.now()}_${generateId()}${extension}`, file.buffer, file.mimetype);
+      storedKeys.push(stored.key);
+      await executeQuery(`
+        INSERT INTO hire_comment_attachments (id, comment_id, file_name, file_path, content_hash, mime_type, size, uploaded_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      `, [generateId(), commentId, file.originalname, stored.key, stored.hash, file.mimetype, stored.size, now]);
+    }
+
+    const mentions = extractMentions(body, await getMentionableUsernames());
+    await notifyMentions({ hire: hires[0], commentId, author: username, mentions, now });
+
+    logger.api.info(`Comment ${commentId} added to hire ${hireId} by ${username} (${files.length} attachments, ${mentions.length} mentions)`);
+
+    const comment = await findComment(hireId, commentId);
+    res.status(201).json(toComment(comment, await getAttachments([commentId])));
+  } catch (error) {
+    logger.api.error(`Error adding comment to hire ${hireId}:`, error);
+    await removeStoredFiles(storedKeys);
+    res.status(500).json({ error: 'Failed to add comment', message: error.message });
+  }
+});
+
+// Edit the text of one of your own comments. Only accounts mentioned for the first time are notified.
+router.put('/:commentId', async (req, res) => {
+  const { hireId, commentId } = req.params;
+
+  try {
+    const comment = await findComment(hireId, commentId);
+    if (!comment) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+    if (comment.author !== req.user.username) {
+      return res.status(403).json({ error: 'You can only edit your own comments' });
+    }
+
+    const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+    const attachments = await getAttachments([commentId]);
+    if (!body && attachments.length === 0) {
+      return res.status(400).json({ error: 'A comment without attachments needs some text' });
+    }
+
+    const now = new Date().toISOString();
+    await executeQuery('UPDATE hire_comments SET body = ?, edited_at = ? WHERE id = ?', [body, now, commentId]);
+
+    const usernames = await getMentionableUsernames();
+    const previous = extractMentions(comment.body, usernames);
+    const mentions = extractMentions(body, usernames).filter(username => !previous.includes(username));
+    if (mentions.length > 0) {
+      const hires = await executeQuery('SELECT id, name FROM hires WHERE id = ?', [hireId]);
+      await notifyMentions({ hire: hires[0], commentId, author: comment.author, mentions, now });
+    }
+
+    const updated = await findComment(hireId, commentId);
+    res.json(toComment(updated, attachments));
+  } catch (error) {
+    logger.api.error(`Error editing comment ${commentId}:`, error);
+    res.status(500).json({ error: 'Failed to edit comment', message: error.message });
+  }
+});
+
+// Delete a comment and its attachments - its author or an admin
+router.delete('/:commentId', async (req, res) => {
+  const { hireId, commentId } = req.params;
+
+  try {
+    const comment = await findComment(hireId, commentId);
+    if (!comment) {
+      return res.status(404).json({ error: 'Comment not found' });
+    }
+    if (comment.author !== req.user.username && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'You can only delete your own comments' });
+    }
+
+    const attachments = await getAttachments([commentId]);
+    await executeQuery('DELETE FROM hire_comment_attachments WHERE comment_id = ?', [commentId]);
+    await executeQuery('DELETE FROM notifications WHERE comment_id = ?', [commentId]);
+    await executeQuery('DELETE FROM hire_comments WHERE id = ?', [commentId]);
+    await removeStoredFiles(attachments.map(attachment => attachment.file_path));
+
+    logger.api.info(`Comment ${commentId} on hire ${hireId} deleted by ${req.user.username}`);
+    res.json({ success: true, message: 'Comment deleted' });
+  } catch (error) {
+    logger.api.error(`Error deleting comment ${commentId}:`, error);
+    res.status(500).json({ error: 'Failed to delete comment', message: error.message });
+  }
+});
+
+// Download a comment attachment
+router.get('/:commentId/attachments/:attachmentId', async (req, res) => {
+  const { hireId, commentId, attachmentId } = req.params;
+
+  try {
+    const comment = await findComment(hireId, commentId);
+    const attachments = comment
+      ? await executeQuery('SELECT * FROM hire_comment_attachments WHERE id = ? AND comment_id = ?', [attachmentId, commentId])
+      : [];
+    if (attachments.length === 0) {
+      return res.status(404).json({ error: 'Attachment not found' });
+    }
+
+    const attachment = attachments[0];
+    await sendStoredFile(res, {
+      key: attachment.file_path,
+      fileName: attachment.file_name,
+      mimeType: attachment.mime_type,
+      hash: attachment.content_hash
+    });
+  } catch (error) {
+    logger.api.error(`Error downloading attachment ${attachmentId}:`, error);
+    if (res.headersSent) return;
+    if (error.notFound) {
+      return res.status(404).json({ error: 'Attachment file not found in storage' });
+    }
+    res.status(500).json({ error: 'Failed to download attachment', message: error.message });
+  }
+});
+
+export default router;
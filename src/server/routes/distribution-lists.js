@@ -1,6 +1,8 @@
 import express from 'express';
 import exchangeService from '../services/exchangeService.js';
 import { executeQuery } from '../utils/dbConnection.js';
+import { enqueueJob, permanentJobError, registerJobHandler } from '../services/jobQueueService.js';
+import { recordAudit } from '../services/auditService.js';
 import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
@@ -203,7 +205,70 @@ router.post('/test-basic-connection', async (req, res) => {
   }
 });
 
-// Sync user to distribution groups based on assigned mailing lists
+// Queued by POST /sync-user. Adding someone to a group they're already in is harmless, so reruns are safe.
+registerJobHandler('distributionLists.sync', async ({ hireId, mailingLists, performedBy, requestId }, { log }) => {
+  const hires = await executeQuery('SELECT email FROM hires WHERE id = ?', [hireId]);
+  if (hires.length === 0 || !hires[0].email) {
+    throw permanentJobError('Hire not found or has no email address');
+  }
+  const hire = hires[0];
+
+  await ensureExchangeConnection();
+
+  const results = [];
+  const errors = [];
+
+  // Process each mailing list
+  for (const mailingListEmail of mailingLists) {
+    try {
+      const result = await exchangeService.addUserToDistributionGroup(hire.email, mailingListEmail);
+      results.push({
+        distributionGroup: mailingListEmail,
+        ...result
+      });
+      await log(`Added ${hire.email} to ${mailingListEmail}`);
+    } catch (error) {
+      console.error(`Error adding user to ${mailingListEmail}:`, error);
+      errors.push({
+        distributionGroup: mailingListEmail,
+        error: error.message
+      });
+      await log(`Could not add ${hire.email} to ${mailingListEmail}: ${error.message}`, 'warn');
+    }
+  }
+
+  // Update hire record with sync status
+  const syncStatus = errors.length === 0 ? 'Synced' : (results.length > 0 ? 'Partial' : 'Failed');
+  await executeQuery(
+    'UPDATE hires SET distribution_list_sync_status = ?, distribution_list_sync_date = ? WHERE id = ?',
+    [syncStatus, new Date().toISOString(), hireId]
+  );
+
+  await recordAudit({
+    actor: performedBy,
+    requestId,
+    targetId: hireId,
+    action: 'DISTRIBUTION_LISTS_SYNCED',
+    status: errors.length === 0 ? 'SUCCESS' : (results.length > 0 ? 'PARTIAL' : 'FAILED'),
+    message: `Added to ${results.length} of ${mailingLists.length} distribution groups`,
+    details: { added: results.map(r => r.distributionGroup), errors }
+  });
+
+  // Nothing worked - likely Exchange itself, so try again later. Partial syncs are reported, not retried.
+  if (results.length === 0 && errors.length > 0) {
+    throw new Error(`Could not add ${hire.email} to any distribution group`);
+  }
+
+  return {
+    success: true,
+    message: `Sync completed. ${results.length} successful, ${errors.length} failed.`,
+    results,
+    errors,
+    syncStatus
+  };
+});
+
+// Sync user to distribution groups based on assigned mailing lists - queued, returns the job id
 router.post('/sync-user', async (req, res) => {
   try {
     const { hireId, mailingLists } = req.body;
@@ -223,61 +288,22 @@ router.post('/sync-user', async (req, res) => {
       return res.status(400).json({ error: 'Hire does not have an email address' });
     }
 
-    await ensureExchangeConnection();
-
-    const results = [];
-    const errors = [];
-
-    // Process each mailing list
-    for (const mailingListEmail of mailingLists) {
-      try {
-        const result = await exchangeService.addUserToDistributionGroup(hire.email, mailingListEmail);
-        results.push({
-          distributionGroup: mailingListEmail,
-          ...result
-        });
-
-        // AUDIT: Disabled due to schema errors, uncomment after schema fix
-        // const auditLog = {
-        //   id: Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15),
-        //   hire_id: hireId,
-        //   action: 'sync_distribution_group',
-        //   details: `Added to distribution group: ${mailingListEmail}`,
-        //   performed_by: req.user?.username || 'System',
-        //   created_at: new Date().toISOString()
-        // };
-
-        // await executeQuery(
-        //   'INSERT INTO audit_logs (id, hire_id, action, details, performed_by, created_at) VALUES (?, ?, ?, ?, ?, ?)',
-        //   [auditLog.id, auditLog.hire_id, auditLog.action, auditLog.details, auditLog.performed_by, auditLog.created_at]
-        // );
-
-      } catch (error) {
-        console.error(`Error adding user to ${mailingListEmail}:`, error);
-        errors.push({
-          distributionGroup: mailingListEmail,
-          error: error.message
-        });
-      }
-    }
-
-    // Update hire record with sync status
-    const syncStatus = errors.length === 0 ? 'Synced' : (results.length > 0 ? 'Partial' : 'Failed');
-    await executeQuery(
-      'UPDATE hires SET distribution_list_sync_status = ?, distribution_list_sync_date = ? WHERE id = ?',
-      [syncStatus, new Date().toISOString(), hireId]
-    );
+    const performedBy = req.user?.username || 'system';
+    const jobId = await enqueueJob('distributionLists.sync', { hireId, mailingLists, performedBy, requestId: req.id }, {
+      description: `Sync ${hire.email} to ${mailingLists.length} distribution list(s)`,
+      hireId,
+      createdBy: performedBy
+    });
 
-    res.json({
+    res.status(202).json({
       success: true,
-      message: `Sync completed. ${results.length} successful, ${errors.length} failed.`,
-      results,
-      errors,
-      syncStatus
+      queued: true,
+      jobId,
+      message: `Distribution list sync for ${hire.email} has been queued`
     });
 
   } catch (error) {
-    console.error('Error syncing user to distribution groups:', error);
+    console.error('Error queueing distribution group sync:', error);
     res.status(500).json({ error: 'Failed to sync user to distribution groups', message: error.message });
   }
 });
@@ -315,22 +341,6 @@ router.post('/remove-user', async (req, res) => {
           distributionGroup: mailingListEmail,
           ...result
         });
-
-        // AUDIT: Disabled due to schema errors, uncomment after schema fix
-        // const auditLog = {
-        //   id: Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15),
-        //   hire_id: hireId,
-        //   action: 'remove_distribution_group',
-        //   details: `Removed from distribution group: ${mailingListEmail}`,
-        //   performed_by: req.user?.username || 'System',
-        //   created_at: new Date().toISOString()
-        // };
-
-        // await executeQuery(
-        //   'INSERT INTO audit_logs (id, hire_id, action, details, performed_by, created_at) VALUES (?, ?, ?, ?, ?, ?)',
-        //   [auditLog.id, auditLog.hire_id, auditLog.action, auditLog.details, auditLog.performed_by, auditLog.created_at]
-        // );
-
       } catch (error) {
         console.error(`Error removing user from ${mailingListEmail}:`, error);
         errors.push({
@@ -340,6 +350,19 @@ router.post('/remove-user', async (req, res) => {
       }
     }
 
+    try {
+      await recordAudit({
+        req,
+        targetId: hireId,
+        action: 'DISTRIBUTION_LISTS_REMOVED',
+        status: errors.length === 0 ? 'SUCCESS' : (results.length > 0 ? 'PARTIAL' : 'FAILED'),
+        message: `Removed from ${results.length} of ${mailingLists.length} distribution groups`,
+        details: { removed: results.map(r => r.distributionGroup), errors }
+      });
+    } catch (auditError) {
+      console.error('Error writing distribution list removal audit log:', auditError);
+    }
+
     res.json({
       success: true,
       message: `Removal completed. ${results.length} successful, ${errors.length} failed.`,
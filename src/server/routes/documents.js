@@ -0,0 +1,261 @@
+import express from 'express';
+import path from 'path';
+import multer from 'multer';
+import { executeQuery } from '../utils/dbConnection.js';
+import logger from '../utils/logger.js';
+import { requireAuth } from '../middleware/authMiddleware.js';
+import { getDocumentTypes, missingDocumentTypes } from '../utils/documentTypes.js';
+import { storeFile, removeStoredFile, sendStoredFile } from '../services/fileStorage.js';
+import { recordAudit } from '../services/auditService.js';
+
+// Mounted at /api/hires/:hireId/documents
+const router = express.Router({ mergeParams: true });
+
+// Uploads are recorded against their uploader, so every route needs an account
+router.use(requireAuth);
+
+const generateId = () => {
+  return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+};
+
+// Documents are held in memory until the type and hire are checked, then kept in the file storage under documents/
+const documentStorage = multer.memoryStorage();
+
+const documentFileFilter = (req, file, cb) => {
+  const allowedTypes = [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'image/png',
+    'image/jpeg'
+  ];
+
+  if (allowedTypes.includes(file.mimetype)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Invalid file type. Upload a PDF, Word document or a PNG/JPEG scan.'), false);
+  }
+};
+
+const uploadDocument = multer({
+  storage: documentStorage,
+  fileFilter: documentFileFilter,
+  limits: {
+    fileSize: 10 * 1024 * 1024 // 10MB limit
+  }
+}).single('document');
+
+// Multer errors (wrong type, too large) become a 400 instead of the generic error handler
+const handleUpload = (req, res, next) => {
+  uploadDocument(req, res, (error) => {
+    if (error) {
+      return res.status(400).json({ error: error.message });
+    }
+    next();
+  });
+};
+
+const toStoredFile = (document) => ({
+  key: document.file_path,
+  fileName: document.file_name,
+  mimeType: document.mime_type,
+  hash: document.content_hash
+});
+
+const toDocument = ({ id, hire_id, document_type, file_name, mime_type, size, uploaded_by, uploaded_at }) => ({
+  id, hire_id, document_type, file_name, mime_type, size, uploaded_by, uploaded_at
+});
+
+// Hires in the trash keep their documents but can't be worked on
+const findHire = async (hireId) => {
+  const hires = await executeQuery('SELECT id, name FROM hires WHERE id = ? AND deleted_at IS NULL', [hireId]);
+  return hires[0] || null;
+};
+
+const findDocument = async (hireId, documentId) => {
+  const rows = await executeQuery('SELECT * FROM hire_documents WHERE id = ? AND hire_id = ?', [documentId, hireId]);
+  return rows[0] || null;
+};
+
+// Get a hire's documents with the configured types and the required ones still missing
+router.get('/', async (req, res) => {
+  const { hireId } = req.params;
+
+  try {
+    const hire = await findHire(hireId);
+    if (!hire) {
+      return res.status(404).json({ error: 'New hire not found' });
+    }
+
+    const rows = await executeQuery(
+      'SELECT * FROM hire_documents WHERE hire_id = ? ORDER BY uploaded_at DESC',
+      [hireId]
+    );
+    const types = getDocumentTypes();
+
+    res.json({
+      documents: rows.map(toDocument),
+      types,
+      missing: missingDocumentTypes(types, rows)
+    });
+  } catch (error) {
+    logger.api.error(`Error fetching documents for hire ${hireId}:`, error);
+    res.status(500).json({ error: 'Failed to fetch documents', message: error.message });
+  }
+});
+
+// Upload a document of one of the configured types. A type can hold several files, e.g. both sides of an ID card.
+router.post('/', handleUpload, async (req, res) => {
+  const { hireId } = req.params;
+  let stored;
+
+  try {
+    if (!req.file) {
+      return res.status(400).json({ error: 'No document uploaded' });
+    }
+
+    const type = getDocumentTypes().find(documentType => documentType.key === req.body.document_type);
+    if (!type) {
+      return res.status(400).json({ error: `Unknown document type "${req.body.document_type || ''}"` });
+    }
+
+    const hire = await findHire(hireId);
+    if (!hire) {
+      return res.status(404).json({ error: 'New hire not found' });
+    }
+
+    const documentId = generateId();
+    const uploadedBy = req.user.username;
+    const now = new Date().toISOString();
+
+    const extension = path.extname(req.file.originalname);
+    stored = await storeFile('documents', `${hireId}_document_${Date.now()}_${generateId()}${extension}`, req.file.buffer, req.file.mimetype);
+
+    await executeQuery(`
+      INSERT INTO hire_documents (id, hire_id, document_type, file_name, file_path, content_hash, mime_type, size, uploaded_by, uploaded_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [documentId, hireId, type.key, req.file.originalname, stored.key, stored.hash, req.file.mimetype, stored.size, uploadedBy, now]);
+
+    await recordAudit({
+      req,
+      targetId: hireId,
+      action: 'DOCUMENT_UPLOAD',
+      message: `${type.label} uploaded: ${req.file.originalname}`,
+      details: {
+        documentId,
+        documentType: type.key,
+        filename: req.file.originalname,
+        size: req.file.size
+      }
+    });
+
+    logger.api.info(`${type.label} uploaded for hire ${hireId} by ${uploadedBy}: ${req.file.originalname}`);
+
+    res.status(201).json(toDocument(await findDocument(hireId, documentId)));
+  } catch (error) {
+    logger.api.error(`Error uploading document for hire ${hireId}:`, error);
+    await removeStoredFile(stored?.key);
+    res.status(500).json({ error: 'Failed to upload document', message: error.message });
+  }
+});
+
+// Download a document
+router.get('/:documentId/download', async (req, res) => {
+  const { hireId, documentId } = req.params;
+
+  try {
+    const document = (await findHire(hireId)) ? await findDocument(hireId, documentId) : null;
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    await sendStoredFile(res, toStoredFile(document));
+
+    // Logged once the file has been sent
+    await recordAudit({
+      req,
+      targetId: hireId,
+      action: 'DOCUMENT_DOWNLOAD',
+      message: `Document downloaded: ${document.file_name}`,
+      details: {
+        documentId,
+        documentType: document.document_type
+      }
+    });
+  } catch (error) {
+    logger.api.error(`Error downloading document ${documentId}:`, error);
+    if (res.headersSent) return;
+    if (error.notFound) {
+      return res.status(404).json({ error: 'Document file not found in storage' });
+    }
+    res.status(500).json({ error: 'Failed to download document', message: error.message });
+  }
+});
+
+// Preview a document inline - PDFs and image scans only, anything else is sent as a download
+router.get('/:documentId/preview', async (req, res) => {
+  const { hireId, documentId } = req.params;
+
+  try {
+    const document = (await findHire(hireId)) ? await findDocument(hireId, documentId) : null;
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    const inline = document.mime_type === 'application/pdf' || document.mime_type?.startsWith('image/');
+    await sendStoredFile(res, toStoredFile(document), { inline });
+
+    // Logged once the file has been sent
+    await recordAudit({
+      req,
+      targetId: hireId,
+      action: 'DOCUMENT_PREVIEW',
+      message: `Document previewed: ${document.file_name}`,
+      details: {
+        documentId,
+        documentType: document.document_type
+      }
+    });
+  } catch (error) {
+    logger.api.error(`Error previewing document ${documentId}:`, error);
+    if (res.headersSent) return;
+    if (error.notFound) {
+      return res.status(404).json({ error: 'Document file not found in storage' });
+    }
+    res.status(500).json({ error: 'Failed to preview document', message: error.message });
+  }
+});
+
+// Delete a document and its file
+router.delete('/:documentId', async (req, res) => {
+  const { hireId, documentId } = req.params;
+
+  try {
+    const document = (await findHire(hireId)) ? await findDocument(hireId, documentId) : null;
+    if (!document) {
+      return res.status(404).json({ error: 'Document not found' });
+    }
+
+    await executeQuery('DELETE FROM hire_documents WHERE id = ?', [documentId]);
+    await removeStoredFile(document.file_path);
+
+    await recordAudit({
+      req,
+      targetId: hireId,
+      action: 'DOCUMENT_DELETE',
+      message: `Document deleted: ${document.file_name}`,
+      details: {
+        documentId,
+        documentType: document.document_type
+      }
+    });
+
+    logger.api.info(`Document ${documentId} on hire ${hireId} deleted by ${req.user.username}`);
+    res.json({ success: true, message: 'Document deleted' });
+  } catch (error) {
+    logger.api.error(`Error deleting document ${documentId}:`, error);
+    res.status(500).json({ error: 'Failed to delete document', message: error.message });
+  }
+});
+
+export default router;
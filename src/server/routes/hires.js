@@ -1,12 +1,24 @@
 import express from 'express';
-import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { executeQuery } from '../utils/dbConnection.js';
 import logger from '../utils/logger.js';
+import { getChecklistSettings, calculateProgress, buildProgressSql } from '../utils/progressCalculator.js';
+import { calculateDeadlines, buildOverdueSql } from '../utils/slaDeadlines.js';
+import { diffHire, getValuesAtVersion } from '../utils/hireHistory.js';
+import { requireAdmin, requireAuth, requireRole } from '../middleware/authMiddleware.js';
+import { sealHirePassword, omitCredentials, toPublicHire, revealHirePassword, purgeHirePassword } from '../services/credentialVaultService.js';
+import { createDuplicateDetector, DUPLICATE_FIELDS } from '../utils/duplicateDetection.js';
+import { parseImportFile, suggestMapping, validateMapping, applyMapping, IMPORT_FIELDS, REQUIRED_IMPORT_FIELDS } from '../utils/importParser.js';
+import { planImport, commitImport, rollbackImport, getImportBatches, getImportBatch, IMPORT_MODES } from '../services/importService.js';
+import { getCustomFields, visibleCustomFields, readCustomValues, mergeCustomValues, redactAuditLog, CUSTOM_FIELD_PREFIX } from '../utils/customFields.js';
+import { getTrashSettings, purgeHires } from '../services/trashService.js';
+import { getDocumentTypes, missingDocumentTypes } from '../utils/documentTypes.js';
+import { checkSrfReview, srfStatusFor } from '../utils/srfReview.js';
+import { getSrfTemplate, formatSrfNumber, buildSrfPdf } from '../utils/srfPdf.js';
+import { storeFile, removeStoredFile, sendStoredFile } from '../services/fileStorage.js';
+import { recordAudit, getAuditTrail, AUDIT_STATUSES } from '../services/auditService.js';
 import multer from 'multer';
-import csv from 'csv-parser';
-import { Readable } from 'stream';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -17,24 +29,8 @@ const router = express.Router();
 const storage = multer.memoryStorage();
 const upload = multer({ storage: storage });
 
-// Set up multer for SRF document uploads with disk storage
-const srfStorage = multer.diskStorage({
-  destination: function (req, file, cb) {
-    const uploadDir = path.join(process.cwd(), 'uploads', 'srf');
-    // Create directory if it doesn't exist
-    if (!fs.existsSync(uploadDir)) {
-      fs.mkdirSync(uploadDir, { recursive: true });
-    }
-    cb(null, uploadDir);
-  },
-  filename: function (req, file, cb) {
-    const { id } = req.params;
-    const timestamp = Date.now();
-    const extension = path.extname(file.originalname);
-    const filename = `${id}_srf_${timestamp}${extension}`;
-    cb(null, filename);
-  }
-});
+// SRF uploads are held in memory until the hire is checked, then kept in the file storage under srf/
+const srfStorage = multer.memoryStorage();
 
 // File filter for SRF documents
 const srfFileFilter = (req, file, cb) => {
@@ -59,65 +55,432 @@ const uploadSrf = multer({
   }
 });
 
+// Every uploaded SRF is kept as a version, newest first; the hire's srf_document_* columns mirror the newest
+const getSrfVersions = (hireId) => executeQuery(
+  'SELECT * FROM srf_versions WHERE hire_id = ? ORDER BY version DESC',
+  [hireId]
+);
+
+const toSrfVersion = ({ file_path, ...version }) => version;
+
+// Stream an SRF version from the file storage, with the hash it was stored with
+const sendSrfVersion = (res, version, options) => sendStoredFile(res, {
+  key: version.file_path,
+  fileName: version.file_name,
+  hash: version.content_hash
+}, options);
+
+// Keep a new SRF file as the hire's newest version. It isn't approved yet, so neither is the hire's SRF.
+// The version number is taken inside the INSERT; (hire_id, version) is unique, so if another upload
+// claims the same number first this one just tries again.
+const addSrfVersion = async (hireId, file, uploadedBy, now) => {
+  const versionId = generateId();
+  let version;
+  for (let attempt = 0; attempt < 3 && version === undefined; attempt++) {
+    try {
+      const inserted = await executeQuery(`
+        INSERT INTO srf_versions (id, hire_id, version, file_name, file_path, content_hash, size, uploaded_by, uploaded_at, status)
+        OUTPUT inserted.version
+        SELECT ?, ?, COALESCE(MAX(version), 0) + 1, ?, ?, ?, ?, ?, ?, 'submitted'
+        FROM srf_versions WHERE hire_id = ?
+      `, [versionId, hireId, file.name, file.key, file.hash, file.size, uploadedBy, now, hireId]);
+      version = inserted[0].version;
+    } catch (error) {
+      if (error.number !== 2627 && error.number !== 2601) throw error;
+      logger.api.warn(`SRF version for hire ${hireId} was taken by another upload, retrying`);
+    }
+  }
+  if (version === undefined) throw new Error(`Could not add an SRF version for hire ${hireId}`);
+  
+  await executeQuery(`
+    UPDATE hires 
+    SET srf_document_path = ?, 
+        srf_document_name = ?, 
+        srf_document_uploaded_at = ?,
+        status_srf = 0,
+        updated_at = ?
+    WHERE id = ? AND NOT EXISTS (SELECT 1 FROM srf_versions WHERE hire_id = ? AND version > ?)
+  `, [file.key, file.name, now, now, hireId, hireId, version]);
+  
+  return { versionId, version };
+};
+
+// Next SRF No. for the year. The UPDATE ... OUTPUT claims a number atomically; the first number of
+// a year inserts the row, and a clash with another request doing the same just tries again.
+const allocateSrfNumber = async (numberFormat, year) => {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const claimed = await executeQuery(`
+      UPDATE srf_sequences SET last_number = last_number + 1
+      OUTPUT inserted.last_number
+      WHERE year = ?
+    `, [year]);
+    if (claimed.length > 0) return formatSrfNumber(numberFormat, year, claimed[0].last_number);
+    
+    try {
+      await executeQuery('INSERT INTO srf_sequences (year, last_number) VALUES (?, 1)', [year]);
+      return formatSrfNumber(numberFormat, year, 1);
+    } catch (error) {
+      logger.api.warn(`SRF sequence for ${year} was started by another request, retrying: ${error.message}`);
+    }
+  }
+  throw new Error(`Could not allocate an SRF number for ${year}`);
+};
+
 // Generate a unique ID
 const generateId = () => {
   return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 };
 
-// Get all hires
+// Columns the hires list can be sorted by
+const SORTABLE_COLUMNS = [
+  'name', 'title', 'department', 'email', 'on_site_date', 'microsoft_365_license',
+  'ict_support_pic', 'progress_percentage', 'overdue_count', 'created_at', 'updated_at'
+];
+
+// Free-text column filters, keyed by query parameter
+const TEXT_FILTERS = {
+  name: 'name',
+  title: 'title',
+  department: 'department',
+  email: 'email',
+  ictSupportPic: 'ict_support_pic'
+};
+
+// Progress filter values from the hires table, as SQL conditions on progress_percentage
+const PROGRESS_FILTERS = {
+  'not-started': 'progress_percentage = 0',
+  'in-progress': 'progress_percentage > 0 AND progress_percentage < 100',
+  'completed': 'progress_percentage = 100',
+  'at-risk': 'progress_percentage < 50',
+  'nearly-done': 'progress_percentage >= 75',
+  '0-25': 'progress_percentage BETWEEN 0 AND 25',
+  '26-50': 'progress_percentage BETWEEN 26 AND 50',
+  '51-75': 'progress_percentage BETWEEN 51 AND 75',
+  '76-100': 'progress_percentage BETWEEN 76 AND 100'
+};
+
+// Deadline filter values, as SQL conditions on overdue_count
+const SLA_FILTERS = {
+  'overdue': 'overdue_count > 0',
+  'on-track': 'overdue_count = 0'
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 1000;
+
+// Fields derived from the checklist on read - never written back to the hires table
+const COMPUTED_FIELDS = ['progress', 'progress_percentage', 'deadlines', 'overdue_count', 'has_password', 'missing_documents'];
+
+// Set only by deleting and restoring a hire, never by a create or update
+const TRASH_FIELDS = ['deleted_at', 'deleted_by'];
+
+// Set only by the SRF workflow - reviewing a version or generating the form - never by a create, update or revert
+const SRF_FIELDS = ['status_srf', 'srf_number'];
+
+const dropSrfFields = (data) => {
+  SRF_FIELDS.forEach(field => delete data[field]);
+};
+
+// Attach the checklist breakdown and deadlines for a hire; progress_percentage and overdue_count always match them.
+// Credentials are stripped here as every hire response goes through this.
+const withProgress = (hire, checklists = getChecklistSettings()) => {
+  const progress = calculateProgress(hire, checklists);
+  const deadlines = calculateDeadlines(hire, checklists, progress);
+  return {
+    ...toPublicHire(hire),
+    progress,
+    progress_percentage: progress.percentage,
+    deadlines,
+    overdue_count: deadlines.filter(deadline => deadline.overdue).length
+  };
+};
+
+// Custom fields the requester's role may see and edit
+const requestCustomFields = (req) => visibleCustomFields(getCustomFields(), req.user ? req.user.role : null);
+
+// Stored custom values as an object of the visible fields only - every hire response goes through this
+const withCustomFields = (hire, fields) => ({ ...hire, custom_fields: readCustomValues(hire.custom_fields, fields) });
+
+// Attach the required document types each hire has yet to upload, with one query for the whole page
+const withMissingDocuments = async (hires) => {
+  if (hires.length === 0) return hires;
+  const types = getDocumentTypes();
+  const documents = await executeQuery(
+    `SELECT hire_id, document_type FROM hire_documents WHERE hire_id IN (${hires.map(() => '?').join(', ')})`,
+    hires.map(hire => hire.id)
+  );
+  return hires.map(hire => ({
+    ...hire,
+    missing_documents: missingDocumentTypes(types, documents.filter(document => document.hire_id === hire.id))
+      .map(({ key, label }) => ({ key, label }))
+  }));
+};
+
+// Escape LIKE wildcards so user input is matched literally
+const escapeLike = (value) => String(value).replace(/[[%_]/g, (char) => `[${char}]`);
+
+// Build the WHERE clause and parameters for the hires list query
+const buildHiresFilter = (query) => {
+  // Hires in the trash are only listed by GET /trash
+  const conditions = ['deleted_at IS NULL'];
+  const params = [];
+
+  if (query.q) {
+    const term = `%${escapeLike(query.q)}%`;
+    conditions.push('(name LIKE ? OR email LIKE ? OR department LIKE ? OR title LIKE ?)');
+    params.push(term, term, term, term);
+  }
+
+  for (const [param, column] of Object.entries(TEXT_FILTERS)) {
+    if (query[param]) {
+      conditions.push(`${column} LIKE ?`);
+      params.push(`%${escapeLike(query[param])}%`);
+    }
+  }
+
+  if (query.license) {
+    if (query.license.toLowerCase() === 'none') {
+      conditions.push("(microsoft_365_license IS NULL OR microsoft_365_license IN ('', 'None'))");
+    } else {
+      conditions.push('microsoft_365_license = ?');
+      params.push(query.license);
+    }
+  }
+
+  if (query.progress && PROGRESS_FILTERS[query.progress]) {
+    conditions.push(`(${PROGRESS_FILTERS[query.progress]})`);
+  }
+
+  if (query.sla && SLA_FILTERS[query.sla]) {
+    conditions.push(`(${SLA_FILTERS[query.sla]})`);
+  }
+
+  // On-site date range, inclusive, as YYYY-MM-DD - used by the calendar
+  if (ISO_DATE.test(query.onSiteFrom || '')) {
+    conditions.push('on_site_date >= ?');
+    params.push(query.onSiteFrom);
+  }
+  if (ISO_DATE.test(query.onSiteTo || '')) {
+    conditions.push('on_site_date <= ?');
+    params.push(query.onSiteTo);
+  }
+
+  return {
+    where: `WHERE ${conditions.join(' AND ')}`,
+    params
+  };
+};
+
+// Get hires - paged, filtered and sorted on the server. Audit logs are loaded per hire via GET /:id/logs
 router.get('/', async (req, res) => {
   try {
-    logger.api.info('GET /hires - Fetching all hires');
-    // Query all hires from database
+    const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    
+    // sort is "column" or "column:direction", e.g. "on_site_date:desc"
+    const [sortColumn, sortDirection] = String(req.query.sort || 'created_at:desc').split(':');
+    const orderBy = SORTABLE_COLUMNS.includes(sortColumn) ? sortColumn : 'created_at';
+    const direction = sortDirection?.toLowerCase() === 'asc' ? 'ASC' : 'DESC';
+    
+    logger.api.info(`GET /hires - page ${page}, pageSize ${pageSize}, sort ${orderBy} ${direction}`);
+    
+    const { where, params } = buildHiresFilter(req.query);
+    const checklists = getChecklistSettings();
+    const customFields = requestCustomFields(req);
+    const progress = buildProgressSql(checklists);
+    const overdue = buildOverdueSql(checklists);
+    const source = `(SELECT *, ${progress.sql} AS progress_percentage, ${overdue.sql} AS overdue_count FROM hires) AS h`;
+    const sourceParams = [...progress.params, ...overdue.params];
+    
+    // Progress and deadline placeholders come first as they appear in the source subquery
+    const countResult = await executeQuery(`
+      SELECT COUNT(*) AS total FROM ${source} ${where}
+    `, [...sourceParams, ...params]);
+    const total = countResult[0]?.total || 0;
+    
+    // id is a tie-breaker so paging is stable when the sort column has duplicates
     const hires = await executeQuery(`
-      SELECT * FROM hires ORDER BY created_at DESC
-    `);
-    logger.api.info(`Retrieved ${hires.length} hires from database`);
+      SELECT * FROM ${source}
+      ${where}
+      ORDER BY ${orderBy} ${direction}, id ASC
+      OFFSET ? ROWS FETCH NEXT ? ROWS ONLY
+    `, [...sourceParams, ...params, (page - 1) * pageSize, pageSize]);
     
-    // Get audit logs for each hire
-    for (const hire of hires) {
-      const auditLogs = await executeQuery(`
-        SELECT * FROM audit_logs WHERE new_hire_id = ? ORDER BY timestamp DESC
-      `, [hire.id]);
-      
-      hire.audit_logs = auditLogs;
-      logger.api.debug(`Retrieved ${auditLogs.length} audit logs for hire ${hire.id}`);
-    }
+    logger.api.info(`Retrieved ${hires.length} of ${total} hires from database`);
     
-    res.json(hires);
+    res.json({
+      data: await withMissingDocuments(hires.map(hire => withCustomFields(withProgress(hire, checklists), customFields))),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize)
+    });
   } catch (error) {
     logger.api.error('Error fetching hires from database:', error);
     res.status(500).json({ error: 'Failed to get hires', message: error.message });
   }
 });
 
+// Get hires in the trash, most recently deleted first - BEFORE the /:id route
+router.get('/trash', requireAuth, async (req, res) => {
+  try {
+    const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    
+    const conditions = ['deleted_at IS NOT NULL'];
+    const params = [];
+    if (req.query.q) {
+      const term = `%${escapeLike(req.query.q)}%`;
+      conditions.push('(name LIKE ? OR email LIKE ? OR department LIKE ?)');
+      params.push(term, term, term);
+    }
+    const where = `WHERE ${conditions.join(' AND ')}`;
+    
+    const countResult = await executeQuery(`SELECT COUNT(*) AS total FROM hires ${where}`, params);
+    const total = countResult[0]?.total || 0;
+    
+    const rows = await executeQuery(`
+      SELECT id, name, email, department, title, on_site_date, deleted_at, deleted_by FROM hires
+      ${where}
+      ORDER BY deleted_at DESC, id ASC
+      OFFSET ? ROWS FETCH NEXT ? ROWS ONLY
+    `, [...params, (page - 1) * pageSize, pageSize]);
+    
+    // When each hire will be purged, if a retention period is set
+    const { retentionDays } = getTrashSettings();
+    const data = rows.map(hire => ({
+      ...hire,
+      purge_at: retentionDays > 0
+        ? new Date(new Date(hire.deleted_at).getTime() + retentionDays * 86400000).toISOString()
+        : null
+    }));
+    
+    res.json({
+      data,
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+      retentionDays
+    });
+  } catch (error) {
+    logger.api.error('Error fetching deleted hires:', error);
+    res.status(500).json({ error: 'Failed to get deleted hires', message: error.message });
+  }
+});
+
+// Permanently remove hires from the trash, with their audit logs and comments - admin only
+router.post('/trash/purge', requireAdmin, async (req, res) => {
+  const { ids } = req.body;
+  
+  if (!Array.isArray(ids) || ids.length === 0) {
+    return res.status(400).json({ error: 'Invalid or empty IDs array' });
+  }
+  
+  try {
+    const purged = await purgeHires(ids, req.user.username);
+    res.json({ success: true, purged, message: `${purged} hire(s) permanently deleted` });
+  } catch (error) {
+    logger.api.error('Error purging hires from the trash:', error);
+    res.status(500).json({ error: 'Failed to purge hires', message: error.message });
+  }
+});
+
+// Get dashboard counts without loading every hire - moved BEFORE the /:id route to prevent route masking
+router.get('/summary', async (req, res) => {
+  try {
+    // Completed means the same as the list's "completed" progress filter, from the per-grade checklists
+    const progress = buildProgressSql(getChecklistSettings());
+    const totals = await executeQuery(`
+      SELECT
+        COUNT(*) AS total,
+        SUM(CASE WHEN ${PROGRESS_FILTERS.completed} THEN 1 ELSE 0 END) AS completed,
+        SUM(CASE WHEN account_creation_status = 'Active' THEN 1 ELSE 0 END) AS accounts_created,
+        SUM(CASE WHEN laptop_ready IN ('Ready', 'Done') THEN 1 ELSE 0 END) AS laptops_ready,
+        SUM(CASE WHEN license_assigned = 1 THEN 1 ELSE 0 END) AS licenses_assigned,
+        SUM(CASE WHEN microsoft_365_license IS NOT NULL AND microsoft_365_license NOT IN ('', 'None') THEN 1 ELSE 0 END) AS m365_licenses,
+        SUM(CASE WHEN on_site_date >= CAST(GETDATE() AS DATE) AND on_site_date <= DATEADD(day, 7, CAST(GETDATE() AS DATE)) THEN 1 ELSE 0 END) AS upcoming
+      FROM (SELECT *, ${progress.sql} AS progress_percentage FROM hires) AS h
+      WHERE deleted_at IS NULL
+    `, progress.params);
+    
+    const departments = await executeQuery(`
+      SELECT TOP 5 department, COUNT(*) AS count
+      FROM hires
+      WHERE deleted_at IS NULL
+      GROUP BY department
+      ORDER BY COUNT(*) DESC
+    `);
+    
+    const summary = totals[0] || {};
+    res.json({
+      total: summary.total || 0,
+      completed: summary.completed || 0,
+      accountsCreated: summary.accounts_created || 0,
+      laptopsReady: summary.laptops_ready || 0,
+      licensesAssigned: summary.licenses_assigned || 0,
+      m365Licenses: summary.m365_licenses || 0,
+      upcoming: summary.upcoming || 0,
+      topDepartments: departments
+    });
+  } catch (error) {
+    logger.api.error('Error fetching hires summary from database:', error);
+    res.status(500).json({ error: 'Failed to get hires summary', message: error.message });
+  }
+});
+
+// Get hires with overdue checklist items for the dashboard, soonest arrival first - BEFORE the /:id route
+router.get('/overdue', async (req, res) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 10, 1), 100);
+    const checklists = getChecklistSettings();
+    const overdue = buildOverdueSql(checklists);
+    const rows = await executeQuery(`
+      SELECT * FROM (SELECT *, ${overdue.sql} AS overdue_count FROM hires) AS h
+      WHERE overdue_count > 0 AND deleted_at IS NULL
+      ORDER BY on_site_date ASC, id ASC
+    `, overdue.params);
+
+    const hires = rows.map(hire => withProgress(hire, checklists));
+
+    // Overdue count per checklist item, so the card shows which step is behind
+    const byItem = new Map();
+    for (const hire of hires) {
+      for (const deadline of hire.deadlines.filter(item => item.overdue)) {
+        const entry = byItem.get(deadline.id) || { id: deadline.id, label: deadline.label, count: 0 };
+        entry.count++;
+        byItem.set(deadline.id, entry);
+      }
+    }
+
+    res.json({
+      total: hires.length,
+      overdueItems: hires.reduce((sum, hire) => sum + hire.overdue_count, 0),
+      byItem: [...byItem.values()].sort((a, b) => b.count - a.count),
+      hires: hires.slice(0, limit).map(hire => ({
+        id: hire.id,
+        name: hire.name,
+        department: hire.department,
+        on_site_date: hire.on_site_date,
+        deadlines: hire.deadlines.filter(item => item.overdue)
+      }))
+    });
+  } catch (error) {
+    logger.api.error('Error fetching overdue hires from database:', error);
+    res.status(500).json({ error: 'Failed to get overdue hires', message: error.message });
+  }
+});
+
 // Download CSV template - moved BEFORE the /:id route to prevent route masking
 router.get('/template', (req, res) => {
   try {
     logger.api.info('GET /hires/template - Generating CSV template');
     
-    // Define the CSV headers based on required fields including position_grade
-    const headers = [
-      'name',
-      'title',
-      'position_grade',  // Added new field
-      'department',
-      'email',
-      'direct_report',
-      'phone_number',
-      'mailing_list',
-      'account_creation_status',
-      'username',
-      'password',
-      'on_site_date',
-      'ict_support_pic',
-      'remarks',
-      'license_assigned',
-      'status_srf',
-      'microsoft_365_license',
-      'laptop_ready',
-      'note'
-    ];
+    // Same columns the importer maps automatically, then the custom fields this user can fill in
+    const customFields = requestCustomFields(req);
+    const headers = [...IMPORT_FIELDS, ...customFields.map(field => `${CUSTOM_FIELD_PREFIX}${field.key}`)];
     
     // Create CSV content with headers
     let csvContent = headers.join(',') + '\n';
@@ -131,6 +494,7 @@ router.get('/template', (req, res) => {
       'john.doe@example.com',
       'Jane Smith',
       '555-1234',
+      'MTI000123',
       'engineering,all-staff', 
       'Pending',
       'john.doe',
@@ -142,7 +506,8 @@ router.get('/template', (req, res) => {
       'true',
       'false',
       'In Progress',
-      'Needs dual monitors'
+      'Needs dual monitors',
+      ...customFields.map(field => field.type === 'select' ? field.options[0] : field.type === 'boolean' ? 'false' : '')
     ];
     
     // Properly format CSV row with quotes around fields that contain commas
@@ -173,7 +538,7 @@ router.get('/:id', async (req, res) => {
   
   try {
     const hires = await executeQuery(`
-      SELECT * FROM hires WHERE id = ?
+      SELECT * FROM hires WHERE id = ? AND deleted_at IS NULL
     `, [id]);
     
     if (hires.length === 0) {
@@ -185,14 +550,14 @@ router.get('/:id', async (req, res) => {
     console.log(`[Backend] Retrieved hire: ${hire.name} (${hire.id})`);
     
     // Get audit logs for this hire
-    const auditLogs = await executeQuery(`
-      SELECT * FROM audit_logs WHERE new_hire_id = ? ORDER BY timestamp DESC
-    `, [id]);
+    const auditLogs = await getAuditTrail(id);
     
     console.log(`[Backend] Retrieved ${auditLogs.length} audit logs for hire ${id}`);
-    hire.audit_logs = auditLogs;
+    const customFields = requestCustomFields(req);
+    hire.audit_logs = auditLogs.map(log => redactAuditLog(log, customFields));
     
-    res.json(hire);
+    const [withDocuments] = await withMissingDocuments([withCustomFields(withProgress(hire), customFields)]);
+    res.json(withDocuments);
   } catch (error) {
     console.error(`[Backend] Error fetching hire ${id} from database:`, error);
     res.status(500).json({ error: 'Failed to get hire', message: error.message });
@@ -203,7 +568,7 @@ router.get('/:id', async (req, res) => {
 router.post('/', async (req, res) => {
   const hireData = req.body;
   logger.api.info('POST /hires - Creating new hire');
-  logger.api.debug('Received hire data:', JSON.stringify(hireData, null, 2));
+  logger.api.debug('Received hire data:', JSON.stringify(omitCredentials(hireData), null, 2));
   
   if (!hireData.name) {
     logger.api.warn('Validation error: Name is required');
@@ -215,7 +580,29 @@ router.post('/', async (req, res) => {
     return res.status(400).json({ error: 'Position Grade is required' });
   }
   
+  const customFields = requestCustomFields(req);
+  const customValues = mergeCustomValues(null, hireData.custom_fields, customFields);
+  if (customValues.error) {
+    logger.api.warn(`Validation error: ${customValues.error}`);
+    return res.status(400).json({ error: customValues.error });
+  }
+  if (customValues.stored) {
+    hireData.custom_fields = customValues.stored;
+  } else {
+    delete hireData.custom_fields;
+  }
+  
   try {
+    // Stop at likely duplicates unless the user has already confirmed this is a different person
+    if (req.query.allowDuplicate !== 'true') {
+      const existingHires = await executeQuery(`SELECT ${DUPLICATE_FIELDS.join(', ')} FROM hires WHERE deleted_at IS NULL`);
+      const duplicates = createDuplicateDetector(existingHires).find(hireData);
+      if (duplicates.length > 0) {
+        logger.api.info(`Possible duplicates found for new hire "${hireData.name}": ${duplicates.map(d => d.hire.id).join(', ')}`);
+        return res.status(409).json({ error: 'Possible duplicate hire', duplicates });
+      }
+    }
+    
     const id = generateId();
     const now = new Date().toISOString();
     logger.api.debug(`Generated ID: ${id}, timestamp: ${now}`);
@@ -226,6 +613,13 @@ router.post('/', async (req, res) => {
       logger.api.info(`Setting ICT Support PIC to ${hireData.ict_support_pic}`);
     }
     
+    // Store the initial password encrypted, never in plaintext
+    sealHirePassword(hireData, now);
+    
+    // A new hire has no SRF to approve yet
+    dropSrfFields(hireData);
+    hireData.status_srf = false;
+    
     // Build columns and values for SQL insert
     const columns = ['id', 'created_at', 'updated_at'];
     const placeholders = ['?', '?', '?'];
@@ -233,7 +627,7 @@ router.post('/', async (req, res) => {
     
     // Add all properties from hireData
     for (const [key, value] of Object.entries(hireData)) {
-      if (key !== 'id' && key !== 'created_at' && key !== 'updated_at' && key !== 'audit_logs') {
+      if (key !== 'id' && key !== 'created_at' && key !== 'updated_at' && key !== 'audit_logs' && !COMPUTED_FIELDS.includes(key) && !TRASH_FIELDS.includes(key)) {
         columns.push(key);
         placeholders.push('?');
         
@@ -277,7 +671,7 @@ router.post('/', async (req, res) => {
       }
       
       const newHire = newHires[0];
-      logger.api.info('Retrieved newly created hire:', JSON.stringify(newHire));
+      logger.api.info('Retrieved newly created hire:', JSON.stringify(omitCredentials(newHire)));
       newHire.audit_logs = [];
       
       // Convert numeric values to booleans for the response
@@ -292,7 +686,7 @@ router.post('/', async (req, res) => {
       }
       
       logger.api.info('Sending response with new hire');
-      return res.status(201).json(newHire);
+      return res.status(201).json(withCustomFields(toPublicHire(newHire), customFields));
     } catch (dbError) {
       logger.api.error('Database error during insert:', dbError);
       logger.api.error('SQL Query that failed:', query);
@@ -322,7 +716,7 @@ router.put('/:id', async (req, res) => {
   try {
     // Check if hire exists
     const hires = await executeQuery(`
-      SELECT * FROM hires WHERE id = ?
+      SELECT * FROM hires WHERE id = ? AND deleted_at IS NULL
     `, [id]);
     
     if (hires.length === 0) {
@@ -339,13 +733,31 @@ router.put('/:id', async (req, res) => {
       logger.api.warn(`No authenticated user available for setting ICT Support PIC on hire ${id}`);
     }
     
+    // Store a new initial password encrypted; a blank one keeps the stored password
+    sealHirePassword(updateData, now);
+    
+    // Submitted custom values are merged into the stored ones, so fields hidden from this user are kept
+    const customFields = requestCustomFields(req);
+    if ('custom_fields' in updateData) {
+      const customValues = mergeCustomValues(hires[0].custom_fields, updateData.custom_fields, customFields);
+      if (customValues.error) {
+        return res.status(400).json({ error: customValues.error });
+      }
+      updateData.custom_fields = customValues.stored;
+    }
+    
+    dropSrfFields(updateData);
+    
+    // Record which fields actually change so the history can show and revert them
+    const diff = diffHire(hires[0], updateData);
+    
     // Build SET clause and values for SQL update
     const setClause = ['updated_at = ?'];
     const values = [now];
     
     // Add all properties from updateData
     for (const [key, value] of Object.entries(updateData)) {
-      if (key !== 'id' && key !== 'created_at' && key !== 'updated_at' && key !== 'audit_logs') {
+      if (key !== 'id' && key !== 'created_at' && key !== 'updated_at' && key !== 'audit_logs' && !COMPUTED_FIELDS.includes(key) && !TRASH_FIELDS.includes(key)) {
         setClause.push(`${key} = ?`);
         
         // Handle boolean values for SQL Server
@@ -378,34 +790,18 @@ router.put('/:id', async (req, res) => {
     await executeQuery(query, values);
     
     // Create an audit log entry for this update
-    const logId = generateId();
-    const auditLog = {
-      id: logId,
-      new_hire_id: id,
-      action_type: "UPDATE",
-      status: "SUCCESS",
-      message: "Record updated",
-      details: JSON.stringify(updateData),
-      performed_by: req.user ? req.user.username : "system",
-      timestamp: now
-    };
+    const auditLog = await recordAudit({
+      req,
+      targetId: id,
+      action: 'UPDATE',
+      message: diff.fields.length > 0 ? `Record updated: ${diff.fields.join(', ')}` : "Record updated",
+      details: omitCredentials(updateData),
+      oldValues: diff.oldValues,
+      newValues: diff.newValues,
+      occurredAt: now
+    });
     
-    // Insert audit log
-    await executeQuery(`
-      INSERT INTO audit_logs (id, new_hire_id, action_type, status, message, details, performed_by, timestamp)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-    `, [
-      auditLog.id, 
-      auditLog.new_hire_id, 
-      auditLog.action_type, 
-      auditLog.status, 
-      auditLog.message, 
-      auditLog.details, 
-      auditLog.performed_by, 
-      auditLog.timestamp
-    ]);
-    
-    logger.api.info(`Created audit log ${logId} for hire update ${id}`);
+    logger.api.info(`Created audit log ${auditLog.id} for hire update ${id}`);
     
     // Get the updated hire
     const updatedHires = await executeQuery(`
@@ -415,42 +811,52 @@ router.put('/:id', async (req, res) => {
     const updatedHire = updatedHires[0];
     
     // Get audit logs for this hire
-    const auditLogs = await executeQuery(`
-      SELECT * FROM audit_logs WHERE new_hire_id = ? ORDER BY timestamp DESC
-    `, [id]);
+    const auditLogs = await getAuditTrail(id);
     
     updatedHire.audit_logs = auditLogs;
     
-    res.json(updatedHire);
+    res.json(withCustomFields(withProgress(updatedHire), customFields));
   } catch (error) {
     logger.api.error('Error updating hire in database:', error);
     res.status(500).json({ error: 'Failed to update hire', message: error.message });
   }
 });
 
-// Delete a hire
+// Audit entry for moving hires to or from the trash
+const writeTrashAudit = (hireId, action, message, performedBy, occurredAt) =>
+  recordAudit({ actor: performedBy, targetId: hireId, action, message, occurredAt });
+
+// Move hires to the trash. They keep their audit logs and can be restored until they are purged.
+const softDeleteHires = async (ids, performedBy) => {
+  const now = new Date().toISOString();
+  const placeholders = ids.map(() => '?').join(',');
+  const deleted = await executeQuery(`
+    UPDATE hires SET deleted_at = ?, deleted_by = ?
+    OUTPUT inserted.id
+    WHERE id IN (${placeholders}) AND deleted_at IS NULL
+  `, [now, performedBy, ...ids]);
+  
+  for (const { id } of deleted) {
+    await writeTrashAudit(id, 'DELETED', `Moved to the trash by ${performedBy}`, performedBy, now);
+  }
+  return deleted.length;
+};
+
+// Delete a hire - it goes to the trash
 router.delete('/:id', async (req, res) => {
   const { id } = req.params;
   
   try {
     // Check if hire exists
     const hires = await executeQuery(`
-      SELECT * FROM hires WHERE id = ?
+      SELECT * FROM hires WHERE id = ? AND deleted_at IS NULL
     `, [id]);
     
     if (hires.length === 0) {
       return res.status(404).json({ error: 'New hire not found' });
     }
     
-    // Delete associated audit logs first (should be handled by CASCADE but let's be sure)
-    await executeQuery(`
-      DELETE FROM audit_logs WHERE new_hire_id = ?
-    `, [id]);
-    
-    // Delete the hire
-    await executeQuery(`
-      DELETE FROM hires WHERE id = ?
-    `, [id]);
+    await softDeleteHires([id], req.user ? req.user.username : 'system');
     
     res.status(204).end();
   } catch (error) {
@@ -459,7 +865,7 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
-// Bulk delete hires
+// Bulk delete hires - they go to the trash
 router.post('/bulk-delete', async (req, res) => {
   const { ids } = req.body;
   
@@ -469,22 +875,7 @@ router.post('/bulk-delete', async (req, res) => {
   
   try {
     logger.api.info(`Bulk deleting ${ids.length} hires`);
-    
-    // Delete associated audit logs first (should be handled by CASCADE but let's be sure)
-    for (const id of ids) {
-      await executeQuery(`
-        DELETE FROM audit_logs WHERE new_hire_id = ?
-      `, [id]);
-    }
-    
-    // Delete the hires
-    // Use parameterized queries to prevent SQL injection
-    const placeholders = ids.map(() => '?').join(',');
-    
-    // Delete the hires
-    await executeQuery(`
-      DELETE FROM hires WHERE id IN (${placeholders})
-    `, ids);
+    await softDeleteHires(ids, req.user ? req.user.username : 'system');
     
     res.status(204).end();
   } catch (error) {
@@ -493,6 +884,32 @@ router.post('/bulk-delete', async (req, res) => {
   }
 });
 
+// Restore a hire from the trash - admins and support, like revealing a password
+router.post('/:id/restore', requireRole('admin', 'support'), async (req, res) => {
+  const { id } = req.params;
+  
+  try {
+    const performedBy = req.user.username;
+    const restored = await executeQuery(`
+      UPDATE hires SET deleted_at = NULL, deleted_by = NULL
+      OUTPUT inserted.*
+      WHERE id = ? AND deleted_at IS NOT NULL
+    `, [id]);
+    
+    if (restored.length === 0) {
+      return res.status(404).json({ error: 'Hire not found in the trash' });
+    }
+    
+    await writeTrashAudit(id, 'RESTORED', `Restored from the trash by ${performedBy}`, performedBy, new Date().toISOString());
+    logger.api.info(`Hire ${id} restored from the trash by ${performedBy}`);
+    
+    res.json(withCustomFields(withProgress(restored[0]), requestCustomFields(req)));
+  } catch (error) {
+    logger.api.error(`Error restoring hire ${id}:`, error);
+    res.status(500).json({ error: 'Failed to restore hire', message: error.message });
+  }
+});
+
 // Bulk update hires
 router.post('/bulk-update', async (req, res) => {
   const { ids, updateData } = req.body;
@@ -505,6 +922,15 @@ router.post('/bulk-update', async (req, res) => {
     return res.status(400).json({ error: 'No update data provided' });
   }
   
+  // One custom_fields value would overwrite every custom value of every selected hire
+  if ('custom_fields' in updateData) {
+    return res.status(400).json({ error: 'Custom fields cannot be bulk updated' });
+  }
+  
+  if (SRF_FIELDS.some(field => field in updateData)) {
+    return res.status(400).json({ error: 'SRF status and number are set by the SRF workflow' });
+  }
+  
   // Always set ICT Support PIC from authenticated user if available
   if (req.user && req.user.username) {
     updateData.ict_support_pic = req.user.username;
@@ -514,9 +940,10 @@ router.post('/bulk-update', async (req, res) => {
   }
 
   try {
-    logger.api.info(`Bulk updating ${ids.length} hires with data:`, updateData);
-    
     const now = new Date().toISOString();
+    sealHirePassword(updateData, now);
+    
+    logger.api.info(`Bulk updating ${ids.length} hires with data:`, omitCredentials(updateData));
     
     // Build SET clause and values for SQL update
     const setClause = ['updated_at = ?'];
@@ -524,7 +951,7 @@ router.post('/bulk-update', async (req, res) => {
     
     // Process update data for SQL query
     for (const [key, value] of Object.entries(updateData)) {
-      if (key !== 'id' && key !== 'created_at' && key !== 'updated_at' && key !== 'audit_logs') {
+      if (key !== 'id' && key !== 'created_at' && key !== 'updated_at' && key !== 'audit_logs' && !COMPUTED_FIELDS.includes(key) && !TRASH_FIELDS.includes(key)) {
         setClause.push(`${key} = ?`);
         
         // Handle boolean values for SQL Server
@@ -544,55 +971,51 @@ router.post('/bulk-update', async (req, res) => {
     // Use parameterized queries to prevent SQL injection
     const placeholders = ids.map(() => '?').join(',');
     
+    // Load the current records first so each hire's audit log gets its own field diff
+    const existingHires = await executeQuery(`
+      SELECT * FROM hires WHERE id IN (${placeholders}) AND deleted_at IS NULL
+    `, ids);
+    const existingById = new Map(existingHires.map(hire => [hire.id, hire]));
+    
     // Complete values array with IDs for WHERE clause
     const allValues = [...values, ...ids];
     
-    // Construct and execute SQL query
+    // Construct and execute SQL query; unknown and trashed IDs are skipped, so only the rows updated come back
     const query = `
       UPDATE hires
       SET ${setClause.join(', ')}
-      WHERE id IN (${placeholders})
+      OUTPUT inserted.id
+      WHERE id IN (${placeholders}) AND deleted_at IS NULL
     `;
     
     logger.api.debug("Executing bulk update query:", query);
     logger.api.debug("Update query values:", allValues);
     
-    await executeQuery(query, allValues);
-    
-    // Create audit logs for each updated hire
-    for (const id of ids) {
-      const logId = generateId();
-      const log = {
-        id: logId,
-        new_hire_id: id,
-        action_type: "BULK_UPDATE",
-        status: "SUCCESS",
+    const updated = await executeQuery(query, allValues);
+    
+    // Create audit logs for each hire that actually changed; rows that already had these values
+    // would only add blank entries to the history that revert treats as versions
+    let changedCount = 0;
+    for (const { id } of updated) {
+      const diff = diffHire(existingById.get(id) || {}, updateData);
+      if (diff.fields.length === 0) continue;
+      changedCount++;
+      await recordAudit({
+        req,
+        targetId: id,
+        action: 'BULK_UPDATE',
         message: "Record updated in bulk operation",
-        details: JSON.stringify(updateData),
-        performed_by: req.user ? req.user.username : "system",
-        timestamp: now
-      };
-      
-      // Insert audit log
-      await executeQuery(`
-        INSERT INTO audit_logs (id, new_hire_id, action_type, status, message, details, performed_by, timestamp)
-        VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-      `, [
-        log.id, 
-        log.new_hire_id, 
-        log.action_type, 
-        log.status, 
-        log.message, 
-        log.details, 
-        log.performed_by, 
-        log.timestamp
-      ]);
+        details: omitCredentials(updateData),
+        oldValues: diff.oldValues,
+        newValues: diff.newValues,
+        occurredAt: now
+      });
     }
     
     res.status(200).json({
       success: true,
-      message: `Successfully updated ${ids.length} records`,
-      updatedCount: ids.length
+      message: `Successfully updated ${changedCount} records`,
+      updatedCount: changedCount
     });
     
   } catch (error) {
@@ -606,60 +1029,147 @@ router.get('/:id/logs', async (req, res) => {
   const { id } = req.params;
   
   try {
-    const logs = await executeQuery(`
-      SELECT * FROM audit_logs 
-      WHERE new_hire_id = ? 
-      ORDER BY timestamp DESC
-    `, [id]);
+    const logs = await getAuditTrail(id);
     
-    res.json(logs);
+    const customFields = requestCustomFields(req);
+    res.json(logs.map(log => redactAuditLog(log, customFields)));
   } catch (error) {
     console.error('Error fetching audit logs from database:', error);
     res.status(500).json({ error: 'Failed to get audit logs', message: error.message });
   }
 });
 
-// Create an audit log
-router.post('/:id/logs', async (req, res) => {
+// Revert a hire to how it was right after the given audit log entry - admins only
+router.post('/:id/revert', requireAdmin, async (req, res) => {
   const { id } = req.params;
-  const logData = req.body;
+  const { logId } = req.body;
+  
+  if (!logId) {
+    return res.status(400).json({ error: 'logId is required' });
+  }
   
   try {
-    // Check if hire exists
     const hires = await executeQuery(`
-      SELECT * FROM hires WHERE id = ?
+      SELECT * FROM hires WHERE id = ? AND deleted_at IS NULL
     `, [id]);
     
     if (hires.length === 0) {
       return res.status(404).json({ error: 'New hire not found' });
     }
     
-    const logId = generateId();
-    const now = new Date().toISOString();
+    const logs = await getAuditTrail(id);
     
-    // Create new audit log
-    const newLog = {
-      ...logData,
-      id: logId,
-      new_hire_id: id,
-      timestamp: now
-    };
+    const targetValues = getValuesAtVersion(logs, logId);
+    if (!targetValues) {
+      return res.status(404).json({ error: 'Version not found for this hire' });
+    }
+    dropSrfFields(targetValues);
+    
+    const diff = diffHire(hires[0], targetValues);
+    if (diff.fields.length === 0) {
+      return res.status(400).json({ error: 'Hire already matches this version' });
+    }
+    
+    const now = new Date().toISOString();
+    const setClause = ['updated_at = ?'];
+    const values = [now];
+    for (const field of diff.fields) {
+      const value = diff.newValues[field];
+      setClause.push(`${field} = ?`);
+      values.push(typeof value === 'boolean' ? (value ? 1 : 0) : value);
+    }
+    values.push(id);
     
-    // Insert audit log into database
     await executeQuery(`
-      INSERT INTO audit_logs (id, new_hire_id, action_type, status, message, details, performed_by, timestamp)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-    `, [
-      newLog.id, 
-      newLog.new_hire_id, 
-      newLog.action_type, 
-      newLog.status, 
-      newLog.message, 
-      newLog.details || null, 
-      newLog.performed_by || null, 
-      newLog.timestamp
-    ]);
+      UPDATE hires
+      SET ${setClause.join(', ')}
+      WHERE id = ?
+    `, values);
+    
+    // The revert is itself a versioned change, so it can be reverted too
+    const targetLog = logs.find(log => log.id === logId);
+    await recordAudit({
+      req,
+      targetId: id,
+      action: 'REVERT',
+      message: `Reverted to version from ${new Date(targetLog.occurred_at).toISOString()}: ${diff.fields.join(', ')}`,
+      details: { revertedTo: logId },
+      oldValues: diff.oldValues,
+      newValues: diff.newValues,
+      occurredAt: now
+    });
+    
+    logger.api.info(`Reverted hire ${id} to version ${logId} (${diff.fields.join(', ')})`);
+    
+    const updatedHires = await executeQuery(`
+      SELECT * FROM hires WHERE id = ?
+    `, [id]);
     
+    res.json(withCustomFields(withProgress(updatedHires[0]), requestCustomFields(req)));
+  } catch (error) {
+    logger.api.error(`Error reverting hire ${id}:`, error);
+    res.status(500).json({ error: 'Failed to revert hire', message: error.message });
+  }
+});
+
+// Reveal a hire's initial password - admin/support only, and always audited
+router.post('/:id/password/reveal', requireRole('admin', 'support'), async (req, res) => {
+  const { id } = req.params;
+  
+  try {
+    const password = await revealHirePassword(id, req.user.username, req.body?.reason);
+    if (!password) {
+      return res.status(404).json({ error: 'No initial password is stored for this hire' });
+    }
+    
+    logger.api.info(`Initial password for hire ${id} revealed to ${req.user.username}`);
+    res.json({ password });
+  } catch (error) {
+    logger.api.error(`Error revealing password for hire ${id}:`, error);
+    res.status(500).json({ error: 'Failed to reveal password', message: error.message });
+  }
+});
+
+// Purge a hire's initial password now rather than waiting for the scheduled purge
+router.delete('/:id/password', requireRole('admin', 'support'), async (req, res) => {
+  const { id } = req.params;
+  
+  try {
+    await purgeHirePassword(id, `purged manually by ${req.user.username}`, req.user.username);
+    res.json({ success: true, message: 'Initial password purged' });
+  } catch (error) {
+    logger.api.error(`Error purging password for hire ${id}:`, error);
+    res.status(500).json({ error: 'Failed to purge password', message: error.message });
+  }
+});
+
+// Add a note to a hire's audit log. Every other action is recorded by the server itself,
+// so clients cannot write events like PASSWORD_REVEALED
+router.post('/:id/logs', requireAuth, async (req, res) => {
+  const { id } = req.params;
+  const { message, status = 'SUCCESS', details } = req.body;
+  
+  if (!message || typeof message !== 'string') {
+    return res.status(400).json({ error: 'message is required' });
+  }
+  if (!AUDIT_STATUSES.includes(status)) {
+    return res.status(400).json({ error: `status must be one of: ${AUDIT_STATUSES.join(', ')}` });
+  }
+  if (details !== undefined && details !== null && (typeof details !== 'object' || Array.isArray(details))) {
+    return res.status(400).json({ error: 'details must be an object' });
+  }
+  
+  try {
+    // Check if hire exists
+    const hires = await executeQuery(`
+      SELECT * FROM hires WHERE id = ? AND deleted_at IS NULL
+    `, [id]);
+    
+    if (hires.length === 0) {
+      return res.status(404).json({ error: 'New hire not found' });
+    }
+    
+    const newLog = await recordAudit({ req, targetId: id, action: 'NOTE', status, message, details });
     res.status(201).json(newLog);
   } catch (error) {
     console.error('Error creating audit log in database:', error);
@@ -667,173 +1177,306 @@ router.post('/:id/logs', async (req, res) => {
   }
 });
 
-// Import hires
-router.post('/import', upload.single('file'), async (req, res) => {
+// Start offboarding a leaver
+router.post('/:id/offboarding', async (req, res) => {
+  const { id } = req.params;
+  const { last_working_day } = req.body;
+  
   try {
-    logger.api.info('POST /hires/import - Processing file import');
+    if (!last_working_day) {
+      return res.status(400).json({ error: 'Last working day is required' });
+    }
     
-    if (!req.file) {
-      logger.api.warn('No file uploaded');
-      return res.status(400).json({ 
-        success: false, 
-        message: 'No file uploaded' 
-      });
+    const hires = await executeQuery(`
+      SELECT * FROM hires WHERE id = ? AND deleted_at IS NULL
+    `, [id]);
+    
+    if (hires.length === 0) {
+      return res.status(404).json({ error: 'New hire not found' });
     }
     
-    const fileBuffer = req.file.buffer;
-    const fileContent = fileBuffer.toString();
+    const now = new Date().toISOString();
     
-    // Get existing departments for validation
-    const departments = await executeQuery('SELECT name FROM departments');
-    const validDepartments = departments.map(d => d.name.toLowerCase());
+    await executeQuery(`
+      UPDATE hires
+      SET last_working_day = ?, offboarding_status = ?, offboarding_date = ?, updated_at = ?
+      WHERE id = ?
+    `, [last_working_day, 'In Progress', now, now, id]);
+    
+    await recordAudit({
+      req,
+      targetId: id,
+      action: 'OFFBOARDING_STARTED',
+      message: `Offboarding started with last working day ${last_working_day}`,
+      details: { last_working_day },
+      occurredAt: now
+    });
     
-    logger.api.info(`Found ${validDepartments.length} valid departments for validation`);
+    logger.api.info(`Started offboarding for hire ${id}, last working day ${last_working_day}`);
     
-    const results = [];
-    const errors = [];
-    let rowCount = 0;
-    let successCount = 0;
+    const updatedHires = await executeQuery(`
+      SELECT * FROM hires WHERE id = ?
+    `, [id]);
     
-    // Parse CSV
-    const parser = csv({ 
-      mapHeaders: ({ header }) => header.trim().toLowerCase(),
-      mapValues: ({ value }) => value ? value.trim() : value
+    res.json(withCustomFields(toPublicHire(updatedHires[0]), requestCustomFields(req)));
+  } catch (error) {
+    logger.api.error('Error starting offboarding:', error);
+    res.status(500).json({ error: 'Failed to start offboarding', message: error.message });
+  }
+});
+
+// Flag a leaver's Microsoft 365 license for reclaim
+router.post('/:id/offboarding/license-reclaim', async (req, res) => {
+  const { id } = req.params;
+  
+  try {
+    const hires = await executeQuery(`
+      SELECT * FROM hires WHERE id = ? AND deleted_at IS NULL
+    `, [id]);
+    
+    if (hires.length === 0) {
+      return res.status(404).json({ error: 'New hire not found' });
+    }
+    
+    const license = hires[0].microsoft_365_license;
+    const hasLicense = !!license && license !== 'None';
+    const reclaimStatus = hasLicense ? 'Pending Reclaim' : 'Not Required';
+    const now = new Date().toISOString();
+    
+    await executeQuery(`
+      UPDATE hires SET license_reclaim_status = ?, updated_at = ? WHERE id = ?
+    `, [reclaimStatus, now, id]);
+    
+    await recordAudit({
+      req,
+      targetId: id,
+      action: 'LICENSE_RECLAIM_FLAGGED',
+      message: hasLicense
+        ? `Microsoft 365 license ${license} flagged for reclaim`
+        : 'No Microsoft 365 license assigned, nothing to reclaim',
+      details: { microsoft_365_license: license || null, license_reclaim_status: reclaimStatus },
+      occurredAt: now
     });
     
-    // Process each row from the CSV
-    const rows = [];
-    let headerProcessed = false;
-    
-    // Create a readable stream from the buffer using the native Node.js stream module
-    const bufferStream = new Readable();
-    bufferStream.push(fileBuffer);
-    bufferStream.push(null); // Signal the end of the stream
-    
-    // Process data through the stream
-    await new Promise((resolve, reject) => {
-      bufferStream
-        .pipe(parser)
-        .on('data', (data) => {
-          rowCount++;
-          rows.push(data);
-        })
-        .on('end', resolve)
-        .on('error', (error) => {
-          logger.api.error('Error parsing CSV:', error);
-          reject(error);
-        });
+    res.json({ success: true, license_reclaim_status: reclaimStatus, microsoft_365_license: license || null });
+  } catch (error) {
+    logger.api.error('Error flagging license for reclaim:', error);
+    res.status(500).json({ error: 'Failed to flag license for reclaim', message: error.message });
+  }
+});
+
+// Finish offboarding and record the outcome of every step
+router.post('/:id/offboarding/complete', async (req, res) => {
+  const { id } = req.params;
+  const { steps = [] } = req.body;
+  
+  try {
+    const hires = await executeQuery(`
+      SELECT * FROM hires WHERE id = ? AND deleted_at IS NULL
+    `, [id]);
+    
+    if (hires.length === 0) {
+      return res.status(404).json({ error: 'New hire not found' });
+    }
+    
+    const failedSteps = steps.filter(step => step.status === 'Failed');
+    const offboardingStatus = failedSteps.length === 0 ? 'Completed' : 'Partial';
+    const now = new Date().toISOString();
+    
+    await executeQuery(`
+      UPDATE hires SET offboarding_status = ?, updated_at = ? WHERE id = ?
+    `, [offboardingStatus, now, id]);
+    
+    await recordAudit({
+      req,
+      targetId: id,
+      action: 'OFFBOARDING_COMPLETED',
+      status: failedSteps.length === 0 ? 'SUCCESS' : 'PARTIAL',
+      message: failedSteps.length === 0
+        ? 'Offboarding completed'
+        : `Offboarding finished with ${failedSteps.length} failed step(s)`,
+      details: { steps },
+      occurredAt: now
     });
     
-    logger.api.info(`Parsed ${rows.length} rows from CSV`);
+    const updatedHires = await executeQuery(`
+      SELECT * FROM hires WHERE id = ?
+    `, [id]);
     
-    // Process each row
-    for (const [index, row] of rows.entries()) {
-      try {
-        // Check required fields
-        const requiredFields = ['name', 'title', 'department', 'email', 'direct_report'];
-        const missingFields = requiredFields.filter(field => !row[field]);
-        
-        if (missingFields.length > 0) {
-          errors.push({
-            row: index + 2, // +2 because index is 0-based and we need to account for the header row
-            error: `Missing required fields: ${missingFields.join(', ')}`
-          });
-          continue;
-        }
-        
-        // Validate department
-        if (row.department && !validDepartments.includes(row.department.toLowerCase())) {
-          errors.push({
-            row: index + 2,
-            error: `Department "${row.department}" does not exist in the database`,
-            data: row
-          });
-          continue;
-        }
-        
-        // Generate ID and timestamps
-        const id = generateId();
-        const now = new Date().toISOString();
-        
-        // Convert boolean string values to actual booleans
-        const processedRow = {
-          id,
-          name: row.name,
-          title: row.title,
-          department: row.department,
-          email: row.email || null,
-          direct_report: row.direct_report || null,
-          phone_number: row.phone_number || null,
-          mailing_list: row.mailing_list || null,
-          remarks: row.remarks || null,
-          account_creation_status: row.account_creation_status || 'Pending',
-          license_assigned: convertToBoolean(row.license_assigned) ? 1 : 0,
-          status_srf: convertToBoolean(row.status_srf) ? 1 : 0,
-          username: row.username || null,
-          password: row.password || null,
-          on_site_date: row.on_site_date || null,
-          microsoft_365_license: convertToBoolean(row.microsoft_365_license) ? 1 : 0,
-          laptop_ready: row.laptop_ready || 'Pending',
-          note: row.note || null,
-          ict_support_pic: row.ict_support_pic || null,
-          created_at: now,
-          updated_at: now
-        };
-        
-        // Build columns and values for SQL insert
-        const columns = Object.keys(processedRow);
-        const placeholders = Array(columns.length).fill('?');
-        const values = Object.values(processedRow);
-        
-        // Construct and execute SQL query
-        const query = `
-          INSERT INTO hires (${columns.join(', ')})
-          VALUES (${placeholders.join(', ')})
-        `;
-        
-        await executeQuery(query, values);
-        
-        // Create an audit log for this import
-        const logId = generateId();
-        const log = {
-          id: logId,
-          new_hire_id: id,
-          action_type: "IMPORT",
-          status: "SUCCESS",
-          message: "Record imported from CSV",
-          performed_by: "system import",
-          timestamp: now
-        };
-        
-        // Insert audit log into database
-        await executeQuery(`
-          INSERT INTO audit_logs (id, new_hire_id, action_type, status, message, performed_by, timestamp)
-          VALUES (?, ?, ?, ?, ?, ?, ?)
-        `, [log.id, log.new_hire_id, log.action_type, log.status, log.message, log.performed_by, log.timestamp]);
-        
-        successCount++;
-        results.push({ id, name: row.name, status: 'success' });
-      } catch (error) {
-        logger.api.error(`Error importing row ${index + 2}:`, error);
-        errors.push({
-          row: index + 2,
-          error: error.message,
-          data: row
-        });
-      }
+    res.json(withCustomFields(toPublicHire(updatedHires[0]), requestCustomFields(req)));
+  } catch (error) {
+    logger.api.error('Error completing offboarding:', error);
+    res.status(500).json({ error: 'Failed to complete offboarding', message: error.message });
+  }
+});
+
+// Read an import file's columns so they can be mapped to hire fields before importing
+router.post('/import/columns', upload.single('file'), async (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'No file uploaded' 
+      });
     }
     
+    const { headers, rows } = await parseImportFile(req.file.buffer, req.file.originalname);
+    const customFields = requestCustomFields(req);
+    logger.api.info(`Read ${headers.length} columns and ${rows.length} rows from ${req.file.originalname}`);
+    
+    res.json({
+      success: true,
+      headers,
+      sampleRows: rows.slice(0, 5),
+      totalRows: rows.length,
+      suggestedMapping: suggestMapping(headers, customFields),
+      fields: [...IMPORT_FIELDS, ...customFields.map(field => `${CUSTOM_FIELD_PREFIX}${field.key}`)],
+      fieldLabels: Object.fromEntries(customFields.map(field => [`${CUSTOM_FIELD_PREFIX}${field.key}`, field.label])),
+      requiredFields: REQUIRED_IMPORT_FIELDS
+    });
+  } catch (error) {
+    logger.api.error('Error reading import columns:', error);
+    res.status(400).json({ 
+      success: false, 
+      message: `Could not read file: ${error.message}` 
+    });
+  }
+});
+
+const INVALID_JSON = Symbol('invalid JSON');
+
+// JSON sent as a multipart form field: null when it is missing, INVALID_JSON when it doesn't parse
+const parseJsonField = (value) => {
+  if (!value) return null;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return INVALID_JSON;
+  }
+};
+
+/**
+ * Read the uploaded file, map its columns and plan every row against the current hires.
+ * Returns { error } when the request can't be planned.
+ */
+const planImportRequest = async (req) => {
+  if (!req.file) return { error: 'No file uploaded' };
+
+  const mapping = parseJsonField(req.body.mapping);
+  if (mapping === INVALID_JSON) return { error: 'Invalid column mapping' };
+
+  const mode = req.body.mode || 'create';
+  if (!IMPORT_MODES.includes(mode)) return { error: `Import mode must be one of: ${IMPORT_MODES.join(', ')}` };
+
+  // Map the file's own column headers onto hire fields - guessed from the headers if no mapping was sent
+  const { headers, rows: sourceRows } = await parseImportFile(req.file.buffer, req.file.originalname);
+  const customFields = requestCustomFields(req);
+  const columnMapping = mapping || suggestMapping(headers, customFields);
+  const mappingError = validateMapping(columnMapping, headers, customFields);
+  if (mappingError) return { error: mappingError };
+  const rows = applyMapping(sourceRows, columnMapping);
+
+  const departments = await executeQuery('SELECT name FROM departments');
+  const validDepartments = departments.map(d => d.name.toLowerCase());
+  // Upserts diff against the whole record, so fetch every column rather than just DUPLICATE_FIELDS
+  const existingHires = await executeQuery('SELECT * FROM hires WHERE deleted_at IS NULL');
+
+  const plan = planImport(rows, { mode, existingHires, validDepartments, customFields });
+  return { mode, rows, plan, customFields };
+};
+
+const summarizePlan = (plan) => ({
+  create: plan.filter(entry => entry.action === 'create').length,
+  update: plan.filter(entry => entry.action === 'update').length,
+  skip: plan.filter(entry => entry.action === 'skip').length,
+  error: plan.filter(entry => entry.action === 'error').length
+});
+
+// Dry run - what importing the file would do to each row, without writing anything
+router.post('/import/preview', upload.single('file'), async (req, res) => {
+  try {
+    logger.api.info('POST /hires/import/preview - Planning file import');
+
+    const { error, mode, plan } = await planImportRequest(req);
+    if (error) {
+      logger.api.warn(`Import preview rejected: ${error}`);
+      return res.status(400).json({ 
+        success: false, 
+        error,
+        message: error 
+      });
+    }
+
+    const summary = summarizePlan(plan);
+    logger.api.info(`Import preview of ${req.file.originalname} (${mode}): ${JSON.stringify(summary)}`);
+
+    res.json({
+      success: true,
+      mode,
+      totalRows: plan.length,
+      summary,
+      rows: plan
+    });
+  } catch (error) {
+    logger.api.error('Error previewing import:', error);
+    res.status(500).json({ 
+      success: false, 
+      message: 'Failed to preview import', 
+      error: error.message 
+    });
+  }
+});
+
+// Import hires - commits the rows listed in selectedRows, or every valid row when none are listed
+router.post('/import', upload.single('file'), async (req, res) => {
+  try {
+    logger.api.info('POST /hires/import - Processing file import');
+    
+    const { error, mode, rows, plan, customFields } = await planImportRequest(req);
+    if (error) {
+      logger.api.warn(`Import rejected: ${error}`);
+      return res.status(400).json({ 
+        success: false, 
+        error,
+        message: error 
+      });
+    }
+
+    const selectedRows = parseJsonField(req.body.selectedRows);
+    if (selectedRows !== null && !(Array.isArray(selectedRows) && selectedRows.every(Number.isInteger))) {
+      return res.status(400).json({ 
+        success: false, 
+        error: 'Invalid row selection',
+        message: 'selectedRows must be an array of row numbers' 
+      });
+    }
+
+    const { importId, created, updated, errors } = await commitImport({
+      rows,
+      plan,
+      selectedRows,
+      fileName: req.file.originalname,
+      mode,
+      performedBy: req.user ? req.user.username : 'system import',
+      customFields
+    });
+
+    const committed = created + updated;
+    const rowCount = selectedRows ? selectedRows.length : rows.length;
     const response = {
-      success: successCount > 0,
-      message: successCount > 0 
-        ? `Successfully imported ${successCount} of ${rowCount} records` 
+      success: committed > 0,
+      message: committed > 0 
+        ? `Imported ${committed} of ${rowCount} records (${created} created, ${updated} updated)` 
         : 'Failed to import any records',
-      rowsImported: successCount,
+      importId,
+      rowsImported: committed,
+      rowsCreated: created,
+      rowsUpdated: updated,
       totalRows: rowCount,
       errors: errors.length > 0 ? errors : undefined
     };
     
-    logger.api.info(`Import completed: ${successCount} of ${rowCount} records imported successfully`);
+    logger.api.info(`Import ${importId || '(none)'} completed: ${created} created, ${updated} updated of ${rowCount} rows`);
     if (errors.length > 0) {
       logger.api.warn(`${errors.length} errors encountered during import`);
     }
@@ -849,9 +1492,41 @@ router.post('/import', upload.single('file'), async (req, res) => {
   }
 });
 
+// Recent import batches, newest first
+router.get('/import/batches', async (req, res) => {
+  try {
+    const batches = await getImportBatches();
+    res.json(batches);
+  } catch (error) {
+    logger.api.error('Error fetching import batches:', error);
+    res.status(500).json({ error: 'Failed to fetch import batches', message: error.message });
+  }
+});
+
+// Undo an import batch - admins only
+router.post('/import/:importId/rollback', requireAdmin, async (req, res) => {
+  const { importId } = req.params;
+  try {
+    const batch = await getImportBatch(importId);
+    if (!batch) {
+      return res.status(404).json({ error: 'Import not found' });
+    }
+    if (batch.rolled_back_at) {
+      return res.status(400).json({ error: 'Import has already been rolled back' });
+    }
+
+    const result = await rollbackImport(batch, req.user ? req.user.username : 'system');
+    res.json({ success: true, ...result });
+  } catch (error) {
+    logger.api.error(`Error rolling back import ${importId}:`, error);
+    res.status(500).json({ error: 'Failed to roll back import', message: error.message });
+  }
+});
+
 // Upload SRF document
 router.post('/:id/srf-upload', uploadSrf.single('srf-document'), async (req, res) => {
   const { id } = req.params;
+  let stored;
   
   try {
     logger.api.info(`POST /hires/${id}/srf-upload - Processing SRF document upload`);
@@ -866,89 +1541,55 @@ router.post('/:id/srf-upload', uploadSrf.single('srf-document'), async (req, res
     
     // Check if hire exists
     const hires = await executeQuery(`
-      SELECT * FROM hires WHERE id = ?
+      SELECT * FROM hires WHERE id = ? AND deleted_at IS NULL
     `, [id]);
     
     if (hires.length === 0) {
-      // Clean up uploaded file if hire doesn't exist
-      fs.unlinkSync(req.file.path);
       return res.status(404).json({ error: 'New hire not found' });
     }
     
-    const hire = hires[0];
     const now = new Date().toISOString();
-    
-    // If there's an existing SRF document, delete it
-    if (hire.srf_document_path && fs.existsSync(hire.srf_document_path)) {
-      try {
-        fs.unlinkSync(hire.srf_document_path);
-        logger.api.info(`Deleted old SRF document: ${hire.srf_document_path}`);
-      } catch (deleteError) {
-        logger.api.warn(`Failed to delete old SRF document: ${deleteError.message}`);
-      }
-    }
-    
-    // Update hire record with SRF document information
-    await executeQuery(`
-      UPDATE hires 
-      SET srf_document_path = ?, 
-          srf_document_name = ?, 
-          srf_document_uploaded_at = ?,
-          updated_at = ?
-      WHERE id = ?
-    `, [req.file.path, req.file.originalname, now, now, id]);
-    
-    // Create audit log for SRF document upload
-    const logId = generateId();
-    const auditLog = {
-      id: logId,
-      new_hire_id: id,
-      action_type: "SRF_UPLOAD",
-      status: "SUCCESS",
-      message: `SRF document uploaded: ${req.file.originalname}`,
-      details: JSON.stringify({
+    const uploadedBy = req.user ? req.user.username : "system";
+    
+    const extension = path.extname(req.file.originalname);
+    stored = await storeFile('srf', `${id}_srf_${Date.now()}${extension}`, req.file.buffer, req.file.mimetype);
+    
+    const { versionId, version } = await addSrfVersion(id, {
+      ...stored,
+      name: req.file.originalname
+    }, uploadedBy, now);
+    
+    await recordAudit({
+      actor: uploadedBy,
+      targetId: id,
+      action: 'SRF_UPLOAD',
+      message: `SRF document uploaded: ${req.file.originalname} (version ${version})`,
+      details: {
+        versionId,
+        version,
         filename: req.file.originalname,
         size: req.file.size,
-        path: req.file.path
-      }),
-      performed_by: req.user ? req.user.username : "system",
-      timestamp: now
-    };
-    
-    await executeQuery(`
-      INSERT INTO audit_logs (id, new_hire_id, action_type, status, message, details, performed_by, timestamp)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
-    `, [
-      auditLog.id, 
-      auditLog.new_hire_id, 
-      auditLog.action_type, 
-      auditLog.status, 
-      auditLog.message, 
-      auditLog.details, 
-      auditLog.performed_by, 
-      auditLog.timestamp
-    ]);
+        key: stored.key,
+        hash: stored.hash
+      },
+      occurredAt: now
+    });
     
     logger.api.info(`SRF document uploaded successfully for hire ${id}: ${req.file.originalname}`);
     
     res.json({
       success: true,
-      message: 'SRF document uploaded successfully',
+      message: `SRF version ${version} uploaded and submitted for review`,
       filename: req.file.originalname,
-      uploadedAt: now
+      uploadedAt: now,
+      version
     });
     
   } catch (error) {
     logger.api.error('Error uploading SRF document:', error);
     
-    // Clean up uploaded file on error
-    if (req.file && fs.existsSync(req.file.path)) {
-      try {
-        fs.unlinkSync(req.file.path);
-      } catch (cleanupError) {
-        logger.api.error('Error cleaning up uploaded file:', cleanupError);
-      }
-    }
+    // Clean up the stored file on error
+    await removeStoredFile(stored?.key);
     
     res.status(500).json({ 
       success: false, 
@@ -958,73 +1599,45 @@ router.post('/:id/srf-upload', uploadSrf.single('srf-document'), async (req, res
   }
 });
 
-// Download SRF document
-router.get('/:id/srf-download', async (req, res) => {
+// Download the current SRF document
+router.get('/:id/srf-download', requireAuth, async (req, res) => {
   const { id } = req.params;
   
   try {
     logger.api.info(`GET /hires/${id}/srf-download - Downloading SRF document`);
     
-    // Get hire with SRF document info
     const hires = await executeQuery(`
-      SELECT srf_document_path, srf_document_name FROM hires WHERE id = ?
+      SELECT id FROM hires WHERE id = ? AND deleted_at IS NULL
     `, [id]);
     
     if (hires.length === 0) {
       return res.status(404).json({ error: 'New hire not found' });
     }
     
-    const hire = hires[0];
+    const [latest] = await getSrfVersions(id);
     
-    if (!hire.srf_document_path || !hire.srf_document_name) {
+    if (!latest) {
       return res.status(404).json({ error: 'No SRF document found for this hire' });
     }
     
-    // Check if file exists
-    if (!fs.existsSync(hire.srf_document_path)) {
-      return res.status(404).json({ error: 'SRF document file not found on server' });
-    }
+    await sendSrfVersion(res, latest);
     
-    // Create audit log for download
-    const logId = generateId();
-    const now = new Date().toISOString();
-    const auditLog = {
-      id: logId,
-      new_hire_id: id,
-      action_type: "SRF_DOWNLOAD",
-      status: "SUCCESS",
-      message: `SRF document downloaded: ${hire.srf_document_name}`,
-      performed_by: req.user ? req.user.username : "system",
-      timestamp: now
-    };
-    
-    await executeQuery(`
-      INSERT INTO audit_logs (id, new_hire_id, action_type, status, message, performed_by, timestamp)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `, [
-      auditLog.id, 
-      auditLog.new_hire_id, 
-      auditLog.action_type, 
-      auditLog.status, 
-      auditLog.message, 
-      auditLog.performed_by, 
-      auditLog.timestamp
-    ]);
-    
-    // Send file
-    res.download(hire.srf_document_path, hire.srf_document_name, (err) => {
-      if (err) {
-        logger.api.error('Error sending SRF document:', err);
-        if (!res.headersSent) {
-          res.status(500).json({ error: 'Failed to download SRF document' });
-        }
-      } else {
-        logger.api.info(`SRF document downloaded successfully: ${hire.srf_document_name}`);
-      }
+    // Logged once the file has been sent
+    await recordAudit({
+      req,
+      targetId: id,
+      action: 'SRF_DOWNLOAD',
+      message: `SRF document downloaded: ${latest.file_name}`
     });
     
+    logger.api.info(`SRF document downloaded successfully: ${latest.file_name}`);
+    
   } catch (error) {
     logger.api.error('Error downloading SRF document:', error);
+    if (res.headersSent) return;
+    if (error.notFound) {
+      return res.status(404).json({ error: 'SRF document file not found in storage' });
+    }
     res.status(500).json({ 
       error: 'Failed to download SRF document', 
       message: error.message 
@@ -1032,183 +1645,234 @@ router.get('/:id/srf-download', async (req, res) => {
   }
 });
 
-// Delete SRF document
-router.delete('/:id/srf-document', async (req, res) => {
+// Preview the current SRF document (inline viewing)
+router.get('/:id/srf-preview', requireAuth, async (req, res) => {
   const { id } = req.params;
   
   try {
-    logger.api.info(`DELETE /hires/${id}/srf-document - Deleting SRF document`);
+    logger.api.info(`GET /hires/${id}/srf-preview - Previewing SRF document`);
     
-    // Get hire with SRF document info
     const hires = await executeQuery(`
-      SELECT srf_document_path, srf_document_name FROM hires WHERE id = ?
+      SELECT id FROM hires WHERE id = ? AND deleted_at IS NULL
     `, [id]);
     
     if (hires.length === 0) {
       return res.status(404).json({ error: 'New hire not found' });
     }
     
-    const hire = hires[0];
+    const [latest] = await getSrfVersions(id);
     
-    if (!hire.srf_document_path) {
+    if (!latest) {
       return res.status(404).json({ error: 'No SRF document found for this hire' });
     }
     
-    // Delete file from filesystem
-    if (fs.existsSync(hire.srf_document_path)) {
-      try {
-        fs.unlinkSync(hire.srf_document_path);
-        logger.api.info(`Deleted SRF document file: ${hire.srf_document_path}`);
-      } catch (deleteError) {
-        logger.api.error(`Failed to delete SRF document file: ${deleteError.message}`);
+    // PDFs open in the browser, Word documents are sent as a download
+    const inline = path.extname(latest.file_name).toLowerCase() === '.pdf';
+    await sendSrfVersion(res, latest, { inline });
+    
+    // Logged once the file has been sent
+    await recordAudit({
+      req,
+      targetId: id,
+      action: 'SRF_PREVIEW',
+      message: `SRF document previewed: ${latest.file_name}`
+    });
+    
+    logger.api.info(`SRF document previewed successfully: ${latest.file_name}`);
+    
+  } catch (error) {
+    logger.api.error('Error previewing SRF document:', error);
+    if (res.headersSent) return;
+    if (error.notFound) {
+      return res.status(404).json({ error: 'SRF document file not found in storage' });
+    }
+    res.status(500).json({ 
+      error: 'Failed to preview SRF document', 
+      message: error.message 
+    });
+  }
+});
+
+// Render the SRF from the hire record and keep it as the newest version, like an upload.
+// The hire gets an SRF No. the first time and keeps it when the form is generated again.
+router.post('/:id/srf-generate', async (req, res) => {
+  const { id } = req.params;
+  
+  try {
+    const hires = await executeQuery('SELECT * FROM hires WHERE id = ? AND deleted_at IS NULL', [id]);
+    if (hires.length === 0) {
+      return res.status(404).json({ error: 'New hire not found' });
+    }
+    
+    const hire = hires[0];
+    const template = getSrfTemplate();
+    const now = new Date();
+    let srfNumber = hire.srf_number;
+    if (!srfNumber) {
+      // Only the first generate to get here keeps its number; any other reads back the one that was stored
+      const allocated = await allocateSrfNumber(template.numberFormat, now.getFullYear());
+      await executeQuery('UPDATE hires SET srf_number = ? WHERE id = ? AND srf_number IS NULL', [allocated, id]);
+      const [stored] = await executeQuery('SELECT srf_number FROM hires WHERE id = ?', [id]);
+      srfNumber = stored.srf_number;
+      if (srfNumber !== allocated) {
+        logger.api.warn(`SRF No. ${allocated} went unused: hire ${id} was given ${srfNumber} by another request`);
       }
     }
     
-    const now = new Date().toISOString();
+    const pdf = await buildSrfPdf({ ...hire, srf_number: srfNumber }, template, srfNumber, {
+      generatedAt: now,
+      customValues: readCustomValues(hire.custom_fields, requestCustomFields(req))
+    });
     
-    // Update hire record to remove SRF document information
-    await executeQuery(`
-      UPDATE hires 
-      SET srf_document_path = NULL, 
-          srf_document_name = NULL, 
-          srf_document_uploaded_at = NULL,
-          updated_at = ?
-      WHERE id = ?
-    `, [now, id]);
-    
-    // Create audit log for deletion
-    const logId = generateId();
-    const auditLog = {
-      id: logId,
-      new_hire_id: id,
-      action_type: "SRF_DELETE",
-      status: "SUCCESS",
-      message: `SRF document deleted: ${hire.srf_document_name || 'Unknown'}`,
-      performed_by: req.user ? req.user.username : "system",
-      timestamp: now
-    };
+    const stored = await storeFile('srf', `${id}_srf_${now.getTime()}.pdf`, pdf, 'application/pdf');
     
-    await executeQuery(`
-      INSERT INTO audit_logs (id, new_hire_id, action_type, status, message, performed_by, timestamp)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `, [
-      auditLog.id, 
-      auditLog.new_hire_id, 
-      auditLog.action_type, 
-      auditLog.status, 
-      auditLog.message, 
-      auditLog.performed_by, 
-      auditLog.timestamp
-    ]);
-    
-    logger.api.info(`SRF document deleted successfully for hire ${id}`);
+    const fileName = `${srfNumber.replace(/[^\w.-]+/g, '-')}_${hire.name.replace(/[^\w.-]+/g, '_')}.pdf`;
+    const generatedBy = req.user ? req.user.username : 'system';
+    const { versionId, version } = await addSrfVersion(id, { ...stored, name: fileName }, generatedBy, now.toISOString());
+    
+    await recordAudit({
+      actor: generatedBy,
+      targetId: id,
+      action: 'SRF_GENERATE',
+      message: `SRF ${srfNumber} generated (version ${version})`,
+      details: { versionId, version, srfNumber, filename: fileName, size: stored.size, key: stored.key, hash: stored.hash },
+      occurredAt: now.toISOString()
+    });
+    
+    logger.api.info(`SRF ${srfNumber} generated for hire ${id} as version ${version}`);
     
     res.json({
       success: true,
-      message: 'SRF document deleted successfully'
+      message: `SRF ${srfNumber} generated and submitted for review`,
+      filename: fileName,
+      uploadedAt: now.toISOString(),
+      version,
+      srfNumber
     });
-    
   } catch (error) {
-    logger.api.error('Error deleting SRF document:', error);
-    res.status(500).json({ 
-      error: 'Failed to delete SRF document', 
-      message: error.message 
-    });
+    logger.api.error(`Error generating SRF for hire ${id}:`, error);
+    res.status(500).json({ error: 'Failed to generate SRF', message: error.message });
   }
 });
 
-// Preview SRF document (inline viewing)
-router.get('/:id/srf-preview', async (req, res) => {
+// SRF versions of a hire, newest first, with their review state. File paths stay on the server.
+router.get('/:id/srf-versions', async (req, res) => {
   const { id } = req.params;
   
   try {
-    logger.api.info(`GET /hires/${id}/srf-preview - Previewing SRF document`);
+    const hires = await executeQuery('SELECT id FROM hires WHERE id = ? AND deleted_at IS NULL', [id]);
+    if (hires.length === 0) {
+      return res.status(404).json({ error: 'New hire not found' });
+    }
     
-    // Get hire with SRF document info
-    const hires = await executeQuery(`
-      SELECT srf_document_path, srf_document_name FROM hires WHERE id = ?
-    `, [id]);
+    const versions = await getSrfVersions(id);
+    res.json(versions.map(toSrfVersion));
+  } catch (error) {
+    logger.api.error(`Error fetching SRF versions for hire ${id}:`, error);
+    res.status(500).json({ error: 'Failed to fetch SRF versions', message: error.message });
+  }
+});
+
+// Download any SRF version, including ones that have since been replaced
+router.get('/:id/srf-versions/:versionId/download', requireAuth, async (req, res) => {
+  const { id, versionId } = req.params;
+  
+  try {
+    const versions = await executeQuery(`
+      SELECT v.* FROM srf_versions v
+      JOIN hires h ON h.id = v.hire_id
+      WHERE v.id = ? AND v.hire_id = ? AND h.deleted_at IS NULL
+    `, [versionId, id]);
+    const version = versions[0];
+    
+    if (!version) {
+      return res.status(404).json({ error: 'SRF version not found' });
+    }
+    
+    await sendSrfVersion(res, version);
     
+    await recordAudit({
+      req,
+      targetId: id,
+      action: 'SRF_DOWNLOAD',
+      message: `SRF document downloaded: ${version.file_name} (version ${version.version})`,
+      details: { versionId, version: version.version }
+    });
+  } catch (error) {
+    logger.api.error(`Error downloading SRF version ${versionId}:`, error);
+    if (res.headersSent) return;
+    if (error.notFound) {
+      return res.status(404).json({ error: 'SRF document file not found in storage' });
+    }
+    res.status(500).json({ error: 'Failed to download SRF document', message: error.message });
+  }
+});
+
+const SRF_REVIEW_ACTIONS = { approved: 'SRF_APPROVED', rejected: 'SRF_REJECTED', withdrawn: 'SRF_WITHDRAWN' };
+
+// Approve, reject or withdraw the latest SRF version. Approval is the only thing that sets status_srf,
+// and a withdrawn version stays in the history like any other.
+const reviewSrfVersion = (decision) => async (req, res) => {
+  const { id, versionId } = req.params;
+  // An approval carries no reason; a rejection needs one and a withdrawal may give one
+  const reason = decision !== 'approved' && typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+  
+  try {
+    const hires = await executeQuery('SELECT id FROM hires WHERE id = ? AND deleted_at IS NULL', [id]);
     if (hires.length === 0) {
       return res.status(404).json({ error: 'New hire not found' });
     }
     
-    const hire = hires[0];
-    
-    if (!hire.srf_document_path || !hire.srf_document_name) {
-      return res.status(404).json({ error: 'No SRF document found for this hire' });
+    const versions = await getSrfVersions(id);
+    const version = versions.find(candidate => candidate.id === versionId);
+    if (!version) {
+      return res.status(404).json({ error: 'SRF version not found' });
     }
     
-    // Check if file exists
-    if (!fs.existsSync(hire.srf_document_path)) {
-      return res.status(404).json({ error: 'SRF document file not found on server' });
+    const error = checkSrfReview({ version, latest: versions[0], decision, reason });
+    if (error) {
+      return res.status(400).json({ error });
     }
     
-    // Create audit log for preview
-    const logId = generateId();
+    const reviewer = req.user.username;
     const now = new Date().toISOString();
-    const auditLog = {
-      id: logId,
-      new_hire_id: id,
-      action_type: "SRF_PREVIEW",
-      status: "SUCCESS",
-      message: `SRF document previewed: ${hire.srf_document_name}`,
-      performed_by: req.user ? req.user.username : "system",
-      timestamp: now
-    };
     
-    await executeQuery(`
-      INSERT INTO audit_logs (id, new_hire_id, action_type, status, message, performed_by, timestamp)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
-    `, [
-      auditLog.id, 
-      auditLog.new_hire_id, 
-      auditLog.action_type, 
-      auditLog.status, 
-      auditLog.message, 
-      auditLog.performed_by, 
-      auditLog.timestamp
-    ]);
-    
-    // Set headers for inline PDF viewing
-    const fileExtension = path.extname(hire.srf_document_name).toLowerCase();
-    if (fileExtension === '.pdf') {
-      res.setHeader('Content-Type', 'application/pdf');
-      res.setHeader('Content-Disposition', `inline; filename="${hire.srf_document_name}"`);
-    } else {
-      res.setHeader('Content-Type', 'application/octet-stream');
-      res.setHeader('Content-Disposition', `attachment; filename="${hire.srf_document_name}"`);
+    // Only a version still awaiting review and still the newest is updated, so two reviewers can't both
+    // decide it and an upload landing in between can't leave an older version approved
+    const reviewed = await executeQuery(`
+      UPDATE srf_versions
+      SET status = ?, reviewed_by = ?, reviewed_at = ?, rejection_reason = ?
+      OUTPUT inserted.*
+      WHERE id = ? AND status = 'submitted'
+        AND NOT EXISTS (SELECT 1 FROM srf_versions newer WHERE newer.hire_id = ? AND newer.version > ?)
+    `, [decision, reviewer, now, reason || null, versionId, id, version.version]);
+    if (reviewed.length === 0) {
+      return res.status(409).json({ error: 'This SRF version has already been reviewed or replaced' });
     }
     
-    // Send file for preview
-    res.sendFile(path.resolve(hire.srf_document_path), (err) => {
-      if (err) {
-        logger.api.error('Error sending SRF document for preview:', err);
-        if (!res.headersSent) {
-          res.status(500).json({ error: 'Failed to preview SRF document' });
-        }
-      } else {
-        logger.api.info(`SRF document previewed successfully: ${hire.srf_document_name}`);
-      }
+    await executeQuery(`
+      UPDATE hires SET status_srf = ?, updated_at = ? WHERE id = ?
+    `, [srfStatusFor(reviewed[0]) ? 1 : 0, now, id]);
+    
+    await recordAudit({
+      req,
+      targetId: id,
+      action: SRF_REVIEW_ACTIONS[decision],
+      message: `SRF version ${version.version} ${decision} by ${reviewer}${reason ? `: ${reason}` : ''}`,
+      details: { versionId, version: version.version, filename: version.file_name, ...(reason ? { reason } : {}) },
+      occurredAt: now
     });
     
+    logger.api.info(`SRF version ${version.version} of hire ${id} ${decision} by ${reviewer}`);
+    res.json(toSrfVersion(reviewed[0]));
   } catch (error) {
-    logger.api.error('Error previewing SRF document:', error);
-    res.status(500).json({ 
-      error: 'Failed to preview SRF document', 
-      message: error.message 
-    });
+    logger.api.error(`Error reviewing SRF version ${versionId}:`, error);
+    res.status(500).json({ error: 'Failed to review SRF version', message: error.message });
   }
-});
+};
 
-// Helper function to convert various boolean string representations to actual boolean
-function convertToBoolean(value) {
-  if (typeof value === 'boolean') return value;
-  if (typeof value === 'number') return value !== 0;
-  if (typeof value !== 'string') return false;
-  
-  const normalized = value.toLowerCase().trim();
-  return normalized === 'true' || normalized === 'yes' || normalized === '1' || normalized === 'y';
-}
+router.post('/:id/srf-versions/:versionId/approve', requireAdmin, reviewSrfVersion('approved'));
+router.post('/:id/srf-versions/:versionId/reject', requireAdmin, reviewSrfVersion('rejected'));
+router.post('/:id/srf-versions/:versionId/withdraw', requireAuth, reviewSrfVersion('withdrawn'));
 
 export default router;
@@ -0,0 +1,119 @@
+import express from 'express';
+import { executeQuery } from '../utils/dbConnection.js';
+import logger from '../utils/logger.js';
+import { requireAuth, requireRole } from '../middleware/authMiddleware.js';
+import { JOB_STATUSES } from '../utils/jobRetry.js';
+import { retryJob } from '../services/jobQueueService.js';
+
+const router = express.Router();
+
+// Whoever queued a job follows it here, so every route needs an account
+router.use(requireAuth);
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+// Payloads are left out - they can be large (email attachments) and are only for the handler
+const toJob = (row) => ({
+  id: row.id,
+  type: row.type,
+  status: row.status,
+  description: row.description,
+  result: row.result ? JSON.parse(row.result) : null,
+  last_error: row.last_error,
+  attempts: row.attempts,
+  max_attempts: row.max_attempts,
+  run_at: row.run_at,
+  hire_id: row.hire_id,
+  created_by: row.created_by,
+  created_at: row.created_at,
+  started_at: row.started_at,
+  finished_at: row.finished_at,
+  updated_at: row.updated_at
+});
+
+// Get jobs, newest first - filtered by status, type or hire
+router.get('/', async (req, res) => {
+  try {
+    const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+    const pageSize = Math.min(Math.max(parseInt(req.query.pageSize, 10) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+
+    const conditions = [];
+    const params = [];
+    if (JOB_STATUSES.includes(req.query.status)) {
+      conditions.push('status = ?');
+      params.push(req.query.status);
+    }
+    if (req.query.type) {
+      conditions.push('type = ?');
+      params.push(req.query.type);
+    }
+    if (req.query.hireId) {
+      conditions.push('hire_id = ?');
+      params.push(req.query.hireId);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await executeQuery(`SELECT COUNT(*) AS total FROM jobs ${where}`, params);
+    const total = countResult[0]?.total || 0;
+
+    const rows = await executeQuery(`
+      SELECT * FROM jobs ${where}
+      ORDER BY created_at DESC, id ASC
+      OFFSET ? ROWS FETCH NEXT ? ROWS ONLY
+    `, [...params, (page - 1) * pageSize, pageSize]);
+
+    // Counts per status for the filter tabs, ignoring the status filter itself
+    const statusCounts = await executeQuery('SELECT status, COUNT(*) AS count FROM jobs GROUP BY status');
+
+    res.json({
+      data: rows.map(toJob),
+      total,
+      page,
+      pageSize,
+      totalPages: Math.ceil(total / pageSize),
+      statusCounts: Object.fromEntries(statusCounts.map(row => [row.status, row.count]))
+    });
+  } catch (error) {
+    logger.api.error('Error fetching jobs:', error);
+    res.status(500).json({ error: 'Failed to fetch jobs', message: error.message });
+  }
+});
+
+// Get one job with its log, oldest line first
+router.get('/:id', async (req, res) => {
+  try {
+    const rows = await executeQuery('SELECT * FROM jobs WHERE id = ?', [req.params.id]);
+    if (rows.length === 0) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    const logs = await executeQuery(
+      'SELECT id, attempt, level, message, created_at FROM job_logs WHERE job_id = ? ORDER BY created_at ASC',
+      [req.params.id]
+    );
+    res.json({ ...toJob(rows[0]), logs });
+  } catch (error) {
+    logger.api.error(`Error fetching job ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to fetch job', message: error.message });
+  }
+});
+
+// Run a dead job again with a fresh set of attempts
+router.post('/:id/retry', requireRole('admin', 'support'), async (req, res) => {
+  try {
+    const retried = await retryJob(req.params.id, req.user.username);
+    if (!retried) {
+      return res.status(409).json({ error: 'Only dead jobs can be retried' });
+    }
+
+    logger.api.info(`Job ${req.params.id} retried by ${req.user.username}`);
+    const rows = await executeQuery('SELECT * FROM jobs WHERE id = ?', [req.params.id]);
+    res.json(toJob(rows[0]));
+  } catch (error) {
+    logger.api.error(`Error retrying job ${req.params.id}:`, error);
+    res.status(500).json({ error: 'Failed to retry job', message: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,63 @@
+import express from 'express';
+import { executeQuery } from '../utils/dbConnection.js';
+import logger from '../utils/logger.js';
+import { requireAuth } from '../middleware/authMiddleware.js';
+
+const router = express.Router();
+
+// Notifications belong to an account, so every route needs one
+router.use(requireAuth);
+
+// How many of the latest notifications the menu shows
+const NOTIFICATION_LIMIT = 50;
+
+// Get the current user's latest notifications and how many are unread
+router.get('/', async (req, res) => {
+  try {
+    const { username } = req.user;
+    const notifications = await executeQuery(`
+      SELECT TOP ${NOTIFICATION_LIMIT} * FROM notifications
+      WHERE username = ?
+      ORDER BY created_at DESC
+    `, [username]);
+    const unread = await executeQuery(
+      'SELECT COUNT(*) AS count FROM notifications WHERE username = ? AND read_at IS NULL',
+      [username]
+    );
+
+    res.json({ notifications, unreadCount: unread[0]?.count || 0 });
+  } catch (error) {
+    logger.api.error('Error fetching notifications:', error);
+    res.status(500).json({ error: 'Failed to fetch notifications', message: error.message });
+  }
+});
+
+// Mark all of the current user's notifications as read
+router.post('/read-all', async (req, res) => {
+  try {
+    await executeQuery(
+      'UPDATE notifications SET read_at = ? WHERE username = ? AND read_at IS NULL',
+      [new Date().toISOString(), req.user.username]
+    );
+    res.json({ success: true });
+  } catch (error) {
+    logger.api.error('Error marking notifications as read:', error);
+    res.status(500).json({ error: 'Failed to mark notifications as read', message: error.message });
+  }
+});
+
+// Mark one of the current user's notifications as read
+router.post('/:id/read', async (req, res) => {
+  try {
+    await executeQuery(
+      'UPDATE notifications SET read_at = ? WHERE id = ? AND username = ? AND read_at IS NULL',
+      [new Date().toISOString(), req.params.id, req.user.username]
+    );
+    res.json({ success: true });
+  } catch (error) {
+    logger.api.error('Error marking notification as read:', error);
+    res.status(500).json({ error: 'Failed to mark notification as read', message: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,106 @@
+import express from 'express';
+import { executeQuery } from '../utils/dbConnection.js';
+import logger from '../utils/logger.js';
+import {
+  REPORT_FIELDS,
+  DATE_FIELDS,
+  GROUP_BY_FIELDS,
+  REPORT_DATE_FORMATS,
+  getReportTemplates,
+  buildReport,
+  previewReport,
+  writeReportWorkbook
+} from '../utils/reportBuilder.js';
+import { CUSTOM_FIELD_PREFIX, getCustomFields, visibleCustomFields, flattenCustomValues } from '../utils/customFields.js';
+
+const router = express.Router();
+
+const MONTH = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+// Custom field values are added as "custom.<key>" properties - only the fields the user's role may see
+const withCustomValues = (hires, role) => {
+  const fields = visibleCustomFields(getCustomFields(), role);
+  return hires.map(hire => ({ ...hire, ...flattenCustomValues(hire.custom_fields, fields) }));
+};
+
+/**
+ * Find the requested template and the hires it covers - either the given hire IDs or everyone on site in a month.
+ * label names the file: the month, or today's date for picked hires. Returns { error, status } when the request can't be served.
+ */
+const loadReport = async ({ templateId, hireIds, month } = {}, role) => {
+  const template = getReportTemplates().find(t => t.id === templateId);
+  if (!template) return { status: 404, error: 'Report template not found' };
+
+  if (Array.isArray(hireIds) && hireIds.length > 0) {
+    const hires = await executeQuery(
+      `SELECT * FROM hires WHERE id IN (${hireIds.map(() => '?').join(', ')}) AND deleted_at IS NULL`,
+      hireIds
+    );
+    return { template, hires: withCustomValues(hires, role), label: new Date().toISOString().slice(0, 10).replace(/-/g, '') };
+  }
+
+  if (typeof month === 'string' && MONTH.test(month)) {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const nextMonth = monthNumber === 12 ? `${year + 1}-01` : `${year}-${String(monthNumber + 1).padStart(2, '0')}`;
+    const hires = await executeQuery(
+      'SELECT * FROM hires WHERE on_site_date >= ? AND on_site_date < ? AND deleted_at IS NULL',
+      [`${month}-01`, `${nextMonth}-01`]
+    );
+    return { template, hires: withCustomValues(hires, role), label: month };
+  }
+
+  return { status: 400, error: 'Choose hires or a month (YYYY-MM) for the report' };
+};
+
+// Fields, groupings and date formats report templates can use
+router.get('/fields', (req, res) => {
+  const customFields = visibleCustomFields(getCustomFields(), req.user ? req.user.role : null);
+  res.json({
+    fields: [
+      ...Object.entries(REPORT_FIELDS).map(([field, header]) => ({ field, header, isDate: DATE_FIELDS.includes(field) })),
+      ...customFields.map(field => ({ field: `${CUSTOM_FIELD_PREFIX}${field.key}`, header: field.label, isDate: field.type === 'date' }))
+    ],
+    groupByFields: GROUP_BY_FIELDS,
+    dateFormats: Object.keys(REPORT_DATE_FORMATS)
+  });
+});
+
+// What a report will contain, as text, before it is downloaded
+router.post('/preview', async (req, res) => {
+  try {
+    const { template, hires, error, status } = await loadReport(req.body, req.user ? req.user.role : null);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const sheets = buildReport(template, hires);
+    res.json({ templateName: template.name, totalRows: hires.length, sheets: previewReport(template, sheets) });
+  } catch (error) {
+    logger.api.error('Error previewing report:', error);
+    res.status(500).json({ error: 'Failed to preview report', message: error.message });
+  }
+});
+
+// Download a report as an .xlsx workbook
+router.post('/export', async (req, res) => {
+  try {
+    const { template, hires, label, error, status } = await loadReport(req.body, req.user ? req.user.role : null);
+    if (error) {
+      return res.status(status).json({ error });
+    }
+
+    const buffer = await writeReportWorkbook(template, buildReport(template, hires));
+    const fileName = `${template.name.toLowerCase().replace(/[^a-z0-9]+/g, '_')}_${label}.xlsx`;
+
+    logger.api.info(`Exported "${template.name}" report with ${hires.length} hires`);
+
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+    res.send(buffer);
+  } catch (error) {
+    logger.api.error('Error exporting report:', error);
+    res.status(500).json({ error: 'Failed to export report', message: error.message });
+  }
+});
+
+export default router;
@@ -5,8 +5,21 @@ import { fileURLToPath } from 'url';
 import { executeQuery } from '../utils/dbConnection.js';
 import sql from 'mssql';
 import { microsoftGraphService } from '../services/microsoftGraphService.js';
+import { enqueueJob, permanentJobError, registerJobHandler } from '../services/jobQueueService.js';
 import { getAdUserInfo } from './active-directory.js';
-import { resolveSenderEmail } from '../utils/emailUtils.js';
+import { renderHireTemplate, resolveSenderEmail } from '../utils/emailUtils.js';
+import { getChecklistSettings, validateChecklist } from '../utils/progressCalculator.js';
+import { DEFAULT_VAULT_SETTINGS } from '../services/credentialVaultService.js';
+import { DEFAULT_TRASH_SETTINGS } from '../services/trashService.js';
+import { getPasswordPolicy, validatePolicy } from '../utils/passwordPolicy.js';
+import { getIdentitySettings, validateIdentitySettings } from '../utils/identitySuggestions.js';
+import { validateMapping } from '../utils/importParser.js';
+import { getReportTemplates, validateReportTemplates } from '../utils/reportBuilder.js';
+import { getCustomFields, readCustomValues, validateCustomFields, visibleCustomFields } from '../utils/customFields.js';
+import { getDocumentTypes, validateDocumentTypes } from '../utils/documentTypes.js';
+import { getSrfTemplate, validateSrfTemplate } from '../utils/srfPdf.js';
+import { readStoredFile } from '../services/fileStorage.js';
+import { requireAdmin, requireAuth } from '../middleware/authMiddleware.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -75,6 +88,18 @@ router.get('/', async (req, res) => {
       }
     }
     
+    // Fill in the default checklist so the settings page always has something to edit
+    settings.onboardingChecklists = getChecklistSettings(settings);
+    settings.credentialVault = { ...DEFAULT_VAULT_SETTINGS, ...settings.credentialVault };
+    settings.trash = { ...DEFAULT_TRASH_SETTINGS, ...settings.trash };
+    settings.passwordPolicy = getPasswordPolicy(settings);
+    settings.identitySettings = getIdentitySettings(settings);
+    settings.importPresets = settings.importPresets || [];
+    settings.reportTemplates = getReportTemplates(settings);
+    settings.customFields = getCustomFields(settings);
+    settings.documentTypes = getDocumentTypes(settings);
+    settings.srfTemplate = getSrfTemplate(settings);
+    
     res.json(settings);
   } catch (err) {
     res.status(500).json({ error: 'Failed to get settings', message: err.message });
@@ -101,6 +126,308 @@ router.put('/account-statuses', (req, res) => {
   }
 });
 
+// Update onboarding checklists - a default checklist plus optional overrides per position grade
+router.put('/onboarding-checklists', requireAdmin, (req, res) => {
+  try {
+    const { checklists } = req.body;
+    
+    if (!checklists || typeof checklists !== 'object' || !Array.isArray(checklists.default)) {
+      return res.status(400).json({ error: 'Invalid format. Expected a default checklist and position grade checklists.' });
+    }
+    if (checklists.default.length === 0) {
+      return res.status(400).json({ error: 'The default checklist needs at least one item' });
+    }
+    
+    const positionGrades = checklists.positionGrades || {};
+    const toValidate = [['Default', checklists.default], ...Object.entries(positionGrades)];
+    for (const [name, items] of toValidate) {
+      const error = validateChecklist(items);
+      if (error) {
+        return res.status(400).json({ error: `${name} checklist: ${error}` });
+      }
+    }
+    
+    const settings = getSettings();
+    settings.onboardingChecklists = {
+      default: checklists.default,
+      // Grades with an empty checklist fall back to the default, so don't store them
+      positionGrades: Object.fromEntries(Object.entries(positionGrades).filter(([, items]) => items.length > 0))
+    };
+    
+    saveSettings(settings);
+    
+    res.json({ success: true, message: 'Onboarding checklists updated successfully' });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to update onboarding checklists', message: err.message });
+  }
+});
+
+// Update credential vault settings - when stored initial passwords are purged
+router.put('/credential-vault', requireAdmin, (req, res) => {
+  try {
+    const { retentionDays, purgeOnFirstLogon } = req.body;
+    
+    if (!Number.isInteger(retentionDays) || retentionDays < 0) {
+      return res.status(400).json({ error: 'Retention days must be a whole number of zero or more' });
+    }
+    
+    const settings = getSettings();
+    settings.credentialVault = {
+      retentionDays,
+      purgeOnFirstLogon: Boolean(purgeOnFirstLogon)
+    };
+    
+    saveSettings(settings);
+    
+    res.json({ success: true, message: 'Credential vault settings updated successfully' });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to update credential vault settings', message: err.message });
+  }
+});
+
+// Update how long deleted hires stay in the trash before they are purged
+router.put('/trash', requireAdmin, (req, res) => {
+  try {
+    const { retentionDays } = req.body;
+    
+    if (!Number.isInteger(retentionDays) || retentionDays < 0) {
+      return res.status(400).json({ error: 'Retention days must be a whole number of zero or more' });
+    }
+    
+    const settings = getSettings();
+    settings.trash = { retentionDays };
+    
+    saveSettings(settings);
+    
+    res.json({ success: true, message: 'Trash settings updated successfully' });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to update trash settings', message: err.message });
+  }
+});
+
+// Update password policy for initial credentials
+router.put('/password-policy', requireAdmin, (req, res) => {
+  try {
+    const { passwordPolicy } = req.body;
+    
+    const error = validatePolicy(passwordPolicy);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    const settings = getSettings();
+    settings.passwordPolicy = {
+      minLength: passwordPolicy.minLength,
+      requireUppercase: Boolean(passwordPolicy.requireUppercase),
+      requireLowercase: Boolean(passwordPolicy.requireLowercase),
+      requireNumbers: Boolean(passwordPolicy.requireNumbers),
+      requireSymbols: Boolean(passwordPolicy.requireSymbols),
+      disallowNameParts: Boolean(passwordPolicy.disallowNameParts),
+      bannedWords: passwordPolicy.bannedWords.map(word => word.trim()).filter(Boolean),
+      generator: passwordPolicy.generator,
+      passphraseWords: passwordPolicy.passphraseWords
+    };
+    
+    saveSettings(settings);
+    
+    res.json({ success: true, message: 'Password policy updated successfully' });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to update password policy', message: err.message });
+  }
+});
+
+// Update the email domain and username patterns used to suggest account names
+router.put('/identity', requireAdmin, (req, res) => {
+  try {
+    const { emailDomain, patterns } = req.body;
+    const cleanedPatterns = Array.isArray(patterns) ? patterns.map(pattern => String(pattern).trim()).filter(Boolean) : patterns;
+    
+    const error = validateIdentitySettings({ emailDomain, patterns: cleanedPatterns });
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    const settings = getSettings();
+    settings.identitySettings = {
+      emailDomain: emailDomain.trim().toLowerCase(),
+      patterns: cleanedPatterns
+    };
+    
+    saveSettings(settings);
+    
+    res.json({ success: true, message: 'Identity settings updated successfully' });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to update identity settings', message: err.message });
+  }
+});
+
+// Save an import column mapping preset for a source, replacing any preset with the same source name
+router.post('/import-presets', requireAuth, (req, res) => {
+  try {
+    const { source, mapping } = req.body;
+    
+    if (!source || typeof source !== 'string' || !source.trim()) {
+      return res.status(400).json({ error: 'Source name is required' });
+    }
+    const settings = getSettings();
+    const error = validateMapping(mapping, null, getCustomFields(settings));
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    const presets = settings.importPresets || [];
+    const existing = presets.find(preset => preset.source.toLowerCase() === source.trim().toLowerCase());
+    const preset = {
+      id: existing?.id || Math.random().toString(36).slice(2),
+      source: source.trim(),
+      // Only mapped columns are kept; ignored ones are left out
+      mapping: Object.fromEntries(Object.entries(mapping).filter(([, field]) => field)),
+      updatedAt: new Date().toISOString()
+    };
+    settings.importPresets = existing
+      ? presets.map(p => p.id === existing.id ? preset : p)
+      : [...presets, preset];
+    
+    saveSettings(settings);
+    
+    res.json({ success: true, message: 'Import preset saved successfully', preset });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to save import preset', message: err.message });
+  }
+});
+
+// Delete an import column mapping preset
+router.delete('/import-presets/:id', requireAuth, (req, res) => {
+  try {
+    const settings = getSettings();
+    const presets = settings.importPresets || [];
+    if (!presets.some(preset => preset.id === req.params.id)) {
+      return res.status(404).json({ error: 'Import preset not found' });
+    }
+    
+    settings.importPresets = presets.filter(preset => preset.id !== req.params.id);
+    saveSettings(settings);
+    
+    res.json({ success: true, message: 'Import preset deleted successfully' });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to delete import preset', message: err.message });
+  }
+});
+
+// Replace the report templates used for Excel exports
+router.put('/report-templates', requireAdmin, (req, res) => {
+  try {
+    const { reportTemplates } = req.body;
+    
+    const settings = getSettings();
+    const error = validateReportTemplates(reportTemplates, getCustomFields(settings));
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    settings.reportTemplates = reportTemplates.map(template => ({
+      id: template.id,
+      name: template.name.trim(),
+      groupBy: template.groupBy || null,
+      columns: template.columns.map(column => ({
+        field: column.field,
+        header: column.header.trim(),
+        ...(column.dateFormat ? { dateFormat: column.dateFormat } : {})
+      }))
+    }));
+    
+    saveSettings(settings);
+    
+    res.json({ success: true, message: 'Report templates updated successfully' });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to update report templates', message: err.message });
+  }
+});
+
+// Update the custom fields admins have added to hire records.
+// Removing a field hides its values but leaves them stored, so adding it back restores them.
+router.put('/custom-fields', requireAdmin, (req, res) => {
+  try {
+    const { customFields } = req.body;
+    
+    const error = validateCustomFields(customFields);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    const settings = getSettings();
+    settings.customFields = customFields.map(field => ({
+      key: field.key,
+      label: field.label.trim(),
+      type: field.type,
+      ...(field.type === 'select' ? { options: field.options.map(option => option.trim()).filter(Boolean) } : {}),
+      required: Boolean(field.required),
+      visibleTo: field.visibleTo || []
+    }));
+    
+    saveSettings(settings);
+    
+    res.json({ success: true, message: 'Custom fields updated successfully' });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to update custom fields', message: err.message });
+  }
+});
+
+// Update the template generated SRF PDFs are rendered from
+router.put('/srf-template', requireAdmin, (req, res) => {
+  try {
+    const { srfTemplate } = req.body;
+    
+    const error = validateSrfTemplate(srfTemplate);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    const settings = getSettings();
+    settings.srfTemplate = {
+      companyName: srfTemplate.companyName.trim(),
+      companyAddress: (srfTemplate.companyAddress || '').trim(),
+      title: srfTemplate.title.trim(),
+      numberFormat: srfTemplate.numberFormat.trim(),
+      introduction: srfTemplate.introduction || '',
+      footer: srfTemplate.footer || '',
+      signatures: (srfTemplate.signatures || []).map(label => label.trim()).filter(Boolean)
+    };
+    
+    saveSettings(settings);
+    
+    res.json({ success: true, message: 'SRF template updated successfully' });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to update SRF template', message: err.message });
+  }
+});
+
+// Update the document types collected for each hire.
+// Removing a type keeps its uploaded documents but no longer counts them as missing.
+router.put('/document-types', requireAdmin, (req, res) => {
+  try {
+    const { documentTypes } = req.body;
+    
+    const error = validateDocumentTypes(documentTypes);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    
+    const settings = getSettings();
+    settings.documentTypes = documentTypes.map(type => ({
+      key: type.key,
+      label: type.label.trim(),
+      required: Boolean(type.required)
+    }));
+    
+    saveSettings(settings);
+    
+    res.json({ success: true, message: 'Document types updated successfully' });
+  } catch (err) {
+    res.status(500).json({ error: 'Failed to update document types', message: err.message });
+  }
+});
+
 // Update mailing lists - now supports new structure
 router.put('/mailing-lists', (req, res) => {
   try {
@@ -524,6 +851,20 @@ router.put('/exchange-online', (req, res) => {
   }
 });
 
+// Welcome email sent to a hire's new mailbox; placeholders are hire fields, {{custom.<key>}} and {{signature}}
+const DEFAULT_WELCOME_EMAIL_SUBJECT = 'Welcome to PT. Merdeka Tsingshan Indonesia, {{name}}';
+const DEFAULT_WELCOME_EMAIL_BODY = `Dear {{name}},
+
+Welcome to PT. Merdeka Tsingshan Indonesia! Your company account is ready:
+
+Email: {{email}}
+Username: {{username}}
+Department: {{department}}
+
+Your first day on site is {{on_site_date}}. Please don't hesitate to contact IT for any question.
+
+{{signature}}`;
+
 // Microsoft Graph settings routes
 router.get('/microsoft-graph', async (req, res) => {
   try {
@@ -552,7 +893,9 @@ Please process these license assignments at your earliest convenience. If you ne
 Thank you for your assistance.
 
 Best regards,
-HR Department`
+HR Department`,
+      welcomeEmailSubjectTemplate: DEFAULT_WELCOME_EMAIL_SUBJECT,
+      welcomeEmailBodyTemplate: DEFAULT_WELCOME_EMAIL_BODY
     };
     
     res.json(microsoftGraphSettings);
@@ -610,6 +953,30 @@ router.post('/microsoft-graph/test-connection', async (req, res) => {
   }
 });
 
+// Queued by the email routes below - sends a prepared message through Microsoft Graph
+registerJobHandler('email.send', async ({ emailData, sentMessage }, { job, log }) => {
+  const settings = await getSettings();
+  const graphSettings = settings.microsoftGraphSettings;
+  if (!graphSettings?.enabled) {
+    throw permanentJobError('Microsoft Graph integration is not enabled');
+  }
+
+  // An email about one hire, such as the welcome email, isn't sent once the hire is in the trash
+  if (job.hire_id) {
+    const hires = await executeQuery('SELECT id FROM hires WHERE id = ? AND deleted_at IS NULL', [job.hire_id]);
+    if (hires.length === 0) {
+      throw permanentJobError('Hire not found or moved to the trash');
+    }
+  }
+
+  await log(`Sending "${emailData.subject}" to ${emailData.recipients.length} recipient(s)`);
+  const result = await microsoftGraphService.sendEmail(graphSettings, emailData);
+  if (!result.success) {
+    throw new Error(result.message || 'Failed to send email');
+  }
+  return { success: true, message: sentMessage || result.message || 'Email sent' };
+});
+
 router.post('/microsoft-graph/send-license-request', async (req, res) => {
   try {
     const { recipients, ccRecipients, bccRecipients, hires, includeAttachments } = req.body;
@@ -636,17 +1003,6 @@ router.post('/microsoft-graph/send-license-request', async (req, res) => {
     console.log('includeAttachments type:', typeof includeAttachments);
     console.log('Number of hires:', hires?.length || 0);
 
-    // Log each hire's SRF information upfront
-    if (hires && hires.length > 0) {
-      console.log('\n=== Hire SRF Information ===');
-      hires.forEach((hire, index) => {
-        console.log(`Hire ${index + 1}: ${hire.name}`);
-        console.log(`  - srf_document_path: ${hire.srf_document_path || 'NOT SET'}`);
-        console.log(`  - srf_document_name: ${hire.srf_document_name || 'NOT SET'}`);
-        console.log(`  - Has SRF data: ${!!(hire.srf_document_path && hire.srf_document_name)}`);
-      });
-    }
-
     if (!graphSettings?.enabled) {
       return res.status(400).json({
         success: false,
@@ -666,91 +1022,37 @@ router.post('/microsoft-graph/send-license-request', async (req, res) => {
       });
     }
 
-    // Process SRF attachments if requested
+    // Attach each hire's current SRF from the file storage. Only the hire ids in the request are
+    // trusted - the document itself is looked up here.
     let attachments = [];
     
-    console.log('\n=== Attachment Processing Decision ===');
-    console.log('includeAttachments flag is:', includeAttachments);
-    console.log('Will process attachments:', !!includeAttachments);
-    
     if (includeAttachments) {
-      console.log('=== SRF Attachment Processing Start ===');
-      console.log('Processing SRF attachments for email...');
-      
       for (const hire of hires) {
-        console.log(`\n--- Processing hire: ${hire.name} ---`);
-        console.log('Hire ID:', hire.id);
-        console.log('SRF document path from DB:', hire.srf_document_path);
-        console.log('SRF document name from DB:', hire.srf_document_name);
-        
-        if (hire.srf_document_path && hire.srf_document_name) {
-          try {
-            let fullSrfPath;
-            
-            // Check if the stored path is already absolute (Windows or Unix)
-            if (path.isAbsolute(hire.srf_document_path)) {
-              // Use the absolute path directly
-              fullSrfPath = path.resolve(hire.srf_document_path);
-              console.log('Using absolute path from database:', fullSrfPath);
-            } else {
-              // Construct relative path from server directory
-              fullSrfPath = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', hire.srf_document_path);
-              console.log('Constructed relative path:', fullSrfPath);
-            }
-            
-            console.log('Final resolved SRF file path:', fullSrfPath);
-            console.log('SRF file exists:', fs.existsSync(fullSrfPath));
-            
-            if (fs.existsSync(fullSrfPath)) {
-              console.log('Reading SRF file...');
-              
-              // Get file stats
-              const fileStats = fs.statSync(fullSrfPath);
-              console.log('File size:', fileStats.size, 'bytes');
-              console.log('File modified:', fileStats.mtime);
-              
-              // Read file and convert to base64
-              const fileBuffer = fs.readFileSync(fullSrfPath);
-              console.log('File buffer length:', fileBuffer.length);
-              
-              const base64Content = fileBuffer.toString('base64');
-              console.log('Base64 content length:', base64Content.length);
-              console.log('Base64 content preview (first 100 chars):', base64Content.substring(0, 100));
-              
-              // Use the original filename from database for attachment
-              const attachmentFilename = `SRF_${hire.name.replace(/\s+/g, '_')}.pdf`;
-              console.log('Attachment filename:', attachmentFilename);
-              console.log('Original filename from DB:', hire.srf_document_name);
-              
-              attachments.push({
-                filename: attachmentFilename,
-                content: base64Content,
-                contentType: 'application/pdf'
-              });
-              
-              console.log(`✓ Successfully added SRF attachment for ${hire.name}`);
-            } else {
-              console.log(`✗ SRF file not found at resolved path: ${fullSrfPath}`);
-              console.log(`Original database path was: ${hire.srf_document_path}`);
-              console.log(`Path is absolute: ${path.isAbsolute(hire.srf_document_path)}`);
-            }
-          } catch (error) {
-            console.error(`✗ Error processing SRF attachment for ${hire.name}:`, error.message);
-            console.error('Error stack:', error.stack);
-            // Continue processing other attachments even if one fails
+        try {
+          const [latest] = await executeQuery(
+            'SELECT TOP 1 file_name, file_path FROM srf_versions WHERE hire_id = ? ORDER BY version DESC',
+            [hire.id]
+          );
+          if (!latest) {
+            console.log(`Hire ${hire.name} has no SRF document to attach`);
+            continue;
           }
-        } else {
-          console.log(`⚠ Hire ${hire.name} missing SRF document path or name in database`);
-          console.log('srf_document_path:', hire.srf_document_path || 'NOT SET');
-          console.log('srf_document_name:', hire.srf_document_name || 'NOT SET');
+          
+          const fileBuffer = await readStoredFile(latest.file_path);
+          const extension = path.extname(latest.file_name).toLowerCase() || '.pdf';
+          
+          attachments.push({
+            filename: `SRF_${hire.name.replace(/\s+/g, '_')}${extension}`,
+            content: fileBuffer.toString('base64'),
+            contentType: extension === '.pdf' ? 'application/pdf' : 'application/octet-stream'
+          });
+        } catch (error) {
+          // Continue with the other attachments even if one fails
+          console.error(`Error attaching SRF for ${hire.name}:`, error.message);
         }
       }
       
-      console.log(`\n=== SRF Processing Complete ===`);
-      console.log(`Total SRF attachments processed: ${attachments.length}`);
-      console.log('Attachment filenames:', attachments.map(a => a.filename));
-    } else {
-      console.log('includeAttachments is false/undefined, skipping SRF processing');
+      console.log(`SRF attachments added: ${attachments.length} of ${hires.length}`);
     }
 
     // Generate email content from template using HTML table format (same as preview)
@@ -816,32 +1118,31 @@ router.post('/microsoft-graph/send-license-request', async (req, res) => {
       });
     }
 
-    console.log('\n=== Sending email with Microsoft Graph ===');
-    const result = await microsoftGraphService.sendEmail(graphSettings, emailData);
-    
-    if (result.success) {
-      const totalRecipients = finalToRecipients.length + finalCcRecipients.length + finalBccRecipients.length;
-      const attachmentInfo = attachments.length > 0 ? ` with ${attachments.length} SRF attachment(s)` : '';
-      console.log(`✓ Email sent successfully to ${totalRecipients} recipient(s)${attachmentInfo}`);
-      
-      res.json({
-        success: true,
-        message: `License request email sent successfully to ${totalRecipients} recipient(s)${attachmentInfo}`,
-        sentCount: hires.length,
-        attachmentCount: attachments.length,
-        recipients: {
-          to: finalToRecipients,
-          cc: finalCcRecipients,
-          bcc: finalBccRecipients
-        }
-      });
-    } else {
-      console.log('✗ Email sending failed:', result.message);
-      res.json({
-        success: false,
-        message: result.message || 'Failed to send license request email'
-      });
-    }
+    // Sending is queued so a Graph timeout or restart doesn't lose the email
+    const performedBy = req.user?.username || 'system';
+    const totalRecipients = finalToRecipients.length + finalCcRecipients.length + finalBccRecipients.length;
+    const attachmentInfo = attachments.length > 0 ? ` with ${attachments.length} SRF attachment(s)` : '';
+    const sentMessage = `License request email sent successfully to ${totalRecipients} recipient(s)${attachmentInfo}`;
+    const jobId = await enqueueJob('email.send', { emailData, sentMessage }, {
+      description: `License request email for ${hires.length} hire(s) to ${totalRecipients} recipient(s)`,
+      hireId: hires.length === 1 ? hires[0].id : null,
+      createdBy: performedBy
+    });
+    console.log(`✓ Email queued as job ${jobId}`);
+
+    res.status(202).json({
+      success: true,
+      queued: true,
+      jobId,
+      message: `License request email to ${totalRecipients} recipient(s)${attachmentInfo} has been queued`,
+      sentCount: hires.length,
+      attachmentCount: attachments.length,
+      recipients: {
+        to: finalToRecipients,
+        cc: finalCcRecipients,
+        bcc: finalBccRecipients
+      }
+    });
   } catch (error) {
     console.error('=== Email Sending Error ===');
     console.error('Error message:', error.message);
@@ -853,6 +1154,82 @@ router.post('/microsoft-graph/send-license-request', async (req, res) => {
   }
 });
 
+// Send the welcome email to one hire's mailbox, rendered from the welcome templates
+router.post('/microsoft-graph/send-welcome-email', async (req, res) => {
+  try {
+    const { hireId } = req.body;
+    const settings = await getSettings();
+    const graphSettings = settings.microsoftGraphSettings;
+    const adSettings = settings.activeDirectorySettings;
+
+    if (!graphSettings?.enabled) {
+      return res.status(400).json({
+        success: false,
+        message: 'Microsoft Graph integration is not enabled'
+      });
+    }
+
+    const hires = await executeQuery('SELECT * FROM hires WHERE id = ? AND deleted_at IS NULL', [hireId]);
+    if (hires.length === 0) {
+      return res.status(404).json({ success: false, message: 'Hire not found' });
+    }
+    const hire = hires[0];
+    if (!hire.email) {
+      return res.status(400).json({ success: false, message: `${hire.name} has no email address` });
+    }
+
+    let signature = '';
+    if (req.user?.username && adSettings?.enabled) {
+      try {
+        const info = await getAdUserInfo(adSettings, req.user.username);
+        signature = `Best regards,<br>${info.displayName}<br>${info.title} | ${info.department}`;
+      } catch (err) {
+        console.error('Failed to fetch AD user info:', err);
+      }
+    }
+
+    // Only custom values the sender can see end up in the email
+    const customValues = readCustomValues(hire.custom_fields, visibleCustomFields(getCustomFields(settings), req.user?.role));
+    const subject = renderHireTemplate(graphSettings.welcomeEmailSubjectTemplate || DEFAULT_WELCOME_EMAIL_SUBJECT, hire, customValues, { html: false });
+    const bodyTemplate = renderHireTemplate(graphSettings.welcomeEmailBodyTemplate || DEFAULT_WELCOME_EMAIL_BODY, hire, customValues)
+      .replace(/\{\{signature\}\}/g, signature);
+
+    const body = bodyTemplate.split(/\n\n+/)
+      .map(paragraph => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+      .join('');
+
+    const senderEmail = await resolveSenderEmail(graphSettings, adSettings, req, getAdUserInfo);
+    const emailData = {
+      recipients: [hire.email],
+      subject,
+      body: {
+        contentType: 'HTML',
+        content: body
+      },
+      senderEmail
+    };
+
+    const jobId = await enqueueJob('email.send', { emailData, sentMessage: `Welcome email sent to ${hire.email}` }, {
+      description: `Welcome email to ${hire.name}`,
+      hireId: hire.id,
+      createdBy: req.user?.username || 'system'
+    });
+
+    res.status(202).json({
+      success: true,
+      queued: true,
+      jobId,
+      message: `Welcome email to ${hire.email} has been queued`
+    });
+  } catch (error) {
+    console.error('Error sending welcome email:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to send welcome email: ' + error.message
+    });
+  }
+});
+
 router.post('/microsoft-graph/email-template-preview', async (req, res) => {
   try {
     const { hires } = req.body;
@@ -4,6 +4,7 @@ import { executeQuery } from '../utils/dbConnection.js';
 import { initializeSchema } from '../utils/schemaInit.js';
 import bcrypt from 'bcrypt';
 import logger from '../utils/logger.js';
+import { requireAuth } from '../middleware/authMiddleware.js';
 
 const router = express.Router();
 const SALT_ROUNDS = 10;
@@ -36,6 +37,17 @@ router.get('/support', async (req, res) => {
   }
 });
 
+// Get the accounts that can be @mentioned in hire comments
+router.get('/mentionable', requireAuth, async (req, res) => {
+  try {
+    const users = await executeQuery("SELECT username, role FROM users WHERE approved = 1 OR role = 'admin' ORDER BY username");
+    res.json(users);
+  } catch (error) {
+    logger.api.error('Failed to get mentionable users from database:', error);
+    res.status(500).json({ error: 'Database error: Failed to retrieve users' });
+  }
+});
+
 // Get pending approval accounts
 router.get('/pending', async (req, res) => {
   try {
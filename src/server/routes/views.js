@@ -0,0 +1,196 @@
+import express from 'express';
+import { executeQuery } from '../utils/dbConnection.js';
+import logger from '../utils/logger.js';
+import { requireAuth } from '../middleware/authMiddleware.js';
+import { normalizeViewState } from '../utils/savedViews.js';
+
+const router = express.Router();
+
+// Saved views belong to an account, so every route needs one
+router.use(requireAuth);
+
+const generateId = () => {
+  return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+};
+
+// Saved views are stored with their state as JSON
+const toView = (row) => ({
+  id: row.id,
+  name: row.name,
+  owner: row.owner,
+  is_shared: Boolean(row.is_shared),
+  state: JSON.parse(row.view_state),
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+// A user sees their own views and every view shared with the team
+const findVisibleView = async (id, username) => {
+  const rows = await executeQuery(
+    'SELECT * FROM saved_views WHERE id = ? AND (owner = ? OR is_shared = 1)',
+    [id, username]
+  );
+  return rows[0] || null;
+};
+
+// Get the current user's views, views shared by others, and their default view
+router.get('/', async (req, res) => {
+  try {
+    const { username } = req.user;
+    const rows = await executeQuery(
+      'SELECT * FROM saved_views WHERE owner = ? OR is_shared = 1 ORDER BY name',
+      [username]
+    );
+    const defaults = await executeQuery('SELECT view_id FROM user_view_defaults WHERE username = ?', [username]);
+    const defaultViewId = defaults[0]?.view_id || null;
+
+    res.json({
+      views: rows.map(toView),
+      // A default that was deleted or unshared since is ignored
+      defaultViewId: rows.some(row => row.id === defaultViewId) ? defaultViewId : null
+    });
+  } catch (error) {
+    logger.api.error('Error fetching saved views:', error);
+    res.status(500).json({ error: 'Failed to fetch saved views', message: error.message });
+  }
+});
+
+// Save the hires list state as a new named view
+router.post('/', async (req, res) => {
+  try {
+    const { username } = req.user;
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+    if (!name) {
+      return res.status(400).json({ error: 'View name is required' });
+    }
+
+    const { state, error } = normalizeViewState(req.body.state);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const existing = await executeQuery(
+      'SELECT id FROM saved_views WHERE owner = ? AND LOWER(name) = ?',
+      [username, name.toLowerCase()]
+    );
+    if (existing.length > 0) {
+      return res.status(409).json({ error: `You already have a view named "${name}"` });
+    }
+
+    const now = new Date().toISOString();
+    const id = generateId();
+    await executeQuery(`
+      INSERT INTO saved_views (id, name, owner, is_shared, view_state, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [id, name, username, req.body.isShared ? 1 : 0, JSON.stringify(state), now, now]);
+
+    const [row] = await executeQuery('SELECT * FROM saved_views WHERE id = ?', [id]);
+    logger.api.info(`Saved view "${name}" created by ${username}`);
+    res.status(201).json(toView(row));
+  } catch (error) {
+    logger.api.error('Error creating saved view:', error);
+    res.status(500).json({ error: 'Failed to create saved view', message: error.message });
+  }
+});
+
+// Set or clear the current user's default view
+router.put('/default', async (req, res) => {
+  try {
+    const { username } = req.user;
+    const { viewId } = req.body;
+
+    // Check the new view first, so an unknown one leaves the current default in place
+    if (viewId && !await findVisibleView(viewId, username)) {
+      return res.status(404).json({ error: 'Saved view not found' });
+    }
+
+    await executeQuery('DELETE FROM user_view_defaults WHERE username = ?', [username]);
+    if (viewId) {
+      await executeQuery(
+        'INSERT INTO user_view_defaults (username, view_id, updated_at) VALUES (?, ?, ?)',
+        [username, viewId, new Date().toISOString()]
+      );
+    }
+
+    res.json({ success: true, defaultViewId: viewId || null });
+  } catch (error) {
+    logger.api.error('Error setting default view:', error);
+    res.status(500).json({ error: 'Failed to set default view', message: error.message });
+  }
+});
+
+// Rename, re-share or overwrite the state of a view - owners only
+router.put('/:id', async (req, res) => {
+  try {
+    const { username } = req.user;
+    const [view] = await executeQuery('SELECT * FROM saved_views WHERE id = ?', [req.params.id]);
+    if (!view) {
+      return res.status(404).json({ error: 'Saved view not found' });
+    }
+    if (view.owner !== username) {
+      return res.status(403).json({ error: 'Only the owner can change a saved view' });
+    }
+
+    const updates = {};
+    if (req.body.name !== undefined) {
+      const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+      if (!name) {
+        return res.status(400).json({ error: 'View name is required' });
+      }
+      const existing = await executeQuery(
+        'SELECT id FROM saved_views WHERE owner = ? AND LOWER(name) = ? AND id <> ?',
+        [username, name.toLowerCase(), view.id]
+      );
+      if (existing.length > 0) {
+        return res.status(409).json({ error: `You already have a view named "${name}"` });
+      }
+      updates.name = name;
+    }
+    if (req.body.state !== undefined) {
+      const { state, error } = normalizeViewState(req.body.state);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+      updates.view_state = JSON.stringify(state);
+    }
+    if (req.body.isShared !== undefined) {
+      updates.is_shared = req.body.isShared ? 1 : 0;
+    }
+
+    const fields = Object.keys(updates);
+    if (fields.length > 0) {
+      await executeQuery(`
+        UPDATE saved_views SET ${fields.map(field => `${field} = ?`).join(', ')}, updated_at = ? WHERE id = ?
+      `, [...Object.values(updates), new Date().toISOString(), view.id]);
+    }
+
+    const [row] = await executeQuery('SELECT * FROM saved_views WHERE id = ?', [view.id]);
+    res.json(toView(row));
+  } catch (error) {
+    logger.api.error('Error updating saved view:', error);
+    res.status(500).json({ error: 'Failed to update saved view', message: error.message });
+  }
+});
+
+// Delete a view - its owner or an admin
+router.delete('/:id', async (req, res) => {
+  try {
+    const [view] = await executeQuery('SELECT * FROM saved_views WHERE id = ?', [req.params.id]);
+    if (!view) {
+      return res.status(404).json({ error: 'Saved view not found' });
+    }
+    if (view.owner !== req.user.username && req.user.role !== 'admin') {
+      return res.status(403).json({ error: 'Only the owner can delete a saved view' });
+    }
+
+    await executeQuery('DELETE FROM user_view_defaults WHERE view_id = ?', [view.id]);
+    await executeQuery('DELETE FROM saved_views WHERE id = ?', [view.id]);
+
+    res.json({ success: true, message: 'Saved view deleted' });
+  } catch (error) {
+    logger.api.error('Error deleting saved view:', error);
+    res.status(500).json({ error: 'Failed to delete saved view', message: error.message });
+  }
+});
+
+export default router;
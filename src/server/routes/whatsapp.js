@@ -5,12 +5,17 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import logger from '../utils/logger.js';
+import { getHirePassword, revealHirePassword } from '../services/credentialVaultService.js';
+import { enqueueJob, permanentJobError, registerJobHandler } from '../services/jobQueueService.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const router = express.Router();
 
+// Template placeholder for the hire's initial password, filled in on the server only
+const PASSWORD_PLACEHOLDER = '{{password}}';
+
 // Data storage paths
 const DATA_DIR = path.join(__dirname, '../data');
 const SETTINGS_FILE = path.join(DATA_DIR, 'settings.json');
@@ -29,10 +34,59 @@ const getWhatsAppSettings = () => {
   }
 };
 
-// Proxy endpoint for sending WhatsApp messages
+// Queued by POST /send. {{password}} is filled in here, when the message goes out, so it is never stored in the job.
+registerJobHandler('whatsapp.send', async ({ number, message, hireId, requestedBy }, { log }) => {
+  // Get WhatsApp API URL from settings
+  const settings = getWhatsAppSettings();
+  if (!settings.apiUrl) {
+    throw permanentJobError('WhatsApp API not configured - no API URL found in settings');
+  }
+
+  // Format the full URL
+  let apiUrl = settings.apiUrl;
+  if (!apiUrl.endsWith('/')) {
+    apiUrl += '/';
+  }
+  apiUrl += 'send-message';
+
+  let text = message;
+  if (text.includes(PASSWORD_PLACEHOLDER)) {
+    const password = await revealHirePassword(hireId, requestedBy, `Sent via WhatsApp to ${number}`);
+    if (!password) {
+      throw permanentJobError('No initial password stored - it has been purged or was never set');
+    }
+    text = text.split(PASSWORD_PLACEHOLDER).join(password);
+  }
+
+  await log(`Sending message to ${number}`);
+
+  try {
+    const response = await axios.post(apiUrl, {
+      number,
+      message: text
+    }, {
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      // Bypass SSL verification only if necessary (for self-signed certs)
+      // httpsAgent: new https.Agent({ rejectUnauthorized: false })
+    });
+
+    logger.api.info('WhatsApp API response:', response.data);
+    return response.data;
+  } catch (error) {
+    // The API refusing the message (bad number, bad request) won't change on a retry
+    const status = error.response?.status;
+    const details = error.response?.data ? ` - ${JSON.stringify(error.response.data)}` : '';
+    const failure = `Failed to send WhatsApp message: ${error.message}${details}`;
+    throw status >= 400 && status < 500 ? permanentJobError(failure) : new Error(failure);
+  }
+});
+
+// Queue a WhatsApp message through the configured API - returns the job id
 router.post('/send', async (req, res) => {
   try {
-    const { number, message } = req.body;
+    const { number, message, hireId } = req.body;
     
     if (!number || !message) {
       return res.status(400).json({ 
@@ -41,7 +95,6 @@ router.post('/send', async (req, res) => {
       });
     }
 
-    // Get WhatsApp API URL from settings
     const settings = getWhatsAppSettings();
     if (!settings.apiUrl) {
       return res.status(400).json({ 
@@ -49,47 +102,41 @@ router.post('/send', async (req, res) => {
         details: 'No API URL found in settings'
       });
     }
-
-    // Format the full URL
-    let apiUrl = settings.apiUrl;
-    if (!apiUrl.endsWith('/')) {
-      apiUrl += '/';
+    
+    // The password comes from the credential vault so it never passes through the browser
+    if (message.includes(PASSWORD_PLACEHOLDER)) {
+      if (!hireId) {
+        return res.status(400).json({ 
+          error: 'Missing hire', 
+          details: 'hireId is required to send a message containing the initial password'
+        });
+      }
+      if (!req.user || !['admin', 'support'].includes(req.user.role)) {
+        return res.status(403).json({ error: 'Forbidden: admin or support access required to send passwords' });
+      }
+      if (!(await getHirePassword(hireId))) {
+        return res.status(404).json({ 
+          error: 'No initial password stored', 
+          details: 'The password has been purged or was never set. Remove {{password}} from the message or set a new password.'
+        });
+      }
     }
-    apiUrl += 'send-message';
 
-    logger.api.info(`Proxying WhatsApp message to ${apiUrl} for number: ${number}`);
-    
-    // Make the request to the WhatsApp API
-    const response = await axios.post(apiUrl, {
-      number,
-      message
-    }, {
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      // Bypass SSL verification only if necessary (for self-signed certs)
-      // httpsAgent: new https.Agent({ rejectUnauthorized: false })
+    const requestedBy = req.user?.username || 'system';
+    const jobId = await enqueueJob('whatsapp.send', { number, message, hireId: hireId || null, requestedBy }, {
+      description: `Send WhatsApp message to ${number}`,
+      hireId: hireId || null,
+      createdBy: requestedBy
     });
 
-    // Return the response from the WhatsApp API
-    logger.api.info('WhatsApp API response:', response.data);
-    return res.status(response.status).json(response.data);
+    logger.api.info(`Queued WhatsApp message for number: ${number}`);
+    return res.status(202).json({ success: true, queued: true, jobId, message: `WhatsApp message to ${number} has been queued` });
   } catch (error) {
-    logger.api.error('Error proxying WhatsApp message:', error);
-    
-    // Structured error response
-    const status = error.response?.status || 500;
-    const errorResponse = {
+    logger.api.error('Error queueing WhatsApp message:', error);
+    return res.status(500).json({
       error: 'Failed to send WhatsApp message',
-      details: error.message,
-      status
-    };
-    
-    if (error.response?.data) {
-      errorResponse.apiResponse = error.response.data;
-    }
-    
-    return res.status(status).json(errorResponse);
+      details: error.message
+    });
   }
 });
 
@@ -0,0 +1,134 @@
+import { executeQuery } from '../utils/dbConnection.js';
+import { getRequestId } from '../middleware/requestIdMiddleware.js';
+
+/**
+ * The audit trail. Every audit_logs row is written by recordAudit, so each event has the same shape:
+ * who did it (actor), what it was about (target_type/target_id), what happened (action, status,
+ * message), structured details as JSON and the ID of the API request behind it.
+ */
+
+export const AUDIT_ACTIONS = [
+  // Hire records
+  'UPDATE', 'BULK_UPDATE', 'REVERT', 'DELETED', 'RESTORED',
+  // File imports
+  'IMPORT', 'IMPORT_UPDATE', 'IMPORT_ROLLBACK',
+  // Credential vault
+  'PASSWORD_REVEALED', 'PASSWORD_PURGED',
+  // SRF documents
+  'SRF_UPLOAD', 'SRF_GENERATE', 'SRF_DOWNLOAD', 'SRF_PREVIEW', 'SRF_DELETE', 'SRF_APPROVED', 'SRF_REJECTED', 'SRF_WITHDRAWN',
+  // Hire documents
+  'DOCUMENT_UPLOAD', 'DOCUMENT_DOWNLOAD', 'DOCUMENT_PREVIEW', 'DOCUMENT_DELETE',
+  // Offboarding
+  'OFFBOARDING_STARTED', 'LICENSE_RECLAIM_FLAGGED', 'OFFBOARDING_COMPLETED',
+  // Active Directory
+  'AD_ACCOUNT_CREATED', 'AD_GROUPS_UPDATED', 'AD_ACCOUNT_DISABLED', 'AD_GROUPS_REMOVED', 'AD_ACCOUNT_MOVED',
+  // Distribution lists
+  'DISTRIBUTION_LISTS_SYNCED', 'DISTRIBUTION_LISTS_REMOVED',
+  // Notes added by hand through POST /hires/:id/logs
+  'NOTE'
+];
+
+export const AUDIT_STATUSES = ['SUCCESS', 'PARTIAL', 'FAILED', 'SKIPPED'];
+
+// Hires are the only audited records so far; other kinds are added here as they get audited
+export const AUDIT_TARGET_TYPES = ['hire'];
+
+const generateId = () => {
+  return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+};
+
+const toJson = (value) => (value === undefined || value === null ? null : JSON.stringify(value));
+
+/**
+ * Check an audit event and turn it into its audit_logs row. Actor and request ID come from req when
+ * given; work outside a request (jobs, schedules) passes them directly or is recorded as 'system'.
+ */
+export const buildAuditEvent = ({
+  req,
+  actor,
+  requestId,
+  targetType = 'hire',
+  targetId,
+  action,
+  status = 'SUCCESS',
+  message = null,
+  details,
+  oldValues,
+  newValues,
+  importId = null,
+  occurredAt
+}) => {
+  if (!AUDIT_ACTIONS.includes(action)) {
+    throw new Error(`Unknown audit action "${action}"`);
+  }
+  if (!AUDIT_STATUSES.includes(status)) {
+    throw new Error(`Unknown audit status "${status}". Use one of: ${AUDIT_STATUSES.join(', ')}`);
+  }
+  if (!AUDIT_TARGET_TYPES.includes(targetType)) {
+    throw new Error(`Unknown audit target type "${targetType}"`);
+  }
+  if (!targetId) {
+    throw new Error(`Audit event ${action} has no target ID`);
+  }
+  if (details !== undefined && details !== null && (typeof details !== 'object' || Array.isArray(details))) {
+    throw new Error(`Audit details for ${action} must be an object`);
+  }
+
+  return {
+    id: generateId(),
+    occurred_at: occurredAt || new Date().toISOString(),
+    actor: actor || req?.user?.username || 'system',
+    target_type: targetType,
+    target_id: targetId,
+    action,
+    status,
+    message,
+    details: toJson(details),
+    old_values: toJson(oldValues),
+    new_values: toJson(newValues),
+    import_id: importId,
+    request_id: requestId || req?.id || getRequestId()
+  };
+};
+
+/**
+ * Write one audit event - see buildAuditEvent for its fields. Returns the row as written.
+ */
+export const recordAudit = async (event) => {
+  const row = buildAuditEvent(event);
+  await executeQuery(`
+    INSERT INTO audit_logs (id, occurred_at, actor, target_type, target_id, action, status, message, details, old_values, new_values, import_id, request_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `, [
+    row.id,
+    row.occurred_at,
+    row.actor,
+    row.target_type,
+    row.target_id,
+    row.action,
+    row.status,
+    row.message,
+    row.details,
+    row.old_values,
+    row.new_values,
+    row.import_id,
+    row.request_id
+  ]);
+  return row;
+};
+
+/**
+ * A record's audit trail, newest first
+ */
+export const getAuditTrail = async (targetId, targetType = 'hire') => {
+  return executeQuery(`
+    SELECT * FROM audit_logs WHERE target_type = ? AND target_id = ? ORDER BY occurred_at DESC
+  `, [targetType, targetId]);
+};
+
+/**
+ * Remove a record's audit trail, when the record itself is deleted for good
+ */
+export const deleteAuditTrail = async (targetId, targetType = 'hire') => {
+  await executeQuery('DELETE FROM audit_logs WHERE target_type = ? AND target_id = ?', [targetType, targetId]);
+};
@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { executeQuery } from '../utils/dbConnection.js';
+import { search, escapeFilter } from '../lib/ldapService.js';
+import logger from '../utils/logger.js';
+import { recordAudit } from './auditService.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SETTINGS_FILE = path.join(__dirname, '../data/settings.json');
+// Generated on first use when CREDENTIAL_VAULT_KEY is not set. Keep it out of backups of the database.
+const KEY_FILE = path.join(__dirname, '../data/.vault-key');
+
+const ALGORITHM = 'aes-256-gcm';
+const PAYLOAD_VERSION = 'v1';
+
+export const DEFAULT_VAULT_SETTINGS = {
+  retentionDays: 7,
+  purgeOnFirstLogon: true
+};
+
+// Columns that hold credentials and must never leave the server
+const CREDENTIAL_FIELDS = ['password', 'password_encrypted'];
+
+let cachedKey = null;
+
+/**
+ * Load the 256-bit vault key - from CREDENTIAL_VAULT_KEY if set, otherwise from the key file
+ */
+const getKey = () => {
+  if (cachedKey) return cachedKey;
+
+  if (process.env.CREDENTIAL_VAULT_KEY) {
+    cachedKey = crypto.createHash('sha256').update(process.env.CREDENTIAL_VAULT_KEY).digest();
+    return cachedKey;
+  }
+
+  if (!fs.existsSync(KEY_FILE)) {
+    logger.api.warn('CREDENTIAL_VAULT_KEY is not set - generating a vault key file');
+    fs.writeFileSync(KEY_FILE, crypto.randomBytes(32).toString('base64'), { encoding: 'utf8', mode: 0o600 });
+  }
+  cachedKey = Buffer.from(fs.readFileSync(KEY_FILE, 'utf8').trim(), 'base64');
+  return cachedKey;
+};
+
+/**
+ * Encrypt a secret as "v1:<iv>:<auth tag>:<ciphertext>", all base64
+ */
+export const encryptSecret = (plaintext) => {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(String(plaintext), 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return [PAYLOAD_VERSION, iv.toString('base64'), tag.toString('base64'), ciphertext.toString('base64')].join(':');
+};
+
+/**
+ * Decrypt a payload produced by encryptSecret. Throws if it was tampered with or the key changed.
+ */
+export const decryptSecret = (payload) => {
+  const [version, iv, tag, ciphertext] = String(payload).split(':');
+  if (version !== PAYLOAD_VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognised credential payload');
+  }
+  const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+};
+
+// Columns written only by the vault itself, whatever a client sends
+const VAULT_FIELDS = ['password_encrypted', 'password_set_at', 'password_purged_at'];
+
+/**
+ * Replace a plaintext password in hire data about to be written with its encrypted form.
+ * An empty password means "leave the stored one alone".
+ */
+export const sealHirePassword = (data, now = new Date().toISOString()) => {
+  for (const field of VAULT_FIELDS) delete data[field];
+  if (!('password' in data)) return data;
+
+  if (data.password) {
+    data.password_encrypted = encryptSecret(data.password);
+    data.password_set_at = now;
+    data.password_purged_at = null;
+    data.password = null;
+  } else {
+    delete data.password;
+  }
+  return data;
+};
+
+/**
+ * Copy of hire data without any credential columns, safe to log or store in audit details
+ */
+export const omitCredentials = (data) => {
+  const safe = { ...data };
+  for (const field of CREDENTIAL_FIELDS) delete safe[field];
+  return safe;
+};
+
+/**
+ * Hire as returned to clients - credentials replaced by a has_password flag
+ */
+export const toPublicHire = (hire) => ({
+  ...omitCredentials(hire),
+  has_password: Boolean(hire.password_encrypted || hire.password)
+});
+
+export const getVaultSettings = () => {
+  const settings = fs.existsSync(SETTINGS_FILE) ? JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8')) : {};
+  return { ...DEFAULT_VAULT_SETTINGS, ...(settings.credentialVault || {}) };
+};
+
+/**
+ * Decrypt a hire's initial password, or null if none is stored.
+ * Callers that show the password to a person must audit it - see revealHirePassword.
+ */
+export const getHirePassword = async (hireId) => {
+  const rows = await executeQuery('SELECT password, password_encrypted FROM hires WHERE id = ?', [hireId]);
+  if (rows.length === 0) return null;
+
+  const { password, password_encrypted: encrypted } = rows[0];
+  if (encrypted) return decryptSecret(encrypted);
+  // Rows written before the vault existed, until migratePlaintextPasswords has run
+  return password || null;
+};
+
+/**
+ * Decrypt a hire's initial password for a person and record who saw it and why
+ */
+export const revealHirePassword = async (hireId, performedBy, reason) => {
+  const password = await getHirePassword(hireId);
+  if (password) {
+    await recordAudit({
+      actor: performedBy,
+      targetId: hireId,
+      action: 'PASSWORD_REVEALED',
+      message: `Initial password revealed to ${performedBy}`,
+      details: { reason: reason || null }
+    });
+  }
+  return password;
+};
+
+/**
+ * Remove a hire's stored password for good
+ */
+export const purgeHirePassword = async (hireId, reason, performedBy = 'system') => {
+  await executeQuery(`
+    UPDATE hires SET password = NULL, password_encrypted = NULL, password_purged_at = ? WHERE id = ?
+  `, [new Date().toISOString(), hireId]);
+  await recordAudit({
+    actor: performedBy,
+    targetId: hireId,
+    action: 'PASSWORD_PURGED',
+    message: `Initial password purged: ${reason}`,
+    details: { reason }
+  });
+};
+
+/**
+ * Encrypt passwords still stored in plaintext from before the vault existed
+ */
+export const migratePlaintextPasswords = async () => {
+  const rows = await executeQuery(`
+    SELECT id, password FROM hires WHERE password IS NOT NULL AND password <> ''
+  `);
+
+  for (const row of rows) {
+    await executeQuery(`
+      UPDATE hires SET password_encrypted = ?, password_set_at = COALESCE(password_set_at, updated_at, GETDATE()), password = NULL
+      WHERE id = ?
+    `, [encryptSecret(row.password), row.id]);
+  }
+
+  if (rows.length > 0) {
+    logger.api.info(`Encrypted ${rows.length} plaintext hire password(s)`);
+  }
+  return rows.length;
+};
+
+// AD stores logon times as Windows file times; anything above zero means the user has logged on
+const hasLoggedOn = (entry) => [entry.lastLogonTimestamp, entry.lastLogon].some(value => Number(value) > 0);
+
+/**
+ * Purge passwords older than the retention period, and those of users who have logged on to AD
+ */
+export const purgeExpiredPasswords = async () => {
+  const vaultSettings = getVaultSettings();
+  let purged = 0;
+
+  const retentionDays = Number(vaultSettings.retentionDays);
+  if (retentionDays > 0) {
+    const expired = await executeQuery(`
+      SELECT id FROM hires
+      WHERE password_encrypted IS NOT NULL AND password_set_at < DATEADD(day, ?, GETDATE())
+    `, [-retentionDays]);
+
+    for (const { id } of expired) {
+      await purgeHirePassword(id, `older than ${retentionDays} day(s)`);
+      purged++;
+    }
+  }
+
+  const settings = fs.existsSync(SETTINGS_FILE) ? JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8')) : {};
+  const adSettings = settings.activeDirectorySettings;
+  if (vaultSettings.purgeOnFirstLogon && adSettings?.enabled) {
+    const pending = await executeQuery(`
+      SELECT id, username FROM hires
+      WHERE password_encrypted IS NOT NULL AND username IS NOT NULL AND username <> ''
+    `);
+
+    if (pending.length > 0) {
+      const usernames = pending.map(hire => `(sAMAccountName=${escapeFilter(hire.username)})`).join('');
+      const entries = await search(
+        adSettings.baseDN,
+        `(&(objectClass=user)(|${usernames}))`,
+        ['sAMAccountName', 'lastLogon', 'lastLogonTimestamp']
+      );
+      const loggedOn = new Set(
+        entries.filter(hasLoggedOn).map(entry => String(entry.sAMAccountName).toLowerCase())
+      );
+
+      for (const hire of pending) {
+        if (loggedOn.has(hire.username.toLowerCase())) {
+          await purgeHirePassword(hire.id, 'user has logged on to Active Directory');
+          purged++;
+        }
+      }
+    }
+  }
+
+  if (purged > 0) {
+    logger.api.info(`Purged ${purged} initial password(s) from the credential vault`);
+  }
+  return purged;
+};
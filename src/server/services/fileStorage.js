@@ -0,0 +1,216 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+import contentDisposition from 'content-disposition';
+import logger from '../utils/logger.js';
+
+/**
+ * Where uploaded files - SRFs, hire documents and comment attachments - are kept. FILE_STORAGE_DRIVER
+ * picks local disk (the default) or any S3-compatible service such as MinIO. Rows store a key like
+ * srf/<file> rather than a path, so moving between drivers only means copying the files across
+ * with migrateFileStorage.js. Files are never served statically; routes stream them through
+ * sendStoredFile after their own auth checks.
+ */
+
+export const STORAGE_FOLDERS = ['srf', 'documents', 'comments'];
+
+export const STORAGE_DRIVERS = ['local', 's3'];
+
+const STORAGE_KEY_PATTERN = new RegExp(`^(${STORAGE_FOLDERS.join('|')})/(?!\\.\\.?$)[^/\\\\]+$`);
+
+export const getStorageConfig = (env = process.env) => ({
+  driver: (env.FILE_STORAGE_DRIVER || 'local').toLowerCase(),
+  root: path.resolve(env.FILE_STORAGE_ROOT || path.join(process.cwd(), 'uploads')),
+  s3: {
+    endpoint: env.S3_ENDPOINT || undefined,
+    region: env.S3_REGION || 'us-east-1',
+    bucket: env.S3_BUCKET,
+    accessKeyId: env.S3_ACCESS_KEY_ID,
+    secretAccessKey: env.S3_SECRET_ACCESS_KEY,
+    // MinIO and most self-hosted services need bucket-in-path URLs
+    forcePathStyle: env.S3_FORCE_PATH_STYLE ? env.S3_FORCE_PATH_STYLE === 'true' : Boolean(env.S3_ENDPOINT)
+  }
+});
+
+/**
+ * Whether a stored file_path is a storage key, as opposed to a disk path saved before file storage existed
+ */
+export const isStorageKey = (value) => typeof value === 'string' && STORAGE_KEY_PATTERN.test(value);
+
+export const hashContent = (buffer) => crypto.createHash('sha256').update(buffer).digest('hex');
+
+// Missing files are a 404 for the routes, whichever driver reported them
+const fileNotFoundError = (key) => Object.assign(new Error(`File ${key} is not in storage`), { notFound: true });
+
+const checkKey = (key) => {
+  if (!isStorageKey(key)) throw new Error(`Invalid storage key "${key}"`);
+  return key;
+};
+
+export const createLocalStorage = (root) => {
+  const resolve = (key) => path.join(root, checkKey(key));
+
+  return {
+    driver: 'local',
+    async put(key, body) {
+      const filePath = resolve(key);
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, body);
+    },
+    async get(key) {
+      const filePath = resolve(key);
+      try {
+        const stats = await fs.promises.stat(filePath);
+        return { body: fs.createReadStream(filePath), size: stats.size };
+      } catch (error) {
+        if (error.code === 'ENOENT') throw fileNotFoundError(key);
+        throw error;
+      }
+    },
+    async exists(key) {
+      return fs.existsSync(resolve(key));
+    },
+    async remove(key) {
+      try {
+        await fs.promises.unlink(resolve(key));
+      } catch (error) {
+        if (error.code !== 'ENOENT') throw error;
+      }
+    }
+  };
+};
+
+export const createS3Storage = (config) => {
+  if (!config.bucket) throw new Error('S3_BUCKET is required for the s3 file storage driver');
+
+  // The SDK is only loaded when S3 is actually used
+  let connection;
+  const connect = async () => {
+    if (!connection) {
+      const sdk = await import('@aws-sdk/client-s3');
+      const client = new sdk.S3Client({
+        endpoint: config.endpoint,
+        region: config.region,
+        forcePathStyle: config.forcePathStyle,
+        credentials: config.accessKeyId
+          ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+          : undefined
+      });
+      connection = { client, sdk };
+    }
+    return connection;
+  };
+
+  const isMissing = (error) => error.name === 'NoSuchKey' || error.name === 'NotFound' || error.$metadata?.httpStatusCode === 404;
+
+  return {
+    driver: 's3',
+    async put(key, body, { contentType, hash } = {}) {
+      const { client, sdk } = await connect();
+      await client.send(new sdk.PutObjectCommand({
+        Bucket: config.bucket,
+        Key: checkKey(key),
+        Body: body,
+        ContentType: contentType,
+        Metadata: hash ? { sha256: hash } : undefined
+      }));
+    },
+    async get(key) {
+      const { client, sdk } = await connect();
+      try {
+        const object = await client.send(new sdk.GetObjectCommand({ Bucket: config.bucket, Key: checkKey(key) }));
+        return { body: object.Body, size: object.ContentLength };
+      } catch (error) {
+        if (isMissing(error)) throw fileNotFoundError(key);
+        throw error;
+      }
+    },
+    async exists(key) {
+      const { client, sdk } = await connect();
+      try {
+        await client.send(new sdk.HeadObjectCommand({ Bucket: config.bucket, Key: checkKey(key) }));
+        return true;
+      } catch (error) {
+        if (isMissing(error)) return false;
+        throw error;
+      }
+    },
+    async remove(key) {
+      const { client, sdk } = await connect();
+      await client.send(new sdk.DeleteObjectCommand({ Bucket: config.bucket, Key: checkKey(key) }));
+    }
+  };
+};
+
+export const createStorage = (config) => {
+  switch (config.driver) {
+    case 'local':
+      return createLocalStorage(config.root);
+    case 's3':
+      return createS3Storage(config.s3);
+    default:
+      throw new Error(`Unknown file storage driver "${config.driver}". Use one of: ${STORAGE_DRIVERS.join(', ')}`);
+  }
+};
+
+let storage;
+
+export const getStorage = () => {
+  if (!storage) {
+    storage = createStorage(getStorageConfig());
+    logger.api.info(`File storage: ${storage.driver}`);
+  }
+  return storage;
+};
+
+/**
+ * Keep an uploaded or generated file under folder/, returning the key and hash to save with its row
+ */
+export const storeFile = async (folder, fileName, buffer, contentType) => {
+  const key = `${folder}/${fileName}`;
+  const hash = hashContent(buffer);
+  await getStorage().put(key, buffer, { contentType, hash });
+  return { key, hash, size: buffer.length };
+};
+
+/**
+ * Read a whole stored file, e.g. to attach it to an email
+ */
+export const readStoredFile = async (key) => {
+  const { body } = await getStorage().get(key);
+  const chunks = [];
+  for await (const chunk of body) chunks.push(chunk);
+  return Buffer.concat(chunks);
+};
+
+// Removing a file whose row is already gone is best effort - a leftover file is only wasted space
+export const removeStoredFile = async (key) => {
+  if (!key) return;
+  try {
+    await getStorage().remove(key);
+  } catch (error) {
+    logger.api.warn(`Could not remove stored file ${key}: ${error.message}`);
+  }
+};
+
+/**
+ * Stream a stored file as the response. ETag and Digest carry the SHA-256 recorded when it was stored,
+ * so clients can check the download. Rejects with error.notFound before anything is sent if the file is missing.
+ */
+export const sendStoredFile = async (res, { key, fileName, mimeType, hash }, { inline = false } = {}) => {
+  const { body, size } = await getStorage().get(key);
+
+  // The name is whatever was uploaded; content-disposition quotes it and adds filename* for non-ASCII names
+  const type = mimeType || path.extname(fileName);
+  if (type) res.type(type);
+  res.setHeader('Content-Disposition', contentDisposition(fileName, { type: inline ? 'inline' : 'attachment' }));
+  if (size !== undefined) res.setHeader('Content-Length', size);
+  if (hash) {
+    res.setHeader('ETag', `"${hash}"`);
+    res.setHeader('Digest', `sha-256=${Buffer.from(hash, 'hex').toString('base64')}`);
+  }
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  await pipeline(body, res);
+};
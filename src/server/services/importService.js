@@ -0,0 +1,298 @@
+import { executeQuery } from '../utils/dbConnection.js';
+import logger from '../utils/logger.js';
+import { IMPORT_FIELDS, REQUIRED_IMPORT_FIELDS } from '../utils/importParser.js';
+import { createDuplicateDetector, describeDuplicate } from '../utils/duplicateDetection.js';
+import { diffHire, HISTORY_ACTIONS } from '../utils/hireHistory.js';
+import { sealHirePassword, omitCredentials } from './credentialVaultService.js';
+import { mergeCustomValues, pickCustomValues } from '../utils/customFields.js';
+import { recordAudit } from './auditService.js';
+import { deleteHireForGood } from './trashService.js';
+
+// create: every row must be a new hire. upsert: rows matching a hire by email or employee ID update it.
+export const IMPORT_MODES = ['create', 'upsert'];
+
+const BOOLEAN_FIELDS = ['license_assigned', 'microsoft_365_license'];
+const IMPORT_DEFAULTS = { account_creation_status: 'Pending', laptop_ready: 'Pending' };
+
+const generateId = () => {
+  return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+};
+
+const convertToBoolean = (value) => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value !== 'string') return false;
+
+  const normalized = value.toLowerCase().trim();
+  return normalized === 'true' || normalized === 'yes' || normalized === '1' || normalized === 'y';
+};
+
+const isBlank = (value) => value === undefined || value === null || value === '';
+
+/** Column values for a new hire from an import row */
+const toNewHire = (row, customFields) => {
+  const hire = {};
+  for (const field of IMPORT_FIELDS) {
+    hire[field] = BOOLEAN_FIELDS.includes(field)
+      ? (convertToBoolean(row[field]) ? 1 : 0)
+      : row[field] || IMPORT_DEFAULTS[field] || null;
+  }
+  // SRF status is only set by approving an uploaded SRF
+  hire.status_srf = 0;
+  const { stored } = mergeCustomValues(null, pickCustomValues(row), customFields, { checkRequired: false });
+  if (stored) hire.custom_fields = stored;
+  return hire;
+};
+
+/**
+ * Column values to write to an existing hire from an import row.
+ * Blank cells leave the hire's value alone, and initial passwords are only ever set on create.
+ */
+const toHireUpdates = (row, existing, customFields) => {
+  const updates = {};
+  for (const field of IMPORT_FIELDS) {
+    if (field === 'password' || isBlank(row[field])) continue;
+    updates[field] = BOOLEAN_FIELDS.includes(field) ? (convertToBoolean(row[field]) ? 1 : 0) : row[field];
+  }
+
+  const customValues = Object.fromEntries(Object.entries(pickCustomValues(row)).filter(([, value]) => !isBlank(value)));
+  if (Object.keys(customValues).length > 0) {
+    updates.custom_fields = mergeCustomValues(existing.custom_fields, customValues, customFields, { checkRequired: false }).stored;
+  }
+  return updates;
+};
+
+/**
+ * Work out what importing each row would do, without writing anything.
+ * Returns one entry per row: { row, action: 'create' | 'update' | 'skip' | 'error', name, email, data, hireId?, changes?, error? }
+ * where row is the line number in the file (the header is line 1) and changes maps each field to { from, to }.
+ */
+export const planImport = (rows, { mode, existingHires, validDepartments, customFields = [] }) => {
+  const detector = createDuplicateDetector(existingHires);
+  const hiresById = new Map(existingHires.map(hire => [hire.id, hire]));
+  // Existing hires already updated by an earlier row of this file
+  const claimed = new Set();
+
+  return rows.map((row, index) => {
+    const entry = { row: index + 2, name: row.name || '', email: row.email || '', data: omitCredentials(row) };
+
+    const missingFields = REQUIRED_IMPORT_FIELDS.filter(field => !row[field]);
+    if (missingFields.length > 0) {
+      return { ...entry, action: 'error', error: `Missing required fields: ${missingFields.join(', ')}` };
+    }
+    if (!validDepartments.includes(row.department.toLowerCase())) {
+      return { ...entry, action: 'error', error: `Department "${row.department}" does not exist in the database` };
+    }
+    const customError = mergeCustomValues(null, pickCustomValues(row), customFields, { checkRequired: false }).error;
+    if (customError) {
+      return { ...entry, action: 'error', error: customError };
+    }
+
+    const matches = detector.find(row);
+    const exact = matches.find(match =>
+      hiresById.has(match.hire.id) && (match.reasons.includes('email') || match.reasons.includes('employee_id'))
+    );
+
+    if (mode === 'upsert' && exact) {
+      const hireId = exact.hire.id;
+      if (claimed.has(hireId)) {
+        return { ...entry, action: 'error', hireId, error: `Another row in this file already updates "${exact.hire.name}"` };
+      }
+      claimed.add(hireId);
+
+      const existing = hiresById.get(hireId);
+      const diff = diffHire(existing, toHireUpdates(row, existing, customFields));
+      if (diff.fields.length === 0) {
+        return { ...entry, action: 'skip', hireId, error: 'Matches an existing hire with no changes' };
+      }
+      const changes = Object.fromEntries(diff.fields.map(field => [field, { from: diff.oldValues[field], to: diff.newValues[field] }]));
+      return { ...entry, action: 'update', hireId, changes };
+    }
+
+    if (matches.length > 0) {
+      return { ...entry, action: 'error', error: describeDuplicate(matches[0]) };
+    }
+
+    // Required custom fields only have to be filled in for new hires
+    const requiredError = mergeCustomValues(null, pickCustomValues(row), customFields).error;
+    if (requiredError) {
+      return { ...entry, action: 'error', error: requiredError };
+    }
+
+    // Later rows of the same file are checked against this one too
+    detector.add({ ...row, id: `row-${entry.row}` });
+    return { ...entry, action: 'create' };
+  });
+};
+
+/**
+ * Write the planned creates and updates for the selected rows (all rows when selectedRows is not given),
+ * recording every change under one import ID so the batch can be rolled back.
+ */
+export const commitImport = async ({ rows, plan, selectedRows, fileName, mode, performedBy, customFields = [] }) => {
+  const importId = generateId();
+  const now = new Date().toISOString();
+  const results = [];
+  const errors = [];
+  let created = 0;
+  let updated = 0;
+
+  for (const entry of plan) {
+    if (selectedRows && !selectedRows.includes(entry.row)) continue;
+    if (entry.action === 'skip') continue;
+    if (entry.action === 'error') {
+      errors.push({ row: entry.row, error: entry.error, data: entry.data });
+      continue;
+    }
+
+    const row = rows[entry.row - 2];
+    try {
+      if (entry.action === 'create') {
+        const id = generateId();
+        const hire = { id, ...toNewHire(row, customFields), created_at: now, updated_at: now };
+        sealHirePassword(hire, now);
+
+        const columns = Object.keys(hire);
+        await executeQuery(`
+          INSERT INTO hires (${columns.join(', ')})
+          VALUES (${columns.map(() => '?').join(', ')})
+        `, Object.values(hire));
+
+        await recordAudit({
+          actor: performedBy,
+          targetId: id,
+          action: 'IMPORT',
+          message: `Record imported from ${fileName}`,
+          importId,
+          occurredAt: now,
+          details: { importId, fileName, row: entry.row }
+        });
+
+        created++;
+        results.push({ id, name: row.name, status: 'created' });
+      } else {
+        const [existing] = await executeQuery('SELECT * FROM hires WHERE id = ?', [entry.hireId]);
+        const updates = toHireUpdates(row, existing, customFields);
+        const diff = diffHire(existing, updates);
+        if (diff.fields.length === 0) continue;
+
+        await executeQuery(`
+          UPDATE hires SET ${diff.fields.map(field => `${field} = ?`).join(', ')}, updated_at = ? WHERE id = ?
+        `, [...diff.fields.map(field => updates[field]), now, entry.hireId]);
+
+        await recordAudit({
+          actor: performedBy,
+          targetId: entry.hireId,
+          action: 'IMPORT_UPDATE',
+          message: `Record updated from ${fileName}: ${diff.fields.join(', ')}`,
+          importId,
+          occurredAt: now,
+          details: { importId, fileName, row: entry.row },
+          oldValues: diff.oldValues,
+          newValues: diff.newValues
+        });
+
+        updated++;
+        results.push({ id: entry.hireId, name: row.name, status: 'updated' });
+      }
+    } catch (error) {
+      logger.api.error(`Error importing row ${entry.row}:`, error);
+      errors.push({ row: entry.row, error: error.message, data: entry.data });
+    }
+  }
+
+  if (created + updated > 0) {
+    await executeQuery(`
+      INSERT INTO import_batches (id, file_name, mode, created_count, updated_count, performed_by, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `, [importId, fileName, mode, created, updated, performedBy, now]);
+  }
+
+  return { importId: created + updated > 0 ? importId : null, created, updated, results, errors };
+};
+
+export const getImportBatches = async (limit = 20) => {
+  return executeQuery(`
+    SELECT TOP ${Number(limit)} * FROM import_batches ORDER BY created_at DESC
+  `);
+};
+
+export const getImportBatch = async (importId) => {
+  const batches = await executeQuery('SELECT * FROM import_batches WHERE id = ?', [importId]);
+  return batches[0] || null;
+};
+
+/**
+ * Undo an import batch: hires it created are deleted for good and hires it updated get their old values back.
+ * Hires changed or commented on since the import are left alone and reported as conflicts.
+ */
+export const rollbackImport = async (batch, performedBy) => {
+  const logs = await executeQuery(`
+    SELECT * FROM audit_logs WHERE import_id = ? AND action IN ('IMPORT', 'IMPORT_UPDATE')
+  `, [batch.id]);
+
+  const now = new Date().toISOString();
+  const conflicts = [];
+  let deleted = 0;
+  let restored = 0;
+
+  for (const log of logs) {
+    const [hire] = await executeQuery('SELECT id, name FROM hires WHERE id = ?', [log.target_id]);
+    if (!hire) continue;
+
+    if (log.action === 'IMPORT') {
+      // Anything logged or commented after the import means someone has worked on this hire
+      const [{ count }] = await executeQuery(`
+        SELECT
+          (SELECT COUNT(*) FROM audit_logs
+           WHERE target_type = 'hire' AND target_id = ? AND id <> ? AND occurred_at > ?)
+          + (SELECT COUNT(*) FROM hire_comments WHERE hire_id = ?) AS count
+      `, [hire.id, log.id, log.occurred_at, hire.id]);
+      if (count > 0) {
+        conflicts.push({ hireId: hire.id, name: hire.name, reason: 'Changed since the import' });
+        continue;
+      }
+
+      await deleteHireForGood(hire.id);
+      deleted++;
+    } else {
+      const historyActions = HISTORY_ACTIONS.map(() => '?').join(', ');
+      const [{ count }] = await executeQuery(`
+        SELECT COUNT(*) AS count FROM audit_logs
+        WHERE target_type = 'hire' AND target_id = ? AND id <> ? AND occurred_at > ? AND action IN (${historyActions})
+      `, [hire.id, log.id, log.occurred_at, ...HISTORY_ACTIONS]);
+      if (count > 0) {
+        conflicts.push({ hireId: hire.id, name: hire.name, reason: 'Edited again since the import' });
+        continue;
+      }
+
+      const oldValues = JSON.parse(log.old_values || '{}');
+      const fields = Object.keys(oldValues);
+      if (fields.length === 0) continue;
+
+      await executeQuery(`
+        UPDATE hires SET ${fields.map(field => `${field} = ?`).join(', ')}, updated_at = ? WHERE id = ?
+      `, [...fields.map(field => oldValues[field]), now, hire.id]);
+
+      await recordAudit({
+        actor: performedBy,
+        targetId: hire.id,
+        action: 'IMPORT_ROLLBACK',
+        message: `Import from ${batch.file_name} rolled back: ${fields.join(', ')}`,
+        importId: batch.id,
+        occurredAt: now,
+        details: { importId: batch.id },
+        oldValues: JSON.parse(log.new_values || '{}'),
+        newValues: oldValues
+      });
+      restored++;
+    }
+  }
+
+  await executeQuery(`
+    UPDATE import_batches SET rolled_back_at = ?, rolled_back_by = ? WHERE id = ?
+  `, [now, performedBy, batch.id]);
+
+  logger.api.info(`Import ${batch.id} rolled back: ${deleted} deleted, ${restored} restored, ${conflicts.length} conflicts`);
+  return { deleted, restored, conflicts };
+};
@@ -0,0 +1,191 @@
+import { executeQuery } from '../utils/dbConnection.js';
+import logger from '../utils/logger.js';
+import { DEFAULT_MAX_ATTEMPTS, nextAttemptState } from '../utils/jobRetry.js';
+
+/**
+ * Database-backed queue for work that talks to outside systems (AD, Exchange, Graph, WhatsApp).
+ * Routes enqueue a job and return its id; the worker started by start.js runs jobs one at a time,
+ * retrying failures with backoff until they succeed or end up dead. Jobs survive restarts, so
+ * handlers must be safe to run again after an interrupted attempt.
+ */
+
+// How often the worker looks for due jobs, in addition to being woken on enqueue
+const POLL_INTERVAL = 5000;
+
+const handlers = new Map();
+let workerStarted = false;
+let processing = false;
+
+// Run newly due jobs straight away rather than at the next poll
+const wakeWorker = () => {
+  if (workerStarted) setImmediate(processDueJobs);
+};
+
+const generateId = () => {
+  return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+};
+
+/**
+ * Register the function that runs jobs of a type. It receives the job's payload and
+ * { job, log }, and returns a result to store with the job - or throws to fail the attempt.
+ */
+export const registerJobHandler = (type, handler) => {
+  handlers.set(type, handler);
+};
+
+/**
+ * Error for failures that retrying can't fix, such as a missing hire or disabled integration.
+ * The job goes straight to dead instead of using up its attempts.
+ */
+export const permanentJobError = (message) => Object.assign(new Error(message), { permanent: true });
+
+/**
+ * Append a line to a job's log
+ */
+export const appendJobLog = async (jobId, attempt, level, message) => {
+  try {
+    await executeQuery(
+      'INSERT INTO job_logs (id, job_id, attempt, level, message, created_at) VALUES (?, ?, ?, ?, ?, ?)',
+      [generateId(), jobId, attempt, level, message, new Date().toISOString()]
+    );
+  } catch (error) {
+    logger.db.error(`Error writing log for job ${jobId}:`, error);
+  }
+};
+
+/**
+ * Queue a job to run as soon as the worker is free. Returns the job id.
+ * The payload is stored as JSON, so it must not carry secrets - handlers look those up when they run.
+ */
+export const enqueueJob = async (type, payload, { description = null, hireId = null, createdBy = 'system', maxAttempts = DEFAULT_MAX_ATTEMPTS } = {}) => {
+  if (!handlers.has(type)) {
+    throw new Error(`No handler registered for job type "${type}"`);
+  }
+
+  const id = generateId();
+  const now = new Date().toISOString();
+  await executeQuery(`
+    INSERT INTO jobs (id, type, status, description, payload, attempts, max_attempts, run_at, hire_id, created_by, created_at, updated_at)
+    VALUES (?, ?, 'queued', ?, ?, 0, ?, ?, ?, ?, ?, ?)
+  `, [id, type, description, JSON.stringify(payload), maxAttempts, now, hireId, createdBy, now, now]);
+  await appendJobLog(id, 0, 'info', `Queued by ${createdBy}`);
+
+  logger.api.info(`Job ${id} (${type}) queued by ${createdBy}`);
+  wakeWorker();
+  return id;
+};
+
+/**
+ * Put a dead job back in the queue with a fresh set of attempts
+ */
+export const retryJob = async (jobId, performedBy) => {
+  const now = new Date().toISOString();
+  const rows = await executeQuery(`
+    UPDATE jobs SET status = 'queued', attempts = 0, run_at = ?, last_error = NULL, finished_at = NULL, updated_at = ?
+    OUTPUT inserted.id
+    WHERE id = ? AND status = 'dead'
+  `, [now, now, jobId]);
+  if (rows.length === 0) return false;
+
+  await appendJobLog(jobId, 0, 'info', `Retried by ${performedBy}`);
+  wakeWorker();
+  return true;
+};
+
+// Mark a due job as running, unless another worker got to it first
+const claimJob = async (jobId) => {
+  const now = new Date().toISOString();
+  const rows = await executeQuery(`
+    UPDATE jobs SET status = 'running', attempts = attempts + 1, started_at = ?, updated_at = ?
+    OUTPUT inserted.*
+    WHERE id = ? AND status IN ('queued', 'retrying')
+  `, [now, now, jobId]);
+  return rows[0] || null;
+};
+
+const runJob = async (job) => {
+  const log = (message, level = 'info') => appendJobLog(job.id, job.attempts, level, message);
+  const handler = handlers.get(job.type);
+
+  try {
+    if (!handler) {
+      throw permanentJobError(`No handler registered for job type "${job.type}"`);
+    }
+
+    await log(`Attempt ${job.attempts} of ${job.max_attempts} started`);
+    const result = await handler(job.payload ? JSON.parse(job.payload) : {}, { job, log });
+
+    const now = new Date().toISOString();
+    await executeQuery(
+      "UPDATE jobs SET status = 'succeeded', result = ?, last_error = NULL, finished_at = ?, updated_at = ? WHERE id = ?",
+      [result === undefined ? null : JSON.stringify(result), now, now, job.id]
+    );
+    await log('Succeeded');
+    logger.api.info(`Job ${job.id} (${job.type}) succeeded on attempt ${job.attempts}`);
+  } catch (error) {
+    const next = nextAttemptState(job, Boolean(error.permanent));
+    const now = new Date().toISOString();
+    await executeQuery(
+      'UPDATE jobs SET status = ?, last_error = ?, run_at = COALESCE(?, run_at), finished_at = ?, updated_at = ? WHERE id = ?',
+      [next.status, error.message, next.run_at, next.status === 'dead' ? now : null, now, job.id]
+    );
+    await log(error.message, 'error');
+    await log(next.status === 'dead' ? 'Gave up - job is dead' : `Will retry at ${next.run_at}`, next.status === 'dead' ? 'error' : 'warn');
+    logger.api.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}: ${error.message}`);
+  }
+};
+
+/**
+ * Run every job that is due, oldest first. Only one pass runs at a time.
+ */
+export const processDueJobs = async () => {
+  if (processing) return;
+  processing = true;
+
+  try {
+    for (;;) {
+      const due = await executeQuery(`
+        SELECT TOP 1 id FROM jobs
+        WHERE status IN ('queued', 'retrying') AND run_at <= ?
+        ORDER BY run_at ASC, created_at ASC
+      `, [new Date().toISOString()]);
+      if (due.length === 0) break;
+
+      const job = await claimJob(due[0].id);
+      if (job) await runJob(job);
+    }
+  } catch (error) {
+    logger.api.error('Error processing background jobs:', error);
+  } finally {
+    processing = false;
+  }
+};
+
+/**
+ * Start polling for due jobs. Jobs left running by a restart count as a failed attempt.
+ */
+export const startJobWorker = async () => {
+  if (workerStarted) return;
+  workerStarted = true;
+
+  try {
+    const interrupted = await executeQuery("SELECT * FROM jobs WHERE status = 'running'");
+    for (const job of interrupted) {
+      const next = nextAttemptState(job, false);
+      const now = new Date().toISOString();
+      await executeQuery(
+        'UPDATE jobs SET status = ?, last_error = ?, run_at = ?, finished_at = ?, updated_at = ? WHERE id = ?',
+        [next.status, 'Interrupted by a server restart', next.run_at || now, next.status === 'dead' ? now : null, now, job.id]
+      );
+      await appendJobLog(job.id, job.attempts, 'warn', 'Interrupted by a server restart');
+    }
+    if (interrupted.length > 0) {
+      logger.api.warn(`Recovered ${interrupted.length} job(s) interrupted by a restart`);
+    }
+  } catch (error) {
+    logger.api.error('Error recovering interrupted jobs:', error);
+  }
+
+  processDueJobs();
+  setInterval(processDueJobs, POLL_INTERVAL);
+};
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { executeQuery } from '../utils/dbConnection.js';
+import logger from '../utils/logger.js';
+import { removeStoredFile } from './fileStorage.js';
+import { deleteAuditTrail } from './auditService.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SETTINGS_FILE = path.join(__dirname, '../data/settings.json');
+
+/**
+ * Deleted hires stay in the trash for retentionDays before they are purged for good.
+ * Zero keeps them until an admin purges them by hand.
+ */
+export const DEFAULT_TRASH_SETTINGS = {
+  retentionDays: 30
+};
+
+export const getTrashSettings = () => {
+  const settings = fs.existsSync(SETTINGS_FILE) ? JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8')) : {};
+  return { ...DEFAULT_TRASH_SETTINGS, ...(settings.trash || {}) };
+};
+
+/**
+ * Permanently remove a hire with its audit logs, comments, documents, SRF versions, notifications and files.
+ * There are no foreign keys between these tables, so anything that deletes a hire row goes through here.
+ */
+export const deleteHireForGood = async (hireId) => {
+  const attachments = await executeQuery(`
+    SELECT a.file_path FROM hire_comment_attachments a
+    JOIN hire_comments c ON c.id = a.comment_id
+    WHERE c.hire_id = ?
+  `, [hireId]);
+
+  const documents = await executeQuery('SELECT file_path FROM hire_documents WHERE hire_id = ?', [hireId]);
+  const srfVersions = await executeQuery('SELECT file_path FROM srf_versions WHERE hire_id = ?', [hireId]);
+
+  await executeQuery('DELETE FROM hire_comment_attachments WHERE comment_id IN (SELECT id FROM hire_comments WHERE hire_id = ?)', [hireId]);
+  await executeQuery('DELETE FROM hire_comments WHERE hire_id = ?', [hireId]);
+  await executeQuery('DELETE FROM hire_documents WHERE hire_id = ?', [hireId]);
+  await executeQuery('DELETE FROM srf_versions WHERE hire_id = ?', [hireId]);
+  await executeQuery('DELETE FROM notifications WHERE hire_id = ?', [hireId]);
+  await deleteAuditTrail(hireId);
+  await executeQuery('DELETE FROM hires WHERE id = ?', [hireId]);
+
+  // The hire's srf_document_path is its newest SRF version, so removing the versions covers it
+  for (const { file_path } of [...attachments, ...documents, ...srfVersions]) {
+    await removeStoredFile(file_path);
+  }
+};
+
+/**
+ * Permanently remove hires that are in the trash. Hires that aren't deleted are left alone.
+ * Returns the number purged.
+ */
+export const purgeHires = async (ids, performedBy) => {
+  if (ids.length === 0) return 0;
+
+  const placeholders = ids.map(() => '?').join(',');
+  const hires = await executeQuery(
+    `SELECT id, name FROM hires WHERE id IN (${placeholders}) AND deleted_at IS NOT NULL`,
+    ids
+  );
+
+  for (const hire of hires) {
+    await deleteHireForGood(hire.id);
+    logger.api.info(`Hire ${hire.id} (${hire.name}) purged from the trash by ${performedBy}`);
+  }
+
+  return hires.length;
+};
+
+/**
+ * Purge hires that have been in the trash longer than the retention period
+ */
+export const purgeExpiredHires = async () => {
+  const retentionDays = Number(getTrashSettings().retentionDays);
+  if (!(retentionDays > 0)) return 0;
+
+  const expired = await executeQuery(`
+    SELECT id FROM hires
+    WHERE deleted_at IS NOT NULL AND deleted_at < DATEADD(day, ?, GETDATE())
+  `, [-retentionDays]);
+
+  const purged = await purgeHires(expired.map(hire => hire.id), `retention (${retentionDays} day(s))`);
+  if (purged > 0) {
+    logger.api.info(`Purged ${purged} hire(s) kept in the trash longer than ${retentionDays} day(s)`);
+  }
+  return purged;
+};
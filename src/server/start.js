@@ -8,6 +8,9 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { syncToActiveDirectory } from './services/hrisSyncService.js';
+import { migratePlaintextPasswords, purgeExpiredPasswords } from './services/credentialVaultService.js';
+import { startJobWorker } from './services/jobQueueService.js';
+import { purgeExpiredHires } from './services/trashService.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -81,6 +84,24 @@ async function checkScheduledTasks() {
   }
 }
 
+// Purge initial passwords that have expired or whose users have logged on
+async function purgeStoredPasswords() {
+  try {
+    await purgeExpiredPasswords();
+  } catch (err) {
+    logger.api.error('Error purging stored passwords:', err);
+  }
+}
+
+// Purge hires that have been in the trash longer than the retention period
+async function purgeTrash() {
+  try {
+    await purgeExpiredHires();
+  } catch (err) {
+    logger.api.error('Error purging the trash:', err);
+  }
+}
+
 // Initialize database first and then start the server
 async function startServer() {
   try {
@@ -96,12 +117,30 @@ async function startServer() {
       logger.api.warn('Database schema initialization failed, but continuing startup');
     }
     
+    // Encrypt any initial passwords still stored in plaintext
+    try {
+      await migratePlaintextPasswords();
+    } catch (err) {
+      logger.api.error('Failed to encrypt plaintext passwords:', err);
+    }
+    
     // Start the Express server
     app.listen(PORT, () => {
       logger.api.info(`Server running on port ${PORT}`);
       
       // Check for scheduled tasks every minute
       setInterval(checkScheduledTasks, 60000);
+      
+      // Check the credential vault for passwords to purge every hour
+      purgeStoredPasswords();
+      setInterval(purgeStoredPasswords, 3600000);
+      
+      // Empty expired hires out of the trash every hour
+      purgeTrash();
+      setInterval(purgeTrash, 3600000);
+      
+      // Run queued provisioning jobs, picking up any a restart interrupted
+      startJobWorker();
     });
   } catch (err) {
     logger.api.error('Failed to start server:', err);
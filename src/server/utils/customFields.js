@@ -0,0 +1,191 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SETTINGS_FILE = path.join(__dirname, '../data/settings.json');
+
+export const CUSTOM_FIELD_TYPES = ['text', 'select', 'date', 'boolean'];
+
+// Roles a custom field can be limited to. Admins always see every field.
+export const CUSTOM_FIELD_ROLES = ['admin', 'support'];
+
+// Custom fields appear as "custom.<key>" wherever they sit next to hire columns:
+// import mappings, report columns, table columns and message template variables
+export const CUSTOM_FIELD_PREFIX = 'custom.';
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+/**
+ * Read the custom field definitions from settings
+ */
+export const getCustomFields = (settings) => {
+  const source = settings || (fs.existsSync(SETTINGS_FILE) ? JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8')) : {});
+  return Array.isArray(source.customFields) ? source.customFields : [];
+};
+
+/**
+ * Validate custom field definitions submitted from Settings, returning an error message or null
+ */
+export const validateCustomFields = (fields) => {
+  if (!Array.isArray(fields)) return 'Custom fields must be a list';
+
+  const keys = new Set();
+  for (const field of fields) {
+    if (!field || typeof field.label !== 'string' || !field.label.trim()) return 'Every custom field needs a label';
+    if (typeof field.key !== 'string' || !KEY_PATTERN.test(field.key)) {
+      return `"${field.label}" needs a key of lowercase letters, digits and underscores, starting with a letter`;
+    }
+    if (keys.has(field.key)) return `More than one custom field uses the key "${field.key}"`;
+    keys.add(field.key);
+
+    if (!CUSTOM_FIELD_TYPES.includes(field.type)) return `"${field.label}" has an unknown type "${field.type}"`;
+    if (field.type === 'select') {
+      const options = Array.isArray(field.options) ? field.options.filter(option => typeof option === 'string' && option.trim()) : [];
+      if (options.length === 0) return `"${field.label}" needs at least one option`;
+      if (new Set(options.map(option => option.trim().toLowerCase())).size !== options.length) {
+        return `"${field.label}" has the same option more than once`;
+      }
+    }
+    if (field.visibleTo !== undefined && (!Array.isArray(field.visibleTo) || field.visibleTo.some(role => !CUSTOM_FIELD_ROLES.includes(role)))) {
+      return `"${field.label}" can only be limited to these roles: ${CUSTOM_FIELD_ROLES.join(', ')}`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Custom fields the given role may see and edit. An empty visibleTo means everyone.
+ */
+export const visibleCustomFields = (fields, role) => fields.filter(field =>
+  role === 'admin' || !Array.isArray(field.visibleTo) || field.visibleTo.length === 0 || field.visibleTo.includes(role)
+);
+
+/**
+ * Stored custom values as an object - the column holds JSON keyed by field key
+ */
+export const parseCustomValues = (stored) => {
+  if (!stored) return {};
+  if (typeof stored === 'object') return { ...stored };
+  try {
+    const values = JSON.parse(stored);
+    return values && typeof values === 'object' && !Array.isArray(values) ? values : {};
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * The values of the given fields only, so fields hidden from a role never leave the server
+ */
+export const readCustomValues = (stored, fields) => {
+  const values = parseCustomValues(stored);
+  return Object.fromEntries(fields.filter(field => field.key in values).map(field => [field.key, values[field.key]]));
+};
+
+/**
+ * Coerce a submitted or imported value to the field's type.
+ * Returns { value } with null for blank, or { error }.
+ */
+export const normalizeCustomValue = (field, value) => {
+  if (value === undefined || value === null || value === '') return { value: null };
+
+  switch (field.type) {
+    case 'boolean': {
+      if (typeof value === 'boolean') return { value };
+      const text = String(value).trim().toLowerCase();
+      if (TRUE_VALUES.includes(text)) return { value: true };
+      if (FALSE_VALUES.includes(text)) return { value: false };
+      return { error: `"${field.label}" must be yes or no` };
+    }
+    case 'date': {
+      const text = value instanceof Date ? value.toISOString() : String(value).trim();
+      const date = text.slice(0, 10);
+      if (!DATE_ONLY.test(date) || Number.isNaN(new Date(date).getTime())) {
+        return { error: `"${field.label}" must be a date (YYYY-MM-DD)` };
+      }
+      return { value: date };
+    }
+    case 'select': {
+      const text = String(value).trim();
+      const option = field.options.find(candidate => candidate.toLowerCase() === text.toLowerCase());
+      return option ? { value: option } : { error: `"${field.label}" must be one of: ${field.options.join(', ')}` };
+    }
+    default: {
+      const text = String(value).trim();
+      return { value: text || null };
+    }
+  }
+};
+
+/**
+ * Apply submitted values to the stored ones. Only the given fields are written - keys for other
+ * fields, including ones hidden from the submitter's role, keep their stored value.
+ * Returns { values, stored } where stored is the JSON to write, or { error }.
+ */
+export const mergeCustomValues = (stored, submitted, fields, { checkRequired = true } = {}) => {
+  if (submitted !== undefined && submitted !== null && (typeof submitted !== 'object' || Array.isArray(submitted))) {
+    return { error: 'custom_fields must be an object keyed by field' };
+  }
+
+  const values = parseCustomValues(stored);
+  for (const field of fields) {
+    if (!submitted || !(field.key in submitted)) continue;
+    const { value, error } = normalizeCustomValue(field, submitted[field.key]);
+    if (error) return { error };
+    if (value === null) {
+      delete values[field.key];
+    } else {
+      values[field.key] = value;
+    }
+  }
+
+  if (checkRequired) {
+    const missing = fields.find(field => field.required && (values[field.key] === undefined || values[field.key] === null));
+    if (missing) return { error: `"${missing.label}" is required` };
+  }
+
+  return { values, stored: Object.keys(values).length > 0 ? JSON.stringify(values) : null };
+};
+
+/**
+ * The "custom.<key>" entries of a row keyed by hire field (an import row), as { key: value }
+ */
+export const pickCustomValues = (row) => Object.fromEntries(
+  Object.entries(row)
+    .filter(([field]) => field.startsWith(CUSTOM_FIELD_PREFIX))
+    .map(([field, value]) => [field.slice(CUSTOM_FIELD_PREFIX.length), value])
+);
+
+/**
+ * A hire's custom values as "custom.<key>" properties, for code that reads hire fields by name
+ */
+export const flattenCustomValues = (stored, fields) => Object.fromEntries(
+  Object.entries(readCustomValues(stored, fields)).map(([key, value]) => [`${CUSTOM_FIELD_PREFIX}${key}`, value])
+);
+
+/**
+ * Strip custom values the reader can't see from an audit log's recorded values and details,
+ * which hold the whole custom_fields column whenever it changed
+ */
+export const redactAuditLog = (log, fields) => {
+  const redacted = { ...log };
+  for (const column of ['old_values', 'new_values', 'details']) {
+    if (!redacted[column]) continue;
+    try {
+      const values = JSON.parse(redacted[column]);
+      if (!values || typeof values !== 'object' || !('custom_fields' in values)) continue;
+      const visible = readCustomValues(values.custom_fields, fields);
+      values.custom_fields = Object.keys(visible).length > 0 ? JSON.stringify(visible) : null;
+      redacted[column] = JSON.stringify(values);
+    } catch {
+      // Not JSON - nothing to redact
+    }
+  }
+  return redacted;
+};
@@ -0,0 +1,52 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SETTINGS_FILE = path.join(__dirname, '../data/settings.json');
+
+// Used until an admin saves their own list in Settings
+export const DEFAULT_DOCUMENT_TYPES = [
+  { key: 'signed_contract', label: 'Signed Contract', required: true },
+  { key: 'id_card', label: 'ID Card Scan', required: true },
+  { key: 'laptop_handover', label: 'Laptop Handover Form', required: false },
+  { key: 'nda', label: 'NDA', required: true }
+];
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]{0,49}$/;
+
+/**
+ * Read the document type definitions from settings
+ */
+export const getDocumentTypes = (settings) => {
+  const source = settings || (fs.existsSync(SETTINGS_FILE) ? JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8')) : {});
+  return Array.isArray(source.documentTypes) ? source.documentTypes : DEFAULT_DOCUMENT_TYPES;
+};
+
+/**
+ * Validate document type definitions submitted from Settings, returning an error message or null
+ */
+export const validateDocumentTypes = (types) => {
+  if (!Array.isArray(types)) return 'Document types must be a list';
+
+  const keys = new Set();
+  for (const type of types) {
+    if (!type || typeof type.label !== 'string' || !type.label.trim()) return 'Every document type needs a label';
+    if (typeof type.key !== 'string' || !KEY_PATTERN.test(type.key)) {
+      return `"${type.label}" needs a key of lowercase letters, digits and underscores, starting with a letter`;
+    }
+    if (keys.has(type.key)) return `More than one document type uses the key "${type.key}"`;
+    keys.add(type.key);
+  }
+  return null;
+};
+
+/**
+ * Required document types with no uploaded document, given the hire's documents
+ */
+export const missingDocumentTypes = (types, documents) => {
+  const uploaded = new Set(documents.map(document => document.document_type));
+  return types.filter(type => type.required && !uploaded.has(type.key));
+};
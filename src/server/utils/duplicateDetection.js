@@ -0,0 +1,79 @@
+import Fuse from 'fuse.js';
+
+// Max Fuse.js score for two names to count as the same person (0 = exact, 1 = anything)
+const NAME_THRESHOLD = 0.2;
+
+// Hire columns needed to look for and describe duplicates
+export const DUPLICATE_FIELDS = [
+  'id', 'name', 'email', 'phone_number', 'employee_id', 'department', 'title', 'on_site_date', 'account_creation_status'
+];
+
+const normalizeText = (value) => String(value || '').trim().toLowerCase();
+
+/** Reduce a phone number to comparable digits, treating 08xx and 628xx as the same number */
+export const normalizePhone = (value) => {
+  const digits = String(value || '').replace(/\D/g, '');
+  if (digits.length < 8) return '';
+  return digits.startsWith('62') ? digits.slice(2) : digits.replace(/^0+/, '');
+};
+
+// Exact-match keys, strongest first
+const EXACT_KEYS = [
+  { reason: 'employee_id', key: hire => normalizeText(hire.employee_id) },
+  { reason: 'email', key: hire => normalizeText(hire.email) },
+  { reason: 'phone', key: hire => normalizePhone(hire.phone_number) }
+];
+
+/**
+ * Build a detector over the existing hires.
+ * find(candidate) returns likely duplicates as { hire, reasons, score }, best match first, where
+ * reasons lists what matched ('employee_id', 'email', 'phone', 'name') and score is 0 for an exact match.
+ * add(hire) makes later finds also consider that hire, e.g. rows already taken from the same import file.
+ */
+export const createDuplicateDetector = (existingHires) => {
+  const hires = [...existingHires];
+  const fuse = new Fuse([...hires], {
+    keys: ['name'],
+    threshold: NAME_THRESHOLD,
+    ignoreLocation: true,
+    includeScore: true
+  });
+
+  const find = (candidate) => {
+    const matches = new Map();
+    const addMatch = (hire, reason, score) => {
+      const match = matches.get(hire.id) || { hire, reasons: [], score: 1 };
+      match.reasons.push(reason);
+      match.score = Math.min(match.score, score);
+      matches.set(hire.id, match);
+    };
+
+    for (const { reason, key } of EXACT_KEYS) {
+      const value = key(candidate);
+      if (!value) continue;
+      for (const hire of hires) {
+        if (hire.id !== candidate.id && key(hire) === value) addMatch(hire, reason, 0);
+      }
+    }
+
+    if (normalizeText(candidate.name)) {
+      for (const { item, score } of fuse.search(candidate.name.trim())) {
+        if (item.id !== candidate.id && score <= NAME_THRESHOLD) addMatch(item, 'name', score);
+      }
+    }
+
+    // More matching fields first, then the closest name
+    return [...matches.values()].sort((a, b) => b.reasons.length - a.reasons.length || a.score - b.score);
+  };
+
+  const add = (hire) => {
+    hires.push(hire);
+    fuse.add(hire);
+  };
+
+  return { find, add };
+};
+
+/** One-line description of a duplicate match, for import row errors */
+export const describeDuplicate = ({ hire, reasons }) =>
+  `Possible duplicate of "${hire.name}"${hire.email ? ` <${hire.email}>` : ''} (matching ${reasons.join(', ').replace('_', ' ')})`;
@@ -22,3 +22,29 @@ export const resolveSenderEmail = async (
   }
   return senderEmail;
 };
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * Fill {{field}} placeholders from a hire record, escaped unless html is false (a subject line).
+ * Custom values are {{custom.<key>}}; placeholders with no matching value are left as they are.
+ */
+export const renderHireTemplate = (template, hire, customValues = {}, { html = true } = {}) => {
+  const values = { ...hire };
+  for (const [key, value] of Object.entries(customValues)) {
+    values[`custom.${key}`] = value;
+  }
+
+  return (template || '').replace(/\{\{([\w.]+)\}\}/g, (placeholder, key) => {
+    const value = values[key];
+    if (value instanceof Date) return value.toISOString().slice(0, 10);
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return html ? escapeHtml(value) : String(value);
+    }
+    return placeholder;
+  });
+};
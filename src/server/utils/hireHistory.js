@@ -0,0 +1,86 @@
+// Columns that change on every write or aren't stored on the hire, so never show up in a diff.
+// Credentials are left out too - the audit log must never hold a password, encrypted or not.
+const IGNORED_FIELDS = [
+  'id', 'created_at', 'updated_at', 'audit_logs', 'progress', 'progress_percentage',
+  'password', 'password_encrypted', 'password_set_at', 'password_purged_at'
+];
+
+// Audit actions whose old_values/new_values describe a change to the hire record
+export const HISTORY_ACTIONS = ['UPDATE', 'BULK_UPDATE', 'REVERT', 'IMPORT_UPDATE', 'IMPORT_ROLLBACK'];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Normalize a value the way it is stored, so request values compare equal to database values
+ */
+export const normalizeValue = (value) => {
+  if (value === undefined || value === null || value === '') return null;
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join(',');
+  return value;
+};
+
+const toBoolean = (value) => value === true || value === 1 || value === '1' || value === 'true';
+
+const valuesEqual = (a, b) => {
+  const left = normalizeValue(a);
+  const right = normalizeValue(b);
+  if (left === right) return true;
+  if (left === null || right === null) return false;
+
+  // Bit columns come back as booleans but may be sent as 0/1
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return toBoolean(left) === toBoolean(right);
+  }
+
+  // DATE columns come back as midnight UTC but are sent as yyyy-mm-dd
+  const [l, r] = [String(left), String(right)];
+  if (DATE_ONLY.test(l)) return r.startsWith(l);
+  if (DATE_ONLY.test(r)) return l.startsWith(r);
+  return l === r;
+};
+
+/**
+ * Compare a hire with the fields being written to it.
+ * Returns only the fields that actually change, as old/new value maps keyed by column.
+ */
+export const diffHire = (before, updates) => {
+  const oldValues = {};
+  const newValues = {};
+
+  for (const [field, value] of Object.entries(updates)) {
+    if (IGNORED_FIELDS.includes(field) || !(field in before)) continue;
+    if (valuesEqual(before[field], value)) continue;
+
+    oldValues[field] = normalizeValue(before[field]);
+    newValues[field] = normalizeValue(value);
+  }
+
+  return { oldValues, newValues, fields: Object.keys(newValues) };
+};
+
+const parseValues = (json) => {
+  if (!json) return null;
+  try {
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Work out the field values that put a hire back to how it was right after the given audit log.
+ * Every recorded change newer than that log is undone, newest first.
+ * Logs must be ordered newest first, as returned by GET /:id/logs.
+ */
+export const getValuesAtVersion = (logs, logId) => {
+  const targetIndex = logs.findIndex(log => log.id === logId);
+  if (targetIndex === -1) return null;
+
+  const values = {};
+  for (const log of logs.slice(0, targetIndex)) {
+    const oldValues = HISTORY_ACTIONS.includes(log.action) ? parseValues(log.old_values) : null;
+    if (oldValues) Object.assign(values, oldValues);
+  }
+  return values;
+};
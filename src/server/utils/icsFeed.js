@@ -0,0 +1,101 @@
+// iCalendar (RFC 5545) feed of hire arrivals, for subscribing from Outlook and other calendar apps
+
+const CRLF = '\r\n';
+// Content lines longer than this many octets must be folded
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Readiness bucket for a progress percentage. The same thresholds colour the calendar page,
+ * and calendar apps can colour events by these categories.
+ */
+export const getReadiness = (percentage) => {
+  if (percentage >= 75) return 'On track';
+  if (percentage >= 50) return 'In progress';
+  return 'At risk';
+};
+
+// Escape commas, semicolons, backslashes and newlines in TEXT values
+const escapeText = (value) => String(value ?? '')
+  .replace(/\\/g, '\\\\')
+  .replace(/;/g, '\\;')
+  .replace(/,/g, '\\,')
+  .replace(/\r?\n/g, '\\n');
+
+// Fold a content line into 75-octet chunks, continuation lines starting with a space
+const foldLine = (line) => {
+  const chunks = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join(`${CRLF} `);
+};
+
+// DATE values are YYYYMMDD. Dates from the DATE column arrive as UTC midnight.
+const toIcsDate = (value) => {
+  const iso = value instanceof Date ? value.toISOString() : String(value);
+  return iso.slice(0, 10).replace(/-/g, '');
+};
+
+const toIcsTimestamp = (value) => new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const nextDay = (icsDate) => {
+  const date = new Date(Date.UTC(Number(icsDate.slice(0, 4)), Number(icsDate.slice(4, 6)) - 1, Number(icsDate.slice(6, 8)) + 1));
+  return toIcsDate(date);
+};
+
+/**
+ * Build an all-day event per hire on their on-site date. Hires are expected to carry
+ * progress_percentage; hires without an on-site date are skipped.
+ */
+export const buildHiresCalendar = (hires, { calendarName = 'New Hire Arrivals', now = new Date() } = {}) => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//ICT Onboarding//New Hire Arrivals//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    // Ask subscribed clients to refresh hourly
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H'
+  ];
+
+  for (const hire of hires) {
+    if (!hire.on_site_date) continue;
+    const start = toIcsDate(hire.on_site_date);
+    const percentage = hire.progress_percentage ?? 0;
+    const readiness = getReadiness(percentage);
+    const pic = hire.ict_support_pic || 'Unassigned';
+
+    const description = [
+      hire.title && `Title: ${hire.title}`,
+      hire.department && `Department: ${hire.department}`,
+      `ICT Support PIC: ${pic}`,
+      `Onboarding progress: ${percentage}% (${readiness})`,
+      hire.account_creation_status && `Account status: ${hire.account_creation_status}`
+    ].filter(Boolean).join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:hire-${hire.id}@onboarding`,
+      `DTSTAMP:${toIcsTimestamp(hire.updated_at || now)}`,
+      `DTSTART;VALUE=DATE:${start}`,
+      `DTEND;VALUE=DATE:${nextDay(start)}`,
+      `SUMMARY:${escapeText(`${hire.name} arrives${hire.department ? ` (${hire.department})` : ''} - PIC: ${pic}`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `CATEGORIES:${escapeText(readiness)}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join(CRLF) + CRLF;
+};
@@ -0,0 +1,121 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SETTINGS_FILE = path.join(__dirname, '../data/settings.json');
+
+// sAMAccountName is limited to 20 characters
+export const MAX_USERNAME_LENGTH = 20;
+
+// Highest numeric suffix tried for patterns containing {n}
+const MAX_SUFFIX = 9;
+
+// Tokens: {first} {last} {middle} full name parts, {f} {l} {m} their initials, {n} a number from 2 up
+export const DEFAULT_IDENTITY_SETTINGS = {
+  emailDomain: 'merdekabattery.com',
+  patterns: ['{first}.{last}', '{first}.{l}', '{f}.{last}', '{first}.{middle}.{last}', '{first}.{last}{n}']
+};
+
+const PATTERN_TOKENS = /\{(first|last|middle|f|l|m|n)\}/g;
+
+/**
+ * Read identity settings (email domain and username patterns), filling in defaults
+ */
+export const getIdentitySettings = (settings) => {
+  const source = settings || (fs.existsSync(SETTINGS_FILE) ? JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8')) : {});
+  return { ...DEFAULT_IDENTITY_SETTINGS, ...(source.identitySettings || {}) };
+};
+
+/**
+ * Validate identity settings submitted from Settings, returning an error message or null
+ */
+export const validateIdentitySettings = ({ emailDomain, patterns } = {}) => {
+  if (typeof emailDomain !== 'string' || !/^[a-z0-9.-]+\.[a-z]{2,}$/i.test(emailDomain)) {
+    return 'Email domain must be a domain name such as example.com';
+  }
+  if (!Array.isArray(patterns) || patterns.length === 0) {
+    return 'At least one username pattern is required';
+  }
+  for (const pattern of patterns) {
+    if (typeof pattern !== 'string' || !pattern.includes('{first}') && !pattern.includes('{f}')) {
+      return `Pattern "${pattern}" must contain {first} or {f}`;
+    }
+    const literal = pattern.replace(PATTERN_TOKENS, '');
+    if (/[{}]/.test(literal) || /[^a-z0-9._-]/i.test(literal)) {
+      return `Pattern "${pattern}" contains an unknown token or invalid character`;
+    }
+  }
+  return null;
+};
+
+// Lowercase ASCII only - accents are stripped so "José" becomes "jose"
+const clean = (value) => value
+  .normalize('NFD')
+  .replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .replace(/[^a-z0-9]/g, '');
+
+/**
+ * Split a full name into first, middle and last parts, cleaned for use in an account name
+ */
+export const parseName = (fullName) => {
+  const parts = String(fullName || '').trim().split(/\s+/).map(clean).filter(Boolean);
+  return {
+    first: parts[0] || '',
+    middle: parts.slice(1, -1).join(''),
+    last: parts.length > 1 ? parts[parts.length - 1] : ''
+  };
+};
+
+const applyPattern = (pattern, name, number) => {
+  let missing = false;
+  const values = { first: name.first, last: name.last, middle: name.middle, f: name.first[0], l: name.last[0], m: name.middle[0], n: number };
+  const result = pattern.replace(PATTERN_TOKENS, (_, token) => {
+    const value = values[token];
+    if (!value) missing = true;
+    return value || '';
+  });
+  // Patterns that need a part the name doesn't have (e.g. a middle name) are skipped
+  return missing ? null : result.replace(/^[._-]+|[._-]+$/g, '').replace(/([._-])[._-]+/g, '$1');
+};
+
+/**
+ * Build candidate identities for a name, best first, following the configured patterns.
+ * Patterns with {n} expand to every suffix from 2 to 9 after all other patterns.
+ * Single-word names fall back to the first name, then the first name with a number.
+ */
+export const buildCandidates = (fullName, identitySettings = getIdentitySettings()) => {
+  const name = parseName(fullName);
+  if (!name.first) return [];
+
+  const plain = identitySettings.patterns.filter(pattern => !pattern.includes('{n}'));
+  const numbered = identitySettings.patterns.filter(pattern => pattern.includes('{n}'));
+  if (!name.last) {
+    plain.push('{first}');
+    numbered.push('{first}{n}');
+  }
+
+  const attempts = [
+    ...plain.map(pattern => ({ pattern, number: '' })),
+    ...Array.from({ length: MAX_SUFFIX - 1 }, (_, i) => String(i + 2))
+      .flatMap(number => numbered.map(pattern => ({ pattern, number })))
+  ];
+
+  const seen = new Set();
+  const candidates = [];
+  for (const { pattern, number } of attempts) {
+    const local = applyPattern(pattern, name, number);
+    const username = local?.substring(0, MAX_USERNAME_LENGTH);
+    if (!local || seen.has(username)) continue;
+    seen.add(username);
+    candidates.push({
+      username,
+      email: `${local}@${identitySettings.emailDomain}`,
+      pattern
+    });
+  }
+  return candidates;
+};
@@ -0,0 +1,162 @@
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+import ExcelJS from 'exceljs';
+import { CUSTOM_FIELD_PREFIX } from './customFields.js';
+
+// Hire fields that can be filled from an import file, in template order
+export const IMPORT_FIELDS = [
+  'name', 'title', 'position_grade', 'department', 'email', 'direct_report', 'phone_number', 'employee_id',
+  'mailing_list', 'account_creation_status', 'username', 'password', 'on_site_date', 'ict_support_pic',
+  'remarks', 'license_assigned', 'microsoft_365_license', 'laptop_ready', 'note'
+];
+
+export const REQUIRED_IMPORT_FIELDS = ['name', 'title', 'department', 'email', 'direct_report'];
+
+// Header spellings HR files commonly use, matched after lowercasing and dropping punctuation
+const FIELD_ALIASES = {
+  name: ['fullname', 'employeename', 'nama', 'namalengkap'],
+  title: ['jobtitle', 'position', 'jabatan'],
+  position_grade: ['grade', 'positiongrade', 'level'],
+  department: ['dept', 'departemen', 'division'],
+  email: ['emailaddress', 'mail', 'workemail'],
+  direct_report: ['manager', 'supervisor', 'reportsto', 'atasan', 'directreport'],
+  phone_number: ['phone', 'mobile', 'mobilephone', 'nohp', 'phonenumber', 'whatsapp'],
+  employee_id: ['employeeid', 'nik', 'empid', 'employeeno', 'employeenumber'],
+  on_site_date: ['startdate', 'joindate', 'joiningdate', 'onsitedate', 'tanggalmasuk']
+};
+
+const normalizeHeader = (header) => String(header || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const formatDate = (date) => date.toISOString().split('T')[0];
+
+/** Plain value of an Excel cell - rich text, hyperlinks and formulas reduced to what is shown */
+const cellToValue = (value) => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value === 'object') {
+    if (Array.isArray(value.richText)) return value.richText.map(part => part.text).join('');
+    if ('text' in value) return cellToValue(value.text);
+    if ('result' in value) return cellToValue(value.result);
+    if ('error' in value) return '';
+  }
+  return String(value).trim();
+};
+
+const parseCsv = async (buffer) => {
+  const rows = [];
+  let headers = [];
+  await new Promise((resolve, reject) => {
+    Readable.from([buffer])
+      .pipe(csv({
+        mapHeaders: ({ header }) => header.trim(),
+        mapValues: ({ value }) => value ? value.trim() : value
+      }))
+      .on('headers', (parsedHeaders) => { headers = parsedHeaders; })
+      .on('data', (row) => rows.push(row))
+      .on('end', resolve)
+      .on('error', reject);
+  });
+  return { headers, rows };
+};
+
+const parseXlsx = async (buffer) => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(buffer);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return { headers: [], rows: [] };
+
+  // The first non-empty row holds the headers
+  const headers = [];
+  let headerRowNumber = 0;
+  worksheet.eachRow((row, rowNumber) => {
+    if (headerRowNumber) return;
+    headerRowNumber = rowNumber;
+    row.eachCell((cell, column) => { headers[column - 1] = cellToValue(cell.value); });
+  });
+
+  const rows = [];
+  worksheet.eachRow((row, rowNumber) => {
+    if (rowNumber <= headerRowNumber) return;
+    const record = {};
+    headers.forEach((header, index) => {
+      if (header) record[header] = cellToValue(row.getCell(index + 1).value);
+    });
+    if (Object.values(record).some(Boolean)) rows.push(record);
+  });
+
+  return { headers: headers.filter(Boolean), rows };
+};
+
+/**
+ * Read an uploaded CSV or XLSX file into its header names and one object per row keyed by header
+ */
+export const parseImportFile = async (buffer, filename = '') => {
+  const extension = filename.split('.').pop().toLowerCase();
+  if (extension === 'xlsx') return parseXlsx(buffer);
+  if (extension === 'csv') return parseCsv(buffer);
+  throw new Error(`Unsupported file type ".${extension}" - upload a .csv or .xlsx file`);
+};
+
+// Import targets for custom fields, "custom.<key>", with the label as another name to match headers on
+const customTargets = (customFields) => customFields.map(field => ({
+  target: `${CUSTOM_FIELD_PREFIX}${field.key}`,
+  names: [normalizeHeader(field.key), normalizeHeader(field.label)]
+}));
+
+/**
+ * Guess which hire field each source column holds, by name or a known alias.
+ * Custom fields are matched by key or label.
+ * Returns { sourceHeader: field } for the columns it could place.
+ */
+export const suggestMapping = (headers, customFields = []) => {
+  const mapping = {};
+  const used = new Set();
+  const custom = customTargets(customFields);
+  for (const header of headers) {
+    const normalized = normalizeHeader(header);
+    const field = IMPORT_FIELDS.find(candidate =>
+      !used.has(candidate) &&
+      (normalizeHeader(candidate) === normalized || (FIELD_ALIASES[candidate] || []).includes(normalized))
+    ) || custom.find(candidate => !used.has(candidate.target) && candidate.names.includes(normalized))?.target;
+    if (field) {
+      mapping[header] = field;
+      used.add(field);
+    }
+  }
+  return mapping;
+};
+
+/**
+ * Validate a column mapping against the file headers, returning an error message or null
+ */
+export const validateMapping = (mapping, headers, customFields = []) => {
+  if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) return 'Column mapping must be an object';
+
+  const targets = Object.values(mapping).filter(Boolean);
+  const custom = customTargets(customFields).map(candidate => candidate.target);
+  const unknown = targets.find(field => !IMPORT_FIELDS.includes(field) && !custom.includes(field));
+  if (unknown) return `Unknown hire field "${unknown}"`;
+
+  const repeated = targets.find((field, index) => targets.indexOf(field) !== index);
+  if (repeated) return `More than one column is mapped to "${repeated}"`;
+
+  if (headers) {
+    const missingColumn = Object.keys(mapping).find(header => mapping[header] && !headers.includes(header));
+    if (missingColumn) return `Column "${missingColumn}" is not in the file`;
+  }
+
+  const unmapped = REQUIRED_IMPORT_FIELDS.filter(field => !targets.includes(field));
+  if (unmapped.length > 0) return `Required fields are not mapped: ${unmapped.join(', ')}`;
+  return null;
+};
+
+/**
+ * Turn source rows into rows keyed by hire field. Unmapped columns are dropped.
+ */
+export const applyMapping = (rows, mapping) => rows.map(row => {
+  const mapped = {};
+  for (const [header, field] of Object.entries(mapping)) {
+    if (field && row[header] !== undefined) mapped[field] = row[header];
+  }
+  return mapped;
+});
@@ -0,0 +1,23 @@
+// Job statuses: queued and retrying jobs are picked up once run_at has passed; succeeded and dead are final
+export const JOB_STATUSES = ['queued', 'running', 'retrying', 'succeeded', 'dead'];
+
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Delay before retrying after the given failed attempt (1-based): 30s, 1m, 2m, 4m... capped at an hour
+ */
+export const retryDelay = (attempt) => Math.min(BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), MAX_DELAY_MS);
+
+/**
+ * Where a job goes after a failed attempt. Permanent failures, and jobs out of attempts, are dead.
+ * Returns { status, run_at } with run_at as an ISO string, or null once dead.
+ */
+export const nextAttemptState = ({ attempts, max_attempts: maxAttempts }, permanent = false, now = new Date()) => {
+  if (permanent || attempts >= maxAttempts) {
+    return { status: 'dead', run_at: null };
+  }
+  return { status: 'retrying', run_at: new Date(now.getTime() + retryDelay(attempts)).toISOString() };
+};
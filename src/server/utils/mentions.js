@@ -0,0 +1,19 @@
+// Usernames are written as @name; dots, dashes and underscores are part of the name,
+// except a trailing one, so "@agnes." at the end of a sentence still mentions agnes
+const MENTION_PATTERN = /(^|[^A-Za-z0-9._-])@([A-Za-z0-9._-]*[A-Za-z0-9_])/g;
+
+/**
+ * Accounts mentioned in a comment, matched case-insensitively against the known usernames
+ * and returned with the stored casing, each once
+ */
+export const extractMentions = (text, usernames) => {
+  if (!text) return [];
+  const byLowerName = new Map(usernames.map(username => [username.toLowerCase(), username]));
+
+  const mentioned = new Set();
+  for (const match of String(text).matchAll(MENTION_PATTERN)) {
+    const username = byLowerName.get(match[2].toLowerCase());
+    if (username) mentioned.add(username);
+  }
+  return [...mentioned];
+};
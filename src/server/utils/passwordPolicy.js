@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SETTINGS_FILE = path.join(__dirname, '../data/settings.json');
+
+// Keep in sync with DEFAULT_PASSWORD_POLICY in src/utils/passwordPolicy.ts
+export const DEFAULT_PASSWORD_POLICY = {
+  minLength: 12,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumbers: true,
+  requireSymbols: true,
+  disallowNameParts: true,
+  bannedWords: ['password', 'welcome', 'qwerty', 'letmein', 'merdeka', 'tsingshan', 'mb23'],
+  generator: 'random',
+  passphraseWords: 4
+};
+
+export const GENERATOR_STRATEGIES = ['random', 'passphrase'];
+
+// AD refuses passwords shorter than this whatever the policy says
+const AD_MINIMUM_LENGTH = 7;
+
+/**
+ * Read the password policy from settings, filling in defaults for anything not configured
+ */
+export const getPasswordPolicy = (settings) => {
+  const source = settings || (fs.existsSync(SETTINGS_FILE) ? JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8')) : {});
+  return { ...DEFAULT_PASSWORD_POLICY, ...(source.passwordPolicy || {}) };
+};
+
+/**
+ * Validate a policy submitted from Settings, returning an error message or null
+ */
+export const validatePolicy = (policy) => {
+  if (!policy || typeof policy !== 'object') return 'Password policy is required';
+  if (!Number.isInteger(policy.minLength) || policy.minLength < AD_MINIMUM_LENGTH || policy.minLength > 128) {
+    return `Minimum length must be between ${AD_MINIMUM_LENGTH} and 128`;
+  }
+  if (!Array.isArray(policy.bannedWords) || policy.bannedWords.some(word => typeof word !== 'string')) {
+    return 'Banned words must be a list of words';
+  }
+  if (!GENERATOR_STRATEGIES.includes(policy.generator)) {
+    return `Generator must be one of: ${GENERATOR_STRATEGIES.join(', ')}`;
+  }
+  if (!Number.isInteger(policy.passphraseWords) || policy.passphraseWords < 3 || policy.passphraseWords > 8) {
+    return 'Passphrases need between 3 and 8 words';
+  }
+  return null;
+};
+
+// Undo common substitutions so "P4ssw0rd" is caught by a ban on "password"
+const normalizeForComparison = (value) => value
+  .toLowerCase()
+  .replace(/4|@/g, 'a')
+  .replace(/3/g, 'e')
+  .replace(/1|!/g, 'i')
+  .replace(/0/g, 'o')
+  .replace(/\$|5/g, 's')
+  .replace(/7/g, 't');
+
+/**
+ * Check a password against the policy.
+ * context carries the hire's name and username so they can't be used in the password.
+ * Returns a list of problems - empty when the password is acceptable.
+ */
+export const validatePassword = (password, policy = getPasswordPolicy(), context = {}) => {
+  const errors = [];
+  const value = String(password || '');
+
+  if (value.length < Math.max(policy.minLength, AD_MINIMUM_LENGTH)) {
+    errors.push(`Must be at least ${Math.max(policy.minLength, AD_MINIMUM_LENGTH)} characters`);
+  }
+  if (policy.requireUppercase && !/[A-Z]/.test(value)) errors.push('Must contain an uppercase letter');
+  if (policy.requireLowercase && !/[a-z]/.test(value)) errors.push('Must contain a lowercase letter');
+  if (policy.requireNumbers && !/[0-9]/.test(value)) errors.push('Must contain a number');
+  if (policy.requireSymbols && !/[^A-Za-z0-9]/.test(value)) errors.push('Must contain a symbol');
+
+  const normalized = normalizeForComparison(value);
+  const banned = (policy.bannedWords || [])
+    .map(word => word.trim())
+    .filter(Boolean)
+    .find(word => normalized.includes(normalizeForComparison(word)));
+  if (banned) errors.push(`Must not contain "${banned}"`);
+
+  if (policy.disallowNameParts) {
+    const nameParts = [context.name, context.username]
+      .filter(Boolean)
+      .flatMap(part => String(part).split(/[\s._@-]+/))
+      .filter(part => part.length >= 3);
+    const usedPart = nameParts.find(part => normalized.includes(normalizeForComparison(part)));
+    if (usedPart) errors.push('Must not contain the user\'s name or username');
+  }
+
+  return errors;
+};
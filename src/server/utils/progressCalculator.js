@@ -0,0 +1,242 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SETTINGS_FILE = path.join(__dirname, '../data/settings.json');
+
+/**
+ * Hire columns a checklist item can look at, with the conditions each supports.
+ * Only these are ever interpolated into SQL.
+ */
+export const CHECKLIST_FIELDS = {
+  account_creation_status: 'text',
+  laptop_ready: 'text',
+  license_assigned: 'boolean',
+  status_srf: 'boolean',
+  microsoft_365_license: 'text',
+  distribution_list_sync_status: 'text',
+  srf_document_path: 'text',
+  username: 'text',
+  ict_support_pic: 'text',
+  direct_report: 'text',
+  phone_number: 'text'
+};
+
+const CONDITIONS_BY_TYPE = {
+  boolean: ['truthy'],
+  text: ['notEmpty', 'stages']
+};
+
+/**
+ * Checklist used when no checklist has been configured in settings.
+ * Stage credit is the percentage of the item's weight earned at that stage;
+ * dueDays is the deadline in business days before on_site_date.
+ */
+export const DEFAULT_CHECKLIST = [
+  {
+    id: 'account',
+    label: 'Account Active',
+    field: 'account_creation_status',
+    condition: 'stages',
+    weight: 20,
+    dueDays: 3,
+    stages: [{ value: 'Active', credit: 100 }]
+  },
+  {
+    id: 'laptop',
+    label: 'Laptop',
+    field: 'laptop_ready',
+    condition: 'stages',
+    weight: 25,
+    dueDays: 1,
+    stages: [
+      { value: 'In Progress', credit: 25 },
+      { value: 'Ready', credit: 50 },
+      { value: 'Done', credit: 100 }
+    ]
+  },
+  { id: 'license', label: 'License Assigned', field: 'license_assigned', condition: 'truthy', weight: 15, dueDays: 2 },
+  { id: 'srf', label: 'SRF', field: 'status_srf', condition: 'truthy', weight: 15, dueDays: 5 },
+  { id: 'm365', label: 'Microsoft 365 License', field: 'microsoft_365_license', condition: 'notEmpty', weight: 15 },
+  {
+    id: 'distribution-lists',
+    label: 'Distribution Lists',
+    field: 'distribution_list_sync_status',
+    condition: 'stages',
+    weight: 10,
+    dueDays: 1,
+    stages: [
+      { value: 'Partial', credit: 50 },
+      { value: 'Synced', credit: 100 }
+    ]
+  }
+];
+
+/**
+ * Whether a configured checklist can be used. Empty or invalid ones fall back to the default - the same
+ * rule for the calculator and the SQL builders, so a row's progress matches how it is filtered and sorted.
+ */
+export const isUsableChecklist = (items) => Array.isArray(items) && items.length > 0 && !validateChecklist(items);
+
+/**
+ * Read the checklist configuration from settings, falling back to the default checklist
+ */
+export const getChecklistSettings = (settings) => {
+  const source = settings || (fs.existsSync(SETTINGS_FILE) ? JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8')) : {});
+  const checklists = source.onboardingChecklists || {};
+  return {
+    default: isUsableChecklist(checklists.default) ? checklists.default : DEFAULT_CHECKLIST,
+    positionGrades: checklists.positionGrades || {}
+  };
+};
+
+/**
+ * Pick the checklist for a position grade; grades without a usable checklist of their own use the default
+ */
+export const getChecklistForGrade = (checklists, positionGrade) => {
+  const gradeChecklist = positionGrade ? checklists.positionGrades?.[positionGrade] : null;
+  if (isUsableChecklist(gradeChecklist)) {
+    return { name: positionGrade, items: gradeChecklist };
+  }
+  return { name: 'default', items: checklists.default };
+};
+
+/**
+ * Validate a list of checklist items, returning an error message or null
+ */
+export const validateChecklist = (items) => {
+  if (!Array.isArray(items)) return 'Checklist must be an array of items';
+
+  const ids = new Set();
+  for (const item of items) {
+    if (!item || !item.id || !item.label) return 'Every checklist item needs an id and a label';
+    if (ids.has(item.id)) return `Duplicate checklist item id "${item.id}"`;
+    ids.add(item.id);
+
+    const fieldType = CHECKLIST_FIELDS[item.field];
+    if (!fieldType) return `"${item.label}" uses an unsupported field "${item.field}"`;
+    if (!CONDITIONS_BY_TYPE[fieldType].includes(item.condition)) {
+      return `"${item.label}" cannot use the "${item.condition}" condition on ${item.field}`;
+    }
+    if (typeof item.weight !== 'number' || !Number.isFinite(item.weight) || item.weight < 0) {
+      return `"${item.label}" needs a weight of zero or more`;
+    }
+    // Deadline in business days before on_site_date (negative is after); see slaDeadlines.js
+    if (item.dueDays !== undefined && item.dueDays !== null
+      && (!Number.isInteger(item.dueDays) || item.dueDays < -30 || item.dueDays > 60)) {
+      return `"${item.label}" needs a deadline between 60 business days before and 30 after the on-site date`;
+    }
+    if (item.condition === 'stages') {
+      if (!Array.isArray(item.stages) || item.stages.length === 0) return `"${item.label}" needs at least one stage`;
+      for (const stage of item.stages) {
+        if (!stage || typeof stage.value !== 'string' || !stage.value.trim()) return `"${item.label}" has a stage without a value`;
+        if (typeof stage.credit !== 'number' || stage.credit < 0 || stage.credit > 100) {
+          return `"${item.label}" stage "${stage.value}" needs a credit between 0 and 100`;
+        }
+      }
+    }
+  }
+  return null;
+};
+
+const isTruthy = (value) => value === true || value === 1 || value === '1' || value === 'true';
+
+const isFilled = (value) => {
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  return text !== '' && text !== 'None';
+};
+
+/**
+ * Work out how much of an item's weight a hire has earned
+ */
+const evaluateItem = (item, hire) => {
+  const value = hire[item.field];
+
+  if (item.condition === 'truthy') {
+    return { credit: isTruthy(value) ? 100 : 0, stage: null };
+  }
+  if (item.condition === 'notEmpty') {
+    return { credit: isFilled(value) ? 100 : 0, stage: null };
+  }
+
+  const current = value === null || value === undefined ? '' : String(value).toLowerCase();
+  const stage = (item.stages || []).find(s => s.value.toLowerCase() === current);
+  return { credit: stage ? stage.credit : 0, stage: stage ? stage.value : null };
+};
+
+/**
+ * Compute a hire's progress and a per-item breakdown.
+ * Weights are relative, so the percentage never exceeds 100 whatever they add up to.
+ */
+export const calculateProgress = (hire, checklists) => {
+  const checklist = getChecklistForGrade(checklists, hire.position_grade);
+  const totalWeight = checklist.items.reduce((sum, item) => sum + item.weight, 0);
+
+  const items = checklist.items.map(item => {
+    const { credit, stage } = evaluateItem(item, hire);
+    return {
+      id: item.id,
+      label: item.label,
+      weight: item.weight,
+      credit,
+      stage,
+      earned: (item.weight * credit) / 100,
+      complete: credit === 100
+    };
+  });
+
+  const earned = items.reduce((sum, item) => sum + item.earned, 0);
+  return {
+    percentage: totalWeight > 0 ? Math.round((earned / totalWeight) * 100) : 0,
+    checklist: checklist.name,
+    items
+  };
+};
+
+// SQL for one checklist's percentage; params are appended in placeholder order
+const buildChecklistSql = (items, params) => {
+  const totalWeight = items.reduce((sum, item) => sum + item.weight, 0);
+  if (totalWeight === 0) return '0';
+
+  const terms = items.map(item => {
+    const column = `CAST(${item.field} AS NVARCHAR(4000))`;
+    if (item.condition === 'truthy') {
+      return `${item.weight} * (CASE WHEN ${item.field} = 1 THEN 1.0 ELSE 0 END)`;
+    }
+    if (item.condition === 'notEmpty') {
+      return `${item.weight} * (CASE WHEN ${item.field} IS NOT NULL AND LTRIM(RTRIM(${column})) NOT IN ('', 'None') THEN 1.0 ELSE 0 END)`;
+    }
+    const whens = item.stages.map(stage => {
+      params.push(stage.value.toLowerCase());
+      return `WHEN ? THEN ${Number(stage.credit) / 100}`;
+    });
+    return `${item.weight} * (CASE LOWER(${column}) ${whens.join(' ')} ELSE 0 END)`;
+  });
+
+  return `(${terms.join(' + ')}) * 100.0 / ${totalWeight}`;
+};
+
+/**
+ * Build a SQL expression computing progress_percentage for each row of hires,
+ * so the hires list can filter and sort on it
+ */
+export const buildProgressSql = (checklists) => {
+  const params = [];
+  const gradeCases = [];
+
+  for (const [grade, items] of Object.entries(checklists.positionGrades || {})) {
+    if (!isUsableChecklist(items)) continue;
+    params.push(grade);
+    gradeCases.push(`WHEN ? THEN ${buildChecklistSql(items, params)}`);
+  }
+
+  const defaultSql = buildChecklistSql(checklists.default, params);
+  const expression = gradeCases.length > 0
+    ? `CASE position_grade ${gradeCases.join(' ')} ELSE ${defaultSql} END`
+    : defaultSql;
+
+  return { sql: `CAST(ROUND(${expression}, 0) AS INT)`, params };
+};
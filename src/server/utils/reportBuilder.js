@@ -0,0 +1,248 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import ExcelJS from 'exceljs';
+import { format } from 'date-fns';
+import { CUSTOM_FIELD_PREFIX } from './customFields.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SETTINGS_FILE = path.join(__dirname, '../data/settings.json');
+
+// Hire fields a report can show, with the header used when a template doesn't name one
+export const REPORT_FIELDS = {
+  employee_id: 'Employee ID',
+  name: 'Name',
+  title: 'Title',
+  position_grade: 'Position Grade',
+  department: 'Department',
+  email: 'Email',
+  direct_report: 'Direct Report',
+  phone_number: 'Phone Number',
+  username: 'Username',
+  mailing_list: 'Mailing List',
+  account_creation_status: 'Account Status',
+  license_assigned: 'License Assigned',
+  microsoft_365_license: 'Microsoft 365 License',
+  status_srf: 'SRF Status',
+  srf_number: 'SRF No.',
+  laptop_ready: 'Laptop Ready',
+  on_site_date: 'On-site Date',
+  ict_support_pic: 'ICT Support PIC',
+  remarks: 'Remarks',
+  note: 'Note',
+  last_working_day: 'Last Working Day',
+  offboarding_status: 'Offboarding Status',
+  created_at: 'Created At'
+};
+
+export const DATE_FIELDS = ['on_site_date', 'last_working_day', 'created_at'];
+
+// Fields a report can be split into one sheet per value of
+export const GROUP_BY_FIELDS = ['department', 'account_creation_status', 'ict_support_pic', 'laptop_ready', 'position_grade'];
+
+// date-fns pattern (shown in previews) -> Excel number format (written to the workbook)
+export const REPORT_DATE_FORMATS = {
+  'dd/MM/yyyy': 'dd/mm/yyyy',
+  'yyyy-MM-dd': 'yyyy-mm-dd',
+  'dd MMM yyyy': 'dd mmm yyyy',
+  'd MMMM yyyy': 'd mmmm yyyy',
+  'MMMM yyyy': 'mmmm yyyy'
+};
+
+const DEFAULT_DATE_FORMAT = 'dd/MM/yyyy';
+
+export const DEFAULT_REPORT_TEMPLATES = [
+  {
+    id: 'license-request',
+    name: 'License Request',
+    groupBy: null,
+    columns: [
+      { field: 'srf_number', header: 'SRF No.' },
+      { field: 'name', header: 'Name' },
+      { field: 'title', header: 'Title' },
+      { field: 'department', header: 'Department' },
+      { field: 'microsoft_365_license', header: 'License Type' },
+      { field: 'email', header: 'Email' },
+      { field: 'on_site_date', header: 'Join Date', dateFormat: 'dd/MM/yyyy' }
+    ]
+  },
+  {
+    id: 'monthly-onboarding',
+    name: 'Monthly Onboarding',
+    groupBy: 'department',
+    columns: [
+      { field: 'employee_id', header: 'Employee ID' },
+      { field: 'name', header: 'Name' },
+      { field: 'title', header: 'Title' },
+      { field: 'position_grade', header: 'Grade' },
+      { field: 'direct_report', header: 'Direct Report' },
+      { field: 'email', header: 'Email' },
+      { field: 'on_site_date', header: 'On-site Date', dateFormat: 'dd MMM yyyy' },
+      { field: 'account_creation_status', header: 'Account Status' },
+      { field: 'laptop_ready', header: 'Laptop' },
+      { field: 'ict_support_pic', header: 'ICT PIC' }
+    ]
+  }
+];
+
+/**
+ * Read the report templates from settings, falling back to the built-in ones
+ */
+export const getReportTemplates = (settings) => {
+  const source = settings || (fs.existsSync(SETTINGS_FILE) ? JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8')) : {});
+  return Array.isArray(source.reportTemplates) ? source.reportTemplates : DEFAULT_REPORT_TEMPLATES;
+};
+
+/**
+ * Validate report templates submitted from Settings, returning an error message or null.
+ * Columns can also show custom fields, as "custom.<key>".
+ */
+export const validateReportTemplates = (templates, customFields = []) => {
+  if (!Array.isArray(templates)) return 'Report templates must be a list';
+
+  const customTypes = Object.fromEntries(customFields.map(field => [`${CUSTOM_FIELD_PREFIX}${field.key}`, field.type]));
+  const isKnownField = (field) => field in REPORT_FIELDS || field in customTypes;
+  const isDateField = (field) => DATE_FIELDS.includes(field) || customTypes[field] === 'date';
+
+  const names = new Set();
+  for (const template of templates) {
+    if (!template || typeof template.id !== 'string' || !template.id) return 'Every template needs an id';
+    if (typeof template.name !== 'string' || !template.name.trim()) return 'Every template needs a name';
+
+    const name = template.name.trim().toLowerCase();
+    if (names.has(name)) return `There is more than one template named "${template.name.trim()}"`;
+    names.add(name);
+
+    if (!Array.isArray(template.columns) || template.columns.length === 0) {
+      return `Template "${template.name}" needs at least one column`;
+    }
+    for (const column of template.columns) {
+      if (!column || !isKnownField(column.field)) {
+        return `Template "${template.name}" has an unknown column "${column?.field}"`;
+      }
+      if (typeof column.header !== 'string' || !column.header.trim()) {
+        return `Template "${template.name}" has a column without a header`;
+      }
+      if (column.dateFormat && (!isDateField(column.field) || !(column.dateFormat in REPORT_DATE_FORMATS))) {
+        return `Template "${template.name}" has an invalid date format for "${column.header}"`;
+      }
+    }
+    if (template.groupBy && !GROUP_BY_FIELDS.includes(template.groupBy)) {
+      return `Template "${template.name}" cannot be grouped by "${template.groupBy}"`;
+    }
+  }
+  return null;
+};
+
+const toDate = (value) => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Custom date fields are only known to be dates by the date format their column was given
+const isDateColumn = (column) => DATE_FIELDS.includes(column.field) || Boolean(column.dateFormat);
+
+/** Value of one report cell - dates stay Date objects so Excel can format and sort them */
+const toCellValue = (hire, column) => {
+  const value = hire[column.field];
+  if (isDateColumn(column)) return toDate(value);
+  if (typeof value === 'boolean' || typeof value === 'number') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  return value === undefined || value === null ? '' : String(value);
+};
+
+/** The same cell as text, for previews */
+const toCellText = (value, column) => {
+  if (value instanceof Date) return format(value, column.dateFormat || DEFAULT_DATE_FORMAT);
+  return value === null ? '' : value;
+};
+
+// Excel sheet names: at most 31 characters and none of \ / ? * : [ ]
+const toSheetName = (value, used) => {
+  const base = String(value || 'Unassigned').replace(/[\\/?*:[\]]/g, '-').trim().slice(0, 31) || 'Unassigned';
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    name = `${base.slice(0, 31 - String(n).length - 3)} (${n})`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+};
+
+/**
+ * Lay hires out as the template describes.
+ * Returns [{ name, rows }] - one sheet, or one per group value - where each row holds a value per template column.
+ */
+export const buildReport = (template, hires) => {
+  // By on-site date, hires without one last, then by name
+  const onSite = (hire) => toDate(hire.on_site_date)?.getTime() ?? Infinity;
+  const sorted = [...hires].sort((a, b) =>
+    (onSite(a) - onSite(b) || 0) || String(a.name || '').localeCompare(String(b.name || ''))
+  );
+
+  const groups = new Map();
+  if (template.groupBy) {
+    for (const hire of sorted) {
+      const key = hire[template.groupBy] || '';
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key).push(hire);
+    }
+  } else {
+    groups.set(template.name, sorted);
+  }
+
+  const used = new Set();
+  return [...groups.keys()]
+    .sort((a, b) => (a === '') - (b === '') || a.localeCompare(b))
+    .map(key => ({
+      name: toSheetName(key, used),
+      rows: groups.get(key).map(hire => template.columns.map(column => toCellValue(hire, column)))
+    }));
+};
+
+/**
+ * Report sheets as text, for showing in the browser before downloading
+ */
+export const previewReport = (template, sheets, rowLimit = 20) => sheets.map(sheet => ({
+  name: sheet.name,
+  totalRows: sheet.rows.length,
+  headers: template.columns.map(column => column.header),
+  rows: sheet.rows.slice(0, rowLimit).map(row => row.map((value, index) => toCellText(value, template.columns[index])))
+}));
+
+/**
+ * Write report sheets to an .xlsx workbook, returning its contents as a Buffer
+ */
+export const writeReportWorkbook = async (template, sheets) => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  for (const sheet of sheets) {
+    const worksheet = workbook.addWorksheet(sheet.name, { views: [{ state: 'frozen', ySplit: 1 }] });
+    worksheet.columns = template.columns.map((column, index) => {
+      const texts = [column.header, ...sheet.rows.map(row => String(toCellText(row[index], column)))];
+      return {
+        header: column.header,
+        width: Math.min(Math.max(...texts.map(text => text.length)) + 2, 50),
+        style: isDateColumn(column)
+          ? { numFmt: REPORT_DATE_FORMATS[column.dateFormat || DEFAULT_DATE_FORMAT] }
+          : {}
+      };
+    });
+    worksheet.addRows(sheet.rows);
+
+    const headerRow = worksheet.getRow(1);
+    headerRow.font = { bold: true };
+    headerRow.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE5E7EB' } };
+    worksheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: template.columns.length } };
+  }
+
+  // An empty report still opens in Excel
+  if (sheets.length === 0) {
+    workbook.addWorksheet(toSheetName(template.name, new Set())).addRow(template.columns.map(column => column.header));
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+};
@@ -0,0 +1,53 @@
+// Column filters the hires list understands, as sent to GET /hires
+export const VIEW_FILTER_KEYS = ['name', 'title', 'department', 'email', 'progress', 'sla', 'license', 'ictSupportPic'];
+
+// Hires list columns that can be hidden; name, progress and actions are always shown
+export const VIEW_COLUMNS = ['title', 'department', 'email', 'on_site_date', 'license', 'ict_support_pic'];
+
+// Custom field columns are "custom.<key>"; a view may keep one whose field was since removed
+const CUSTOM_COLUMN = /^custom\.[a-z][a-z0-9_]{0,49}$/;
+
+const SORT_DIRECTIONS = ['asc', 'desc'];
+const PAGE_SIZES = [25, 50, 100];
+
+/**
+ * Clean up a hires list state submitted for a saved view.
+ * Returns { state } with only known keys kept, or { error } when it can't be stored.
+ */
+export const normalizeViewState = (state) => {
+  if (!state || typeof state !== 'object' || Array.isArray(state)) return { error: 'View state must be an object' };
+
+  const filters = {};
+  for (const key of VIEW_FILTER_KEYS) {
+    const value = state.filters?.[key];
+    if (value !== undefined && value !== null && typeof value !== 'string') return { error: `Filter "${key}" must be text` };
+    if (value) filters[key] = value;
+  }
+
+  const sortField = state.sortField || null;
+  const sortDirection = state.sortDirection || null;
+  if (sortField !== null && typeof sortField !== 'string') return { error: 'Sort field must be text' };
+  if (sortDirection !== null && !SORT_DIRECTIONS.includes(sortDirection)) return { error: 'Sort direction must be asc or desc' };
+
+  const columns = state.columns === undefined ? VIEW_COLUMNS : state.columns;
+  if (!Array.isArray(columns) || columns.some(column => !VIEW_COLUMNS.includes(column) && !CUSTOM_COLUMN.test(column))) {
+    return { error: `Columns must be chosen from: ${VIEW_COLUMNS.join(', ')} or custom fields` };
+  }
+
+  const pageSize = state.pageSize === undefined || state.pageSize === null ? null : Number(state.pageSize);
+  if (pageSize !== null && !PAGE_SIZES.includes(pageSize)) return { error: `Page size must be one of ${PAGE_SIZES.join(', ')}` };
+
+  return {
+    state: {
+      q: typeof state.q === 'string' ? state.q : '',
+      filters,
+      sortField: sortField && sortDirection ? sortField : null,
+      sortDirection: sortField && sortDirection ? sortDirection : null,
+      columns: [
+        ...VIEW_COLUMNS.filter(column => columns.includes(column)),
+        ...[...new Set(columns.filter(column => CUSTOM_COLUMN.test(column)))]
+      ],
+      pageSize
+    }
+  };
+};
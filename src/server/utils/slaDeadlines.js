@@ -0,0 +1,137 @@
+import { getChecklistForGrade, isUsableChecklist } from './progressCalculator.js';
+
+/**
+ * Deadlines for checklist items, set per item as dueDays: business days before the hire's
+ * on_site_date (3 is T-3, 0 is the on-site day itself, -2 is two business days after arrival).
+ * Weekends are skipped; public holidays are not known here.
+ */
+
+// Deadlines are whole days, compared as YYYY-MM-DD in server local time
+const toDateOnly = (date) => {
+  const pad = (n) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// on_site_date comes back from the database as a Date at midnight UTC, or as an ISO string
+const onSiteDay = (value) => {
+  if (!value) return null;
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : null;
+};
+
+const parseDay = (day) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+const isWeekend = (date) => date.getDay() === 0 || date.getDay() === 6;
+
+/**
+ * The day `days` business days before `day` (after it when negative), as YYYY-MM-DD
+ */
+export const shiftBusinessDays = (day, days) => {
+  const date = parseDay(day);
+  const step = days > 0 ? -1 : 1;
+  let remaining = Math.abs(days);
+  while (remaining > 0) {
+    date.setDate(date.getDate() + step);
+    if (!isWeekend(date)) remaining--;
+  }
+  return toDateOnly(date);
+};
+
+// Items without dueDays have no deadline
+const hasDeadline = (item) => Number.isInteger(item.dueDays);
+
+/**
+ * A hire's checklist items that have a deadline, each with its due date and whether it is overdue.
+ * Items already complete are never overdue. Leavers and hires without an on-site date have no deadlines.
+ */
+export const calculateDeadlines = (hire, checklists, progress, today = new Date()) => {
+  const onSite = onSiteDay(hire.on_site_date);
+  if (!onSite || hire.offboarding_status) return [];
+
+  const todayDay = toDateOnly(today);
+  const complete = new Map((progress?.items || []).map(item => [item.id, item.complete]));
+
+  return getChecklistForGrade(checklists, hire.position_grade).items
+    .filter(hasDeadline)
+    .map(item => {
+      const dueDate = shiftBusinessDays(onSite, item.dueDays);
+      const isComplete = complete.get(item.id) === true;
+      return {
+        id: item.id,
+        label: item.label,
+        due_date: dueDate,
+        complete: isComplete,
+        overdue: !isComplete && dueDate < todayDay
+      };
+    });
+};
+
+/**
+ * The earliest on-site day whose deadline `days` business days before it is still today or later.
+ * Hires arriving before this day are past the deadline - lets SQL compare on_site_date directly.
+ */
+export const deadlineCutoff = (days, today = new Date()) => {
+  const todayDay = toDateOnly(today);
+  // Start far enough back to be past the deadline, then walk forward to the first day that isn't
+  const start = parseDay(todayDay);
+  start.setDate(start.getDate() - Math.abs(days) * 2 - 7);
+  let day = toDateOnly(start);
+  while (shiftBusinessDays(day, days) < todayDay) {
+    const next = parseDay(day);
+    next.setDate(next.getDate() + 1);
+    day = toDateOnly(next);
+  }
+  return day;
+};
+
+// SQL that is 1 when an item is incomplete; mirrors complete (credit 100) in calculateProgress
+const buildIncompleteSql = (item, params) => {
+  const column = `CAST(${item.field} AS NVARCHAR(4000))`;
+  if (item.condition === 'truthy') {
+    return `(CASE WHEN ${item.field} = 1 THEN 0 ELSE 1 END)`;
+  }
+  if (item.condition === 'notEmpty') {
+    return `(CASE WHEN ${item.field} IS NOT NULL AND LTRIM(RTRIM(${column})) NOT IN ('', 'None') THEN 0 ELSE 1 END)`;
+  }
+  const doneStages = item.stages.filter(stage => stage.credit === 100).map(stage => stage.value.toLowerCase());
+  if (doneStages.length === 0) return '1';
+  params.push(...doneStages);
+  return `(CASE WHEN LOWER(${column}) IN (${doneStages.map(() => '?').join(', ')}) THEN 0 ELSE 1 END)`;
+};
+
+// SQL counting one checklist's overdue items; params are appended in placeholder order
+const buildChecklistOverdueSql = (items, params, today) => {
+  const terms = items.filter(hasDeadline).map(item => {
+    params.push(deadlineCutoff(item.dueDays, today));
+    return `(CASE WHEN on_site_date < ? THEN ${buildIncompleteSql(item, params)} ELSE 0 END)`;
+  });
+  return terms.length > 0 ? terms.join(' + ') : '0';
+};
+
+/**
+ * Build a SQL expression counting each hire's overdue checklist items, so the hires list
+ * can filter on it the same way it filters on progress
+ */
+export const buildOverdueSql = (checklists, today = new Date()) => {
+  const params = [];
+  const gradeCases = [];
+
+  for (const [grade, items] of Object.entries(checklists.positionGrades || {})) {
+    if (!isUsableChecklist(items)) continue;
+    params.push(grade);
+    gradeCases.push(`WHEN ? THEN ${buildChecklistOverdueSql(items, params, today)}`);
+  }
+
+  const defaultSql = buildChecklistOverdueSql(checklists.default, params, today);
+  const expression = gradeCases.length > 0
+    ? `CASE position_grade ${gradeCases.join(' ')} ELSE ${defaultSql} END`
+    : defaultSql;
+
+  return {
+    sql: `(CASE WHEN on_site_date IS NULL OR offboarding_status IS NOT NULL THEN 0 ELSE ${expression} END)`,
+    params
+  };
+};
@@ -0,0 +1,161 @@
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import PDFDocument from 'pdfkit';
+import { format } from 'date-fns';
+import { renderHireTemplate } from './emailUtils.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const SETTINGS_FILE = path.join(__dirname, '../data/settings.json');
+
+/**
+ * The SRF form admins can edit in Settings. introduction and footer take {{field}} placeholders
+ * like the message templates; numberFormat takes {{year}} and {{seq}}.
+ */
+export const DEFAULT_SRF_TEMPLATE = {
+  companyName: 'PT. Merdeka Tsingshan Indonesia',
+  companyAddress: 'Morowali, Central Sulawesi',
+  title: 'Service Request Form',
+  numberFormat: 'SRF/{{year}}/{{seq}}',
+  introduction: 'ICT Support is requested to prepare the accounts and equipment below for {{name}}, joining {{department}} as {{title}}.',
+  footer: 'This form was generated from the onboarding record. Changes must be made on the hire and the form generated again.',
+  signatures: ['Requested by (HR)', 'Approved by', 'Processed by (ICT)']
+};
+
+export const getSrfTemplate = (settings) => {
+  const source = settings || (fs.existsSync(SETTINGS_FILE) ? JSON.parse(fs.readFileSync(SETTINGS_FILE, 'utf8')) : {});
+  return { ...DEFAULT_SRF_TEMPLATE, ...(source.srfTemplate || {}) };
+};
+
+/**
+ * Validate an SRF template submitted from Settings, returning an error message or null
+ */
+export const validateSrfTemplate = (template) => {
+  if (!template || typeof template !== 'object') return 'The SRF template is missing';
+  for (const key of ['companyName', 'title', 'numberFormat']) {
+    if (typeof template[key] !== 'string' || !template[key].trim()) return `The SRF template needs a ${key}`;
+  }
+  if (!template.numberFormat.includes('{{seq}}')) return 'The SRF number format must include {{seq}} so every number is unique';
+  if (template.signatures !== undefined && (!Array.isArray(template.signatures) || template.signatures.some(label => typeof label !== 'string'))) {
+    return 'Signature labels must be a list of text';
+  }
+  return null;
+};
+
+/**
+ * SRF No. for the given year and per-year sequence, e.g. SRF/2026/0042
+ */
+export const formatSrfNumber = (numberFormat, year, seq) => numberFormat
+  .replace(/\{\{year\}\}/g, String(year))
+  .replace(/\{\{seq\}\}/g, String(seq).padStart(4, '0'));
+
+const formatDate = (value) => {
+  if (!value) return '-';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : format(date, 'd MMMM yyyy');
+};
+
+const parseList = (value) => (Array.isArray(value) ? value : String(value || '').split(','))
+  .map(item => String(item).trim())
+  .filter(Boolean);
+
+// Sections of the form, each a list of [label, value] rows
+const buildSections = (hire) => [
+  ['Employee', [
+    ['Name', hire.name],
+    ['Employee ID', hire.employee_id],
+    ['Title', hire.title],
+    ['Position Grade', hire.position_grade],
+    ['Department', hire.department],
+    ['Direct Report', hire.direct_report],
+    ['On-site Date', formatDate(hire.on_site_date)]
+  ]],
+  ['Requested Accounts', [
+    ['Email', hire.email],
+    ['Username', hire.username],
+    ['Phone Number', hire.phone_number],
+    ['Account Status', hire.account_creation_status]
+  ]],
+  ['Microsoft 365 License', [
+    ['License', hire.microsoft_365_license && hire.microsoft_365_license !== 'None' ? hire.microsoft_365_license : 'None requested']
+  ]],
+  ['Mailing Lists', (() => {
+    const lists = parseList(hire.mailing_list);
+    return lists.length > 0 ? lists.map((list, index) => [`${index + 1}.`, list]) : [['', 'None requested']];
+  })()],
+  ['Laptop', [
+    ['Laptop', hire.laptop_ready || 'Not specified'],
+    ['Remarks', hire.remarks]
+  ]]
+];
+
+/**
+ * Render the SRF for a hire as a PDF, resolving with its bytes
+ */
+export const buildSrfPdf = (hire, template, srfNumber, { generatedAt = new Date(), customValues = {} } = {}) => new Promise((resolve, reject) => {
+  const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `${template.title} ${srfNumber}`, Author: template.companyName } });
+  const chunks = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  doc.on('end', () => resolve(Buffer.concat(chunks)));
+  doc.on('error', reject);
+
+  const left = doc.page.margins.left;
+  const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+
+  // Company header
+  doc.font('Helvetica-Bold').fontSize(16).text(template.companyName, { align: 'center' });
+  if (template.companyAddress) {
+    doc.font('Helvetica').fontSize(10).text(template.companyAddress, { align: 'center' });
+  }
+  doc.moveDown(0.5);
+  doc.moveTo(left, doc.y).lineTo(left + width, doc.y).stroke();
+  doc.moveDown(0.5);
+  doc.font('Helvetica-Bold').fontSize(14).text(template.title.toUpperCase(), { align: 'center' });
+  doc.moveDown(0.5);
+
+  const numberY = doc.y;
+  doc.font('Helvetica').fontSize(10).text(`SRF No.: ${srfNumber}`, left, numberY);
+  doc.text(`Date: ${formatDate(generatedAt)}`, left, numberY, { width, align: 'right' });
+  doc.moveDown(1);
+
+  if (template.introduction) {
+    doc.text(renderHireTemplate(template.introduction, hire, customValues, { html: false }), left, doc.y, { width });
+    doc.moveDown(1);
+  }
+
+  for (const [heading, rows] of buildSections(hire)) {
+    doc.font('Helvetica-Bold').fontSize(11).text(heading, left, doc.y);
+    doc.moveDown(0.25);
+    for (const [label, value] of rows) {
+      const rowY = doc.y;
+      doc.font('Helvetica').fontSize(10).fillColor('#555555').text(label, left + 10, rowY, { width: 130 });
+      doc.fillColor('black').text(value === null || value === undefined || value === '' ? '-' : String(value), left + 150, rowY, { width: width - 150 });
+      doc.moveDown(0.2);
+    }
+    doc.moveDown(0.6);
+  }
+
+  // Signature boxes along the bottom of the form
+  const signatures = template.signatures || [];
+  if (signatures.length > 0) {
+    doc.moveDown(1);
+    if (doc.y + 90 > doc.page.height - doc.page.margins.bottom) doc.addPage();
+    const boxWidth = width / signatures.length;
+    const boxY = doc.y;
+    signatures.forEach((label, index) => {
+      const x = left + index * boxWidth;
+      doc.font('Helvetica').fontSize(9).text(label, x, boxY, { width: boxWidth - 10, align: 'center' });
+      doc.moveTo(x + 10, boxY + 60).lineTo(x + boxWidth - 20, boxY + 60).stroke();
+    });
+    doc.y = boxY + 75;
+  }
+
+  if (template.footer) {
+    doc.font('Helvetica-Oblique').fontSize(8).fillColor('#555555')
+      .text(renderHireTemplate(template.footer, hire, customValues, { html: false }), left, doc.y, { width, align: 'center' });
+  }
+
+  doc.end();
+});
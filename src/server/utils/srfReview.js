@@ -0,0 +1,22 @@
+// Every uploaded SRF version starts as submitted and is then approved, rejected or withdrawn once
+export const SRF_REVIEW_STATUSES = ['submitted', 'approved', 'rejected', 'withdrawn'];
+
+// Approving and rejecting is for admins; withdrawing is how the uploader takes back a wrong file
+export const SRF_DECISIONS = ['approved', 'rejected', 'withdrawn'];
+
+/**
+ * Check a review decision on an SRF version, returning an error message or null.
+ * Only the newest version can be reviewed - older ones were replaced before anyone looked at them.
+ */
+export const checkSrfReview = ({ version, latest, decision, reason }) => {
+  if (!SRF_DECISIONS.includes(decision)) return `Decision must be one of: ${SRF_DECISIONS.join(', ')}`;
+  if (!latest || version.id !== latest.id) return 'Only the latest SRF version can be reviewed';
+  if (version.status !== 'submitted') return `Version ${version.version} has already been ${version.status}`;
+  if (decision === 'rejected' && !(typeof reason === 'string' && reason.trim())) return 'A reason is required to reject an SRF';
+  return null;
+};
+
+/**
+ * status_srf for a hire whose newest SRF version is the given one - true only once it is approved
+ */
+export const srfStatusFor = (latest) => Boolean(latest && latest.status === 'approved');
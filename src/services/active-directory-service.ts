@@ -1,5 +1,7 @@
 
 import apiClient from "./api-client";
+import { jobsService } from "./jobs-service";
+import { QueuedJobResponse } from "@/types/types";
 import logger from "@/utils/logger";
 
 interface ActiveDirectorySettings {
@@ -11,6 +13,7 @@ interface ActiveDirectorySettings {
   protocol: "ldap" | "ldaps";
   enabled: boolean;
   authFormat: "upn" | "dn"; // Property to specify auth format
+  disabledUsersOU?: string; // Where offboarded accounts are moved
 }
 
 interface ADUserData {
@@ -56,6 +59,27 @@ interface ADUserSearchResult {
   error?: string;
 }
 
+interface IdentityConflict {
+  field: "username" | "upn" | "email";
+  value: string;
+  source: "hire" | "ad";
+  name: string;
+}
+
+interface IdentitySuggestion {
+  username: string;
+  email: string;
+  pattern: string;
+}
+
+export interface IdentityCheckResult {
+  success: boolean;
+  available: boolean;
+  conflicts: IdentityConflict[];
+  errors: string[];
+  suggestions: IdentitySuggestion[];
+}
+
 // The API client already includes /api in its baseURL
 const AD_ENDPOINT = "/active-directory";
 
@@ -143,14 +167,9 @@ export const activeDirectoryService = {
     // Log password presence without revealing actual password
     logger.api.debug(`Password provided: ${userData.password ? 'Yes' : 'No'}, Length: ${userData.password?.length || 0}`);
     
-    // Validate password before sending request
-    if (!userData.password) {
-      logger.api.error('Missing password for AD user creation');
-      throw new Error("Missing password for user account creation");
-    }
-    
+    // An empty password is fine - the server then uses the one held in the credential vault.
     // Check password length - typical AD minimum is 7 chars
-    if (userData.password.length < 7) {
+    if (userData.password && userData.password.length < 7) {
       logger.api.error('Password too short for AD user creation');
       throw new Error("Password must be at least 7 characters long");
     }
@@ -169,18 +188,15 @@ export const activeDirectoryService = {
         hireId: hireId
       });
       
-      const response = await apiClient.post<ADUserCreationResult>(
+      // The server queues the creation; wait for the job so callers still get the outcome
+      const response = await apiClient.post<QueuedJobResponse>(
         `${AD_ENDPOINT}/create-user/${hireId}`,
         userData
       );
+      const result = await jobsService.waitForJob<ADUserCreationResult>(response.data.jobId);
       
-      if (!response.data.success && response.data.error) {
-        logger.api.error('AD user creation failed with error:', response.data.error);
-        throw new Error(response.data.error);
-      }
-      
-      if (response.data.warning) {
-        logger.api.warn('AD user created with warning:', response.data.warning);
+      if (result.warning) {
+        logger.api.warn('AD user created with warning:', result.warning);
       }
       
       logger.api.info('AD user created successfully:', {
@@ -188,7 +204,7 @@ export const activeDirectoryService = {
         displayName: userData.displayName
       });
       
-      return response.data;
+      return result;
     } catch (error: any) {
       logger.api.error('Failed to create AD user:', error);
       
@@ -269,5 +285,12 @@ export const activeDirectoryService = {
         error: error.message || 'Failed to search Active Directory users' 
       };
     }
+  },
+
+  // Check a proposed username, UPN and email against AD and other hires; suggests alternatives on a clash
+  checkIdentity: async (identity: { name?: string; username?: string; email?: string; hireId?: string }): Promise<IdentityCheckResult> => {
+    logger.api.debug('Checking identity availability:', identity.username, identity.email);
+    const response = await apiClient.post<IdentityCheckResult>(`${AD_ENDPOINT}/check-identity`, identity);
+    return response.data;
   }
 };
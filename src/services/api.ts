@@ -1,4 +1,4 @@
-import { AuthResponse, ImportResponse, LoginCredentials, NewHire, AuditLog } from "../types/types";
+import { AuthResponse, ImportResponse, ImportColumnsResponse, ImportPreviewResponse, ImportBatch, ImportRollbackResult, ImportMode, ColumnMapping, LoginCredentials, NewHire, AuditLog, HireQueryParams, HireSummary, OverdueSummary, PaginatedResponse, TrashResponse } from "../types/types";
 import { toast } from "../components/ui/use-toast";
 import apiClient from './api-client';
 
@@ -98,11 +98,11 @@ export const authApi = {
 // Audit Logs API
 export const auditApi = {
   // Create a new audit log entry
-  createLog: async (auditLog: Omit<AuditLog, "id" | "timestamp">): Promise<AuditLog> => {
+  createLog: async (auditLog: Omit<AuditLog, "id" | "occurred_at">): Promise<AuditLog> => {
     const newLog = {
       ...auditLog,
       id: generateId(),
-      timestamp: new Date().toISOString(),
+      occurred_at: new Date().toISOString(),
     };
 
     return new Promise((resolve) => {
@@ -110,7 +110,7 @@ export const auditApi = {
         auditLogs.push(newLog);
         
         // Associate the log with the new hire
-        const hireIndex = newHires.findIndex(h => h.id === auditLog.new_hire_id);
+        const hireIndex = newHires.findIndex(h => h.id === auditLog.target_id);
         if (hireIndex !== -1) {
           if (!newHires[hireIndex].audit_logs) {
             newHires[hireIndex].audit_logs = [];
@@ -127,7 +127,7 @@ export const auditApi = {
   getLogsForHire: async (hireId: string): Promise<AuditLog[]> => {
     return new Promise((resolve) => {
       setTimeout(() => {
-        const logs = auditLogs.filter(log => log.new_hire_id === hireId);
+        const logs = auditLogs.filter(log => log.target_id === hireId);
         resolve(logs);
       }, 300);
     });
@@ -145,14 +145,51 @@ export const auditApi = {
 
 // New Hires API
 export const hiresApi = {
-  getAll: async (): Promise<NewHire[]> => {
-    console.log('[hiresApi] Getting all hires');
+  getAll: async (params: HireQueryParams = {}): Promise<PaginatedResponse<NewHire>> => {
+    console.log('[hiresApi] Getting hires with params:', params);
     try {
-      const response = await apiClient.get('/hires');
-      console.log('[hiresApi] Got all hires response:', response.data);
+      // Drop empty filters so they don't end up in the query string
+      const query = Object.fromEntries(
+        Object.entries(params).filter(([, value]) => value !== undefined && value !== null && value !== "")
+      );
+      const response = await apiClient.get('/hires', { params: query });
+      console.log(`[hiresApi] Got ${response.data.data.length} of ${response.data.total} hires`);
       return response.data;
     } catch (error) {
-      console.error('[hiresApi] Error getting all hires:', error);
+      console.error('[hiresApi] Error getting hires:', error);
+      throw error;
+    }
+  },
+
+  getLogs: async (id: string): Promise<AuditLog[]> => {
+    console.log(`[hiresApi] Getting audit logs for hire ${id}`);
+    try {
+      const response = await apiClient.get(`/hires/${id}/logs`);
+      return response.data;
+    } catch (error) {
+      console.error(`[hiresApi] Error getting audit logs for hire ${id}:`, error);
+      throw error;
+    }
+  },
+
+  getSummary: async (): Promise<HireSummary> => {
+    console.log('[hiresApi] Getting hires summary');
+    try {
+      const response = await apiClient.get('/hires/summary');
+      return response.data;
+    } catch (error) {
+      console.error('[hiresApi] Error getting hires summary:', error);
+      throw error;
+    }
+  },
+
+  getOverdue: async (limit?: number): Promise<OverdueSummary> => {
+    console.log('[hiresApi] Getting overdue hires');
+    try {
+      const response = await apiClient.get('/hires/overdue', { params: { limit } });
+      return response.data;
+    } catch (error) {
+      console.error('[hiresApi] Error getting overdue hires:', error);
       throw error;
     }
   },
@@ -169,10 +206,13 @@ export const hiresApi = {
     }
   },
 
-  create: async (hire: Omit<NewHire, "id">): Promise<NewHire> => {
+  // Fails with 409 and a list of duplicates when the hire looks like an existing one, unless allowDuplicate is set
+  create: async (hire: Omit<NewHire, "id">, allowDuplicate = false): Promise<NewHire> => {
     console.log('[hiresApi] Creating new hire:', JSON.stringify(hire));
     try {
-      const response = await apiClient.post('/hires', hire);
+      const response = await apiClient.post('/hires', hire, {
+        params: allowDuplicate ? { allowDuplicate: 'true' } : undefined
+      });
       console.log('[hiresApi] Create hire response:', response.data);
       return response.data;
     } catch (error) {
@@ -208,11 +248,61 @@ export const hiresApi = {
     }
   },
 
-  import: async (file: File): Promise<ImportResponse> => {
+  // Read the columns of an import file so they can be mapped before importing
+  getImportColumns: async (file: File): Promise<ImportColumnsResponse> => {
+    console.log('[hiresApi] Reading import file columns');
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      
+      const response = await apiClient.post('/hires/import/columns', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      return response.data;
+    } catch (error) {
+      console.error('[hiresApi] Error reading import file columns:', error);
+      throw error;
+    }
+  },
+
+  // Dry run - what importing the file would do to each row
+  previewImport: async (file: File, mapping: ColumnMapping | undefined, mode: ImportMode): Promise<ImportPreviewResponse> => {
+    console.log(`[hiresApi] Previewing ${mode} import`);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('mode', mode);
+      if (mapping) {
+        formData.append('mapping', JSON.stringify(mapping));
+      }
+      
+      const response = await apiClient.post('/hires/import/preview', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+      return response.data;
+    } catch (error) {
+      console.error('[hiresApi] Error previewing import:', error);
+      throw error;
+    }
+  },
+
+  // Commits the selected preview rows, or every valid row when none are given
+  import: async (file: File, mapping?: ColumnMapping, mode: ImportMode = 'create', selectedRows?: number[]): Promise<ImportResponse> => {
     console.log('[hiresApi] Importing hires from file');
     try {
       const formData = new FormData();
       formData.append('file', file);
+      formData.append('mode', mode);
+      if (mapping) {
+        formData.append('mapping', JSON.stringify(mapping));
+      }
+      if (selectedRows) {
+        formData.append('selectedRows', JSON.stringify(selectedRows));
+      }
       
       const response = await apiClient.post('/hires/import', formData, {
         headers: {
@@ -227,6 +317,27 @@ export const hiresApi = {
       throw error;
     }
   },
+
+  getImportBatches: async (): Promise<ImportBatch[]> => {
+    try {
+      const response = await apiClient.get('/hires/import/batches');
+      return response.data;
+    } catch (error) {
+      console.error('[hiresApi] Error fetching import batches:', error);
+      throw error;
+    }
+  },
+
+  rollbackImport: async (importId: string): Promise<ImportRollbackResult> => {
+    console.log(`[hiresApi] Rolling back import ${importId}`);
+    try {
+      const response = await apiClient.post(`/hires/import/${importId}/rollback`);
+      return response.data;
+    } catch (error) {
+      console.error(`[hiresApi] Error rolling back import ${importId}:`, error);
+      throw error;
+    }
+  },
   
   downloadTemplate: async (): Promise<void> => {
     console.log('[hiresApi] Downloading CSV template');
@@ -265,6 +376,23 @@ export const hiresApi = {
     }
   },
   
+  // Hires in the trash, most recently deleted first
+  getTrash: async (params: { page?: number; pageSize?: number; q?: string } = {}): Promise<TrashResponse> => {
+    const response = await apiClient.get('/hires/trash', { params });
+    return response.data;
+  },
+
+  restore: async (id: string): Promise<NewHire> => {
+    const response = await apiClient.post(`/hires/${id}/restore`);
+    return response.data;
+  },
+
+  // Permanently delete hires from the trash (admin only)
+  purge: async (ids: string[]): Promise<{ purged: number; message: string }> => {
+    const response = await apiClient.post('/hires/trash/purge', { ids });
+    return response.data;
+  },
+  
   bulkUpdate: async (ids: string[], updateData: Partial<NewHire>): Promise<void> => {
     console.log('[hiresApi] Bulk updating hires with IDs:', ids, 'Data:', updateData);
     try {
@@ -278,6 +406,30 @@ export const hiresApi = {
       console.error('[hiresApi] Error bulk updating hires:', error);
       throw error;
     }
+  },
+
+  // Reveal the initial password from the credential vault (admin/support only, audited)
+  revealPassword: async (id: string, reason?: string): Promise<string> => {
+    console.log(`[hiresApi] Revealing stored password for hire ${id}`);
+    try {
+      const response = await apiClient.post(`/hires/${id}/password/reveal`, { reason });
+      return response.data.password;
+    } catch (error) {
+      console.error(`[hiresApi] Error revealing password for hire ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Revert a hire to how it was right after the given audit log entry (admin only)
+  revert: async (id: string, logId: string): Promise<NewHire> => {
+    console.log(`[hiresApi] Reverting hire ${id} to version ${logId}`);
+    try {
+      const response = await apiClient.post(`/hires/${id}/revert`, { logId });
+      return response.data;
+    } catch (error) {
+      console.error(`[hiresApi] Error reverting hire ${id}:`, error);
+      throw error;
+    }
   }
 };
 
@@ -0,0 +1,24 @@
+import apiClient from './api-client';
+import { CalendarFeedStatus } from '@/types/types';
+
+export const calendarService = {
+  getFeedStatus: async (): Promise<CalendarFeedStatus> => {
+    const response = await apiClient.get('/calendar/feed');
+    return response.data;
+  },
+
+  // Creates a new feed link, revoking any earlier one. The token can't be fetched again later.
+  createFeed: async (): Promise<{ token: string; createdAt: string }> => {
+    const response = await apiClient.post('/calendar/feed');
+    return response.data;
+  },
+
+  revokeFeed: async (): Promise<{ success: boolean; message: string }> => {
+    const response = await apiClient.delete('/calendar/feed');
+    return response.data;
+  },
+
+  // Subscription URL for a feed token, optionally limited to the user's own PIC assignments
+  getFeedUrl: (token: string, mine: boolean): string =>
+    `${window.location.origin}/api/calendar/feed/${token}.ics${mine ? '?mine=1' : ''}`,
+};
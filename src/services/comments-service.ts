@@ -0,0 +1,46 @@
+import apiClient from './api-client';
+import { HireComment } from '@/types/types';
+
+export const commentsService = {
+  // A hire's comment thread, oldest first
+  getComments: async (hireId: string): Promise<HireComment[]> => {
+    const response = await apiClient.get(`/hires/${hireId}/comments`);
+    return response.data;
+  },
+
+  addComment: async (hireId: string, body: string, attachments: File[]): Promise<HireComment> => {
+    const formData = new FormData();
+    formData.append('body', body);
+    attachments.forEach(file => formData.append('attachments', file));
+
+    const response = await apiClient.post(`/hires/${hireId}/comments`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  },
+
+  editComment: async (hireId: string, commentId: string, body: string): Promise<HireComment> => {
+    const response = await apiClient.put(`/hires/${hireId}/comments/${commentId}`, { body });
+    return response.data;
+  },
+
+  deleteComment: async (hireId: string, commentId: string): Promise<{ success: boolean; message: string }> => {
+    const response = await apiClient.delete(`/hires/${hireId}/comments/${commentId}`);
+    return response.data;
+  },
+
+  downloadAttachment: async (hireId: string, commentId: string, attachmentId: string): Promise<Blob> => {
+    const response = await apiClient.get(`/hires/${hireId}/comments/${commentId}/attachments/${attachmentId}`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Accounts that can be @mentioned
+  getMentionableUsers: async (): Promise<{ username: string; role: string }[]> => {
+    const response = await apiClient.get('/users/mentionable');
+    return response.data;
+  },
+};
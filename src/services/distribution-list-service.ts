@@ -1,4 +1,5 @@
 import apiClient from './api-client';
+import { jobsService } from './jobs-service';
 
 export interface DistributionListSyncResult {
   success: boolean;
@@ -27,12 +28,13 @@ export interface UserDistributionGroups {
 }
 
 export const distributionListService = {
+  // Queued on the server; resolves once the job has run
   async syncUserToDistributionLists(hireId: string, mailingLists: string[]): Promise<DistributionListSyncResult> {
     const response = await apiClient.post('/distribution-lists/sync-user', {
       hireId,
       mailingLists
     });
-    return response.data;
+    return jobsService.waitForJob<DistributionListSyncResult>(response.data.jobId);
   },
 
   async removeUserFromDistributionLists(hireId: string, mailingLists: string[]): Promise<DistributionListSyncResult> {
@@ -0,0 +1,44 @@
+import apiClient from './api-client';
+import { HireDocument, HireDocumentsResponse } from '@/types/types';
+
+export const documentsService = {
+  // A hire's documents, newest first, with the configured types and the required ones still missing
+  getDocuments: async (hireId: string): Promise<HireDocumentsResponse> => {
+    const response = await apiClient.get(`/hires/${hireId}/documents`);
+    return response.data;
+  },
+
+  uploadDocument: async (hireId: string, documentType: string, file: File): Promise<HireDocument> => {
+    const formData = new FormData();
+    formData.append('document_type', documentType);
+    formData.append('document', file);
+
+    const response = await apiClient.post(`/hires/${hireId}/documents`, formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  },
+
+  // Preview a PDF or image scan inline, as a blob URL the caller revokes
+  previewDocument: async (hireId: string, hireDocument: HireDocument): Promise<string> => {
+    const response = await apiClient.get(`/hires/${hireId}/documents/${hireDocument.id}/preview`, {
+      responseType: 'blob',
+    });
+    const blob = new Blob([response.data], { type: hireDocument.mime_type || 'application/octet-stream' });
+    return URL.createObjectURL(blob);
+  },
+
+  downloadDocument: async (hireId: string, documentId: string): Promise<Blob> => {
+    const response = await apiClient.get(`/hires/${hireId}/documents/${documentId}/download`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  deleteDocument: async (hireId: string, documentId: string): Promise<{ success: boolean; message: string }> => {
+    const response = await apiClient.delete(`/hires/${hireId}/documents/${documentId}`);
+    return response.data;
+  },
+};
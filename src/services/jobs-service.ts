@@ -0,0 +1,47 @@
+import apiClient from './api-client';
+import { Job, JobDetail, JobStatus, JobsResponse } from '@/types/types';
+
+// How often waitForJob checks on a job, and how long it waits before leaving it to run in the background
+const POLL_INTERVAL = 2000;
+const WAIT_TIMEOUT = 90000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const jobsService = {
+  getJobs: async (params: { page?: number; pageSize?: number; status?: JobStatus; type?: string; hireId?: string } = {}): Promise<JobsResponse> => {
+    const response = await apiClient.get('/jobs', { params });
+    return response.data;
+  },
+
+  getJob: async (id: string): Promise<JobDetail> => {
+    const response = await apiClient.get(`/jobs/${id}`);
+    return response.data;
+  },
+
+  // Only dead jobs can be retried
+  retryJob: async (id: string): Promise<Job> => {
+    const response = await apiClient.post(`/jobs/${id}/retry`);
+    return response.data;
+  },
+
+  /**
+   * Wait for a queued job's first outcome and return its result, so callers can treat it like the
+   * old inline request. Throws when it fails - saying so when the server will retry it - or is still
+   * running after the timeout.
+   */
+  waitForJob: async <T = unknown>(id: string, timeout = WAIT_TIMEOUT): Promise<T> => {
+    const deadline = Date.now() + timeout;
+    for (;;) {
+      const job = await jobsService.getJob(id);
+      if (job.status === "succeeded") return job.result as T;
+      if (job.status === "dead") throw new Error(job.last_error || "The job failed");
+      if (job.status === "retrying") {
+        throw new Error(`${job.last_error || "The job failed"}. It will be retried automatically - follow it on the Jobs page.`);
+      }
+      if (Date.now() >= deadline) {
+        throw new Error("This is taking longer than expected and will carry on in the background - follow it on the Jobs page.");
+      }
+      await sleep(POLL_INTERVAL);
+    }
+  },
+};
@@ -1,5 +1,6 @@
 
 import apiClient from './api-client';
+import { jobsService } from './jobs-service';
 import { srfService } from './srf-service';
 
 interface EmailRecipient {
@@ -38,10 +39,8 @@ interface LicenseRequestEmailData {
     email: string;
     title: string;
     microsoft_365_license: string;
-    srf_document_path?: string; // Database path to SRF file
-    srf_document_name?: string; // Original filename
   }>;
-  includeAttachments?: boolean;
+  includeAttachments?: boolean; // Attach each hire's current SRF, looked up on the server by id
 }
 
 interface EmailSendResult {
@@ -73,14 +72,22 @@ export const microsoftGraphService = {
         includeAttachments: emailData.includeAttachments
       };
 
-      const response = await apiClient.post<EmailSendResult>('/settings/microsoft-graph/send-license-request', requestData);
-      return response.data;
+      // The email is queued on the server; wait for it to go out before reporting success
+      const response = await apiClient.post<EmailSendResult & { jobId: string }>('/settings/microsoft-graph/send-license-request', requestData);
+      const result = await jobsService.waitForJob<EmailSendResult>(response.data.jobId);
+      return { ...response.data, ...result };
     } catch (error) {
       console.error('Error sending license request email:', error);
       throw error;
     }
   },
 
+  // Send the welcome email template to a hire's own mailbox
+  sendWelcomeEmail: async (hireId: string): Promise<EmailSendResult> => {
+    const response = await apiClient.post<EmailSendResult & { jobId: string }>('/settings/microsoft-graph/send-welcome-email', { hireId });
+    return jobsService.waitForJob<EmailSendResult>(response.data.jobId);
+  },
+
   // Test Microsoft Graph email functionality with actual sending
   testEmailSend: async (testRecipient: string): Promise<{ success: boolean; message: string }> => {
     try {
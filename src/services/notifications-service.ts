@@ -0,0 +1,20 @@
+import apiClient from './api-client';
+import { NotificationsResponse } from '@/types/types';
+
+export const notificationsService = {
+  // The current user's latest notifications and how many are unread
+  getNotifications: async (): Promise<NotificationsResponse> => {
+    const response = await apiClient.get('/notifications');
+    return response.data;
+  },
+
+  markRead: async (id: string): Promise<{ success: boolean }> => {
+    const response = await apiClient.post(`/notifications/${id}/read`);
+    return response.data;
+  },
+
+  markAllRead: async (): Promise<{ success: boolean }> => {
+    const response = await apiClient.post('/notifications/read-all');
+    return response.data;
+  },
+};
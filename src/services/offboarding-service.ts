@@ -0,0 +1,38 @@
+import apiClient from './api-client';
+import { ADDisableUserResult, NewHire, OffboardingStepResult } from '@/types/types';
+
+export const offboardingService = {
+  // Record the last working day and mark offboarding as started
+  startOffboarding: async (hireId: string, lastWorkingDay: string): Promise<NewHire> => {
+    const response = await apiClient.post(`/hires/${hireId}/offboarding`, {
+      last_working_day: lastWorkingDay,
+    });
+
+    return response.data;
+  },
+
+  // Disable the AD account, strip its ACL groups and move it to the disabled users OU
+  disableAdAccount: async (hireId: string): Promise<ADDisableUserResult> => {
+    const response = await apiClient.post(`/active-directory/disable-user/${hireId}`);
+
+    return response.data;
+  },
+
+  // Flag the Microsoft 365 license for reclaim
+  flagLicenseReclaim: async (hireId: string): Promise<{
+    success: boolean;
+    license_reclaim_status: NewHire['license_reclaim_status'];
+    microsoft_365_license: string | null;
+  }> => {
+    const response = await apiClient.post(`/hires/${hireId}/offboarding/license-reclaim`);
+
+    return response.data;
+  },
+
+  // Close out offboarding with the outcome of every step
+  completeOffboarding: async (hireId: string, steps: OffboardingStepResult[]): Promise<NewHire> => {
+    const response = await apiClient.post(`/hires/${hireId}/offboarding/complete`, { steps });
+
+    return response.data;
+  },
+};
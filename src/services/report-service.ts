@@ -0,0 +1,35 @@
+import apiClient from './api-client';
+import { ReportFieldsResponse, ReportPreview, ReportRequest } from '@/types/types';
+
+export const reportService = {
+  // Fields, groupings and date formats a report template can use
+  getFields: async (): Promise<ReportFieldsResponse> => {
+    const response = await apiClient.get('/reports/fields');
+    return response.data;
+  },
+
+  // Report contents as text, for showing before download
+  previewReport: async (request: ReportRequest): Promise<ReportPreview> => {
+    const response = await apiClient.post('/reports/preview', request);
+    return response.data;
+  },
+
+  // Download the report as an .xlsx workbook
+  exportReport: async (request: ReportRequest): Promise<void> => {
+    const response = await apiClient.post('/reports/export', request, {
+      responseType: 'blob',
+    });
+
+    const disposition = response.headers['content-disposition'] || '';
+    const fileName = disposition.match(/filename="(.+)"/)?.[1] || 'report.xlsx';
+
+    const url = URL.createObjectURL(new Blob([response.data]));
+    const link = document.createElement('a');
+    link.href = url;
+    link.setAttribute('download', fileName);
+    document.body.appendChild(link);
+    link.click();
+    link.parentNode?.removeChild(link);
+    URL.revokeObjectURL(url);
+  },
+};
@@ -1,4 +1,5 @@
 import apiClient from "./api-client";
+import { ColumnMapping, CustomFieldDefinition, DocumentType, ImportPreset, OnboardingChecklists, PasswordPolicy, ReportTemplate } from "@/types/types";
 
 // Settings types
 interface MailingList {
@@ -73,6 +74,31 @@ interface MicrosoftGraphSettings {
   useLoggedInUserAsSender?: boolean;
 }
 
+interface CredentialVaultSettings {
+  retentionDays: number; // 0 keeps passwords until first logon
+  purgeOnFirstLogon: boolean;
+}
+
+interface IdentitySettings {
+  emailDomain: string;
+  patterns: string[]; // e.g. {first}.{last}, {first}.{l}, {first}.{last}{n}
+}
+
+interface TrashSettings {
+  retentionDays: number; // 0 keeps deleted hires until an admin purges them
+}
+
+// Layout of generated SRF PDFs; numberFormat takes {{year}} and {{seq}}
+export interface SrfTemplate {
+  companyName: string;
+  companyAddress: string;
+  title: string;
+  numberFormat: string;
+  introduction: string;
+  footer: string;
+  signatures: string[];
+}
+
 interface SettingsData {
   accountStatuses?: string[];
   positionGrades?: string[];
@@ -84,6 +110,16 @@ interface SettingsData {
   exchangeOnlineSettings?: ExchangeOnlineSettings;
   hrisDbConfig?: HrisDatabaseConfig;
   microsoftGraphSettings?: MicrosoftGraphSettings;
+  onboardingChecklists?: OnboardingChecklists;
+  credentialVault?: CredentialVaultSettings;
+  trash?: TrashSettings;
+  passwordPolicy?: PasswordPolicy;
+  identitySettings?: IdentitySettings;
+  importPresets?: ImportPreset[];
+  reportTemplates?: ReportTemplate[];
+  customFields?: CustomFieldDefinition[];
+  documentTypes?: DocumentType[];
+  srfTemplate?: SrfTemplate;
 }
 
 // The API client already includes /api in its baseURL, so we don't need to include it again
@@ -105,6 +141,101 @@ export const settingsService = {
     return response.data;
   },
 
+  // Update onboarding checklists (default and per position grade)
+  updateOnboardingChecklists: async (checklists: OnboardingChecklists) => {
+    const response = await apiClient.put<{ success: boolean }>(
+      `${SETTINGS_ENDPOINT}/onboarding-checklists`,
+      { checklists }
+    );
+    return response.data;
+  },
+
+  // Update when stored initial passwords are purged
+  updateCredentialVault: async (vaultSettings: CredentialVaultSettings) => {
+    const response = await apiClient.put<{ success: boolean }>(
+      `${SETTINGS_ENDPOINT}/credential-vault`,
+      vaultSettings
+    );
+    return response.data;
+  },
+
+  // Update how long deleted hires stay in the trash
+  updateTrashSettings: async (trashSettings: TrashSettings) => {
+    const response = await apiClient.put<{ success: boolean }>(
+      `${SETTINGS_ENDPOINT}/trash`,
+      trashSettings
+    );
+    return response.data;
+  },
+
+  // Update the password policy for initial credentials
+  updatePasswordPolicy: async (passwordPolicy: PasswordPolicy) => {
+    const response = await apiClient.put<{ success: boolean }>(
+      `${SETTINGS_ENDPOINT}/password-policy`,
+      { passwordPolicy }
+    );
+    return response.data;
+  },
+
+  // Update the email domain and username patterns for new accounts
+  updateIdentitySettings: async (identitySettings: IdentitySettings) => {
+    const response = await apiClient.put<{ success: boolean }>(
+      `${SETTINGS_ENDPOINT}/identity`,
+      identitySettings
+    );
+    return response.data;
+  },
+
+  // Save a column mapping preset for an import source; a preset with the same source name is replaced
+  saveImportPreset: async (source: string, mapping: ColumnMapping) => {
+    const response = await apiClient.post<{ success: boolean; preset: ImportPreset }>(
+      `${SETTINGS_ENDPOINT}/import-presets`,
+      { source, mapping }
+    );
+    return response.data;
+  },
+
+  deleteImportPreset: async (id: string) => {
+    const response = await apiClient.delete<{ success: boolean }>(`${SETTINGS_ENDPOINT}/import-presets/${id}`);
+    return response.data;
+  },
+
+  // Replace the Excel report templates
+  updateReportTemplates: async (reportTemplates: ReportTemplate[]) => {
+    const response = await apiClient.put<{ success: boolean }>(
+      `${SETTINGS_ENDPOINT}/report-templates`,
+      { reportTemplates }
+    );
+    return response.data;
+  },
+
+  // Replace the custom field definitions (admins only)
+  updateCustomFields: async (customFields: CustomFieldDefinition[]) => {
+    const response = await apiClient.put<{ success: boolean }>(
+      `${SETTINGS_ENDPOINT}/custom-fields`,
+      { customFields }
+    );
+    return response.data;
+  },
+
+  // Update the template generated SRFs are rendered from (admins only)
+  updateSrfTemplate: async (srfTemplate: SrfTemplate) => {
+    const response = await apiClient.put<{ success: boolean }>(
+      `${SETTINGS_ENDPOINT}/srf-template`,
+      { srfTemplate }
+    );
+    return response.data;
+  },
+
+  // Replace the document types collected for each hire (admins only)
+  updateDocumentTypes: async (documentTypes: DocumentType[]) => {
+    const response = await apiClient.put<{ success: boolean }>(
+      `${SETTINGS_ENDPOINT}/document-types`,
+      { documentTypes }
+    );
+    return response.data;
+  },
+
   // Update mailing lists - now supports the new structure
   updateMailingLists: async (mailingLists: MailingListStructure, displayAsDropdown: boolean) => {
     const response = await apiClient.put<{ success: boolean }>(
@@ -215,8 +346,9 @@ export const settingsService = {
   },
 
   // New Microsoft Graph email methods
+  // Queued on the server - the response carries the job id to follow
   sendLicenseRequestEmail: async (emailData: { recipient: string; hires: any[] }) => {
-    const response = await apiClient.post<{ success: boolean; message: string; sentCount?: number }>(
+    const response = await apiClient.post<{ success: boolean; message: string; sentCount?: number; jobId: string }>(
       `${SETTINGS_ENDPOINT}/microsoft-graph/send-license-request`,
       emailData
     );
@@ -1,6 +1,6 @@
 
 import apiClient from './api-client';
-import { SrfUploadResponse } from '@/types/types';
+import { SrfUploadResponse, SrfVersion } from '@/types/types';
 
 export const srfService = {
   // Upload SRF document
@@ -17,6 +17,12 @@ export const srfService = {
     return response.data;
   },
 
+  // Render the SRF from the hire record on the server; it becomes the newest version, awaiting review
+  generateSrfDocument: async (hireId: string): Promise<SrfUploadResponse & { srfNumber: string }> => {
+    const response = await apiClient.post(`/hires/${hireId}/srf-generate`);
+    return response.data;
+  },
+
   // Preview SRF document (for inline viewing)
   previewSrfDocument: async (hireId: string): Promise<string> => {
     const response = await apiClient.get(`/hires/${hireId}/srf-preview`, {
@@ -37,9 +43,33 @@ export const srfService = {
     return response.data;
   },
 
-  // Delete SRF document
-  deleteSrfDocument: async (hireId: string): Promise<{ success: boolean; message: string }> => {
-    const response = await apiClient.delete(`/hires/${hireId}/srf-document`);
+  // Every uploaded SRF version, newest first
+  getSrfVersions: async (hireId: string): Promise<SrfVersion[]> => {
+    const response = await apiClient.get(`/hires/${hireId}/srf-versions`);
+    return response.data;
+  },
+
+  downloadSrfVersion: async (hireId: string, versionId: string): Promise<Blob> => {
+    const response = await apiClient.get(`/hires/${hireId}/srf-versions/${versionId}/download`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  },
+
+  // Review the latest version (admins only)
+  approveSrfVersion: async (hireId: string, versionId: string): Promise<SrfVersion> => {
+    const response = await apiClient.post(`/hires/${hireId}/srf-versions/${versionId}/approve`);
+    return response.data;
+  },
+
+  rejectSrfVersion: async (hireId: string, versionId: string, reason: string): Promise<SrfVersion> => {
+    const response = await apiClient.post(`/hires/${hireId}/srf-versions/${versionId}/reject`, { reason });
+    return response.data;
+  },
+
+  // Take back the latest version while it awaits review, e.g. a wrong file; it stays in the history
+  withdrawSrfVersion: async (hireId: string, versionId: string): Promise<SrfVersion> => {
+    const response = await apiClient.post(`/hires/${hireId}/srf-versions/${versionId}/withdraw`);
     return response.data;
   },
 };
@@ -0,0 +1,32 @@
+import apiClient from './api-client';
+import { HireViewState, SavedView, SavedViewsResponse } from '@/types/types';
+
+export const viewsService = {
+  // The current user's views, views shared by others, and the user's default view
+  getViews: async (): Promise<SavedViewsResponse> => {
+    const response = await apiClient.get('/views');
+    return response.data;
+  },
+
+  createView: async (name: string, state: HireViewState, isShared: boolean): Promise<SavedView> => {
+    const response = await apiClient.post('/views', { name, state, isShared });
+    return response.data;
+  },
+
+  // Rename, re-share or overwrite the state of one of the current user's views
+  updateView: async (id: string, changes: { name?: string; state?: HireViewState; isShared?: boolean }): Promise<SavedView> => {
+    const response = await apiClient.put(`/views/${id}`, changes);
+    return response.data;
+  },
+
+  deleteView: async (id: string): Promise<{ success: boolean; message: string }> => {
+    const response = await apiClient.delete(`/views/${id}`);
+    return response.data;
+  },
+
+  // Pass null to open the hires list unfiltered again
+  setDefaultView: async (viewId: string | null): Promise<{ success: boolean; defaultViewId: string | null }> => {
+    const response = await apiClient.put('/views/default', { viewId });
+    return response.data;
+  },
+};
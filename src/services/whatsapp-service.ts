@@ -1,5 +1,6 @@
 
 import apiClient from "./api-client";
+import { jobsService } from "./jobs-service";
 import { NewHire } from "@/types/types";
 import logger from "@/utils/logger";
 
@@ -58,8 +59,10 @@ Please don't hesitate to contact IT for any question.`,
     }
   },
 
-  // Send WhatsApp message - UPDATED to use our proxy endpoint
-  sendMessage: async (phoneNumber: string, message: string): Promise<any> => {
+  // Send WhatsApp message - UPDATED to use our proxy endpoint.
+  // Pass hireId when the message contains {{password}}; the server fills it in from the credential vault.
+  // The server queues the message; this resolves with the API's response once it has gone out.
+  sendMessage: async (phoneNumber: string, message: string, hireId?: string): Promise<any> => {
     logger.ui.info("WhatsApp Service", "Sending WhatsApp message to:", phoneNumber);
     
     try {
@@ -68,18 +71,20 @@ Please don't hesitate to contact IT for any question.`,
       // Use our new server-side proxy endpoint instead of direct API call
       const response = await apiClient.post("/whatsapp/send", {
         number: phoneNumber,
-        message: message
+        message: message,
+        hireId
       });
       
-      logger.ui.debug("WhatsApp Service", "Proxy response:", response.data);
-      return response.data;
+      logger.ui.debug("WhatsApp Service", "Queued as job:", response.data.jobId);
+      return await jobsService.waitForJob(response.data.jobId);
     } catch (error) {
       logger.ui.error("WhatsApp Service", "Error sending message:", error);
       throw error;
     }
   },
 
-  // Generate message from template for a specific hire
+  // Generate message from template for a specific hire.
+  // {{password}} is left in place - hires never carry their password to the browser.
   generateMessage: async (hire: NewHire): Promise<string> => {
     const settings = await whatsappService.getSettings();
     let message = settings.defaultMessage;
@@ -91,6 +96,14 @@ Please don't hesitate to contact IT for any question.`,
       }
     });
     
+    // Custom fields are {{custom.<key>}}; the hire only carries those the sender can see
+    Object.entries(hire.custom_fields || {}).forEach(([key, value]) => {
+      if (value !== null) {
+        const text = typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value;
+        message = message.replace(new RegExp(`{{custom\\.${key}}}`, 'g'), text);
+      }
+    });
+    
     return message;
   },
 
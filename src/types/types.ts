@@ -1,17 +1,32 @@
 
+// Matches AUDIT_ACTIONS in src/server/services/auditService.js
+export type AuditAction =
+  | "UPDATE" | "BULK_UPDATE" | "REVERT" | "DELETED" | "RESTORED"
+  | "IMPORT" | "IMPORT_UPDATE" | "IMPORT_ROLLBACK"
+  | "PASSWORD_REVEALED" | "PASSWORD_PURGED"
+  | "SRF_UPLOAD" | "SRF_GENERATE" | "SRF_DOWNLOAD" | "SRF_PREVIEW" | "SRF_DELETE" | "SRF_APPROVED" | "SRF_REJECTED" | "SRF_WITHDRAWN"
+  | "DOCUMENT_UPLOAD" | "DOCUMENT_DOWNLOAD" | "DOCUMENT_PREVIEW" | "DOCUMENT_DELETE"
+  | "OFFBOARDING_STARTED" | "LICENSE_RECLAIM_FLAGGED" | "OFFBOARDING_COMPLETED"
+  | "AD_ACCOUNT_CREATED" | "AD_GROUPS_UPDATED" | "AD_ACCOUNT_DISABLED" | "AD_GROUPS_REMOVED" | "AD_ACCOUNT_MOVED"
+  | "DISTRIBUTION_LISTS_SYNCED" | "DISTRIBUTION_LISTS_REMOVED"
+  | "NOTE";
+
+export type AuditStatus = "SUCCESS" | "PARTIAL" | "FAILED" | "SKIPPED";
+
 export interface AuditLog {
   id: string;
-  hire_id: string;
-  new_hire_id?: string;  // Added for compatibility with API
-  user: string;
-  action: string;
-  action_type?: string;  // Added missing property
-  status?: string;       // Added missing property
-  message?: string;      // Added missing property
-  performed_by?: string; // Added missing property
-  timestamp: string;
-  old_values: string | null;
-  new_values: string | null;
+  occurred_at: string;
+  actor: string;             // Username, or "system" for scheduled work
+  target_type: "hire";
+  target_id: string;
+  action: AuditAction;
+  status: AuditStatus;
+  message: string | null;
+  details: string | null;    // JSON object
+  old_values: string | null; // JSON object of changed fields before the change
+  new_values: string | null; // JSON object of changed fields after the change
+  import_id: string | null;
+  request_id: string | null; // X-Request-Id of the API request that caused it
 }
 
 export interface NewHire {
@@ -29,8 +44,9 @@ export interface NewHire {
   account_creation_status: string;
   license_assigned: boolean;
   status_srf: boolean;
+  srf_number?: string | null; // SRF No., given when an SRF is first generated
   username: string;
-  password: string;
+  password?: string; // write-only - responses carry has_password instead
   on_site_date: string;
   microsoft_365_license: string;
   laptop_ready: string;
@@ -48,12 +64,219 @@ export interface NewHire {
   srf_document_path?: string | null;
   srf_document_name?: string | null;
   srf_document_uploaded_at?: string | null;
+
+  // Add for offboarding (leaver) workflow
+  last_working_day?: string | null;
+  offboarding_status?: 'In Progress' | 'Completed' | 'Partial' | null;
+  offboarding_date?: string | null;
+  license_reclaim_status?: 'Pending Reclaim' | 'Not Required' | 'Reclaimed' | null;
+
+  // Initial password held in the credential vault
+  has_password?: boolean;
+  password_set_at?: string | null;
+  password_purged_at?: string | null;
+
+  // Computed from the onboarding checklist by GET /hires and GET /hires/:id
+  progress_percentage?: number;
+  progress?: HireProgress;
+  deadlines?: HireDeadline[];
+  overdue_count?: number;
+
+  // Required document types with nothing uploaded yet, set by GET /hires and GET /hires/:id
+  missing_documents?: Pick<DocumentType, "key" | "label">[];
+
+  // Values of the admin-defined custom fields the current user can see, keyed by field key
+  custom_fields?: CustomFieldValues;
+}
+
+export type CustomFieldType = "text" | "select" | "date" | "boolean";
+
+// Extra hire field defined by an admin in Settings; an empty visibleTo means every role sees it
+export interface CustomFieldDefinition {
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  options?: string[];
+  required: boolean;
+  visibleTo: string[];
+}
+
+export type CustomFieldValues = Record<string, string | boolean | null>;
+
+// Existing hire that looks like the same person as a hire being created
+export type DuplicateReason = "employee_id" | "email" | "phone" | "name";
+
+export interface DuplicateMatch {
+  hire: Pick<NewHire, "id" | "name" | "email" | "phone_number" | "department" | "title" | "on_site_date" | "account_creation_status"> & {
+    employee_id?: string | null;
+  };
+  reasons: DuplicateReason[];
+  score: number; // 0 for an exact match, up to the name-similarity threshold
+}
+
+// Onboarding checklist configured in Settings
+export interface ChecklistStage {
+  value: string;
+  credit: number; // percentage of the item's weight earned at this stage
+}
+
+export interface ChecklistItem {
+  id: string;
+  label: string;
+  field: string;
+  condition: 'truthy' | 'notEmpty' | 'stages';
+  weight: number;
+  dueDays?: number; // deadline in business days before on_site_date; negative is after arrival
+  stages?: ChecklistStage[];
+}
+
+export interface OnboardingChecklists {
+  default: ChecklistItem[];
+  positionGrades: Record<string, ChecklistItem[]>;
+}
+
+// Rules for initial passwords, configured in Settings and enforced before AD account creation
+export type PasswordGenerator = "random" | "passphrase";
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumbers: boolean;
+  requireSymbols: boolean;
+  disallowNameParts: boolean; // Reject passwords containing the hire's name or username
+  bannedWords: string[];
+  generator: PasswordGenerator;
+  passphraseWords: number;
+}
+
+// Per-hire progress against its checklist
+export interface HireProgressItem {
+  id: string;
+  label: string;
+  weight: number;
+  credit: number;
+  stage: string | null;
+  earned: number;
+  complete: boolean;
+}
+
+export interface HireProgress {
+  percentage: number;
+  checklist: string; // "default" or the position grade whose checklist applied
+  items: HireProgressItem[];
+}
+
+// Deadline of a checklist item for one hire, from the item's dueDays
+export interface HireDeadline {
+  id: string;
+  label: string;
+  due_date: string; // YYYY-MM-DD
+  complete: boolean;
+  overdue: boolean;
+}
+
+// GET /hires/overdue - hires behind on at least one checklist deadline
+export interface OverdueSummary {
+  total: number;
+  overdueItems: number;
+  byItem: Array<{ id: string; label: string; count: number }>;
+  hires: Array<Pick<NewHire, "id" | "name" | "department" | "on_site_date"> & { deadlines: HireDeadline[] }>;
+}
+
+// GET /hires/trash - deleted hires, purged once purge_at passes (null when kept until purged by hand)
+export interface TrashedHire extends Pick<NewHire, "id" | "name" | "email" | "department" | "title" | "on_site_date"> {
+  deleted_at: string;
+  deleted_by: string | null;
+  purge_at: string | null;
+}
+
+export interface TrashResponse extends PaginatedResponse<TrashedHire> {
+  retentionDays: number;
 }
 
 // Add missing types for sorting
 export type SortDirection = 'asc' | 'desc' | null;
 export type SortField = 'name' | 'department' | 'title' | 'email' | 'on_site_date' | 'created_at' | 'updated_at' | string;
 
+// Query parameters for the paged GET /hires endpoint
+export interface HireQueryParams {
+  page?: number;
+  pageSize?: number;
+  sort?: string; // "column" or "column:asc|desc"
+  q?: string;
+  name?: string;
+  title?: string;
+  department?: string;
+  email?: string;
+  license?: string;
+  ictSupportPic?: string;
+  progress?: string;
+  sla?: string; // "overdue" or "on-track"
+  onSiteFrom?: string; // YYYY-MM-DD, inclusive
+  onSiteTo?: string;
+}
+
+// Column filters of the hires list
+export interface HireFilters {
+  name: string;
+  title: string;
+  department: string;
+  email: string;
+  progress: string;
+  sla: string;
+  license: string;
+  ictSupportPic: string;
+}
+
+// Hires list columns that can be hidden, including custom fields as "custom.<key>"
+export type HireColumn = 'title' | 'department' | 'email' | 'on_site_date' | 'license' | 'ict_support_pic' | `custom.${string}`;
+
+// Everything a saved view restores on the hires list
+export interface HireViewState {
+  q: string;
+  filters: Partial<HireFilters>;
+  sortField: SortField;
+  sortDirection: SortDirection;
+  columns: HireColumn[];
+  pageSize: number | null;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  owner: string;
+  is_shared: boolean;
+  state: HireViewState;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SavedViewsResponse {
+  views: SavedView[];
+  defaultViewId: string | null;
+}
+
+export interface PaginatedResponse<T> {
+  data: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+// Aggregated counts for the dashboard
+export interface HireSummary {
+  total: number;
+  completed: number;
+  accountsCreated: number;
+  laptopsReady: number;
+  licensesAssigned: number;
+  m365Licenses: number;
+  upcoming: number;
+  topDepartments: Array<{ department: string; count: number }>;
+}
+
 // Add missing types for authentication
 export interface LoginCredentials {
   username: string;
@@ -78,6 +301,9 @@ export interface ImportResponse {
   errors?: ImportError[];
   rowsImported?: number;  // Added for FileImporter.tsx
   totalRows?: number;     // Added for FileImporter.tsx
+  importId?: string | null;
+  rowsCreated?: number;
+  rowsUpdated?: number;
 }
 
 export interface ImportError {
@@ -86,6 +312,218 @@ export interface ImportError {
   data?: Record<string, any>;
 }
 
+// Source column header -> hire field it fills
+export type ColumnMapping = Record<string, string>;
+
+export interface ImportColumnsResponse {
+  success: boolean;
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  totalRows: number;
+  suggestedMapping: ColumnMapping;
+  fields: string[];
+  fieldLabels?: Record<string, string>; // custom field targets ("custom.<key>") -> label
+  requiredFields: string[];
+}
+
+// create: every row must be a new hire. upsert: rows matching a hire by email or employee ID update it.
+export type ImportMode = 'create' | 'upsert';
+
+export type ImportAction = 'create' | 'update' | 'skip' | 'error';
+
+// What importing one row would do - row is the line number in the file
+export interface ImportPreviewRow {
+  row: number;
+  action: ImportAction;
+  name: string;
+  email: string;
+  data: Record<string, string>;
+  hireId?: string;
+  changes?: Record<string, { from: unknown; to: unknown }>;
+  error?: string;
+}
+
+export interface ImportPreviewResponse {
+  success: boolean;
+  mode: ImportMode;
+  totalRows: number;
+  summary: Record<ImportAction, number>;
+  rows: ImportPreviewRow[];
+}
+
+export interface ImportBatch {
+  id: string;
+  file_name: string;
+  mode: ImportMode;
+  created_count: number;
+  updated_count: number;
+  performed_by: string | null;
+  created_at: string;
+  rolled_back_at: string | null;
+  rolled_back_by: string | null;
+}
+
+export interface ImportRollbackResult {
+  success: boolean;
+  deleted: number;
+  restored: number;
+  conflicts: { hireId: string; name: string; reason: string }[];
+}
+
+// One column of an Excel report - dateFormat is a date-fns pattern, only used for date fields
+export interface ReportColumn {
+  field: string;
+  header: string;
+  dateFormat?: string;
+}
+
+// Named Excel report: which columns in what order, optionally one sheet per value of groupBy
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  groupBy: string | null;
+  columns: ReportColumn[];
+}
+
+export interface ReportFieldsResponse {
+  fields: { field: string; header: string; isDate: boolean }[];
+  groupByFields: string[];
+  dateFormats: string[];
+}
+
+// Either the picked hires or everyone on site in a month (YYYY-MM)
+export interface ReportRequest {
+  templateId: string;
+  hireIds?: string[];
+  month?: string;
+}
+
+export interface ReportPreview {
+  templateName: string;
+  totalRows: number;
+  sheets: { name: string; totalRows: number; headers: string[]; rows: string[][] }[];
+}
+
+// Whether the current user has a link to the ICS feed of hire arrivals
+export interface CalendarFeedStatus {
+  exists: boolean;
+  createdAt: string | null;
+  lastUsedAt: string | null;
+}
+
+export interface CommentAttachment {
+  id: string;
+  file_name: string;
+  mime_type: string | null;
+  size: number | null;
+  uploaded_at: string;
+}
+
+// Kind of document collected for each hire, defined by an admin in Settings
+export interface DocumentType {
+  key: string;
+  label: string;
+  required: boolean;
+}
+
+export interface HireDocument {
+  id: string;
+  hire_id: string;
+  document_type: string;
+  file_name: string;
+  mime_type: string | null;
+  size: number | null;
+  uploaded_by: string | null;
+  uploaded_at: string;
+}
+
+export interface HireDocumentsResponse {
+  documents: HireDocument[];
+  types: DocumentType[];
+  missing: DocumentType[];
+}
+
+// One comment in a hire's thread; edited_at is set once the text has been changed
+export interface HireComment {
+  id: string;
+  hire_id: string;
+  author: string;
+  body: string;
+  created_at: string;
+  edited_at: string | null;
+  attachments: CommentAttachment[];
+}
+
+export interface AppNotification {
+  id: string;
+  username: string;
+  type: "mention";
+  message: string;
+  hire_id: string | null;
+  comment_id: string | null;
+  actor: string | null;
+  created_at: string;
+  read_at: string | null;
+}
+
+export interface NotificationsResponse {
+  notifications: AppNotification[];
+  unreadCount: number;
+}
+
+// Background jobs - provisioning work queued by the server and retried with backoff
+export type JobStatus = "queued" | "running" | "retrying" | "succeeded" | "dead";
+
+export interface Job {
+  id: string;
+  type: string; // e.g. "ad.createUser", "distributionLists.sync", "whatsapp.send", "email.send"
+  status: JobStatus;
+  description: string | null;
+  result: unknown;
+  last_error: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  hire_id: string | null;
+  created_by: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+  updated_at: string;
+}
+
+export interface JobLog {
+  id: string;
+  attempt: number;
+  level: "info" | "warn" | "error";
+  message: string;
+  created_at: string;
+}
+
+export interface JobDetail extends Job {
+  logs: JobLog[];
+}
+
+export interface JobsResponse extends PaginatedResponse<Job> {
+  statusCounts: Partial<Record<JobStatus, number>>;
+}
+
+// Returned by routes that queue their work instead of doing it in the request
+export interface QueuedJobResponse {
+  success: boolean;
+  queued: true;
+  jobId: string;
+  message: string;
+}
+
+// Saved column mapping for files from one source, e.g. the HR Excel export
+export interface ImportPreset {
+  id: string;
+  source: string;
+  mapping: ColumnMapping;
+  updatedAt: string;
+}
+
 // Add missing type for user account
 export interface UserAccount {
   id: string;
@@ -122,5 +560,45 @@ export interface SrfUploadResponse {
   message: string;
   filename?: string;
   uploadedAt?: string;
+  version?: number;
+  error?: string;
+}
+
+export type SrfVersionStatus = "submitted" | "approved" | "rejected" | "withdrawn";
+
+// One uploaded SRF; only the newest can be reviewed, and approving it sets the hire's status_srf
+export interface SrfVersion {
+  id: string;
+  hire_id: string;
+  version: number;
+  file_name: string;
+  content_hash: string | null; // SHA-256 of the file, also sent as the download's ETag
+  size: number | null;
+  uploaded_by: string | null;
+  uploaded_at: string;
+  status: SrfVersionStatus;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  rejection_reason: string | null;
+}
+
+// Offboarding step outcome, recorded against the hire when offboarding completes
+export interface OffboardingStepResult {
+  step: 'ad-account' | 'distribution-lists' | 'license-reclaim';
+  status: 'Success' | 'Failed' | 'Skipped';
+  message: string;
+}
+
+// Response from the AD disable-user endpoint
+export interface ADDisableUserResult {
+  success: boolean;
+  message: string;
+  distinguishedName?: string;
+  steps: Array<{
+    step: 'disable' | 'groups' | 'move';
+    success: boolean;
+    skipped?: boolean;
+    message: string;
+  }>;
   error?: string;
 }
@@ -0,0 +1,38 @@
+import { NewHire } from "@/types/types";
+import { getACLForDepartment } from "./aclMapping";
+
+const BASE_OU = "OU=Merdeka Tsingshan Indonesia,DC=mbma,DC=com";
+
+/**
+ * The AD account to create for a hire: department OU and ACL, MTI company details.
+ * Leave the password empty to have the server use the one held in the credential vault.
+ */
+export function buildADUserData(hire: NewHire, password = "") {
+  const nameParts = hire.name?.split(' ') || [];
+  const firstName = nameParts[0] || '';
+  const lastName = nameParts.slice(1).join(' ') || '';
+  const username = hire.username || hire.email?.split('@')[0] || '';
+
+  const department = hire.department || '';
+  let ou = department ? `OU=${department},${BASE_OU}` : BASE_OU;
+
+  // Special handling for Copper Cathode Plant
+  if (department === "Copper Cathode Plant") {
+    ou = `OU=CCP,${BASE_OU}`;
+  }
+
+  return {
+    username: username.substring(0, 20), // Ensure username is 20 chars max
+    displayName: `${hire.name || 'New User'} [MTI]`,
+    firstName,
+    lastName,
+    password,
+    email: hire.email || '',
+    title: hire.title || hire.job_title || '',
+    department,
+    ou,
+    acl: getACLForDepartment(department),
+    company: "PT. Merdeka Tsingshan Indonesia",
+    office: "Morowali"
+  };
+}
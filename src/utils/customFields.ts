@@ -0,0 +1,38 @@
+import { CustomFieldDefinition, CustomFieldValues } from "@/types/types";
+
+export const CUSTOM_FIELD_PREFIX = "custom.";
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldDefinition["type"], string> = {
+  text: "Text",
+  select: "Dropdown",
+  date: "Date",
+  boolean: "Yes / No",
+};
+
+/**
+ * Custom fields the given role can see and fill in. Admins see every field; an empty visibleTo means everyone.
+ * The server applies the same rule to the values it returns.
+ */
+export function visibleCustomFields(fields: CustomFieldDefinition[] | undefined, role: string | undefined): CustomFieldDefinition[] {
+  return (fields || []).filter(field => role === "admin" || field.visibleTo.length === 0 || field.visibleTo.includes(role || ""));
+}
+
+/**
+ * A custom value as shown in the hire details and the hires table
+ */
+export function formatCustomValue(field: CustomFieldDefinition, values: CustomFieldValues | undefined): string {
+  const value = values?.[field.key];
+  if (value === undefined || value === null || value === "") return "";
+  if (field.type === "boolean") return value ? "Yes" : "No";
+  if (field.type === "date") return new Date(String(value)).toLocaleDateString();
+  return String(value);
+}
+
+/**
+ * Required fields left empty, as labels for a validation message
+ */
+export function missingRequiredFields(fields: CustomFieldDefinition[], values: CustomFieldValues | undefined): string[] {
+  return fields
+    .filter(field => field.required && (values?.[field.key] === undefined || values?.[field.key] === null || values?.[field.key] === ""))
+    .map(field => field.label);
+}
@@ -0,0 +1,63 @@
+import { ChecklistItem, NewHire } from "@/types/types";
+
+// Catch-all column for hires whose value isn't one of the board's columns
+export const OTHER_COLUMN_ID = "__other__";
+
+export interface BoardColumn {
+  id: string;
+  label: string;
+  value: string | null; // null for the catch-all column, which cards can't be dropped on
+}
+
+export interface BoardGrouping {
+  id: string;
+  label: string;
+  field: keyof NewHire;
+  columns: BoardColumn[];
+}
+
+/**
+ * Ways the board can split hires into columns: by account status, or by the stages
+ * of any staged item on the default onboarding checklist
+ */
+export function getBoardGroupings(accountStatuses: string[], checklist: ChecklistItem[]): BoardGrouping[] {
+  const groupings: BoardGrouping[] = [{
+    id: "account_creation_status",
+    label: "Account status",
+    field: "account_creation_status",
+    columns: accountStatuses.map(status => ({ id: status, label: status, value: status })),
+  }];
+
+  for (const item of checklist) {
+    if (item.condition !== "stages" || !item.stages?.length || item.field === "account_creation_status") continue;
+    groupings.push({
+      id: item.id,
+      label: `${item.label} stage`,
+      field: item.field as keyof NewHire,
+      columns: item.stages.map(stage => ({ id: stage.value, label: stage.value, value: stage.value })),
+    });
+  }
+
+  return groupings;
+}
+
+/**
+ * Sort hires into the grouping's columns. Hires matching no column land in a leading
+ * catch-all column, which is only shown when it has cards.
+ */
+export function groupHiresIntoColumns(hires: NewHire[], grouping: BoardGrouping): { column: BoardColumn; hires: NewHire[] }[] {
+  const other: BoardColumn = {
+    id: OTHER_COLUMN_ID,
+    label: grouping.id === "account_creation_status" ? "Other" : "Not started",
+    value: null,
+  };
+  const lanes = [other, ...grouping.columns].map(column => ({ column, hires: [] as NewHire[] }));
+
+  for (const hire of hires) {
+    const value = hire[grouping.field];
+    const lane = lanes.find(l => l.column.value !== null && l.column.value === value) || lanes[0];
+    lane.hires.push(hire);
+  }
+
+  return lanes.filter(lane => lane.column.value !== null || lane.hires.length > 0);
+}
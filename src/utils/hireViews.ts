@@ -0,0 +1,103 @@
+import { HireColumn, HireFilters, HireViewState } from "@/types/types";
+
+// Hideable columns in table order; name, progress and actions are always shown
+export const HIRE_COLUMNS: { key: HireColumn; label: string }[] = [
+  { key: "title", label: "Title" },
+  { key: "department", label: "Department" },
+  { key: "email", label: "Email" },
+  { key: "on_site_date", label: "Onsite Date" },
+  { key: "license", label: "License" },
+  { key: "ict_support_pic", label: "ICT Support PIC" },
+];
+
+export const EMPTY_FILTERS: HireFilters = {
+  name: "",
+  title: "",
+  department: "",
+  email: "",
+  progress: "",
+  sla: "",
+  license: "",
+  ictSupportPic: "",
+};
+
+// Progress filter values understood by GET /hires; "range" options are the detailed percentage bands
+export const PROGRESS_FILTER_OPTIONS: { value: string; label: string; group: "status" | "range" }[] = [
+  { value: "not-started", label: "Not Started (0%)", group: "status" },
+  { value: "in-progress", label: "In Progress (1-99%)", group: "status" },
+  { value: "completed", label: "Completed (100%)", group: "status" },
+  { value: "at-risk", label: "At Risk (<50%)", group: "status" },
+  { value: "nearly-done", label: "Nearly Done (≥75%)", group: "status" },
+  { value: "0-25", label: "0-25%", group: "range" },
+  { value: "26-50", label: "26-50%", group: "range" },
+  { value: "51-75", label: "51-75%", group: "range" },
+  { value: "76-100", label: "76-100%", group: "range" },
+];
+
+// Deadline filter values understood by GET /hires
+export const SLA_FILTER_OPTIONS: { value: string; label: string }[] = [
+  { value: "overdue", label: "Overdue items" },
+  { value: "on-track", label: "On track" },
+];
+
+const FILTER_KEYS = Object.keys(EMPTY_FILTERS) as (keyof HireFilters)[];
+const ALL_COLUMNS = HIRE_COLUMNS.map(column => column.key);
+
+// Custom field columns are hidden unless a view or link asks for them
+const isCustomColumn = (column: string): column is `custom.${string}` => /^custom\.[a-z][a-z0-9_]*$/.test(column);
+
+/**
+ * Write a hires list state to URL query parameters, so the view can be shared as a link.
+ * Defaults are left out to keep links short.
+ */
+export function viewStateToSearchParams(state: HireViewState, viewId?: string | null): URLSearchParams {
+  const params = new URLSearchParams();
+  if (viewId) params.set("view", viewId);
+  if (state.q) params.set("q", state.q);
+  for (const key of FILTER_KEYS) {
+    if (state.filters[key]) params.set(key, state.filters[key] as string);
+  }
+  if (state.sortField && state.sortDirection) params.set("sort", `${state.sortField}:${state.sortDirection}`);
+  if (state.columns.length !== ALL_COLUMNS.length || state.columns.some(isCustomColumn)) {
+    params.set("cols", state.columns.join(","));
+  }
+  if (state.pageSize) params.set("size", String(state.pageSize));
+  return params;
+}
+
+/**
+ * Read a hires list state back from URL query parameters - null when the URL carries none
+ */
+export function searchParamsToViewState(params: URLSearchParams): HireViewState | null {
+  const keys = ["q", "sort", "cols", "size", ...FILTER_KEYS];
+  if (!keys.some(key => params.has(key))) return null;
+
+  const filters: Partial<HireFilters> = {};
+  for (const key of FILTER_KEYS) {
+    const value = params.get(key);
+    if (value) filters[key] = value;
+  }
+
+  const [sortField, sortDirection] = (params.get("sort") || "").split(":");
+  const cols = params.get("cols");
+  const size = Number(params.get("size"));
+
+  return {
+    q: params.get("q") || "",
+    filters,
+    sortField: sortField && (sortDirection === "asc" || sortDirection === "desc") ? sortField : null,
+    sortDirection: sortField && (sortDirection === "asc" || sortDirection === "desc") ? sortDirection : null,
+    columns: cols === null ? ALL_COLUMNS : [
+      ...ALL_COLUMNS.filter(column => cols.split(",").includes(column)),
+      ...cols.split(",").filter(isCustomColumn),
+    ],
+    pageSize: size || null,
+  };
+}
+
+/**
+ * Whether two states show the same hires the same way, used to flag unsaved changes to a view
+ */
+export function isSameViewState(a: HireViewState, b: HireViewState): boolean {
+  return viewStateToSearchParams(a).toString() === viewStateToSearchParams(b).toString();
+}
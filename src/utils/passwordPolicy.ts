@@ -0,0 +1,177 @@
+import { PasswordPolicy } from "@/types/types";
+
+// Mirrors the rules in src/server/utils/passwordPolicy.js, which has the final say before AD account creation.
+// Keep DEFAULT_PASSWORD_POLICY and validatePassword in sync with it.
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 12,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumbers: true,
+  requireSymbols: true,
+  disallowNameParts: true,
+  bannedWords: ["password", "welcome", "qwerty", "letmein", "merdeka", "tsingshan", "mb23"],
+  generator: "random",
+  passphraseWords: 4,
+};
+
+// AD refuses passwords shorter than this whatever the policy says
+const AD_MINIMUM_LENGTH = 7;
+
+export interface PasswordContext {
+  name?: string;
+  username?: string;
+}
+
+export interface PasswordStrength {
+  score: number; // 0 (very weak) to 4 (strong)
+  label: string;
+  errors: string[];
+}
+
+// Undo common substitutions so "P4ssw0rd" is caught by a ban on "password"
+const normalizeForComparison = (value: string) => value
+  .toLowerCase()
+  .replace(/4|@/g, "a")
+  .replace(/3/g, "e")
+  .replace(/1|!/g, "i")
+  .replace(/0/g, "o")
+  .replace(/\$|5/g, "s")
+  .replace(/7/g, "t");
+
+/**
+ * Check a password against the policy. Returns a list of problems - empty when acceptable.
+ */
+export function validatePassword(password: string, policy: PasswordPolicy, context: PasswordContext = {}): string[] {
+  const errors: string[] = [];
+  const value = password || "";
+  const minLength = Math.max(policy.minLength, AD_MINIMUM_LENGTH);
+
+  if (value.length < minLength) errors.push(`Must be at least ${minLength} characters`);
+  if (policy.requireUppercase && !/[A-Z]/.test(value)) errors.push("Must contain an uppercase letter");
+  if (policy.requireLowercase && !/[a-z]/.test(value)) errors.push("Must contain a lowercase letter");
+  if (policy.requireNumbers && !/[0-9]/.test(value)) errors.push("Must contain a number");
+  if (policy.requireSymbols && !/[^A-Za-z0-9]/.test(value)) errors.push("Must contain a symbol");
+
+  const normalized = normalizeForComparison(value);
+  const banned = (policy.bannedWords || [])
+    .map(word => word.trim())
+    .filter(Boolean)
+    .find(word => normalized.includes(normalizeForComparison(word)));
+  if (banned) errors.push(`Must not contain "${banned}"`);
+
+  if (policy.disallowNameParts) {
+    const nameParts = [context.name, context.username]
+      .filter(Boolean)
+      .flatMap(part => String(part).split(/[\s._@-]+/))
+      .filter(part => part.length >= 3);
+    if (nameParts.some(part => normalized.includes(normalizeForComparison(part)))) {
+      errors.push("Must not contain the user's name or username");
+    }
+  }
+
+  return errors;
+}
+
+const STRENGTH_LABELS = ["Very weak", "Weak", "Fair", "Good", "Strong"];
+
+/**
+ * Rough strength estimate from length and character variety, for live feedback while typing.
+ * A password that breaks the policy never rates above "Weak".
+ */
+export function getPasswordStrength(password: string, policy: PasswordPolicy, context: PasswordContext = {}): PasswordStrength {
+  const errors = validatePassword(password, policy, context);
+  if (!password) return { score: 0, label: STRENGTH_LABELS[0], errors };
+
+  const poolSize = [
+    /[a-z]/.test(password) ? 26 : 0,
+    /[A-Z]/.test(password) ? 26 : 0,
+    /[0-9]/.test(password) ? 10 : 0,
+    /[^A-Za-z0-9]/.test(password) ? 33 : 0,
+  ].reduce((sum, size) => sum + size, 0);
+  const entropy = password.length * Math.log2(Math.max(poolSize, 1));
+
+  let score = entropy < 28 ? 0 : entropy < 40 ? 1 : entropy < 60 ? 2 : entropy < 80 ? 3 : 4;
+  if (errors.length > 0) score = Math.min(score, 1);
+
+  return { score, label: STRENGTH_LABELS[score], errors };
+}
+
+// Look-alike characters (0/O, 1/l/I) are left out so passwords can be read out over the phone
+const UPPERCASE = "ABCDEFGHJKLMNPQRSTUVWXYZ";
+const LOWERCASE = "abcdefghijkmnopqrstuvwxyz";
+const NUMBERS = "23456789";
+const SYMBOLS = "!#$%&*+=?@";
+
+const PASSPHRASE_WORDS = [
+  "apple", "anchor", "basket", "beacon", "blossom", "bridge", "canyon", "castle", "cedar", "cloud",
+  "comet", "copper", "coral", "crystal", "delta", "desert", "dolphin", "eagle", "ember", "falcon",
+  "forest", "galaxy", "garden", "glacier", "harbor", "hazel", "horizon", "island", "jasmine", "jungle",
+  "kettle", "lagoon", "lantern", "lemon", "maple", "marble", "meadow", "mango", "nectar", "nickel",
+  "ocean", "orbit", "orchid", "paddle", "panda", "pebble", "pepper", "planet", "prism", "quartz",
+  "rabbit", "raven", "river", "rocket", "saddle", "salmon", "shadow", "silver", "sparrow", "spruce",
+  "summit", "sunset", "tiger", "timber", "tulip", "tunnel", "velvet", "violet", "walnut", "willow",
+];
+
+// Unbiased random integer in [0, max) from the browser's CSPRNG
+const randomIndex = (max: number) => {
+  const limit = Math.floor(0x100000000 / max) * max;
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= limit);
+  return buffer[0] % max;
+};
+
+const pick = (chars: string) => chars[randomIndex(chars.length)];
+
+const shuffle = (chars: string[]) => {
+  for (let i = chars.length - 1; i > 0; i--) {
+    const j = randomIndex(i + 1);
+    [chars[i], chars[j]] = [chars[j], chars[i]];
+  }
+  return chars;
+};
+
+const generateRandom = (policy: PasswordPolicy) => {
+  const length = Math.max(policy.minLength, 14);
+  const required = [
+    policy.requireUppercase ? UPPERCASE : "",
+    policy.requireLowercase ? LOWERCASE : "",
+    policy.requireNumbers ? NUMBERS : "",
+    policy.requireSymbols ? SYMBOLS : "",
+  ].filter(Boolean);
+  const all = UPPERCASE + LOWERCASE + NUMBERS + SYMBOLS;
+
+  // One of each required class, the rest from everything, then shuffled
+  const chars = required.map(pick);
+  while (chars.length < length) chars.push(pick(all));
+  return shuffle(chars).join("");
+};
+
+const generatePassphrase = (policy: PasswordPolicy) => {
+  const words: string[] = [];
+  for (let i = 0; i < policy.passphraseWords; i++) {
+    const word = PASSPHRASE_WORDS[randomIndex(PASSPHRASE_WORDS.length)];
+    words.push(word[0].toUpperCase() + word.slice(1));
+  }
+  let passphrase = words.join("-") + pick(NUMBERS) + pick(NUMBERS);
+  while (passphrase.length < policy.minLength) {
+    passphrase += "-" + PASSPHRASE_WORDS[randomIndex(PASSPHRASE_WORDS.length)];
+  }
+  return passphrase;
+};
+
+/**
+ * Generate an initial password that satisfies the policy using its configured strategy
+ */
+export function generatePassword(policy: PasswordPolicy, context: PasswordContext = {}): string {
+  const generate = policy.generator === "passphrase" ? generatePassphrase : generateRandom;
+
+  // Retry in the rare case a banned word or the hire's name turns up by chance
+  let password = generate(policy);
+  for (let attempt = 0; attempt < 20 && validatePassword(password, policy, context).length > 0; attempt++) {
+    password = generate(policy);
+  }
+  return password;
+}
@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildAuditEvent } from '../src/server/services/auditService.js';
+
+test('actor and request ID come from the request, details are stored as JSON', () => {
+  const event = buildAuditEvent({
+    req: { user: { username: 'agnes' }, id: 'req-123' },
+    targetId: 'hire-1',
+    action: 'UPDATE',
+    message: 'Record updated: title',
+    details: { title: 'Engineer' },
+    oldValues: { title: 'Intern' },
+    newValues: { title: 'Engineer' }
+  });
+
+  assert.equal(event.actor, 'agnes');
+  assert.equal(event.request_id, 'req-123');
+  assert.equal(event.target_type, 'hire');
+  assert.equal(event.target_id, 'hire-1');
+  assert.equal(event.status, 'SUCCESS');
+  assert.equal(event.details, '{"title":"Engineer"}');
+  assert.equal(event.old_values, '{"title":"Intern"}');
+  assert.ok(event.id);
+  assert.ok(event.occurred_at);
+});
+
+test('work outside a request is recorded as system unless an actor is given', () => {
+  const scheduled = buildAuditEvent({ targetId: 'hire-1', action: 'PASSWORD_PURGED' });
+  assert.equal(scheduled.actor, 'system');
+  assert.equal(scheduled.request_id, null);
+  assert.equal(scheduled.details, null);
+
+  const queued = buildAuditEvent({ actor: 'budi', requestId: 'req-456', targetId: 'hire-1', action: 'AD_ACCOUNT_CREATED' });
+  assert.equal(queued.actor, 'budi');
+  assert.equal(queued.request_id, 'req-456');
+});
+
+test('actions, statuses, targets and details are checked', () => {
+  assert.throws(() => buildAuditEvent({ targetId: 'hire-1', action: 'remove_distribution_group' }), /Unknown audit action/);
+  assert.throws(() => buildAuditEvent({ targetId: 'hire-1', action: 'UPDATE', status: 'Success' }), /Unknown audit status/);
+  assert.throws(() => buildAuditEvent({ targetType: 'user', targetId: 'u1', action: 'UPDATE' }), /Unknown audit target type/);
+  assert.throws(() => buildAuditEvent({ action: 'UPDATE' }), /no target ID/);
+  assert.throws(() => buildAuditEvent({ targetId: 'hire-1', action: 'UPDATE', details: 'free text' }), /must be an object/);
+});
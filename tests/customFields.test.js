@@ -0,0 +1,62 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  validateCustomFields,
+  visibleCustomFields,
+  mergeCustomValues,
+  readCustomValues,
+  redactAuditLog
+} from '../src/server/utils/customFields.js';
+
+const fields = [
+  { key: 'cost_centre', label: 'Cost Centre', type: 'text', required: true },
+  { key: 'shift', label: 'Shift', type: 'select', options: ['Day', 'Night'] },
+  { key: 'badge_issued', label: 'Badge Issued', type: 'boolean' },
+  { key: 'medical_date', label: 'Medical Check', type: 'date', visibleTo: ['admin'] }
+];
+
+test('definitions need unique slug keys, known types and select options', () => {
+  assert.equal(validateCustomFields(fields), null);
+  assert.match(validateCustomFields([{ key: 'Cost Centre', label: 'Cost', type: 'text' }]), /key/);
+  assert.match(validateCustomFields([fields[0], { ...fields[0] }]), /More than one/);
+  assert.match(validateCustomFields([{ key: 'a', label: 'A', type: 'number' }]), /unknown type/);
+  assert.match(validateCustomFields([{ key: 'a', label: 'A', type: 'select', options: [] }]), /option/);
+  assert.match(validateCustomFields([{ key: 'a', label: 'A', type: 'text', visibleTo: ['guest'] }]), /roles/);
+});
+
+test('fields limited to a role are hidden from other roles but never from admins', () => {
+  assert.deepEqual(visibleCustomFields(fields, 'support').map(field => field.key), ['cost_centre', 'shift', 'badge_issued']);
+  assert.equal(visibleCustomFields(fields, 'admin').length, 4);
+});
+
+test('submitted values are coerced, blanks cleared and required fields enforced', () => {
+  const result = mergeCustomValues(null, { cost_centre: ' CC-10 ', shift: 'night', badge_issued: 'yes' }, fields);
+  assert.deepEqual(result.values, { cost_centre: 'CC-10', shift: 'Night', badge_issued: true });
+
+  assert.match(mergeCustomValues(null, { shift: 'Day' }, fields).error, /Cost Centre" is required/);
+  assert.match(mergeCustomValues(null, { cost_centre: 'x', shift: 'Evening' }, fields).error, /one of/);
+  assert.match(mergeCustomValues(null, { cost_centre: 'x', medical_date: '31/01/2026' }, fields).error, /date/);
+
+  const cleared = mergeCustomValues(result.stored, { shift: '' }, fields);
+  assert.deepEqual(cleared.values, { cost_centre: 'CC-10', badge_issued: true });
+});
+
+test('a role editing its visible fields keeps the hidden values it cannot see', () => {
+  const stored = JSON.stringify({ cost_centre: 'CC-10', medical_date: '2026-01-31' });
+  const support = visibleCustomFields(fields, 'support');
+  const result = mergeCustomValues(stored, { cost_centre: 'CC-20', medical_date: '2000-01-01' }, support);
+
+  assert.deepEqual(JSON.parse(result.stored), { cost_centre: 'CC-20', medical_date: '2026-01-31' });
+  assert.deepEqual(readCustomValues(result.stored, support), { cost_centre: 'CC-20' });
+});
+
+test('audit logs only show the custom values the reader can see', () => {
+  const log = {
+    id: 1,
+    old_values: JSON.stringify({ custom_fields: JSON.stringify({ cost_centre: 'CC-10', medical_date: '2026-01-31' }) }),
+    details: 'Created'
+  };
+  const redacted = redactAuditLog(log, visibleCustomFields(fields, 'support'));
+  assert.deepEqual(JSON.parse(JSON.parse(redacted.old_values).custom_fields), { cost_centre: 'CC-10' });
+  assert.equal(redacted.details, 'Created');
+});
@@ -0,0 +1,31 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_DOCUMENT_TYPES,
+  getDocumentTypes,
+  validateDocumentTypes,
+  missingDocumentTypes
+} from '../src/server/utils/documentTypes.js';
+
+test('the default types are used until an admin saves a list, even an empty one', () => {
+  assert.equal(getDocumentTypes({}), DEFAULT_DOCUMENT_TYPES);
+  assert.deepEqual(getDocumentTypes({ documentTypes: [] }), []);
+});
+
+test('definitions need a label and a unique slug key', () => {
+  assert.equal(validateDocumentTypes(DEFAULT_DOCUMENT_TYPES), null);
+  assert.match(validateDocumentTypes({}), /list/);
+  assert.match(validateDocumentTypes([{ key: 'nda', label: ' ' }]), /label/);
+  assert.match(validateDocumentTypes([{ key: 'Signed Contract', label: 'Contract' }]), /key/);
+  assert.match(validateDocumentTypes([{ key: 'nda', label: 'NDA' }, { key: 'nda', label: 'Other NDA' }]), /More than one/);
+});
+
+test('only required types without an upload are missing', () => {
+  const documents = [
+    { document_type: 'signed_contract' },
+    { document_type: 'signed_contract' },
+    { document_type: 'retired_type' }
+  ];
+  assert.deepEqual(missingDocumentTypes(DEFAULT_DOCUMENT_TYPES, documents).map(type => type.key), ['id_card', 'nda']);
+  assert.deepEqual(missingDocumentTypes(DEFAULT_DOCUMENT_TYPES, []).map(type => type.key), ['signed_contract', 'id_card', 'nda']);
+});
@@ -0,0 +1,36 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createDuplicateDetector, describeDuplicate, normalizePhone } from '../src/server/utils/duplicateDetection.js';
+
+const existing = [
+  { id: '1', name: 'Agnes Wijaya', email: 'agnes.wijaya@example.com', phone_number: '0812-3456-7890', employee_id: 'MTI000123' },
+  { id: '2', name: 'Budi Santoso', email: 'budi.santoso@example.com', phone_number: null, employee_id: null }
+];
+
+test('local and international phone formats compare equal', () => {
+  assert.equal(normalizePhone('0812-3456-7890'), normalizePhone('+62 812 3456 7890'));
+  assert.equal(normalizePhone('123'), '');
+});
+
+test('exact keys and similar names are both reported, strongest match first', () => {
+  const [match] = createDuplicateDetector(existing).find({
+    name: 'Agnes Wijayah',
+    email: 'AGNES.WIJAYA@example.com',
+    phone_number: '+62 812 3456 7890'
+  });
+  assert.equal(match.hire.id, '1');
+  assert.deepEqual(match.reasons, ['email', 'phone', 'name']);
+  assert.equal(match.score, 0);
+});
+
+test('different people are not flagged', () => {
+  const matches = createDuplicateDetector(existing).find({ name: 'Citra Lestari', email: 'citra@example.com' });
+  assert.deepEqual(matches, []);
+});
+
+test('hires added during an import are matched by later rows', () => {
+  const detector = createDuplicateDetector(existing);
+  detector.add({ id: '3', name: 'Citra Lestari', employee_id: 'MTI000999' });
+  const [match] = detector.find({ name: 'Someone Else', employee_id: 'mti000999' });
+  assert.equal(describeDuplicate(match), 'Possible duplicate of "Citra Lestari" (matching employee id)');
+});
@@ -0,0 +1,60 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLocalStorage, createStorage, getStorageConfig, hashContent, isStorageKey } from '../src/server/services/fileStorage.js';
+
+const readBody = async (body) => {
+  const chunks = [];
+  for await (const chunk of body) chunks.push(chunk);
+  return Buffer.concat(chunks);
+};
+
+test('only folder/file keys are storage keys, not old disk paths or escapes', () => {
+  assert.equal(isStorageKey('srf/abc_srf_1700000000000.pdf'), true);
+  assert.equal(isStorageKey('comments/abc_comment_1.png'), true);
+  assert.equal(isStorageKey('/app/uploads/srf/abc_srf_1.pdf'), false);
+  assert.equal(isStorageKey('uploads/srf/abc_srf_1.pdf'), false);
+  assert.equal(isStorageKey('srf/..'), false);
+  assert.equal(isStorageKey('srf/../settings.json'), false);
+  assert.equal(isStorageKey('other/file.pdf'), false);
+});
+
+test('local storage keeps, streams and removes files under its root', async () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'file-storage-'));
+  try {
+    const storage = createLocalStorage(root);
+    const content = Buffer.from('%PDF-1.4 test');
+
+    await storage.put('srf/hire_srf_1.pdf', content);
+    assert.equal(fs.existsSync(path.join(root, 'srf', 'hire_srf_1.pdf')), true);
+
+    const { body, size } = await storage.get('srf/hire_srf_1.pdf');
+    assert.equal(size, content.length);
+    assert.deepEqual(await readBody(body), content);
+
+    await storage.remove('srf/hire_srf_1.pdf');
+    assert.equal(await storage.exists('srf/hire_srf_1.pdf'), false);
+    await assert.rejects(storage.get('srf/hire_srf_1.pdf'), error => error.notFound === true);
+    await assert.rejects(storage.put('/etc/passwd', content), /Invalid storage key/);
+  } finally {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+});
+
+test('the driver and S3 settings come from the environment', () => {
+  assert.equal(getStorageConfig({}).driver, 'local');
+
+  const config = getStorageConfig({ FILE_STORAGE_DRIVER: 'S3', S3_ENDPOINT: 'http://localhost:9000', S3_BUCKET: 'files' });
+  assert.equal(config.driver, 's3');
+  assert.equal(config.s3.forcePathStyle, true);
+  assert.equal(createStorage(config).driver, 's3');
+
+  assert.throws(() => createStorage({ ...config, s3: { ...config.s3, bucket: undefined } }), /S3_BUCKET/);
+  assert.throws(() => createStorage({ ...config, driver: 'ftp' }), /Unknown file storage driver/);
+});
+
+test('content hashes are hex SHA-256', () => {
+  assert.equal(hashContent(Buffer.from('abc')), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+});
@@ -0,0 +1,50 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildHiresCalendar, getReadiness } from '../src/server/utils/icsFeed.js';
+
+const hires = [
+  {
+    id: 'h1',
+    name: 'Budi Santoso',
+    title: 'Analyst',
+    department: 'Finance, Tax & Treasury',
+    on_site_date: new Date('2026-03-31'),
+    ict_support_pic: 'agnes',
+    progress_percentage: 80,
+    account_creation_status: 'Active',
+    updated_at: new Date('2026-03-01T08:30:00Z')
+  },
+  { id: 'h2', name: 'Citra Lestari', on_site_date: '2026-04-02', ict_support_pic: null, progress_percentage: 20 },
+  { id: 'h3', name: 'No Date', on_site_date: null }
+];
+
+const unfold = (ics) => ics.replace(/\r\n /g, '');
+
+test('one all-day event per dated hire, with the PIC and readiness', () => {
+  const ics = buildHiresCalendar(hires, { now: new Date('2026-03-01T00:00:00Z') });
+  const text = unfold(ics);
+
+  assert.equal((text.match(/BEGIN:VEVENT/g) || []).length, 2);
+  assert.match(text, /DTSTART;VALUE=DATE:20260331\r\nDTEND;VALUE=DATE:20260401/);
+  assert.match(text, /DTSTART;VALUE=DATE:20260402\r\nDTEND;VALUE=DATE:20260403/);
+  assert.match(text, /DTSTAMP:20260301T083000Z/);
+  assert.match(text, /SUMMARY:Budi Santoso arrives \(Finance\\, Tax & Treasury\) - PIC: agnes/);
+  assert.match(text, /SUMMARY:Citra Lestari arrives - PIC: Unassigned/);
+  assert.match(text, /CATEGORIES:On track/);
+  assert.match(text, /CATEGORIES:At risk/);
+  assert.match(text, /Title: Analyst\\nDepartment:/);
+});
+
+test('lines are CRLF terminated and folded at 75 octets', () => {
+  const ics = buildHiresCalendar([{ ...hires[0], title: 'x'.repeat(200) }]);
+  assert.ok(ics.endsWith('END:VCALENDAR\r\n'));
+  for (const line of ics.split('\r\n')) {
+    assert.ok(Buffer.byteLength(line) <= 75, `line too long: ${line}`);
+  }
+});
+
+test('readiness uses the same thresholds as the progress colours', () => {
+  assert.equal(getReadiness(0), 'At risk');
+  assert.equal(getReadiness(50), 'In progress');
+  assert.equal(getReadiness(75), 'On track');
+});
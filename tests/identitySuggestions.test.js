@@ -0,0 +1,38 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_IDENTITY_SETTINGS,
+  buildCandidates,
+  parseName,
+  validateIdentitySettings
+} from '../src/server/utils/identitySuggestions.js';
+
+test('names are split and stripped of accents', () => {
+  assert.deepEqual(parseName('  José Maria  Santoso '), { first: 'jose', middle: 'maria', last: 'santoso' });
+});
+
+test('candidates follow pattern order, numbered patterns last', () => {
+  const usernames = buildCandidates('Agnes Wijaya', DEFAULT_IDENTITY_SETTINGS).map(c => c.username);
+  assert.deepEqual(usernames.slice(0, 5), ['agnes.wijaya', 'agnes.w', 'a.wijaya', 'agnes.wijaya2', 'agnes.wijaya3']);
+});
+
+test('patterns needing a missing middle name are skipped', () => {
+  const patterns = buildCandidates('Agnes Wijaya', DEFAULT_IDENTITY_SETTINGS).map(c => c.pattern);
+  assert.ok(!patterns.includes('{first}.{middle}.{last}'));
+});
+
+test('single-word names fall back to the first name with a number', () => {
+  const usernames = buildCandidates('Budi', DEFAULT_IDENTITY_SETTINGS).map(c => c.username);
+  assert.deepEqual(usernames.slice(0, 3), ['budi', 'budi2', 'budi3']);
+});
+
+test('usernames are cut to 20 characters but emails keep the full name', () => {
+  const [candidate] = buildCandidates('Maximiliano Kusumawardhani', DEFAULT_IDENTITY_SETTINGS);
+  assert.equal(candidate.username, 'maximiliano.kusumawa');
+  assert.equal(candidate.email, 'maximiliano.kusumawardhani@merdekabattery.com');
+});
+
+test('unknown tokens are rejected', () => {
+  assert.match(validateIdentitySettings({ emailDomain: 'example.com', patterns: ['{first}.{surname}'] }), /unknown token/);
+  assert.equal(validateIdentitySettings(DEFAULT_IDENTITY_SETTINGS), null);
+});
@@ -0,0 +1,46 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import ExcelJS from 'exceljs';
+import { parseImportFile, suggestMapping, validateMapping, applyMapping } from '../src/server/utils/importParser.js';
+
+test('CSV headers keep their original spelling', async () => {
+  const csv = Buffer.from('Full Name,Job Title\nAgnes Wijaya, Geologist \n');
+  const { headers, rows } = await parseImportFile(csv, 'hires.csv');
+  assert.deepEqual(headers, ['Full Name', 'Job Title']);
+  assert.deepEqual(rows, [{ 'Full Name': 'Agnes Wijaya', 'Job Title': 'Geologist' }]);
+});
+
+test('XLSX cells are read as plain text, dates as yyyy-mm-dd', async () => {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet('Hires');
+  sheet.addRow(['Nama', 'Start Date', 'NIK']);
+  sheet.addRow(['Budi Santoso', new Date(Date.UTC(2025, 5, 1)), 12345]);
+  sheet.addRow([]);
+  const buffer = await workbook.xlsx.writeBuffer();
+
+  const { headers, rows } = await parseImportFile(Buffer.from(buffer), 'hr-export.xlsx');
+  assert.deepEqual(headers, ['Nama', 'Start Date', 'NIK']);
+  assert.deepEqual(rows, [{ Nama: 'Budi Santoso', 'Start Date': '2025-06-01', NIK: '12345' }]);
+});
+
+test('old .xls files are refused', async () => {
+  await assert.rejects(parseImportFile(Buffer.from(''), 'hires.xls'), /Unsupported file type/);
+});
+
+test('template names and common HR aliases are mapped automatically', () => {
+  assert.deepEqual(suggestMapping(['name', 'Job Title', 'Dept', 'E-mail Address', 'Supervisor', 'Unknown']), {
+    name: 'name',
+    'Job Title': 'title',
+    Dept: 'department',
+    'E-mail Address': 'email',
+    Supervisor: 'direct_report'
+  });
+});
+
+test('mappings must cover the required fields once each', () => {
+  const mapping = { Nama: 'name', Jabatan: 'title', Dept: 'department', Email: 'email' };
+  assert.match(validateMapping(mapping), /direct_report/);
+  assert.match(validateMapping({ ...mapping, Boss: 'direct_report', Other: 'email' }), /More than one column/);
+  assert.equal(validateMapping({ ...mapping, Boss: 'direct_report' }), null);
+  assert.deepEqual(applyMapping([{ Nama: 'Agnes', Ignored: 'x' }], { Nama: 'name' }), [{ name: 'Agnes' }]);
+});
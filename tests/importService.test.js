@@ -0,0 +1,50 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { planImport } from '../src/server/services/importService.js';
+
+const existingHires = [
+  { id: '1', name: 'Agnes Wijaya', title: 'Engineer', department: 'ICT', email: 'agnes.wijaya@example.com', direct_report: 'Budi', employee_id: 'MTI000123', license_assigned: false }
+];
+const validDepartments = ['ict', 'finance'];
+
+const row = (overrides) => ({ title: 'Engineer', department: 'ICT', direct_report: 'Budi', ...overrides });
+
+test('create mode rejects rows matching an existing hire', () => {
+  const plan = planImport([
+    row({ name: 'Agnes Wijaya', email: 'agnes.wijaya@example.com' }),
+    row({ name: 'Citra Lestari', email: 'citra@example.com' })
+  ], { mode: 'create', existingHires, validDepartments });
+
+  assert.deepEqual(plan.map(entry => entry.action), ['error', 'create']);
+  assert.deepEqual(plan.map(entry => entry.row), [2, 3]);
+});
+
+test('upsert mode updates matched hires and skips unchanged ones', () => {
+  const plan = planImport([
+    row({ name: 'Agnes Wijaya', email: 'agnes.wijaya@example.com', title: 'Senior Engineer', license_assigned: 'no' }),
+    row({ name: 'Agnes Wijaya', employee_id: 'MTI000123', email: 'agnes.wijaya@example.com' })
+  ], { mode: 'upsert', existingHires, validDepartments });
+
+  assert.equal(plan[0].action, 'update');
+  assert.equal(plan[0].hireId, '1');
+  assert.deepEqual(plan[0].changes, { title: { from: 'Engineer', to: 'Senior Engineer' } });
+  // The same hire can only be updated once per file
+  assert.equal(plan[1].action, 'error');
+
+  const [unchanged] = planImport([row({ name: 'Agnes Wijaya', employee_id: 'MTI000123', email: 'agnes.wijaya@example.com' })],
+    { mode: 'upsert', existingHires, validDepartments });
+  assert.equal(unchanged.action, 'skip');
+});
+
+test('invalid rows and duplicates within the file are errors, and passwords never reach the preview', () => {
+  const plan = planImport([
+    row({ name: 'Dewi', email: 'dewi@example.com', department: 'Marketing' }),
+    row({ name: 'Eko Prasetyo', email: '' }),
+    row({ name: 'Fajar Nugroho', email: 'fajar@example.com', password: 'Secret123!' }),
+    row({ name: 'Fajar Nugroho', email: 'fajar@example.com' })
+  ], { mode: 'upsert', existingHires, validDepartments });
+
+  assert.deepEqual(plan.map(entry => entry.action), ['error', 'error', 'create', 'error']);
+  assert.match(plan[1].error, /email/);
+  assert.equal(plan[2].data.password, undefined);
+});
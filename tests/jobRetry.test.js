@@ -0,0 +1,23 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { retryDelay, nextAttemptState } from '../src/server/utils/jobRetry.js';
+
+test('retry delay doubles from 30 seconds and is capped at an hour', () => {
+  assert.equal(retryDelay(1), 30000);
+  assert.equal(retryDelay(2), 60000);
+  assert.equal(retryDelay(4), 240000);
+  assert.equal(retryDelay(20), 3600000);
+});
+
+test('failed jobs retry until out of attempts', () => {
+  const now = new Date('2026-10-19T08:00:00.000Z');
+  assert.deepEqual(nextAttemptState({ attempts: 2, max_attempts: 5 }, false, now), {
+    status: 'retrying',
+    run_at: '2026-10-19T08:01:00.000Z'
+  });
+  assert.equal(nextAttemptState({ attempts: 5, max_attempts: 5 }, false, now).status, 'dead');
+});
+
+test('permanent failures go straight to dead', () => {
+  assert.deepEqual(nextAttemptState({ attempts: 1, max_attempts: 5 }, true), { status: 'dead', run_at: null });
+});
@@ -0,0 +1,17 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { extractMentions } from '../src/server/utils/mentions.js';
+
+const usernames = ['agnes', 'budi.santoso', 'it_admin'];
+
+test('mentions resolve to known accounts with their stored casing, once each', () => {
+  assert.deepEqual(
+    extractMentions('@Agnes can you check? cc @budi.santoso and @agnes again', usernames),
+    ['agnes', 'budi.santoso']
+  );
+});
+
+test('unknown names, emails and trailing punctuation are handled', () => {
+  assert.deepEqual(extractMentions('Thanks @it_admin. Mail agnes@example.com or @nobody', usernames), ['it_admin']);
+  assert.deepEqual(extractMentions('', usernames), []);
+});
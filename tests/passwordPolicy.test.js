@@ -0,0 +1,34 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_PASSWORD_POLICY,
+  validatePassword,
+  validatePolicy
+} from '../src/server/utils/passwordPolicy.js';
+
+test('strong password passes the default policy', () => {
+  assert.deepEqual(validatePassword('Kettle#Orbit92x', DEFAULT_PASSWORD_POLICY), []);
+});
+
+test('old first-name scheme is rejected', () => {
+  const errors = validatePassword('4gn3s#Mb23', DEFAULT_PASSWORD_POLICY, { name: 'Agnes Wijaya', username: 'agnes.wijaya' });
+  assert.ok(errors.includes('Must be at least 12 characters'));
+  assert.ok(errors.includes('Must not contain "mb23"'));
+  assert.ok(errors.includes('Must not contain the user\'s name or username'));
+});
+
+test('banned words are caught through leetspeak', () => {
+  const errors = validatePassword('Xy!P4ssw0rd2024', DEFAULT_PASSWORD_POLICY);
+  assert.deepEqual(errors, ['Must not contain "password"']);
+});
+
+test('character classes follow the policy switches', () => {
+  const policy = { ...DEFAULT_PASSWORD_POLICY, requireSymbols: false, requireNumbers: false };
+  assert.deepEqual(validatePassword('KettleOrbitLamp', policy), []);
+  assert.ok(validatePassword('KettleOrbitLamp', DEFAULT_PASSWORD_POLICY).includes('Must contain a symbol'));
+});
+
+test('policy below the AD minimum length is refused', () => {
+  assert.match(validatePolicy({ ...DEFAULT_PASSWORD_POLICY, minLength: 5 }), /between 7 and 128/);
+  assert.equal(validatePolicy(DEFAULT_PASSWORD_POLICY), null);
+});
@@ -0,0 +1,78 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  DEFAULT_CHECKLIST,
+  calculateProgress,
+  buildProgressSql,
+  getChecklistSettings,
+  validateChecklist
+} from '../src/server/utils/progressCalculator.js';
+
+const checklists = { default: DEFAULT_CHECKLIST, positionGrades: {} };
+
+test('fully onboarded hire reaches 100%', () => {
+  const hire = {
+    account_creation_status: 'Active',
+    laptop_ready: 'Done',
+    license_assigned: true,
+    status_srf: 1,
+    microsoft_365_license: 'E3',
+    distribution_list_sync_status: 'Synced'
+  };
+  assert.equal(calculateProgress(hire, checklists).percentage, 100);
+});
+
+test('stages give partial credit and M365 counts its full weight', () => {
+  const hire = { laptop_ready: 'ready', microsoft_365_license: 'E3', distribution_list_sync_status: 'Partial' };
+  const progress = calculateProgress(hire, checklists);
+  // laptop 12.5 + M365 15 + distribution lists 5
+  assert.equal(progress.percentage, 33);
+  assert.equal(progress.items.find(item => item.id === 'laptop').credit, 50);
+  assert.equal(progress.items.find(item => item.id === 'm365').complete, true);
+});
+
+test('"None" does not count as an assigned M365 license', () => {
+  const progress = calculateProgress({ microsoft_365_license: 'None' }, checklists);
+  assert.equal(progress.percentage, 0);
+});
+
+test('position grade checklist overrides the default and is normalised', () => {
+  const graded = {
+    ...checklists,
+    positionGrades: {
+      Intern: [{ id: 'account', label: 'Account', field: 'account_creation_status', condition: 'notEmpty', weight: 3 }]
+    }
+  };
+  const progress = calculateProgress({ position_grade: 'Intern', account_creation_status: 'Pending' }, graded);
+  assert.equal(progress.checklist, 'Intern');
+  assert.equal(progress.percentage, 100);
+});
+
+test('validateChecklist rejects unknown fields and mismatched conditions', () => {
+  assert.equal(validateChecklist(DEFAULT_CHECKLIST), null);
+  assert.match(validateChecklist([{ id: 'x', label: 'X', field: 'password', condition: 'notEmpty', weight: 1 }]), /unsupported field/);
+  assert.match(validateChecklist([{ id: 'x', label: 'X', field: 'status_srf', condition: 'stages', weight: 1 }]), /cannot use/);
+});
+
+test('buildProgressSql parameterises stage values and grades', () => {
+  const graded = { ...checklists, positionGrades: { Intern: [DEFAULT_CHECKLIST[0]] } };
+  const { sql, params } = buildProgressSql(graded);
+  assert.equal((sql.match(/\?/g) || []).length, params.length);
+  assert.equal(params[0], 'Intern');
+  assert.ok(!sql.includes('Intern'));
+});
+
+test('an empty or invalid grade checklist falls back to the default in both the calculator and the SQL', () => {
+  const invalid = { id: 'x', label: 'X', field: 'password', condition: 'notEmpty', weight: 1 };
+  const graded = getChecklistSettings({
+    onboardingChecklists: { default: [invalid], positionGrades: { Intern: [invalid], Contractor: [] } }
+  });
+  assert.equal(graded.default, DEFAULT_CHECKLIST);
+
+  for (const grade of ['Intern', 'Contractor']) {
+    const progress = calculateProgress({ position_grade: grade, account_creation_status: 'Active' }, graded);
+    assert.equal(progress.checklist, 'default');
+    assert.equal(progress.percentage, 20);
+  }
+  assert.deepEqual(buildProgressSql(graded), buildProgressSql(checklists));
+});
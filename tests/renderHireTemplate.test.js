@@ -0,0 +1,27 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { renderHireTemplate } from '../src/server/utils/emailUtils.js';
+
+const hire = { name: 'Budi <Santoso>', email: 'budi@example.com', on_site_date: new Date('2026-11-02T00:00:00.000Z'), notes: null };
+
+test('fills hire fields and escapes them for HTML', () => {
+  assert.equal(
+    renderHireTemplate('Welcome {{name}} ({{email}})', hire),
+    'Welcome Budi &lt;Santoso&gt; (budi@example.com)'
+  );
+});
+
+test('leaves values unescaped for plain text', () => {
+  assert.equal(renderHireTemplate('Welcome {{name}}', hire, {}, { html: false }), 'Welcome Budi <Santoso>');
+});
+
+test('formats dates and reads custom values', () => {
+  assert.equal(
+    renderHireTemplate('Start {{on_site_date}} at {{custom.site}}', hire, { site: 'Morowali' }),
+    'Start 2026-11-02 at Morowali'
+  );
+});
+
+test('leaves unknown and empty placeholders in place', () => {
+  assert.equal(renderHireTemplate('{{notes}} {{signature}}', hire), '{{notes}} {{signature}}');
+});
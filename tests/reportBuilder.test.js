@@ -0,0 +1,51 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import ExcelJS from 'exceljs';
+import {
+  DEFAULT_REPORT_TEMPLATES,
+  buildReport,
+  previewReport,
+  validateReportTemplates,
+  writeReportWorkbook
+} from '../src/server/utils/reportBuilder.js';
+
+const [licenseRequest, monthlyOnboarding] = DEFAULT_REPORT_TEMPLATES;
+
+const hires = [
+  { name: 'Budi Santoso', title: 'Analyst', department: 'Finance', email: 'budi@example.com', on_site_date: new Date('2026-03-09'), microsoft_365_license: true, srf_number: 'SRF/2026/0007' },
+  { name: 'Agnes Wijaya', title: 'Engineer', department: 'ICT', email: 'agnes@example.com', on_site_date: '2026-03-02', microsoft_365_license: false },
+  { name: 'Citra Lestari', title: 'Geologist', department: null, email: 'citra@example.com', on_site_date: null }
+];
+
+test('built-in templates are valid', () => {
+  assert.equal(validateReportTemplates(DEFAULT_REPORT_TEMPLATES), null);
+});
+
+test('invalid templates are rejected', () => {
+  assert.match(validateReportTemplates([{ ...licenseRequest, columns: [{ field: 'password', header: 'Password' }] }]), /unknown column/);
+  assert.match(validateReportTemplates([{ ...licenseRequest, columns: [{ field: 'name', header: 'Name', dateFormat: 'dd/MM/yyyy' }] }]), /date format/);
+  assert.match(validateReportTemplates([licenseRequest, { ...monthlyOnboarding, id: 'copy', name: 'license request' }]), /more than one/);
+  assert.match(validateReportTemplates([{ ...licenseRequest, groupBy: 'email' }]), /cannot be grouped/);
+});
+
+test('rows follow the template columns, ordered by on-site date', () => {
+  const [sheet] = buildReport(licenseRequest, hires);
+  const [preview] = previewReport(licenseRequest, [sheet]);
+
+  assert.equal(preview.name, 'License Request');
+  assert.deepEqual(preview.headers, ['SRF No.', 'Name', 'Title', 'Department', 'License Type', 'Email', 'Join Date']);
+  assert.deepEqual(preview.rows.map(row => row[1]), ['Agnes Wijaya', 'Budi Santoso', 'Citra Lestari']);
+  assert.deepEqual(preview.rows[1], ['SRF/2026/0007', 'Budi Santoso', 'Analyst', 'Finance', 'Yes', 'budi@example.com', '09/03/2026']);
+});
+
+test('grouped templates get one sheet per value, blanks last', async () => {
+  const sheets = buildReport(monthlyOnboarding, hires);
+  assert.deepEqual(sheets.map(sheet => sheet.name), ['Finance', 'ICT', 'Unassigned']);
+
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await writeReportWorkbook(monthlyOnboarding, sheets));
+  const ict = workbook.getWorksheet('ICT');
+  assert.equal(ict.getCell('A1').value, 'Employee ID');
+  assert.equal(ict.getCell('G2').value.toISOString().slice(0, 10), '2026-03-02');
+  assert.equal(ict.getCell('G2').numFmt, 'dd mmm yyyy');
+});
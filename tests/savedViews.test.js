@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { normalizeViewState, VIEW_COLUMNS } from '../src/server/utils/savedViews.js';
+
+test('unknown keys and empty filters are dropped, missing columns mean all columns', () => {
+  const { state, error } = normalizeViewState({
+    q: 'agnes',
+    filters: { department: 'ICT', name: '', password: 'x' },
+    sortField: 'on_site_date',
+    sortDirection: 'desc',
+    extra: true
+  });
+  assert.equal(error, undefined);
+  assert.deepEqual(state, {
+    q: 'agnes',
+    filters: { department: 'ICT' },
+    sortField: 'on_site_date',
+    sortDirection: 'desc',
+    columns: VIEW_COLUMNS,
+    pageSize: null
+  });
+});
+
+test('columns keep the table order and a half-set sort is cleared', () => {
+  const { state } = normalizeViewState({ columns: ['email', 'title'], sortField: 'name', sortDirection: null });
+  assert.deepEqual(state.columns, ['title', 'email']);
+  assert.equal(state.sortField, null);
+});
+
+test('invalid states are rejected', () => {
+  assert.ok(normalizeViewState(null).error);
+  assert.match(normalizeViewState({ columns: ['password'] }).error, /Columns/);
+  assert.match(normalizeViewState({ sortField: 'name', sortDirection: 'up' }).error, /direction/);
+  assert.match(normalizeViewState({ pageSize: 10 }).error, /Page size/);
+});
+
+test('custom field columns are kept after the built-in columns', () => {
+  const { state } = normalizeViewState({ columns: ['custom.cost_centre', 'email', 'custom.cost_centre'] });
+  assert.deepEqual(state.columns, ['email', 'custom.cost_centre']);
+  assert.match(normalizeViewState({ columns: ['custom.Bad Key'] }).error, /Columns/);
+});
@@ -0,0 +1,61 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CHECKLIST, calculateProgress } from '../src/server/utils/progressCalculator.js';
+import {
+  shiftBusinessDays,
+  calculateDeadlines,
+  deadlineCutoff,
+  buildOverdueSql
+} from '../src/server/utils/slaDeadlines.js';
+
+const checklists = { default: DEFAULT_CHECKLIST, positionGrades: {} };
+
+// Monday 19 October 2026
+const today = new Date(2026, 9, 19);
+
+const overdueIds = (hire) =>
+  calculateDeadlines(hire, checklists, calculateProgress(hire, checklists), today)
+    .filter(deadline => deadline.overdue)
+    .map(deadline => deadline.id);
+
+test('business days skip weekends in both directions', () => {
+  assert.equal(shiftBusinessDays('2026-10-19', 1), '2026-10-16');
+  assert.equal(shiftBusinessDays('2026-10-19', 3), '2026-10-14');
+  assert.equal(shiftBusinessDays('2026-10-16', -1), '2026-10-19');
+  assert.equal(shiftBusinessDays('2026-10-19', 0), '2026-10-19');
+});
+
+test('incomplete items past their deadline are overdue', () => {
+  // Arriving Tuesday: account (T-3), license (T-2) and SRF (T-5) are late, laptop (T-1) is due today
+  const hire = { on_site_date: '2026-10-20T00:00:00.000Z', license_assigned: true };
+  assert.deepEqual(overdueIds(hire), ['account', 'srf']);
+
+  const deadlines = calculateDeadlines(hire, checklists, calculateProgress(hire, checklists), today);
+  assert.equal(deadlines.find(deadline => deadline.id === 'laptop').due_date, '2026-10-19');
+  assert.equal(deadlines.find(deadline => deadline.id === 'license').complete, true);
+});
+
+test('leavers and hires without an on-site date have no deadlines', () => {
+  assert.deepEqual(calculateDeadlines({}, checklists, null, today), []);
+  assert.deepEqual(calculateDeadlines({ on_site_date: '2026-10-20', offboarding_status: 'Completed' }, checklists, null, today), []);
+});
+
+test('deadline cutoff agrees with the per-hire calculation', () => {
+  assert.equal(deadlineCutoff(3, today), '2026-10-22');
+  for (const days of [-2, 0, 1, 3, 5]) {
+    const cutoff = deadlineCutoff(days, today);
+    for (let offset = -10; offset <= 14; offset++) {
+      const onSite = new Date(2026, 9, 19 + offset);
+      const day = `2026-${String(onSite.getMonth() + 1).padStart(2, '0')}-${String(onSite.getDate()).padStart(2, '0')}`;
+      assert.equal(shiftBusinessDays(day, days) < '2026-10-19', day < cutoff, `${days} days, on site ${day}`);
+    }
+  }
+});
+
+test('overdue SQL has a placeholder for every param', () => {
+  const { sql, params } = buildOverdueSql(checklists, today);
+  assert.equal((sql.match(/\?/g) || []).length, params.length);
+  // One cutoff per item with a deadline, plus the completed stage values
+  assert.ok(params.includes('2026-10-22'));
+  assert.ok(params.includes('active'));
+});
@@ -0,0 +1,36 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SRF_TEMPLATE, buildSrfPdf, formatSrfNumber, getSrfTemplate, validateSrfTemplate } from '../src/server/utils/srfPdf.js';
+
+test('SRF numbers fill in the year and a zero-padded sequence', () => {
+  assert.equal(formatSrfNumber('SRF/{{year}}/{{seq}}', 2026, 42), 'SRF/2026/0042');
+  assert.equal(formatSrfNumber('MTI-{{seq}}', 2026, 12345), 'MTI-12345');
+});
+
+test('saved template values override the defaults one by one', () => {
+  const template = getSrfTemplate({ srfTemplate: { title: 'ICT Request' } });
+  assert.equal(template.title, 'ICT Request');
+  assert.equal(template.companyName, DEFAULT_SRF_TEMPLATE.companyName);
+});
+
+test('templates need a company, title and a number format with a sequence', () => {
+  assert.equal(validateSrfTemplate(DEFAULT_SRF_TEMPLATE), null);
+  assert.match(validateSrfTemplate({ ...DEFAULT_SRF_TEMPLATE, companyName: ' ' }), /companyName/);
+  assert.match(validateSrfTemplate({ ...DEFAULT_SRF_TEMPLATE, numberFormat: 'SRF/{{year}}' }), /\{\{seq\}\}/);
+  assert.match(validateSrfTemplate({ ...DEFAULT_SRF_TEMPLATE, signatures: 'HR' }), /Signature/);
+});
+
+test('the form renders as a PDF', async () => {
+  const hire = {
+    name: 'Budi Santoso',
+    title: 'Engineer',
+    department: 'Mining',
+    email: 'budi@example.com',
+    mailing_list: 'all-staff, mining',
+    microsoft_365_license: 'E3',
+    on_site_date: new Date('2026-11-02')
+  };
+  const pdf = await buildSrfPdf(hire, DEFAULT_SRF_TEMPLATE, 'SRF/2026/0001');
+  assert.equal(pdf.subarray(0, 5).toString(), '%PDF-');
+  assert.ok(pdf.length > 1000);
+});
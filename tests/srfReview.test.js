@@ -0,0 +1,34 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { checkSrfReview, srfStatusFor } from '../src/server/utils/srfReview.js';
+
+const older = { id: 'v1', version: 1, status: 'submitted' };
+const latest = { id: 'v2', version: 2, status: 'submitted' };
+
+test('the latest submitted version can be approved, or rejected with a reason', () => {
+  assert.equal(checkSrfReview({ version: latest, latest, decision: 'approved' }), null);
+  assert.equal(checkSrfReview({ version: latest, latest, decision: 'rejected', reason: 'Unsigned' }), null);
+  assert.match(checkSrfReview({ version: latest, latest, decision: 'rejected', reason: '  ' }), /reason/);
+  assert.match(checkSrfReview({ version: latest, latest, decision: 'maybe' }), /Decision/);
+});
+
+test('replaced and already reviewed versions cannot be reviewed', () => {
+  assert.match(checkSrfReview({ version: older, latest, decision: 'approved' }), /latest/);
+  const approved = { ...latest, status: 'approved' };
+  assert.match(checkSrfReview({ version: approved, latest: approved, decision: 'rejected', reason: 'x' }), /already been approved/);
+});
+
+test('status_srf only follows an approved latest version', () => {
+  assert.equal(srfStatusFor(undefined), false);
+  assert.equal(srfStatusFor(latest), false);
+  assert.equal(srfStatusFor({ ...latest, status: 'rejected' }), false);
+  assert.equal(srfStatusFor({ ...latest, status: 'approved' }), true);
+});
+
+test('the latest submitted version can be withdrawn without a reason, an approved one cannot', () => {
+  assert.equal(checkSrfReview({ version: latest, latest, decision: 'withdrawn' }), null);
+  assert.match(checkSrfReview({ version: older, latest, decision: 'withdrawn' }), /latest/);
+  const approved = { ...latest, status: 'approved' };
+  assert.match(checkSrfReview({ version: approved, latest: approved, decision: 'withdrawn' }), /already been approved/);
+  assert.equal(srfStatusFor({ ...latest, status: 'withdrawn' }), false);
+});